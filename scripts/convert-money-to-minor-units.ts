@@ -0,0 +1,76 @@
+import { DEFAULT_CURRENCY, minorUnitDigits } from '../src/money/money';
+import { hasRunStep, markStepRun, runUpgradeStep } from './upgrade-db';
+
+/**
+ * One-off step for databases from before amounts were stored as integer
+ * minor units (cents). Run it once with the app stopped, BEFORE starting the
+ * new version: on start-up `synchronize` turns the decimal columns into ints
+ * and would cut the cents off.
+ *
+ *   npm run upgrade:money
+ *
+ * Existing rows become USD (the default of the new `currency` columns), so
+ * every amount is multiplied by 100. The conversion is recorded in the
+ * `upgrade_step` table in the same transaction, and the `currency` columns
+ * are only added after that, so the script can be run again after failing
+ * at any point without multiplying anything twice.
+ */
+
+// [table, column, which rows]; columns a database doesn't have yet are skipped
+const AMOUNT_COLUMNS: [string, string, string?][] = [
+  ['product', 'price'],
+  ['order', 'totalAmount'],
+  ['order', 'taxAmount'],
+  ['order', 'discountAmount'],
+  ['order', 'shippingAmount'],
+  ['order_item', 'unitPrice'],
+  ['order_item', 'discountAmount'],
+  ['order_item', 'taxAmount'],
+  ['cart_item', 'unitPrice'],
+  ['coupon', 'minOrderValue'],
+  // PERCENTAGE coupons keep their percent
+  ['coupon', 'value', "`type` = 'FIXED_AMOUNT'"],
+  ['shipping_method', 'rate'],
+  ['shipping_method', 'ratePerKg'],
+  ['shipping_method', 'freeOverAmount'],
+];
+
+const STEP = 'convert-money-to-minor-units';
+
+const CURRENCY_TABLES = ['order', 'product', 'order_item'];
+
+runUpgradeStep(async (runner) => {
+  if (await hasRunStep(runner, STEP)) {
+    console.log('Amounts were already converted to minor units');
+  } else if (await runner.hasColumn('order', 'currency')) {
+    // Created by a version that already stored minor units
+    console.log('Amounts are already stored in minor units');
+  } else {
+    const factor = 10 ** minorUnitDigits(DEFAULT_CURRENCY);
+    await runner.startTransaction();
+    for (const [table, column, where] of AMOUNT_COLUMNS) {
+      if (!(await runner.hasColumn(table, column))) continue;
+      const result = await runner.query(
+        `UPDATE \`${table}\` SET \`${column}\` = ROUND(\`${column}\` * ?) ` +
+          `WHERE \`${column}\` IS NOT NULL${where ? ` AND ${where}` : ''}`,
+        [factor],
+      );
+      console.log(`${table}.${column}: ${result.affectedRows} rows converted`);
+    }
+    await markStepRun(runner, STEP);
+    await runner.commitTransaction();
+  }
+
+  // DDL commits on its own in MySQL, so this part only ever runs after the marker is in
+  for (const table of CURRENCY_TABLES) {
+    if (
+      !(await runner.hasTable(table)) ||
+      (await runner.hasColumn(table, 'currency'))
+    )
+      continue;
+    await runner.query(
+      `ALTER TABLE \`${table}\` ADD \`currency\` char(3) NOT NULL DEFAULT '${DEFAULT_CURRENCY}'`,
+    );
+  }
+  console.log(`Done: amounts are now minor units of ${DEFAULT_CURRENCY}`);
+});
@@ -0,0 +1,36 @@
+import { runUpgradeStep } from './upgrade-db';
+
+/**
+ * One-off step for databases from before products had stock. The new
+ * `stock` column starts at 0, which would leave every product sold out, so
+ * this adds it with a starting stock of your choice for all existing
+ * products. Run it with the app stopped, BEFORE starting the new version:
+ *
+ *   npm run upgrade:stock -- --stock=100
+ *
+ * Set the real numbers afterwards with the CSV export and import, or
+ * `PUT /products/:id`. Once the column exists the script changes nothing.
+ */
+const arg = process.argv.find((value) => value.startsWith('--stock='));
+const stock = arg ? Number(arg.slice('--stock='.length)) : NaN;
+
+runUpgradeStep(async (runner) => {
+  if (await runner.hasColumn('product', 'stock')) {
+    console.log(
+      'Products already have stock, nothing to do; set it per product with the CSV import or PUT /products/:id',
+    );
+    return;
+  }
+  if (!Number.isInteger(stock) || stock < 0) {
+    throw new Error(
+      'Pass the stock every existing product starts with, e.g. --stock=100',
+    );
+  }
+
+  // Existing rows take the column's default; new products start at 0 again
+  await runner.query(
+    `ALTER TABLE \`product\` ADD \`stock\` int NOT NULL DEFAULT ${stock}`,
+  );
+  await runner.query('ALTER TABLE `product` ALTER `stock` SET DEFAULT 0');
+  console.log(`Done: every product starts with ${stock} in stock`);
+});
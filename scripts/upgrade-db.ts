@@ -0,0 +1,61 @@
+import { ConfigModule } from '@nestjs/config';
+import { DataSource, QueryRunner } from 'typeorm';
+
+// Loads .env into process.env, as the app does on start-up
+ConfigModule.forRoot();
+
+// Steps that change data record themselves here, in the same transaction as
+// the change, so a rerun after a partial failure knows exactly what was done
+const UPGRADE_STEPS_TABLE = 'upgrade_step';
+
+export async function hasRunStep(runner: QueryRunner, name: string) {
+  await runner.query(
+    `CREATE TABLE IF NOT EXISTS \`${UPGRADE_STEPS_TABLE}\` (` +
+      '`name` varchar(100) NOT NULL PRIMARY KEY, ' +
+      '`ranAt` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP)',
+  );
+  const rows = await runner.query(
+    `SELECT 1 FROM \`${UPGRADE_STEPS_TABLE}\` WHERE \`name\` = ?`,
+    [name],
+  );
+  return rows.length > 0;
+}
+
+// Call inside the step's transaction, before committing it
+export async function markStepRun(runner: QueryRunner, name: string) {
+  await runner.query(
+    `INSERT INTO \`${UPGRADE_STEPS_TABLE}\` (\`name\`) VALUES (?)`,
+    [name],
+  );
+}
+
+/**
+ * Runs a one-off upgrade step against the app's database, without the
+ * entities: steps work on the schema of the version being upgraded from, and
+ * `synchronize` must not touch it before they ran.
+ */
+export async function runUpgradeStep(
+  step: (runner: QueryRunner) => Promise<void>,
+) {
+  const dataSource = new DataSource({
+    type: 'mysql',
+    host: process.env.DB_HOST,
+    port: Number(process.env.DB_PORT ?? 3306),
+    username: process.env.DB_USERNAME,
+    password: process.env.DB_PASSWORD,
+    database: process.env.DB_NAME,
+  });
+  let runner: QueryRunner | undefined;
+  try {
+    await dataSource.initialize();
+    runner = dataSource.createQueryRunner();
+    await step(runner);
+  } catch (error) {
+    if (runner?.isTransactionActive) await runner.rollbackTransaction();
+    console.error(error);
+    process.exitCode = 1;
+  } finally {
+    await runner?.release();
+    if (dataSource.isInitialized) await dataSource.destroy();
+  }
+}
@@ -0,0 +1,76 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { AddressesController } from './addresses.controller';
+import { AddressesService } from './addresses.service';
+
+describe('AddressesController', () => {
+  let controller: AddressesController;
+
+  const mockAddressesService = {
+    getAddresses: jest.fn(),
+    createAddress: jest.fn(),
+    updateAddress: jest.fn(),
+    deleteAddress: jest.fn(),
+  };
+
+  const userReq: any = { user: { userId: 1, role: 'user' } };
+  const adminReq: any = { user: { userId: 9, role: 'admin' } };
+
+  const dto = {
+    fullName: 'Test User',
+    line1: '1 Main St',
+    city: 'Springfield',
+    postalCode: '12345',
+    country: 'US',
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [AddressesController],
+      providers: [
+        { provide: AddressesService, useValue: mockAddressesService },
+      ],
+    }).compile();
+
+    controller = module.get<AddressesController>(AddressesController);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should list, create, update and delete the own addresses', async () => {
+    await controller.getAddresses(userReq, 1);
+    await controller.createAddress(userReq, 1, dto);
+    await controller.updateAddress(userReq, 1, 3, { city: 'Shelbyville' });
+    await controller.deleteAddress(userReq, 1, 3);
+
+    expect(mockAddressesService.getAddresses).toHaveBeenCalledWith(1);
+    expect(mockAddressesService.createAddress).toHaveBeenCalledWith(1, dto);
+    expect(mockAddressesService.updateAddress).toHaveBeenCalledWith(1, 3, {
+      city: 'Shelbyville',
+    });
+    expect(mockAddressesService.deleteAddress).toHaveBeenCalledWith(1, 3);
+  });
+
+  it('should let admins manage the addresses of any user', async () => {
+    await controller.getAddresses(adminReq, 5);
+
+    expect(mockAddressesService.getAddresses).toHaveBeenCalledWith(5);
+  });
+
+  it('should forbid access to the addresses of another user', () => {
+    expect(() => controller.getAddresses(userReq, 2)).toThrow(
+      new HttpException('Forbidden', HttpStatus.FORBIDDEN),
+    );
+    expect(() => controller.createAddress(userReq, 2, dto)).toThrow(
+      HttpException,
+    );
+    expect(mockAddressesService.getAddresses).not.toHaveBeenCalled();
+    expect(mockAddressesService.createAddress).not.toHaveBeenCalled();
+  });
+});
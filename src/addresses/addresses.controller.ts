@@ -0,0 +1,64 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Req,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { canAccessUser } from 'utils/canAccess';
+import { Roles } from 'utils/rolesDecorator';
+import { AddressesService } from './addresses.service';
+import { CreateAddressDto } from './dtos/CreateAddressDto';
+import { UpdateAddressDto } from './dtos/UpdateAddressDto';
+
+@ApiTags('addresses')
+@Controller('user/:id/addresses')
+export class AddressesController {
+  constructor(private addressesService: AddressesService) {}
+
+  @Roles('admin', 'user')
+  @Get()
+  getAddresses(@Req() req: any, @Param('id', ParseIntPipe) id: number) {
+    canAccessUser(req, id);
+    return this.addressesService.getAddresses(id);
+  }
+
+  @Roles('admin', 'user')
+  @Post()
+  createAddress(
+    @Req() req: any,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() createAddressDto: CreateAddressDto,
+  ) {
+    canAccessUser(req, id);
+    return this.addressesService.createAddress(id, createAddressDto);
+  }
+
+  @Roles('admin', 'user')
+  @Patch(':addressId')
+  updateAddress(
+    @Req() req: any,
+    @Param('id', ParseIntPipe) id: number,
+    @Param('addressId', ParseIntPipe) addressId: number,
+    @Body() updateAddressDto: UpdateAddressDto,
+  ) {
+    canAccessUser(req, id);
+    return this.addressesService.updateAddress(id, addressId, updateAddressDto);
+  }
+
+  @Roles('admin', 'user')
+  @Delete(':addressId')
+  deleteAddress(
+    @Req() req: any,
+    @Param('id', ParseIntPipe) id: number,
+    @Param('addressId', ParseIntPipe) addressId: number,
+  ) {
+    canAccessUser(req, id);
+    return this.addressesService.deleteAddress(id, addressId);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Address } from 'src/typeorm/entities/Address';
+import { AddressesController } from './addresses.controller';
+import { AddressesService } from './addresses.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Address])],
+  controllers: [AddressesController],
+  providers: [AddressesService],
+  exports: [AddressesService],
+})
+export class AddressesModule {}
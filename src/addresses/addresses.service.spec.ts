@@ -0,0 +1,240 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { AddressesService } from './addresses.service';
+import { Address } from 'src/typeorm/entities/Address';
+
+describe('AddressesService', () => {
+  let service: AddressesService;
+
+  const queryBuilder = {
+    update: jest.fn().mockReturnThis(),
+    set: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    execute: jest.fn(),
+  };
+
+  const mockAddressRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    count: jest.fn(),
+    create: jest.fn((address) => address),
+    save: jest.fn((address) => ({ id: 3, ...address })),
+    remove: jest.fn(),
+    manager: {
+      transaction: jest.fn((cb) => cb(mockEntityManager)),
+    },
+  };
+
+  const mockEntityManager = {
+    getRepository: jest.fn(() => mockAddressRepository),
+    createQueryBuilder: jest.fn(() => queryBuilder),
+  };
+
+  const addressParams = {
+    fullName: 'Test User',
+    line1: '1 Main St',
+    city: 'Springfield',
+    postalCode: '12345',
+    country: 'us',
+  };
+
+  const existingAddress = () => ({
+    id: 3,
+    ...addressParams,
+    country: 'US',
+    isDefaultShipping: true,
+    isDefaultBilling: true,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AddressesService,
+        {
+          provide: getRepositoryToken(Address),
+          useValue: mockAddressRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<AddressesService>(AddressesService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('getAddresses', () => {
+    it('should return the addresses of the user', async () => {
+      mockAddressRepository.find.mockResolvedValueOnce([existingAddress()]);
+
+      const result = await service.getAddresses(1);
+
+      expect(result).toEqual({
+        message: 'Addresses retrieved successfully',
+        addresses: [existingAddress()],
+      });
+      expect(mockAddressRepository.find).toHaveBeenCalledWith({
+        where: { user: { id: 1 } },
+        order: { id: 'ASC' },
+      });
+    });
+
+    it('should wrap unexpected errors', async () => {
+      mockAddressRepository.find.mockRejectedValueOnce(new Error('db down'));
+      jest.spyOn((service as any).logger, 'error').mockImplementation();
+
+      await expect(service.getAddresses(1)).rejects.toMatchObject({
+        status: HttpStatus.INTERNAL_SERVER_ERROR,
+      });
+    });
+  });
+
+  describe('createAddress', () => {
+    it('should make the first address the default for shipping and billing', async () => {
+      mockAddressRepository.count.mockResolvedValueOnce(0);
+
+      const result = await service.createAddress(1, addressParams);
+
+      expect(result.message).toBe('Address created successfully');
+      expect(result.address).toMatchObject({
+        id: 3,
+        user: { id: 1 },
+        country: 'US',
+        isDefaultShipping: true,
+        isDefaultBilling: true,
+      });
+      expect(queryBuilder.set).toHaveBeenCalledWith({
+        isDefaultShipping: false,
+      });
+      expect(queryBuilder.set).toHaveBeenCalledWith({
+        isDefaultBilling: false,
+      });
+      expect(queryBuilder.where).toHaveBeenCalledWith(
+        'userId = :userId AND id != :id',
+        {
+          userId: 1,
+          id: 3,
+        },
+      );
+    });
+
+    it('should not touch the defaults when adding another plain address', async () => {
+      mockAddressRepository.count.mockResolvedValueOnce(2);
+
+      const result = await service.createAddress(1, addressParams);
+
+      expect(result.address).toMatchObject({
+        isDefaultShipping: false,
+        isDefaultBilling: false,
+      });
+      expect(queryBuilder.execute).not.toHaveBeenCalled();
+    });
+
+    it('should move only the requested default to the new address', async () => {
+      mockAddressRepository.count.mockResolvedValueOnce(2);
+
+      await service.createAddress(1, {
+        ...addressParams,
+        isDefaultBilling: true,
+      });
+
+      expect(queryBuilder.set).toHaveBeenCalledTimes(1);
+      expect(queryBuilder.set).toHaveBeenCalledWith({
+        isDefaultBilling: false,
+      });
+    });
+  });
+
+  describe('updateAddress', () => {
+    it('should update an address of the user', async () => {
+      mockAddressRepository.findOne.mockResolvedValueOnce({
+        ...existingAddress(),
+        isDefaultShipping: false,
+        isDefaultBilling: false,
+      });
+
+      const result = await service.updateAddress(1, 3, {
+        city: 'Shelbyville',
+        country: 'ca',
+      });
+
+      expect(mockAddressRepository.findOne).toHaveBeenCalledWith({
+        where: { id: 3, user: { id: 1 } },
+      });
+      expect(result.address).toMatchObject({
+        city: 'Shelbyville',
+        country: 'CA',
+      });
+      expect(queryBuilder.execute).not.toHaveBeenCalled();
+    });
+
+    it('should throw NOT_FOUND for an address of someone else', async () => {
+      mockAddressRepository.findOne.mockResolvedValueOnce(null);
+
+      await expect(service.updateAddress(1, 99, { city: 'X' })).rejects.toThrow(
+        new HttpException('Address not found', HttpStatus.NOT_FOUND),
+      );
+      expect(mockAddressRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteAddress', () => {
+    it('should remove the address', async () => {
+      const address = existingAddress();
+      mockAddressRepository.findOne.mockResolvedValueOnce(address);
+
+      const result = await service.deleteAddress(1, 3);
+
+      expect(result).toEqual({ message: 'Address deleted successfully' });
+      expect(mockAddressRepository.remove).toHaveBeenCalledWith(address);
+    });
+
+    it('should throw NOT_FOUND when the address does not exist', async () => {
+      mockAddressRepository.findOne.mockResolvedValueOnce(null);
+
+      await expect(service.deleteAddress(1, 3)).rejects.toMatchObject({
+        status: HttpStatus.NOT_FOUND,
+      });
+    });
+  });
+
+  describe('resolveForOrder', () => {
+    it('should return the requested address when the user owns it', async () => {
+      mockAddressRepository.findOne.mockResolvedValueOnce(existingAddress());
+
+      const address = await service.resolveForOrder(1, 'shipping', 3);
+
+      expect(address.id).toBe(3);
+      expect(mockAddressRepository.findOne).toHaveBeenCalledWith({
+        where: { id: 3, user: { id: 1 } },
+      });
+    });
+
+    it('should reject an address of another user', async () => {
+      mockAddressRepository.findOne.mockResolvedValueOnce(null);
+
+      await expect(
+        service.resolveForOrder(1, 'billing', 8),
+      ).rejects.toMatchObject({
+        status: HttpStatus.NOT_FOUND,
+      });
+    });
+
+    it('should fall back to the default for that kind', async () => {
+      mockAddressRepository.findOne.mockResolvedValueOnce(null);
+
+      const address = await service.resolveForOrder(1, 'billing');
+
+      expect(address).toBeNull();
+      expect(mockAddressRepository.findOne).toHaveBeenCalledWith({
+        where: { user: { id: 1 }, isDefaultBilling: true },
+      });
+    });
+  });
+});
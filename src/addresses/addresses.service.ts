@@ -0,0 +1,163 @@
+import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import { Address } from 'src/typeorm/entities/Address';
+import { User } from 'src/typeorm/entities/User';
+import { ICreateAddress, IUpdateAddress } from 'utils/Interfaces';
+
+export type AddressKind = 'shipping' | 'billing';
+
+const DEFAULT_FLAG: Record<
+  AddressKind,
+  'isDefaultShipping' | 'isDefaultBilling'
+> = {
+  shipping: 'isDefaultShipping',
+  billing: 'isDefaultBilling',
+};
+
+@Injectable()
+export class AddressesService {
+  private readonly logger = new Logger(AddressesService.name);
+
+  constructor(
+    @InjectRepository(Address) private addressRepository: Repository<Address>,
+  ) {}
+
+  private rethrow(error: unknown, action: string): never {
+    if (error instanceof HttpException) throw error;
+    this.logger.error(
+      `Failed to ${action}`,
+      (error as any)?.stack ?? String(error),
+    );
+    throw new HttpException(
+      `An error occurred while trying to ${action}`,
+      HttpStatus.INTERNAL_SERVER_ERROR,
+    );
+  }
+
+  private async findOwnedAddress(userId: number, addressId: number) {
+    const address = await this.addressRepository.findOne({
+      where: { id: addressId, user: { id: userId } },
+    });
+    if (!address) {
+      throw new HttpException('Address not found', HttpStatus.NOT_FOUND);
+    }
+    return address;
+  }
+
+  // A user has at most one default shipping and one default billing address
+  private async clearOtherDefaults(
+    manager: EntityManager,
+    userId: number,
+    address: Address,
+  ) {
+    for (const kind of ['shipping', 'billing'] as AddressKind[]) {
+      const flag = DEFAULT_FLAG[kind];
+      if (!address[flag]) continue;
+
+      await manager
+        .createQueryBuilder()
+        .update(Address)
+        .set({ [flag]: false })
+        .where('userId = :userId AND id != :id', { userId, id: address.id })
+        .execute();
+    }
+  }
+
+  private normalize<T extends IUpdateAddress>(params: T): T {
+    return params.country
+      ? { ...params, country: params.country.toUpperCase() }
+      : params;
+  }
+
+  async getAddresses(userId: number) {
+    try {
+      const addresses = await this.addressRepository.find({
+        where: { user: { id: userId } },
+        order: { id: 'ASC' },
+      });
+      return { message: 'Addresses retrieved successfully', addresses };
+    } catch (error) {
+      this.rethrow(error, 'retrieve the addresses');
+    }
+  }
+
+  async createAddress(userId: number, params: ICreateAddress) {
+    try {
+      const address = await this.addressRepository.manager.transaction(
+        async (manager) => {
+          const repository = manager.getRepository(Address);
+          const isFirst =
+            (await repository.count({ where: { user: { id: userId } } })) === 0;
+
+          const created = await repository.save(
+            repository.create({
+              ...this.normalize(params),
+              user: { id: userId } as User,
+              // The first address is used for everything until the user picks otherwise
+              isDefaultShipping: isFirst || !!params.isDefaultShipping,
+              isDefaultBilling: isFirst || !!params.isDefaultBilling,
+            }),
+          );
+          await this.clearOtherDefaults(manager, userId, created);
+          return created;
+        },
+      );
+
+      return { message: 'Address created successfully', address };
+    } catch (error) {
+      this.rethrow(error, 'create the address');
+    }
+  }
+
+  async updateAddress(
+    userId: number,
+    addressId: number,
+    params: IUpdateAddress,
+  ) {
+    try {
+      const existing = await this.findOwnedAddress(userId, addressId);
+
+      const address = await this.addressRepository.manager.transaction(
+        async (manager) => {
+          const saved = await manager
+            .getRepository(Address)
+            .save(Object.assign(existing, this.normalize(params)));
+          await this.clearOtherDefaults(manager, userId, saved);
+          return saved;
+        },
+      );
+
+      return { message: 'Address updated successfully', address };
+    } catch (error) {
+      this.rethrow(error, 'update the address');
+    }
+  }
+
+  async deleteAddress(userId: number, addressId: number) {
+    try {
+      const address = await this.findOwnedAddress(userId, addressId);
+      await this.addressRepository.remove(address);
+      return { message: 'Address deleted successfully' };
+    } catch (error) {
+      this.rethrow(error, 'delete the address');
+    }
+  }
+
+  /**
+   * Picks the address an order should use: the given one (it must belong to the
+   * user) or else the user's default for that kind. Null when there is neither.
+   */
+  async resolveForOrder(
+    userId: number,
+    kind: AddressKind,
+    addressId?: number,
+  ): Promise<Address | null> {
+    if (addressId) {
+      return this.findOwnedAddress(userId, addressId);
+    }
+    return this.addressRepository.findOne({
+      where: { user: { id: userId }, [DEFAULT_FLAG[kind]]: true },
+    });
+  }
+}
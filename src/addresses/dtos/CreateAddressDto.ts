@@ -0,0 +1,17 @@
+import { IsBoolean, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ShippingAddressDto } from 'src/orders/dtos/ShippingAddressDto';
+
+export class CreateAddressDto extends ShippingAddressDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  label?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  isDefaultShipping?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  isDefaultBilling?: boolean;
+}
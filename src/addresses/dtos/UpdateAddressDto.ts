@@ -0,0 +1,66 @@
+import {
+  IsBoolean,
+  IsISO31661Alpha2,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+export class UpdateAddressDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  label?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  fullName?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  line1?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  line2?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  city?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  region?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(20)
+  postalCode?: string;
+
+  @IsOptional()
+  @IsISO31661Alpha2({ message: 'Country must be a two-letter ISO code' })
+  country?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(30)
+  phone?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  isDefaultShipping?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  isDefaultBilling?: boolean;
+}
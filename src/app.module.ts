@@ -13,7 +13,30 @@ import { AuthModule } from './auth/auth.module';
 import { Category } from './typeorm/entities/Category';
 import { CategoryModule } from './category/category.module';
 import { OrderItem } from './typeorm/entities/OrderItem';
+import { OrderStatusHistory } from './typeorm/entities/OrderStatusHistory';
+import { ProcessedWebhookEvent } from './typeorm/entities/ProcessedWebhookEvent';
 import { CheckoutModule } from './checkout/checkout.module';
+import { Cart } from './typeorm/entities/Cart';
+import { CartItem } from './typeorm/entities/CartItem';
+import { CartModule } from './cart/cart.module';
+import { Address } from './typeorm/entities/Address';
+import { AddressesModule } from './addresses/addresses.module';
+import { Coupon } from './typeorm/entities/Coupon';
+import { CouponsModule } from './coupons/coupons.module';
+import { TaxRate } from './typeorm/entities/TaxRate';
+import { TaxModule } from './tax/tax.module';
+import { ShippingZone } from './typeorm/entities/ShippingZone';
+import { ShippingMethod } from './typeorm/entities/ShippingMethod';
+import { ShippingModule } from './shipping/shipping.module';
+import { ExchangeRate } from './typeorm/entities/ExchangeRate';
+import { ProductPrice } from './typeorm/entities/ProductPrice';
+import { CurrencyModule } from './currency/currency.module';
+import { ProductOption } from './typeorm/entities/ProductOption';
+import { ProductVariant } from './typeorm/entities/ProductVariant';
+import { VariantsModule } from './variants/variants.module';
+import { ProductImage } from './typeorm/entities/ProductImage';
+import { ImagesModule } from './images/images.module';
+import { SearchQuery } from './typeorm/entities/SearchQuery';
 import { ThrottlerGuard, ThrottlerModule } from '@nestjs/throttler';
 import { APP_GUARD } from '@nestjs/core';
 
@@ -38,7 +61,28 @@ import { APP_GUARD } from '@nestjs/core';
         port: configService.get<number>('DB_PORT'),
         username: configService.get<string>('DB_USERNAME'),
         database: configService.get<string>('DB_NAME'),
-        entities: [Product, User, Order, Category, OrderItem],
+        entities: [
+          Product,
+          User,
+          Order,
+          Category,
+          OrderItem,
+          OrderStatusHistory,
+          ProcessedWebhookEvent,
+          Cart,
+          CartItem,
+          Address,
+          Coupon,
+          TaxRate,
+          ShippingZone,
+          ShippingMethod,
+          ExchangeRate,
+          ProductPrice,
+          ProductOption,
+          ProductVariant,
+          ProductImage,
+          SearchQuery,
+        ],
         synchronize: configService.get<string>('NODE_ENV') !== 'production',
       }),
     }),
@@ -48,6 +92,14 @@ import { APP_GUARD } from '@nestjs/core';
     AuthModule,
     CategoryModule,
     CheckoutModule,
+    CartModule,
+    AddressesModule,
+    CouponsModule,
+    TaxModule,
+    ShippingModule,
+    CurrencyModule,
+    VariantsModule,
+    ImagesModule,
   ],
   controllers: [AppController],
   providers: [
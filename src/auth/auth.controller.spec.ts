@@ -6,6 +6,7 @@ import { UnauthorizedException } from '@nestjs/common';
 import { Response, Request } from 'express';
 import { CreateUserDto } from '../user/dtos/CreateUserDto';
 import { ThrottlerGuard } from '@nestjs/throttler';
+import { CartService } from '../cart/cart.service';
 
 describe('AuthController', () => {
   let controller: AuthController;
@@ -27,6 +28,10 @@ describe('AuthController', () => {
     removeRefreshToken: jest.fn(),
   };
 
+  const mockCartService = {
+    mergeGuestCart: jest.fn(),
+  };
+
   const mockUser = {
     id: 1,
     name: 'testuser',
@@ -65,6 +70,10 @@ describe('AuthController', () => {
           provide: UserService,
           useValue: mockUserService,
         },
+        {
+          provide: CartService,
+          useValue: mockCartService,
+        },
       ],
     }).overrideGuard(ThrottlerGuard)
       .useValue({ canActivate: jest.fn().mockReturnValue(true) });
@@ -102,6 +111,21 @@ describe('AuthController', () => {
       expect(mockAuthService.login).toHaveBeenCalledWith(mockUser);
     });
 
+    it('should merge the guest cart and clear its cookie', async () => {
+      mockRequest.cookies = { cart_token: 'guest-token' };
+
+      await controller.login(mockRequest as Request, mockResponse as Response);
+
+      expect(mockCartService.mergeGuestCart).toHaveBeenCalledWith('guest-token', mockUser.id);
+      expect(mockResponse.clearCookie).toHaveBeenCalledWith('cart_token', { path: '/' });
+    });
+
+    it('should not touch carts when there is no guest cart cookie', async () => {
+      await controller.login(mockRequest as Request, mockResponse as Response);
+
+      expect(mockCartService.mergeGuestCart).not.toHaveBeenCalled();
+    });
+
     it('should set access_token cookie with correct options', async () => {
       await controller.login(mockRequest as Request, mockResponse as Response);
 
@@ -20,6 +20,8 @@ import { CreateUserDto } from 'src/user/dtos/CreateUserDto';
 import { Response } from 'express';
 import { csrf } from 'src/csrf';
 import { Request as ExpressRequest } from 'express';
+import { CartService } from 'src/cart/cart.service';
+import { CART_TOKEN_COOKIE } from 'src/cart/cart-owner';
 
 @ApiTags('auth')
 @Controller('auth')
@@ -27,6 +29,7 @@ export class AuthController {
   constructor(
     private authService: AuthService,
     private userService: UserService,
+    private cartService: CartService,
   ) {}
 
   @Public()
@@ -54,6 +57,13 @@ export class AuthController {
       maxAge: 1000 * 60 * 60 * 24 * 7,
     });
 
+    // Carry over whatever the guest put in their cart before logging in
+    const cartToken = req.cookies?.[CART_TOKEN_COOKIE];
+    if (cartToken) {
+      await this.cartService.mergeGuestCart(cartToken, req.user.id);
+      res.clearCookie(CART_TOKEN_COOKIE, { path: '/' });
+    }
+
     // CSRF token (per NestJS docs via `csrf-csrf`).
     // `csrf_token` cookie = HMAC hash (httpOnly, used by csrf-csrf for validation).
     // `csrf_token_value` cookie = raw token (readable by Next.js SSR layout).
@@ -10,6 +10,7 @@ import { JwtStrategy } from './jwt.strategy';
 import { APP_GUARD } from '@nestjs/core';
 import { JwtAuthGuard } from './jwt.auth.guard';
 import { RolesGuard } from './roles.guard';
+import { CartModule } from 'src/cart/cart.module';
 
 @Module({
   controllers: [AuthController],
@@ -29,6 +30,7 @@ import { RolesGuard } from './roles.guard';
   imports: [
     ConfigModule.forRoot(),
     UserModule,
+    CartModule,
     PassportModule,
     JwtModule.registerAsync({
       imports: [ConfigModule],
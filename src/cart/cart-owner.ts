@@ -0,0 +1,22 @@
+import { Request } from 'express';
+
+export const CART_TOKEN_COOKIE = 'cart_token';
+const CART_TOKEN_PATTERN = /^[a-f0-9]{48}$/;
+
+// A logged-in user is identified by userId, a guest by the cart_token cookie
+export type CartOwner = {
+  userId?: number;
+  token?: string;
+};
+
+// The logged-in user, else the guest's cart cookie when it is well-formed
+export function cartOwnerFromRequest(req: Request): CartOwner {
+  const userId = req.user?.userId;
+  if (userId) return { userId };
+
+  const cookieToken = req.cookies?.[CART_TOKEN_COOKIE];
+  if (typeof cookieToken === 'string' && CART_TOKEN_PATTERN.test(cookieToken)) {
+    return { token: cookieToken };
+  }
+  return {};
+}
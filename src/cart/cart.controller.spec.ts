@@ -0,0 +1,136 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { CartController } from './cart.controller';
+import { CartService } from './cart.service';
+
+describe('CartController', () => {
+  let controller: CartController;
+
+  const mockCartService = {
+    getCart: jest.fn(),
+    addItem: jest.fn(),
+    updateItem: jest.fn(),
+    removeItem: jest.fn(),
+    clearCart: jest.fn(),
+    checkout: jest.fn(),
+  };
+
+  const validToken = 'a'.repeat(48);
+  const userReq: any = { user: { userId: 1, role: 'user' }, cookies: {} };
+  const guestReq = (token?: string): any => ({
+    cookies: token ? { cart_token: token } : {},
+  });
+  const mockRes = () => ({ cookie: jest.fn() }) as any;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [CartController],
+      providers: [{ provide: CartService, useValue: mockCartService }],
+    }).compile();
+
+    controller = module.get<CartController>(CartController);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  describe('getCart', () => {
+    it('should use the logged-in user', async () => {
+      await controller.getCart(userReq);
+
+      expect(mockCartService.getCart).toHaveBeenCalledWith({ userId: 1 });
+    });
+
+    it('should use the guest cart cookie', async () => {
+      await controller.getCart(guestReq(validToken));
+
+      expect(mockCartService.getCart).toHaveBeenCalledWith({
+        token: validToken,
+      });
+    });
+
+    it('should ignore malformed cart tokens', async () => {
+      await controller.getCart(guestReq('../../etc'));
+
+      expect(mockCartService.getCart).toHaveBeenCalledWith({});
+    });
+  });
+
+  describe('addItem', () => {
+    const dto = { productId: 1, quantity: 2 };
+
+    it('should issue a cart cookie to a new guest', async () => {
+      const res = mockRes();
+
+      await controller.addItem(dto, guestReq(), res);
+
+      const [name, token, options] = res.cookie.mock.calls[0];
+      expect(name).toBe('cart_token');
+      expect(token).toMatch(/^[a-f0-9]{48}$/);
+      expect(options).toMatchObject({
+        httpOnly: true,
+        sameSite: 'lax',
+        path: '/',
+      });
+      expect(mockCartService.addItem).toHaveBeenCalledWith({ token }, dto);
+    });
+
+    it('should reuse an existing guest cookie', async () => {
+      const res = mockRes();
+
+      await controller.addItem(dto, guestReq(validToken), res);
+
+      expect(res.cookie).not.toHaveBeenCalled();
+      expect(mockCartService.addItem).toHaveBeenCalledWith(
+        { token: validToken },
+        dto,
+      );
+    });
+
+    it('should not issue a cookie to logged-in users', async () => {
+      const res = mockRes();
+
+      await controller.addItem(dto, userReq, res);
+
+      expect(res.cookie).not.toHaveBeenCalled();
+      expect(mockCartService.addItem).toHaveBeenCalledWith({ userId: 1 }, dto);
+    });
+  });
+
+  it('should update, remove and clear lines for the current owner', async () => {
+    await controller.updateItem(5, { quantity: 3 }, userReq);
+    await controller.removeItem(5, userReq);
+    await controller.clearCart(userReq);
+
+    expect(mockCartService.updateItem).toHaveBeenCalledWith({ userId: 1 }, 5, {
+      quantity: 3,
+    });
+    expect(mockCartService.removeItem).toHaveBeenCalledWith(
+      { userId: 1 },
+      5,
+      undefined,
+    );
+    expect(mockCartService.clearCart).toHaveBeenCalledWith({ userId: 1 });
+  });
+
+  it('should check out the logged-in user cart', async () => {
+    const mockResponse = {
+      message: 'Order created successfully!',
+      order: { id: 1 },
+    };
+    mockCartService.checkout.mockResolvedValue(mockResponse);
+
+    const result = await controller.checkout({ name: 'Gift' }, userReq);
+
+    expect(result).toEqual(mockResponse);
+    expect(mockCartService.checkout).toHaveBeenCalledWith(
+      1,
+      { name: 'Gift' },
+      userReq,
+    );
+  });
+});
@@ -0,0 +1,106 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Query,
+  Req,
+  Res,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { randomBytes } from 'crypto';
+import { Request, Response } from 'express';
+import { Roles } from 'utils/rolesDecorator';
+import { OptionalAuth } from 'utils/optionalAuthDecorator';
+import { CartService } from './cart.service';
+import {
+  CART_TOKEN_COOKIE,
+  CartOwner,
+  cartOwnerFromRequest,
+} from './cart-owner';
+import { AddCartItemDto } from './dtos/AddCartItemDto';
+import { UpdateCartItemDto } from './dtos/UpdateCartItemDto';
+import { CheckoutCartDto } from './dtos/CheckoutCartDto';
+
+@ApiTags('cart')
+@OptionalAuth()
+@Controller('cart')
+export class CartController {
+  constructor(private cartService: CartService) {}
+
+  // Logged-in users get their own cart. Guests are tracked by an httpOnly
+  // cookie, which is only issued (when `res` is passed) once they add something.
+  private resolveOwner(req: Request, res?: Response): CartOwner {
+    const owner = cartOwnerFromRequest(req);
+    if (owner.userId || owner.token || !res) return owner;
+
+    const token = randomBytes(24).toString('hex');
+    res.cookie(CART_TOKEN_COOKIE, token, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/',
+      maxAge: 1000 * 60 * 60 * 24 * 30,
+    });
+    return { token };
+  }
+
+  @Get()
+  getCart(@Req() req: Request) {
+    return this.cartService.getCart(this.resolveOwner(req));
+  }
+
+  @Post()
+  addItem(
+    @Body() addCartItemDto: AddCartItemDto,
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    return this.cartService.addItem(
+      this.resolveOwner(req, res),
+      addCartItemDto,
+    );
+  }
+
+  @Roles('admin', 'user')
+  @Post('checkout')
+  checkout(@Body() checkoutCartDto: CheckoutCartDto, @Req() req: Request) {
+    return this.cartService.checkout(req.user.userId, checkoutCartDto, req);
+  }
+
+  @Patch('items/:productId')
+  updateItem(
+    @Param('productId', ParseIntPipe) productId: number,
+    @Body() updateCartItemDto: UpdateCartItemDto,
+    @Req() req: Request,
+  ) {
+    return this.cartService.updateItem(
+      this.resolveOwner(req),
+      productId,
+      updateCartItemDto,
+    );
+  }
+
+  @Delete('items/:productId')
+  removeItem(
+    @Param('productId', ParseIntPipe) productId: number,
+    @Req() req: Request,
+    @Query('variantId', new ParseIntPipe({ optional: true }))
+    variantId?: number,
+  ) {
+    return this.cartService.removeItem(
+      this.resolveOwner(req),
+      productId,
+      variantId,
+    );
+  }
+
+  @Delete()
+  clearCart(@Req() req: Request) {
+    return this.cartService.clearCart(this.resolveOwner(req));
+  }
+}
@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Cart } from 'src/typeorm/entities/Cart';
+import { CartItem } from 'src/typeorm/entities/CartItem';
+import { Product } from 'src/typeorm/entities/Product';
+import { ProductVariant } from 'src/typeorm/entities/ProductVariant';
+import { User } from 'src/typeorm/entities/User';
+import { OrdersModule } from 'src/orders/orders.module';
+import { CurrencyModule } from 'src/currency/currency.module';
+import { CartController } from './cart.controller';
+import { CartService } from './cart.service';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Cart, CartItem, Product, ProductVariant, User]),
+    OrdersModule,
+    CurrencyModule,
+  ],
+  controllers: [CartController],
+  providers: [CartService],
+  exports: [CartService],
+})
+export class CartModule {}
@@ -0,0 +1,815 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { CartService } from './cart.service';
+import { Cart } from 'src/typeorm/entities/Cart';
+import { CartItem } from 'src/typeorm/entities/CartItem';
+import { Product } from 'src/typeorm/entities/Product';
+import { ProductVariant } from 'src/typeorm/entities/ProductVariant';
+import { User } from 'src/typeorm/entities/User';
+import { OrdersService } from 'src/orders/orders.service';
+import { CurrencyService } from 'src/currency/currency.service';
+
+describe('CartService', () => {
+  let service: CartService;
+
+  const mockEntityManager = {
+    getRepository: jest.fn(),
+  };
+
+  const mockCartRepository = {
+    findOne: jest.fn(),
+    create: jest.fn((entity) => entity),
+    save: jest.fn((entity) => Promise.resolve(entity)),
+    remove: jest.fn(),
+    update: jest.fn(),
+    manager: {
+      transaction: jest.fn((cb) => cb(mockEntityManager)),
+    },
+  };
+
+  const mockCartItemRepository = {
+    create: jest.fn((entity) => entity),
+    save: jest.fn((entity) => Promise.resolve(entity)),
+    remove: jest.fn(),
+  };
+
+  const mockProductRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockVariantRepository = {
+    findOne: jest.fn(),
+    count: jest.fn().mockResolvedValue(0),
+  };
+
+  const mockUserRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockOrdersService = {
+    createOrder: jest.fn(),
+  };
+
+  // Store-currency prices unless a test says otherwise
+  const storePrices = {
+    priceProducts: async (products: Product[]) =>
+      new Map(products.map((p) => [p.id, Number(p.price)])),
+    priceVariants: async (variants: ProductVariant[]) =>
+      new Map(variants.map((v) => [v.id, Number(v.price ?? v.product.price)])),
+  };
+  const mockCurrencyService = {
+    priceProducts: jest.fn(),
+    priceVariants: jest.fn(),
+  };
+
+  const product = (overrides: Partial<Product> = {}) =>
+    ({
+      id: 1,
+      name: 'Mug',
+      imageUrl: 'https://img/mug.png',
+      price: 10,
+      stock: 5,
+      reservedStock: 0,
+      ...overrides,
+    }) as Product;
+
+  // A product sold in variants keeps no stock of its own
+  const tee = product({ id: 4, name: 'Tee', price: 20, stock: 0 });
+  const teeInRed = (overrides: Partial<ProductVariant> = {}) =>
+    ({
+      id: 7,
+      sku: 'TEE-RED',
+      options: { Color: 'Red' },
+      price: 25,
+      stock: 3,
+      reservedStock: 1,
+      imageUrl: null,
+      isActive: true,
+      ...overrides,
+    }) as ProductVariant;
+
+  const cartWith = (items: Partial<CartItem>[] = []) =>
+    ({
+      id: 3,
+      user: { id: 1 },
+      token: null,
+      currency: 'USD',
+      items: items.map((item, index) => ({ id: index + 1, ...item })),
+    }) as Cart;
+
+  const mockReq: any = { user: { userId: 1, role: 'user' } };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CartService,
+        { provide: getRepositoryToken(Cart), useValue: mockCartRepository },
+        {
+          provide: getRepositoryToken(CartItem),
+          useValue: mockCartItemRepository,
+        },
+        {
+          provide: getRepositoryToken(Product),
+          useValue: mockProductRepository,
+        },
+        {
+          provide: getRepositoryToken(ProductVariant),
+          useValue: mockVariantRepository,
+        },
+        { provide: getRepositoryToken(User), useValue: mockUserRepository },
+        { provide: OrdersService, useValue: mockOrdersService },
+        { provide: CurrencyService, useValue: mockCurrencyService },
+      ],
+    }).compile();
+
+    service = module.get<CartService>(CartService);
+
+    mockCurrencyService.priceProducts.mockImplementation(
+      storePrices.priceProducts,
+    );
+    mockCurrencyService.priceVariants.mockImplementation(
+      storePrices.priceVariants,
+    );
+    mockEntityManager.getRepository.mockImplementation((entity) =>
+      entity === CartItem ? mockCartItemRepository : mockCartRepository,
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('getCart', () => {
+    it('should return an empty cart for a guest without a token', async () => {
+      const result = await service.getCart({});
+
+      expect(result).toEqual({
+        message: 'Cart retrieved successfully',
+        cart: {
+          id: null,
+          items: [],
+          itemCount: 0,
+          subtotal: 0,
+          currency: 'USD',
+          issues: [],
+        },
+      });
+      expect(mockCartRepository.findOne).not.toHaveBeenCalled();
+    });
+
+    it('should look guest carts up by token only when they have no user', async () => {
+      mockCartRepository.findOne.mockResolvedValueOnce(null);
+
+      await service.getCart({ token: 'abc' });
+
+      expect(mockCartRepository.findOne).toHaveBeenCalledWith({
+        where: { token: 'abc', user: expect.anything() },
+      });
+    });
+
+    it('should compute totals from the cart lines', async () => {
+      mockCartRepository.findOne.mockResolvedValueOnce(
+        cartWith([{ product: product(), quantity: 2, unitPrice: 10 }]),
+      );
+
+      const result = await service.getCart({ userId: 1 });
+
+      expect(result.cart).toMatchObject({
+        id: 3,
+        itemCount: 2,
+        subtotal: 20,
+        issues: [],
+        items: [
+          {
+            productId: 1,
+            name: 'Mug',
+            quantity: 2,
+            unitPrice: 10,
+            available: 5,
+            lineTotal: 20,
+          },
+        ],
+      });
+    });
+
+    it('should flag price changes once and move the line to the new price', async () => {
+      const cart = cartWith([
+        { product: product({ price: 12 }), quantity: 1, unitPrice: 10 },
+      ]);
+      mockCartRepository.findOne.mockResolvedValueOnce(cart);
+
+      const result = await service.getCart({ userId: 1 });
+
+      expect(result.cart.issues).toEqual([
+        {
+          productId: 1,
+          type: 'PRICE_CHANGED',
+          previousPrice: 10,
+          currentPrice: 12,
+        },
+      ]);
+      expect(result.cart.items[0].unitPrice).toBe(12);
+      expect(mockCartItemRepository.save).toHaveBeenCalledWith([cart.items[0]]);
+    });
+
+    it('should flag lines that are out of stock or over the available stock', async () => {
+      mockCartRepository.findOne.mockResolvedValueOnce(
+        cartWith([
+          {
+            product: product({ id: 1, stock: 3, reservedStock: 3 }),
+            quantity: 1,
+            unitPrice: 10,
+          },
+          {
+            product: product({ id: 2, stock: 4, reservedStock: 1 }),
+            quantity: 5,
+            unitPrice: 10,
+          },
+        ]),
+      );
+
+      const result = await service.getCart({ userId: 1 });
+
+      expect(result.cart.issues).toEqual([
+        { productId: 1, type: 'OUT_OF_STOCK' },
+        { productId: 2, type: 'INSUFFICIENT_STOCK', available: 3 },
+      ]);
+    });
+  });
+
+  describe('addItem', () => {
+    it('should throw NOT_FOUND when the product does not exist', async () => {
+      mockProductRepository.findOne.mockResolvedValueOnce(null);
+
+      await expect(
+        service.addItem({ userId: 1 }, { productId: 9, quantity: 1 }),
+      ).rejects.toThrow(
+        new HttpException('Product not found', HttpStatus.NOT_FOUND),
+      );
+    });
+
+    it('should create a guest cart for a new token', async () => {
+      mockProductRepository.findOne.mockResolvedValueOnce(product());
+      mockCartRepository.findOne
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(null);
+
+      await service.addItem({ token: 'abc' }, { productId: 1, quantity: 2 });
+
+      expect(mockCartRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ user: null, token: 'abc', currency: 'USD' }),
+      );
+      expect(mockUserRepository.findOne).not.toHaveBeenCalled();
+      expect(mockCartRepository.save).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          token: 'abc',
+          items: [expect.objectContaining({ quantity: 2, unitPrice: 10 })],
+        }),
+      );
+    });
+
+    it('should merge into the line a concurrent request inserted first', async () => {
+      mockProductRepository.findOne
+        .mockResolvedValueOnce(product())
+        .mockResolvedValueOnce(product());
+      mockCartRepository.findOne
+        .mockResolvedValueOnce(cartWith())
+        .mockResolvedValueOnce(
+          cartWith([{ product: product(), quantity: 1, unitPrice: 10 }]),
+        );
+      mockCartRepository.save.mockRejectedValueOnce(
+        Object.assign(new Error('Duplicate entry'), { code: 'ER_DUP_ENTRY' }),
+      );
+
+      await service.addItem({ userId: 1 }, { productId: 1, quantity: 2 });
+
+      expect(mockCartRepository.save).toHaveBeenCalledTimes(2);
+      expect(mockCartRepository.save).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          items: [expect.objectContaining({ quantity: 3 })],
+        }),
+      );
+    });
+
+    it('should not retry other database errors', async () => {
+      mockProductRepository.findOne.mockResolvedValueOnce(product());
+      mockCartRepository.findOne.mockResolvedValueOnce(cartWith());
+      mockCartRepository.save.mockRejectedValueOnce(new Error('db down'));
+
+      await expect(
+        service.addItem({ userId: 1 }, { productId: 1, quantity: 2 }),
+      ).rejects.toMatchObject({ status: HttpStatus.INTERNAL_SERVER_ERROR });
+      expect(mockCartRepository.save).toHaveBeenCalledTimes(1);
+    });
+
+    it('should add to the quantity of a product already in the cart', async () => {
+      const cart = cartWith([
+        { product: product(), quantity: 2, unitPrice: 10 },
+      ]);
+      mockProductRepository.findOne.mockResolvedValueOnce(product());
+      mockCartRepository.findOne.mockResolvedValue(cart);
+
+      await service.addItem({ userId: 1 }, { productId: 1, quantity: 3 });
+
+      expect(cart.items).toHaveLength(1);
+      expect(cart.items[0].quantity).toBe(5);
+      mockCartRepository.findOne.mockReset();
+    });
+
+    it('should refuse quantities above the available stock', async () => {
+      mockProductRepository.findOne.mockResolvedValueOnce(
+        product({ stock: 4, reservedStock: 2 }),
+      );
+      mockCartRepository.findOne.mockResolvedValueOnce(cartWith());
+
+      await expect(
+        service.addItem({ userId: 1 }, { productId: 1, quantity: 3 }),
+      ).rejects.toMatchObject({ status: HttpStatus.CONFLICT });
+      expect(mockCartRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should require a token for guests', async () => {
+      mockProductRepository.findOne.mockResolvedValueOnce(product());
+
+      await expect(
+        service.addItem({}, { productId: 1, quantity: 1 }),
+      ).rejects.toThrow(
+        new HttpException('Missing cart token', HttpStatus.BAD_REQUEST),
+      );
+    });
+
+    it('should wrap unexpected errors as INTERNAL_SERVER_ERROR', async () => {
+      mockProductRepository.findOne.mockRejectedValueOnce(new Error('db down'));
+      jest.spyOn((service as any).logger, 'error').mockImplementation();
+
+      await expect(
+        service.addItem({ userId: 1 }, { productId: 1, quantity: 1 }),
+      ).rejects.toMatchObject({ status: HttpStatus.INTERNAL_SERVER_ERROR });
+    });
+  });
+
+  describe('variants', () => {
+    it('should require a variant for a product that has them', async () => {
+      mockProductRepository.findOne.mockResolvedValueOnce(tee);
+      mockVariantRepository.count.mockResolvedValueOnce(2);
+
+      await expect(
+        service.addItem({ userId: 1 }, { productId: 4, quantity: 1 }),
+      ).rejects.toThrow(
+        new HttpException('Choose a variant of Tee', HttpStatus.BAD_REQUEST),
+      );
+      expect(mockCartRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should add a variant at its price, checking its own stock', async () => {
+      const cart = cartWith();
+      mockProductRepository.findOne.mockResolvedValueOnce(tee);
+      mockVariantRepository.findOne.mockResolvedValueOnce(teeInRed());
+      mockCartRepository.findOne.mockResolvedValue(cart);
+
+      await service.addItem(
+        { userId: 1 },
+        { productId: 4, variantId: 7, quantity: 2 },
+      );
+
+      expect(mockVariantRepository.findOne).toHaveBeenCalledWith({
+        where: { id: 7, product: { id: 4 }, isActive: true },
+      });
+      expect(cart.items).toEqual([
+        expect.objectContaining({
+          product: tee,
+          variant: teeInRed(),
+          quantity: 2,
+          unitPrice: 25,
+        }),
+      ]);
+      mockCartRepository.findOne.mockReset();
+    });
+
+    it('should refuse more than the variant has in stock', async () => {
+      mockProductRepository.findOne.mockResolvedValueOnce(tee);
+      mockVariantRepository.findOne.mockResolvedValueOnce(teeInRed());
+      mockCartRepository.findOne.mockResolvedValueOnce(cartWith());
+
+      await expect(
+        service.addItem(
+          { userId: 1 },
+          { productId: 4, variantId: 7, quantity: 3 },
+        ),
+      ).rejects.toMatchObject({
+        status: HttpStatus.CONFLICT,
+        response: expect.objectContaining({
+          productId: 4,
+          variantId: 7,
+          available: 2,
+        }),
+      });
+    });
+
+    it('should throw NOT_FOUND for a variant of another product or an inactive one', async () => {
+      mockProductRepository.findOne.mockResolvedValueOnce(tee);
+      mockVariantRepository.findOne.mockResolvedValueOnce(null);
+
+      await expect(
+        service.addItem(
+          { userId: 1 },
+          { productId: 4, variantId: 99, quantity: 1 },
+        ),
+      ).rejects.toThrow(
+        new HttpException(
+          'Variant 99 is not available for Tee',
+          HttpStatus.NOT_FOUND,
+        ),
+      );
+    });
+
+    it('should show variant lines with the variant stock and price', async () => {
+      mockCartRepository.findOne.mockResolvedValueOnce(
+        cartWith([
+          { product: tee, variant: teeInRed(), quantity: 2, unitPrice: 25 },
+          {
+            product: tee,
+            variant: teeInRed({ id: 8, sku: 'TEE-BLUE', price: null }),
+            quantity: 1,
+            unitPrice: 20,
+          },
+        ]),
+      );
+
+      const result = await service.getCart({ userId: 1 });
+
+      expect(result.cart.issues).toEqual([]);
+      expect(result.cart.items).toEqual([
+        expect.objectContaining({
+          productId: 4,
+          variantId: 7,
+          sku: 'TEE-RED',
+          available: 2,
+          lineTotal: 50,
+        }),
+        expect.objectContaining({
+          productId: 4,
+          variantId: 8,
+          sku: 'TEE-BLUE',
+          available: 2,
+          lineTotal: 20,
+        }),
+      ]);
+    });
+
+    it('should flag a variant that was deactivated', async () => {
+      mockCartRepository.findOne.mockResolvedValueOnce(
+        cartWith([
+          {
+            product: tee,
+            variant: teeInRed({ isActive: false }),
+            quantity: 1,
+            unitPrice: 25,
+          },
+        ]),
+      );
+
+      const result = await service.getCart({ userId: 1 });
+
+      expect(result.cart.issues).toEqual([
+        { productId: 4, variantId: 7, type: 'OUT_OF_STOCK' },
+      ]);
+    });
+
+    it('should update and remove the line of the given variant', async () => {
+      const cart = cartWith([
+        { product: tee, variant: teeInRed(), quantity: 1, unitPrice: 25 },
+        {
+          product: tee,
+          variant: teeInRed({ id: 8 }),
+          quantity: 1,
+          unitPrice: 25,
+        },
+      ]);
+      mockCartRepository.findOne.mockResolvedValue(cart);
+
+      await service.updateItem({ userId: 1 }, 4, { variantId: 8, quantity: 2 });
+      await service.removeItem({ userId: 1 }, 4, 7);
+
+      expect(mockCartItemRepository.save).toHaveBeenCalledWith(cart.items[1]);
+      expect(cart.items[1].quantity).toBe(2);
+      expect(mockCartItemRepository.remove).toHaveBeenCalledWith(cart.items[0]);
+      await expect(
+        service.updateItem({ userId: 1 }, 4, { quantity: 1 }),
+      ).rejects.toThrow(
+        new HttpException('Product is not in the cart', HttpStatus.NOT_FOUND),
+      );
+      mockCartRepository.findOne.mockReset();
+    });
+
+    it('should order the chosen variants at checkout', async () => {
+      const cart = cartWith([
+        { product: tee, variant: teeInRed(), quantity: 2, unitPrice: 25 },
+      ]);
+      mockCartRepository.findOne.mockResolvedValueOnce(cart);
+      mockOrdersService.createOrder.mockResolvedValueOnce({ order: { id: 9 } });
+
+      await service.checkout(1, {}, mockReq);
+
+      expect(mockOrdersService.createOrder).toHaveBeenCalledWith(
+        expect.objectContaining({
+          items: [{ productId: 4, variantId: 7, quantity: 2 }],
+        }),
+        mockReq,
+      );
+    });
+  });
+
+  describe('updateItem / removeItem / clearCart', () => {
+    it('should set the quantity of a line', async () => {
+      const cart = cartWith([
+        { product: product(), quantity: 1, unitPrice: 10 },
+      ]);
+      mockCartRepository.findOne.mockResolvedValue(cart);
+
+      await service.updateItem({ userId: 1 }, 1, { quantity: 4 });
+
+      expect(mockCartItemRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ quantity: 4 }),
+      );
+      mockCartRepository.findOne.mockReset();
+    });
+
+    it('should throw NOT_FOUND when updating a product that is not in the cart', async () => {
+      mockCartRepository.findOne.mockResolvedValueOnce(cartWith());
+
+      await expect(
+        service.updateItem({ userId: 1 }, 1, { quantity: 1 }),
+      ).rejects.toThrow(
+        new HttpException('Product is not in the cart', HttpStatus.NOT_FOUND),
+      );
+    });
+
+    it('should remove a line', async () => {
+      const cart = cartWith([
+        { product: product(), quantity: 1, unitPrice: 10 },
+      ]);
+      mockCartRepository.findOne
+        .mockResolvedValueOnce(cart)
+        .mockResolvedValueOnce(cartWith());
+
+      const result = await service.removeItem({ userId: 1 }, 1);
+
+      expect(mockCartItemRepository.remove).toHaveBeenCalledWith(cart.items[0]);
+      expect(result.message).toBe('Item removed from cart');
+    });
+
+    it('should clear every line', async () => {
+      const cart = cartWith([
+        { product: product(), quantity: 1, unitPrice: 10 },
+      ]);
+      mockCartRepository.findOne.mockResolvedValueOnce(cart);
+
+      const result = await service.clearCart({ userId: 1 });
+
+      expect(mockCartItemRepository.remove).toHaveBeenCalledWith(cart.items);
+      expect(result.cart.items).toEqual([]);
+    });
+  });
+
+  describe('currencies', () => {
+    // 10.00 USD is sold at 9.00 EUR
+    const inEuros = () =>
+      mockCurrencyService.priceProducts.mockImplementation(
+        async (products: Product[], currency: string) =>
+          new Map(
+            products.map((p) => [p.id, currency === 'EUR' ? 900 : p.price]),
+          ),
+      );
+    const mug = () => product({ price: 1000 });
+
+    it("should start a user's cart in their preferred currency", async () => {
+      inEuros();
+      mockProductRepository.findOne.mockResolvedValueOnce(mug());
+      mockCartRepository.findOne
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(null);
+      mockUserRepository.findOne.mockResolvedValueOnce({
+        id: 1,
+        preferredCurrency: 'EUR',
+      });
+
+      await service.addItem({ userId: 1 }, { productId: 1, quantity: 1 });
+
+      expect(mockCartRepository.save).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          currency: 'EUR',
+          items: [expect.objectContaining({ unitPrice: 900 })],
+        }),
+      );
+      expect(mockCurrencyService.priceProducts).toHaveBeenCalledWith(
+        [expect.objectContaining({ id: 1 })],
+        'EUR',
+      );
+    });
+
+    it('should show and revalidate the lines in the cart currency', async () => {
+      inEuros();
+      mockCartRepository.findOne.mockResolvedValueOnce({
+        ...cartWith([{ product: mug(), quantity: 2, unitPrice: 900 }]),
+        currency: 'EUR',
+      });
+
+      const result = await service.getCart({ userId: 1 });
+
+      expect(result.cart).toMatchObject({
+        currency: 'EUR',
+        subtotal: 1800,
+        issues: [],
+        items: [{ unitPrice: 900, currency: 'EUR', lineTotal: 1800 }],
+      });
+      expect(mockCartItemRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should place the order in the currency the cart showed', async () => {
+      inEuros();
+      const cart = {
+        ...cartWith([{ product: mug(), quantity: 2, unitPrice: 900 }]),
+        currency: 'EUR',
+      };
+      mockCartRepository.findOne.mockResolvedValueOnce(cart);
+      mockOrdersService.createOrder.mockResolvedValueOnce({ order: { id: 8 } });
+
+      await service.checkout(1, {}, mockReq);
+
+      expect(mockOrdersService.createOrder).toHaveBeenCalledWith(
+        expect.objectContaining({ currency: 'EUR' }),
+        mockReq,
+      );
+    });
+
+    it('should reprice the cart and refuse to check out in another currency', async () => {
+      inEuros();
+      const cart = cartWith([{ product: mug(), quantity: 1, unitPrice: 1000 }]);
+      mockCartRepository.findOne.mockResolvedValueOnce(cart);
+
+      await expect(
+        service.checkout(1, { currency: 'eur' }, mockReq),
+      ).rejects.toMatchObject({
+        status: HttpStatus.CONFLICT,
+        response: expect.objectContaining({
+          issues: [
+            {
+              productId: 1,
+              type: 'PRICE_CHANGED',
+              previousPrice: 1000,
+              currentPrice: 900,
+            },
+          ],
+        }),
+      });
+      expect(mockCartRepository.update).toHaveBeenCalledWith(3, {
+        currency: 'EUR',
+      });
+      expect(cart.items[0].unitPrice).toBe(900);
+      expect(mockOrdersService.createOrder).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('checkout', () => {
+    it('should throw BAD_REQUEST when the cart is empty', async () => {
+      mockCartRepository.findOne.mockResolvedValueOnce(cartWith());
+
+      await expect(service.checkout(1, {}, mockReq)).rejects.toThrow(
+        new HttpException('Cart is empty', HttpStatus.BAD_REQUEST),
+      );
+    });
+
+    it('should refuse to check out while the cart has issues', async () => {
+      mockCartRepository.findOne.mockResolvedValueOnce(
+        cartWith([
+          { product: product({ price: 15 }), quantity: 1, unitPrice: 10 },
+        ]),
+      );
+
+      await expect(service.checkout(1, {}, mockReq)).rejects.toMatchObject({
+        status: HttpStatus.CONFLICT,
+        response: expect.objectContaining({
+          issues: [expect.objectContaining({ type: 'PRICE_CHANGED' })],
+        }),
+      });
+      expect(mockOrdersService.createOrder).not.toHaveBeenCalled();
+    });
+
+    it('should create a PENDING order from the cart and empty it', async () => {
+      const cart = cartWith([
+        { product: product({ id: 1 }), quantity: 2, unitPrice: 10 },
+        { product: product({ id: 2 }), quantity: 1, unitPrice: 10 },
+      ]);
+      const created = {
+        message: 'Order created successfully!',
+        order: { id: 8 },
+      };
+      mockCartRepository.findOne.mockResolvedValueOnce(cart);
+      mockOrdersService.createOrder.mockResolvedValueOnce(created);
+
+      const result = await service.checkout(1, { name: 'Birthday' }, mockReq);
+
+      expect(mockOrdersService.createOrder).toHaveBeenCalledWith(
+        {
+          name: 'Birthday',
+          userId: 1,
+          currency: 'USD',
+          items: [
+            { productId: 1, quantity: 2 },
+            { productId: 2, quantity: 1 },
+          ],
+        },
+        mockReq,
+      );
+      expect(mockCartItemRepository.remove).toHaveBeenCalledWith(cart.items);
+      expect(result).toEqual(created);
+    });
+
+    it('should keep the cart when creating the order fails', async () => {
+      mockCartRepository.findOne.mockResolvedValueOnce(
+        cartWith([{ product: product(), quantity: 1, unitPrice: 10 }]),
+      );
+      mockOrdersService.createOrder.mockRejectedValueOnce(
+        new HttpException(
+          'Insufficient stock for product(s): 1',
+          HttpStatus.CONFLICT,
+        ),
+      );
+
+      await expect(service.checkout(1, {}, mockReq)).rejects.toMatchObject({
+        status: HttpStatus.CONFLICT,
+      });
+      expect(mockCartItemRepository.remove).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('mergeGuestCart', () => {
+    it('should do nothing when the guest cart does not exist', async () => {
+      mockCartRepository.findOne.mockResolvedValueOnce(null);
+
+      await service.mergeGuestCart('abc', 1);
+
+      expect(mockCartRepository.manager.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should hand the guest cart over when the user has none', async () => {
+      const guestCart = { ...cartWith(), user: null, token: 'abc' } as Cart;
+      mockCartRepository.findOne
+        .mockResolvedValueOnce(guestCart)
+        .mockResolvedValueOnce(null);
+
+      await service.mergeGuestCart('abc', 1);
+
+      expect(mockCartRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ user: { id: 1 }, token: null }),
+      );
+      expect(mockCartRepository.remove).not.toHaveBeenCalled();
+    });
+
+    it('should add guest lines to the user cart and delete the guest cart', async () => {
+      const guestCart = {
+        ...cartWith([
+          { product: product({ id: 1 }), quantity: 2, unitPrice: 10 },
+          { product: product({ id: 2 }), quantity: 1, unitPrice: 7 },
+        ]),
+        user: null,
+        token: 'abc',
+      } as Cart;
+      const userCart = cartWith([
+        { product: product({ id: 1 }), quantity: 1, unitPrice: 10 },
+      ]);
+      mockCartRepository.findOne
+        .mockResolvedValueOnce(guestCart)
+        .mockResolvedValueOnce(userCart);
+
+      await service.mergeGuestCart('abc', 1);
+
+      expect(userCart.items).toEqual([
+        expect.objectContaining({ quantity: 3 }),
+        expect.objectContaining({
+          product: guestCart.items[1].product,
+          quantity: 1,
+          unitPrice: 7,
+        }),
+      ]);
+      expect(mockCartRepository.remove).toHaveBeenCalledWith(guestCart);
+      expect(mockCartRepository.save).toHaveBeenCalledWith(userCart);
+    });
+
+    it('should log and swallow errors so the login still succeeds', async () => {
+      mockCartRepository.findOne.mockRejectedValueOnce(new Error('db down'));
+      const loggerSpy = jest
+        .spyOn((service as any).logger, 'error')
+        .mockImplementation();
+
+      await expect(service.mergeGuestCart('abc', 1)).resolves.toBeUndefined();
+      expect(loggerSpy).toHaveBeenCalled();
+    });
+  });
+});
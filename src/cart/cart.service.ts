@@ -0,0 +1,508 @@
+import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Request } from 'express';
+import { IsNull, Repository } from 'typeorm';
+import { Cart } from 'src/typeorm/entities/Cart';
+import { CartItem } from 'src/typeorm/entities/CartItem';
+import { Product } from 'src/typeorm/entities/Product';
+import { ProductVariant } from 'src/typeorm/entities/ProductVariant';
+import { User } from 'src/typeorm/entities/User';
+import { OrdersService } from 'src/orders/orders.service';
+import { CurrencyService } from 'src/currency/currency.service';
+import { IAddCartItem, ICheckoutCart, IUpdateCartItem } from 'utils/Interfaces';
+import { DEFAULT_CURRENCY, normalizeCurrency } from 'src/money/money';
+import { CartOwner } from './cart-owner';
+
+// `variantId` is only there for lines of a variant
+export type CartIssue = { productId: number; variantId?: number } & (
+  | {
+      type: 'PRICE_CHANGED';
+      previousPrice: number;
+      currentPrice: number;
+    }
+  | { type: 'OUT_OF_STOCK' }
+  | { type: 'INSUFFICIENT_STOCK'; available: number }
+);
+
+type CartLine = Pick<CartItem, 'product' | 'variant'>;
+
+@Injectable()
+export class CartService {
+  private readonly logger = new Logger(CartService.name);
+
+  constructor(
+    @InjectRepository(Cart) private cartRepository: Repository<Cart>,
+    @InjectRepository(CartItem)
+    private cartItemRepository: Repository<CartItem>,
+    @InjectRepository(Product) private productRepository: Repository<Product>,
+    @InjectRepository(ProductVariant)
+    private variantRepository: Repository<ProductVariant>,
+    @InjectRepository(User) private userRepository: Repository<User>,
+    private ordersService: OrdersService,
+    private currencyService: CurrencyService,
+  ) {}
+
+  // A variant line takes the variant's stock; an inactive variant can't be ordered at all
+  private availableStock({ product, variant }: CartLine): number {
+    if (variant && !variant.isActive) return 0;
+    const source = variant ?? product;
+    return Math.max(
+      0,
+      Number(source.stock ?? 0) - Number(source.reservedStock ?? 0),
+    );
+  }
+
+  /**
+   * Current unit price of each line in `currency`, priced the way an order in
+   * that currency would be: price overrides, else converted at today's rate.
+   * Variants without a price of their own cost what the product does.
+   */
+  private async priceLines(
+    lines: CartLine[],
+    currency: string,
+  ): Promise<number[]> {
+    const productPrices = await this.currencyService.priceProducts(
+      lines.filter((line) => !line.variant).map((line) => line.product),
+      currency,
+    );
+    const variantPrices = await this.currencyService.priceVariants(
+      lines
+        .filter((line) => line.variant)
+        .map((line) => ({ ...line.variant, product: line.product })),
+      currency,
+    );
+    return lines.map((line) =>
+      line.variant
+        ? variantPrices.get(line.variant.id)
+        : productPrices.get(line.product.id),
+    );
+  }
+
+  private isLine(item: CartItem, productId: number, variantId?: number | null) {
+    return (
+      item.product.id === productId &&
+      (item.variant?.id ?? null) === (variantId ?? null)
+    );
+  }
+
+  private lineRef(item: CartLine) {
+    return {
+      productId: item.product.id,
+      ...(item.variant && { variantId: item.variant.id }),
+    };
+  }
+
+  // The variant to add, required for products that have active variants
+  private async findVariant(
+    product: Product,
+    variantId?: number,
+  ): Promise<ProductVariant | null> {
+    if (!variantId) {
+      const variants = await this.variantRepository.count({
+        where: { product: { id: product.id }, isActive: true },
+      });
+      if (variants > 0) {
+        throw new HttpException(
+          `Choose a variant of ${product.name}`,
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+      return null;
+    }
+
+    const variant = await this.variantRepository.findOne({
+      where: { id: variantId, product: { id: product.id }, isActive: true },
+    });
+    if (!variant) {
+      throw new HttpException(
+        `Variant ${variantId} is not available for ${product.name}`,
+        HttpStatus.NOT_FOUND,
+      );
+    }
+    return variant;
+  }
+
+  private async findCart(owner: CartOwner): Promise<Cart | null> {
+    if (owner.userId) {
+      return this.cartRepository.findOne({
+        where: { user: { id: owner.userId } },
+      });
+    }
+    if (owner.token) {
+      return this.cartRepository.findOne({
+        where: { token: owner.token, user: IsNull() },
+      });
+    }
+    return null;
+  }
+
+  private async getOrCreateCart(owner: CartOwner): Promise<Cart> {
+    const existing = await this.findCart(owner);
+    if (existing) return existing;
+
+    if (!owner.userId && !owner.token) {
+      throw new HttpException('Missing cart token', HttpStatus.BAD_REQUEST);
+    }
+
+    // A user's cart starts in their preferred currency, a guest's in the store's
+    const user = owner.userId
+      ? await this.userRepository.findOne({ where: { id: owner.userId } })
+      : null;
+
+    return this.cartRepository.save(
+      this.cartRepository.create({
+        user: owner.userId ? ({ id: owner.userId } as User) : null,
+        token: owner.userId ? null : owner.token,
+        currency: normalizeCurrency(
+          user?.preferredCurrency ?? DEFAULT_CURRENCY,
+        ),
+        items: [],
+      }),
+    );
+  }
+
+  private assertEnoughStock(line: CartLine, quantity: number) {
+    const available = this.availableStock(line);
+    if (quantity > available) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.CONFLICT,
+          message: `Only ${available} left in stock`,
+          ...this.lineRef(line),
+          available,
+        },
+        HttpStatus.CONFLICT,
+      );
+    }
+  }
+
+  /**
+   * Compares every line with the current product, priced in the cart's
+   * currency. Price changes are reported once and the line is moved to the new
+   * price; stock problems are reported until the quantity is fixed. Passing
+   * another `currency` switches the cart to it, so every line is repriced.
+   */
+  private async revalidate(
+    cart: Cart,
+    currency: string = cart.currency,
+  ): Promise<CartIssue[]> {
+    const issues: CartIssue[] = [];
+    const repriced: CartItem[] = [];
+
+    const target = normalizeCurrency(currency);
+    if (normalizeCurrency(cart.currency) !== target) {
+      cart.currency = target;
+      await this.cartRepository.update(cart.id, { currency: target });
+    }
+
+    const items = cart.items ?? [];
+    const prices = await this.priceLines(items, target);
+
+    for (const [i, item] of items.entries()) {
+      const line = this.lineRef(item);
+      const currentPrice = prices[i];
+      const previousPrice = Number(item.unitPrice);
+
+      if (currentPrice !== previousPrice) {
+        issues.push({
+          ...line,
+          type: 'PRICE_CHANGED',
+          previousPrice,
+          currentPrice,
+        });
+        item.unitPrice = currentPrice;
+        repriced.push(item);
+      }
+
+      const available = this.availableStock(item);
+      if (available === 0) {
+        issues.push({ ...line, type: 'OUT_OF_STOCK' });
+      } else if (item.quantity > available) {
+        issues.push({ ...line, type: 'INSUFFICIENT_STOCK', available });
+      }
+    }
+
+    if (repriced.length > 0) {
+      await this.cartItemRepository.save(repriced);
+    }
+
+    return issues;
+  }
+
+  // Amounts are in minor units of `currency`, the cart's currency
+  private toView(cart: Cart | null, issues: CartIssue[] = []) {
+    const currency = normalizeCurrency(cart?.currency);
+    const items = (cart?.items ?? []).map((item) => ({
+      productId: item.product.id,
+      variantId: item.variant?.id ?? null,
+      sku: item.variant?.sku ?? item.product.sku ?? null,
+      options: item.variant?.options ?? null,
+      name: item.product.name,
+      imageUrl: item.variant?.imageUrl ?? item.product.imageUrl,
+      quantity: item.quantity,
+      unitPrice: Number(item.unitPrice),
+      currency,
+      available: this.availableStock(item),
+      lineTotal: Number(item.unitPrice) * item.quantity,
+    }));
+
+    return {
+      id: cart?.id ?? null,
+      items,
+      itemCount: items.reduce((sum, item) => sum + item.quantity, 0),
+      subtotal: items.reduce((sum, item) => sum + item.lineTotal, 0),
+      currency,
+      issues,
+    };
+  }
+
+  private async cartResponse(message: string, owner: CartOwner) {
+    const cart = await this.findCart(owner);
+    const issues = cart ? await this.revalidate(cart) : [];
+    return { message, cart: this.toView(cart, issues) };
+  }
+
+  private rethrow(error: unknown, action: string): never {
+    if (error instanceof HttpException) throw error;
+    this.logger.error(
+      `Failed to ${action}`,
+      (error as any)?.stack ?? String(error),
+    );
+    throw new HttpException(
+      `An error occurred while trying to ${action}`,
+      HttpStatus.INTERNAL_SERVER_ERROR,
+    );
+  }
+
+  async getCart(owner: CartOwner) {
+    try {
+      return await this.cartResponse('Cart retrieved successfully', owner);
+    } catch (error) {
+      this.rethrow(error, 'retrieve the cart');
+    }
+  }
+
+  private isDuplicateKeyError(error: any): boolean {
+    return (
+      error?.code === 'ER_DUP_ENTRY' ||
+      error?.driverError?.code === 'ER_DUP_ENTRY'
+    );
+  }
+
+  private async addToCart(owner: CartOwner, params: IAddCartItem) {
+    const product = await this.productRepository.findOne({
+      where: { id: params.productId },
+    });
+    if (!product) {
+      throw new HttpException('Product not found', HttpStatus.NOT_FOUND);
+    }
+
+    const variant = await this.findVariant(product, params.variantId);
+    const line = { product, variant };
+
+    const cart = await this.getOrCreateCart(owner);
+    const existing = cart.items.find((item) =>
+      this.isLine(item, product.id, variant?.id),
+    );
+    const quantity = (existing?.quantity ?? 0) + params.quantity;
+    this.assertEnoughStock(line, quantity);
+
+    const [unitPrice] = await this.priceLines([line], cart.currency);
+    if (existing) {
+      existing.quantity = quantity;
+      existing.unitPrice = unitPrice;
+    } else {
+      cart.items.push(
+        this.cartItemRepository.create({
+          product,
+          variant,
+          quantity,
+          unitPrice,
+        }),
+      );
+    }
+    await this.cartRepository.save(cart);
+  }
+
+  async addItem(owner: CartOwner, params: IAddCartItem) {
+    try {
+      try {
+        await this.addToCart(owner, params);
+      } catch (error) {
+        if (!this.isDuplicateKeyError(error)) throw error;
+        // A concurrent request created the same cart or line first; adding
+        // again finds it and adds to its quantity
+        await this.addToCart(owner, params);
+      }
+
+      return await this.cartResponse('Item added to cart', owner);
+    } catch (error) {
+      this.rethrow(error, 'add the item to the cart');
+    }
+  }
+
+  async updateItem(
+    owner: CartOwner,
+    productId: number,
+    params: IUpdateCartItem,
+  ) {
+    try {
+      const cart = await this.findCart(owner);
+      const item = cart?.items.find((i) =>
+        this.isLine(i, productId, params.variantId),
+      );
+      if (!item) {
+        throw new HttpException(
+          'Product is not in the cart',
+          HttpStatus.NOT_FOUND,
+        );
+      }
+
+      this.assertEnoughStock(item, params.quantity);
+      item.quantity = params.quantity;
+      await this.cartItemRepository.save(item);
+
+      return await this.cartResponse('Cart item updated successfully', owner);
+    } catch (error) {
+      this.rethrow(error, 'update the cart item');
+    }
+  }
+
+  async removeItem(owner: CartOwner, productId: number, variantId?: number) {
+    try {
+      const cart = await this.findCart(owner);
+      const item = cart?.items.find((i) =>
+        this.isLine(i, productId, variantId),
+      );
+      if (!item) {
+        throw new HttpException(
+          'Product is not in the cart',
+          HttpStatus.NOT_FOUND,
+        );
+      }
+
+      await this.cartItemRepository.remove(item);
+
+      return await this.cartResponse('Item removed from cart', owner);
+    } catch (error) {
+      this.rethrow(error, 'remove the item from the cart');
+    }
+  }
+
+  async clearCart(owner: CartOwner) {
+    try {
+      const cart = await this.findCart(owner);
+      if (cart?.items.length) {
+        await this.cartItemRepository.remove(cart.items);
+      }
+
+      return { message: 'Cart cleared successfully', cart: this.toView(null) };
+    } catch (error) {
+      this.rethrow(error, 'clear the cart');
+    }
+  }
+
+  /**
+   * Turns the user's cart into a PENDING order. Refuses (409) while the cart has
+   * unresolved issues so the customer never pays a price they haven't seen.
+   */
+  async checkout(userId: number, params: ICheckoutCart, req: Request) {
+    try {
+      const cart = await this.findCart({ userId });
+      if (!cart || cart.items.length === 0) {
+        throw new HttpException('Cart is empty', HttpStatus.BAD_REQUEST);
+      }
+
+      // The order is placed in the currency the cart shows; asking for another
+      // one reprices the cart, which has to be reviewed first
+      const issues = await this.revalidate(
+        cart,
+        params.currency ?? cart.currency,
+      );
+      if (issues.length > 0) {
+        throw new HttpException(
+          {
+            statusCode: HttpStatus.CONFLICT,
+            message: 'Cart has changed, please review it before checking out',
+            issues,
+          },
+          HttpStatus.CONFLICT,
+        );
+      }
+
+      const result = await this.ordersService.createOrder(
+        {
+          name: params.name,
+          userId,
+          shippingAddressId: params.shippingAddressId,
+          billingAddressId: params.billingAddressId,
+          couponCode: params.couponCode,
+          shippingMethodId: params.shippingMethodId,
+          currency: cart.currency,
+          items: cart.items.map((item) => ({
+            productId: item.product.id,
+            variantId: item.variant?.id,
+            quantity: item.quantity,
+          })),
+        },
+        req,
+      );
+
+      await this.cartItemRepository.remove(cart.items);
+
+      return result;
+    } catch (error) {
+      this.rethrow(error, 'check out the cart');
+    }
+  }
+
+  /**
+   * Moves a guest cart into the user's cart after login. Quantities of the same
+   * product (and variant) are added up. Never throws - a failed merge must not block the login.
+   */
+  async mergeGuestCart(token: string, userId: number) {
+    try {
+      const guestCart = await this.findCart({ token });
+      if (!guestCart) return;
+
+      const userCart = await this.findCart({ userId });
+
+      await this.cartRepository.manager.transaction(async (manager) => {
+        const cartRepository = manager.getRepository(Cart);
+
+        if (!userCart) {
+          guestCart.user = { id: userId } as User;
+          guestCart.token = null;
+          await cartRepository.save(guestCart);
+          return;
+        }
+
+        for (const guestItem of guestCart.items) {
+          const existing = userCart.items.find((item) =>
+            this.isLine(item, guestItem.product.id, guestItem.variant?.id),
+          );
+          if (existing) {
+            existing.quantity += guestItem.quantity;
+          } else {
+            userCart.items.push(
+              manager.getRepository(CartItem).create({
+                product: guestItem.product,
+                variant: guestItem.variant ?? null,
+                quantity: guestItem.quantity,
+                unitPrice: guestItem.unitPrice,
+              }),
+            );
+          }
+        }
+
+        await cartRepository.remove(guestCart);
+        await cartRepository.save(userCart);
+      });
+    } catch (error) {
+      this.logger.error(
+        'Failed to merge guest cart',
+        (error as any)?.stack ?? String(error),
+      );
+    }
+  }
+}
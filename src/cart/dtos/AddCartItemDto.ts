@@ -0,0 +1,21 @@
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, Min } from 'class-validator';
+
+export class AddCartItemDto {
+  @IsInt()
+  @Type(() => Number)
+  @Min(1, { message: 'Product ID must be valid' })
+  productId: number;
+
+  // Required for products that have variants
+  @IsOptional()
+  @IsInt()
+  @Type(() => Number)
+  @Min(1, { message: 'Variant ID must be valid' })
+  variantId?: number;
+
+  @IsInt()
+  @Type(() => Number)
+  @Min(1, { message: 'Quantity must be at least 1' })
+  quantity: number;
+}
@@ -0,0 +1,42 @@
+import {
+  IsISO4217CurrencyCode,
+  IsInt,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class CheckoutCartDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  name?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  shippingAddressId?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  billingAddressId?: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  couponCode?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  shippingMethodId?: number;
+
+  // Defaults to the cart's currency; another one reprices the cart first (409)
+  @IsOptional()
+  @IsISO4217CurrencyCode({
+    message: 'Currency must be a three-letter ISO code',
+  })
+  currency?: string;
+}
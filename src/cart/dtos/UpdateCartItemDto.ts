@@ -0,0 +1,16 @@
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, Min } from 'class-validator';
+
+export class UpdateCartItemDto {
+  // Picks the line when the product is in the cart in several variants
+  @IsOptional()
+  @IsInt()
+  @Type(() => Number)
+  @Min(1, { message: 'Variant ID must be valid' })
+  variantId?: number;
+
+  @IsInt()
+  @Type(() => Number)
+  @Min(1, { message: 'Quantity must be at least 1' })
+  quantity: number;
+}
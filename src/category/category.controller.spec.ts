@@ -16,6 +16,8 @@ describe('CategoryController', () => {
     createCategory: jest.fn(),
     deleteCategory: jest.fn(),
     updateCategory: jest.fn(),
+    getCategoryTree: jest.fn(),
+    moveCategory: jest.fn(),
   };
 
   const mockCategory = {
@@ -486,4 +488,38 @@ describe('CategoryController', () => {
       ).rejects.toThrow('Database error');
     });
   });
+
+  describe('getCategoryTree', () => {
+    it('should return the nested categories', async () => {
+      const tree = [{ ...mockCategory, children: [] }];
+      mockCategoryService.getCategoryTree.mockResolvedValue(tree);
+
+      const result = await controller.getCategoryTree();
+
+      expect(result).toEqual(tree);
+      expect(mockCategoryService.getCategoryTree).toHaveBeenCalledWith();
+    });
+  });
+
+  describe('moveCategory', () => {
+    it('should pass the id and new parent to service', async () => {
+      const mockResponse = { message: 'Category moved successfully!' };
+      mockCategoryService.moveCategory.mockResolvedValue(mockResponse);
+
+      const result = await controller.moveCategory(9, { parentId: 2 });
+
+      expect(result).toEqual(mockResponse);
+      expect(mockCategoryService.moveCategory).toHaveBeenCalledWith(9, 2);
+    });
+
+    it('should move a category to the top level with a null parent', async () => {
+      mockCategoryService.moveCategory.mockResolvedValue({
+        message: 'Category moved successfully!',
+      });
+
+      await controller.moveCategory(9, { parentId: null });
+
+      expect(mockCategoryService.moveCategory).toHaveBeenCalledWith(9, null);
+    });
+  });
 });
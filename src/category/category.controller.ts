@@ -12,6 +12,7 @@ import {
 import { CategoryService } from './category.service';
 import { CreateCategoryDto } from './dtos/CreateCategoryDto';
 import { UpdateCategoryDto } from './dtos/UpdateCategoryDto';
+import { MoveCategoryDto } from './dtos/MoveCategoryDto';
 import { Public } from 'utils/publicDecorator';
 import { Roles } from 'utils/rolesDecorator';
 import { ApiTags } from '@nestjs/swagger';
@@ -26,6 +27,11 @@ export class CategoryController {
     return this.categoryService.getAllCategories();
   }
   @Public()
+  @Get('tree')
+  getCategoryTree() {
+    return this.categoryService.getCategoryTree();
+  }
+  @Public()
   @Get('details')
   getCategoriesWithDetails() {
     return this.categoryService.getAllCategoriesWithDetails();
@@ -62,4 +68,13 @@ export class CategoryController {
   ) {
     return this.categoryService.updateCategory(id, updateCategoryDto);
   }
+
+  @Roles('admin')
+  @Put(':id/parent')
+  moveCategory(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() moveCategoryDto: MoveCategoryDto,
+  ) {
+    return this.categoryService.moveCategory(id, moveCategoryDto.parentId);
+  }
 }
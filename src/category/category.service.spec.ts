@@ -16,6 +16,24 @@ describe('CategoryService', () => {
     save: jest.fn(),
     delete: jest.fn(),
     update: jest.fn(),
+    count: jest.fn().mockResolvedValue(0),
+    findTrees: jest.fn(),
+    createQueryBuilder: jest.fn(),
+  };
+
+  // Answers the category path lookups with `mpaths` (id => path)
+  const mockPaths = (mpaths: Record<number, string>) => {
+    const qb: any = {};
+    ['select', 'addSelect', 'where'].forEach(
+      (method) => (qb[method] = jest.fn().mockReturnValue(qb)),
+    );
+    qb.getRawMany = jest
+      .fn()
+      .mockResolvedValue(
+        Object.entries(mpaths).map(([id, mpath]) => ({ id, mpath })),
+      );
+    mockCategoryRepository.createQueryBuilder.mockReturnValue(qb);
+    return qb;
   };
 
   const mockCategory = {
@@ -339,6 +357,45 @@ describe('CategoryService', () => {
       ).rejects.toThrow('Save failed');
     });
 
+    it('should create a category under a parent', async () => {
+      const parent = { id: 1, name: 'Electronics' };
+      mockCategoryRepository.findOne
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(parent);
+      mockCategoryRepository.create.mockReturnValue(mockCategory);
+      mockCategoryRepository.save.mockResolvedValue(mockCategory);
+
+      await service.createCategory({
+        name: 'Laptops',
+        imageUrl: 'https://example.com/laptops.jpg',
+        parentId: 1,
+      });
+
+      expect(mockCategoryRepository.findOne).toHaveBeenLastCalledWith({
+        where: { id: 1 },
+      });
+      expect(mockCategoryRepository.create).toHaveBeenCalledWith({
+        name: 'Laptops',
+        imageUrl: 'https://example.com/laptops.jpg',
+        parent,
+      });
+    });
+
+    it('should throw NOT_FOUND when the parent does not exist', async () => {
+      mockCategoryRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.createCategory({
+          name: 'Laptops',
+          imageUrl: 'https://example.com/laptops.jpg',
+          parentId: 99,
+        }),
+      ).rejects.toThrow(
+        new HttpException('Parent category not found', HttpStatus.NOT_FOUND),
+      );
+      expect(mockCategoryRepository.save).not.toHaveBeenCalled();
+    });
+
     it('should be case-sensitive when checking for duplicates', async () => {
       mockCategoryRepository.findOne.mockResolvedValue(null);
       mockCategoryRepository.create.mockReturnValue(mockCategory);
@@ -355,7 +412,136 @@ describe('CategoryService', () => {
     });
   });
 
+  describe('getCategoryTree', () => {
+    it('should nest categories and sort each level by name', async () => {
+      mockCategoryRepository.findTrees.mockResolvedValue([
+        {
+          id: 2,
+          name: 'Electronics',
+          children: [
+            { id: 5, name: 'Phones', children: [] },
+            { id: 4, name: 'Laptops', children: [] },
+          ],
+        },
+        { id: 1, name: 'Books', children: [] },
+      ]);
+
+      const result = await service.getCategoryTree();
+
+      expect(result.map((c) => c.name)).toEqual(['Books', 'Electronics']);
+      expect(result[1].children.map((c) => c.name)).toEqual([
+        'Laptops',
+        'Phones',
+      ]);
+    });
+  });
+
+  describe('breadcrumbs', () => {
+    it('should list the path of each category, top-level first', async () => {
+      const qb = mockPaths({ 9: '1.4.9.', 1: '1.' });
+      mockCategoryRepository.find.mockResolvedValue([
+        { id: 1, name: 'Electronics' },
+        { id: 4, name: 'Computers' },
+        { id: 9, name: 'Laptops' },
+      ]);
+
+      const result = await service.breadcrumbs([9, 1, 9, undefined]);
+
+      expect(qb.where).toHaveBeenCalledWith('category.id IN (:...ids)', {
+        ids: [9, 1],
+      });
+      expect(result.get(9)).toEqual([
+        { id: 1, name: 'Electronics' },
+        { id: 4, name: 'Computers' },
+        { id: 9, name: 'Laptops' },
+      ]);
+      expect(result.get(1)).toEqual([{ id: 1, name: 'Electronics' }]);
+    });
+
+    it('should not query without categories', async () => {
+      expect(await service.breadcrumbs([])).toEqual(new Map());
+      expect(mockCategoryRepository.createQueryBuilder).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('moveCategory', () => {
+    const laptops = { id: 9, name: 'Laptops', parent: { id: 4 } };
+
+    it('should move a category under another parent', async () => {
+      const parent = { id: 2, name: 'Computers' };
+      mockCategoryRepository.findOne
+        .mockResolvedValueOnce({ ...laptops })
+        .mockResolvedValueOnce(parent);
+      mockPaths({ 2: '1.2.' });
+
+      const result = await service.moveCategory(9, 2);
+
+      expect(result).toEqual({ message: 'Category moved successfully!' });
+      expect(mockCategoryRepository.findOne).toHaveBeenCalledWith({
+        where: { id: 9 },
+        relations: ['parent'],
+      });
+      expect(mockCategoryRepository.save).toHaveBeenCalledWith({
+        ...laptops,
+        parent,
+      });
+    });
+
+    it('should move a category to the top level', async () => {
+      mockCategoryRepository.findOne.mockResolvedValueOnce({ ...laptops });
+
+      await service.moveCategory(9, null);
+
+      expect(mockCategoryRepository.findOne).toHaveBeenCalledTimes(1);
+      expect(mockCategoryRepository.save).toHaveBeenCalledWith({
+        ...laptops,
+        parent: null,
+      });
+    });
+
+    it('should refuse to move a category under its own subcategory', async () => {
+      mockCategoryRepository.findOne
+        .mockResolvedValueOnce({ ...laptops })
+        .mockResolvedValueOnce({ id: 12, name: 'Gaming laptops' });
+      mockPaths({ 12: '1.4.9.12.' });
+
+      await expect(service.moveCategory(9, 12)).rejects.toThrow(
+        new HttpException(
+          'A category cannot be moved under itself or one of its subcategories',
+          HttpStatus.BAD_REQUEST,
+        ),
+      );
+      expect(mockCategoryRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should throw NOT_FOUND when the new parent does not exist', async () => {
+      mockCategoryRepository.findOne
+        .mockResolvedValueOnce({ ...laptops })
+        .mockResolvedValueOnce(null);
+
+      await expect(service.moveCategory(9, 99)).rejects.toThrow(
+        new HttpException('Parent category not found', HttpStatus.NOT_FOUND),
+      );
+    });
+  });
+
   describe('deleteCategory', () => {
+    it('should throw CONFLICT while the category has subcategories', async () => {
+      mockCategoryRepository.findOne.mockResolvedValue(mockCategory);
+      mockCategoryRepository.count.mockResolvedValueOnce(2);
+
+      await expect(service.deleteCategory(1)).rejects.toThrow(
+        new HttpException(
+          'This category has subcategories; move or delete them first',
+          HttpStatus.CONFLICT,
+        ),
+      );
+      expect(mockCategoryRepository.count).toHaveBeenCalledWith({
+        where: { parent: { id: 1 } },
+      });
+      expect(mockCategoryRepository.delete).not.toHaveBeenCalled();
+    });
+
     it('should delete a category successfully', async () => {
       mockCategoryRepository.findOne.mockResolvedValue(mockCategory);
       mockCategoryRepository.delete.mockResolvedValue({ affected: 1 });
@@ -1,15 +1,63 @@
-import { HttpException, HttpStatus, Injectable } from '@nestjs/common';
+import {
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Category } from 'src/typeorm/entities/Category';
-import { Repository } from 'typeorm';
+import { In, TreeRepository } from 'typeorm';
 import { ICreateCategory, IUpdateCategory } from 'utils/Interfaces';
 
+// One step of a product's category path
+export type CategoryCrumb = { id: number; name: string };
+
+export type CategoryTreeNode = Category & { children: CategoryTreeNode[] };
+
 @Injectable()
-export class CategoryService {
+export class CategoryService implements OnModuleInit {
+  private readonly logger = new Logger(CategoryService.name);
+
   constructor(
     @InjectRepository(Category)
-    private categoryRepository: Repository<Category>,
+    private categoryRepository: TreeRepository<Category>,
   ) {}
+
+  /**
+   * Categories created before the tree existed have no path yet; they're all
+   * top-level, so their path is just their own id.
+   */
+  async onModuleInit() {
+    try {
+      await this.categoryRepository
+        .createQueryBuilder()
+        .update(Category)
+        .set({ mpath: () => "CONCAT(id, '.')" } as any)
+        .where("(mpath = '' OR mpath IS NULL) AND parentId IS NULL")
+        .execute();
+    } catch (error) {
+      this.logger.warn(
+        `Could not fill in category paths: ${error?.message ?? error}`,
+      );
+    }
+  }
+
+  // The ids on the path from the top-level category down to each category
+  private async paths(ids: number[]): Promise<Map<number, number[]>> {
+    const rows: { id: number; mpath: string }[] = await this.categoryRepository
+      .createQueryBuilder('category')
+      .select('category.id', 'id')
+      .addSelect('category.mpath', 'mpath')
+      .where('category.id IN (:...ids)', { ids })
+      .getRawMany();
+    return new Map(
+      rows.map((row) => {
+        const path = (row.mpath ?? '').split('.').filter(Boolean).map(Number);
+        return [Number(row.id), path.length ? path : [Number(row.id)]];
+      }),
+    );
+  }
   async getAllCategories() {
     let categories = await this.categoryRepository.find();
     if (!categories || categories.length === 0)
@@ -56,6 +104,45 @@ export class CategoryService {
     return category;
   }
 
+  // Every category, nested under its parent and sorted by name
+  async getCategoryTree() {
+    const roots =
+      (await this.categoryRepository.findTrees()) as CategoryTreeNode[];
+    const sort = (nodes: CategoryTreeNode[]) => {
+      nodes.sort((a, b) => a.name.localeCompare(b.name));
+      nodes.forEach((node) => sort(node.children ?? []));
+      return nodes;
+    };
+    return sort(roots);
+  }
+
+  /**
+   * The category path of each of the given categories, top-level first and
+   * ending with the category itself. Unknown ids are left out.
+   */
+  async breadcrumbs(
+    categoryIds: number[],
+  ): Promise<Map<number, CategoryCrumb[]>> {
+    const ids = [...new Set(categoryIds.filter(Boolean))];
+    if (ids.length === 0) return new Map();
+    const paths = await this.paths(ids);
+    const ancestors = await this.categoryRepository.find({
+      select: { id: true, name: true },
+      where: { id: In([...new Set([...paths.values()].flat())]) },
+    });
+    const names = new Map(ancestors.map((c) => [c.id, c.name]));
+    const crumbs = new Map<number, CategoryCrumb[]>();
+    for (const [id, path] of paths) {
+      crumbs.set(
+        id,
+        path
+          .filter((step) => names.has(step))
+          .map((step) => ({ id: step, name: names.get(step) })),
+      );
+    }
+    return crumbs;
+  }
+
   async createCategory(params: ICreateCategory) {
     let ifExists = await this.categoryRepository.findOne({
       where: { name: params.name },
@@ -65,11 +152,66 @@ export class CategoryService {
         'This category with the same name already exists',
         HttpStatus.CONFLICT,
       );
-    let newCategory = this.categoryRepository.create(params);
+    const { parentId, ...fields } = params;
+    let parent: Category | undefined;
+    if (parentId !== undefined) {
+      parent = await this.categoryRepository.findOne({
+        where: { id: parentId },
+      });
+      if (!parent)
+        throw new HttpException(
+          'Parent category not found',
+          HttpStatus.NOT_FOUND,
+        );
+    }
+    let newCategory = this.categoryRepository.create(
+      parent ? { ...fields, parent } : fields,
+    );
     await this.categoryRepository.save(newCategory);
     return { message: 'Category created successfully!' };
   }
 
+  /**
+   * Moves a category, with its subcategories and their products, under
+   * another parent, or to the top level when `parentId` is null.
+   */
+  async moveCategory(id: number, parentId: number | null) {
+    if (!id || id <= 0) {
+      throw new HttpException('Invalid category ID', HttpStatus.BAD_REQUEST);
+    }
+    let category = await this.categoryRepository.findOne({
+      where: { id },
+      relations: ['parent'],
+    });
+    if (!category)
+      throw new HttpException(
+        'Category with this id doesnt exist!',
+        HttpStatus.NOT_FOUND,
+      );
+
+    let parent: Category | null = null;
+    if (parentId !== null) {
+      parent = await this.categoryRepository.findOne({
+        where: { id: parentId },
+      });
+      if (!parent)
+        throw new HttpException(
+          'Parent category not found',
+          HttpStatus.NOT_FOUND,
+        );
+      const parentPath = (await this.paths([parentId])).get(parentId) ?? [];
+      if (parentPath.includes(id))
+        throw new HttpException(
+          'A category cannot be moved under itself or one of its subcategories',
+          HttpStatus.BAD_REQUEST,
+        );
+    }
+
+    category.parent = parent;
+    await this.categoryRepository.save(category);
+    return { message: 'Category moved successfully!' };
+  }
+
   async deleteCategory(id: number) {
     if (!id || id <= 0) {
       throw new HttpException('Invalid category ID', HttpStatus.BAD_REQUEST);
@@ -80,6 +222,14 @@ export class CategoryService {
         `Category with this id doesnt exist!`,
         HttpStatus.NOT_FOUND,
       );
+    let subcategories = await this.categoryRepository.count({
+      where: { parent: { id } },
+    });
+    if (subcategories > 0)
+      throw new HttpException(
+        'This category has subcategories; move or delete them first',
+        HttpStatus.CONFLICT,
+      );
     await this.categoryRepository.delete({ id });
     return { message: 'Category deleted successfully!' };
   }
@@ -1,4 +1,11 @@
-import { IsInt, IsString, IsUrl, IsDate } from 'class-validator';
+import {
+  IsInt,
+  IsString,
+  IsUrl,
+  IsDate,
+  IsOptional,
+  Min,
+} from 'class-validator';
 
 export class CreateCategoryDto {
   @IsString()
@@ -6,4 +13,10 @@ export class CreateCategoryDto {
 
   @IsUrl()
   imageUrl: string;
+
+  // Creates a top-level category when left out
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  parentId?: number;
 }
@@ -0,0 +1,9 @@
+import { IsInt, Min, ValidateIf } from 'class-validator';
+
+export class MoveCategoryDto {
+  // Null moves the category to the top level
+  @ValidateIf((dto) => dto.parentId !== null)
+  @IsInt()
+  @Min(1)
+  parentId: number | null;
+}
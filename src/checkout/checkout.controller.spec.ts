@@ -1,13 +1,7 @@
-jest.mock('../../lib/stripe', () => ({
-  stripe: {
-    checkout: { sessions: { create: jest.fn() } },
-    webhooks: { constructEvent: jest.fn() },
-  },
-}));
-
 import { Test, TestingModule } from '@nestjs/testing';
 import { CheckoutController } from './checkout.controller';
 import { CheckoutService } from './checkout.service';
+import { WebhookEventsService } from './webhook-events.service';
 import { HttpException, HttpStatus } from '@nestjs/common';
 import { Request } from 'express';
 
@@ -17,6 +11,12 @@ describe('CheckoutController', () => {
   const mockCheckoutService = {
     finalizeCheckout: jest.fn(),
     handleWebhookEvent: jest.fn(),
+    replayWebhookEvent: jest.fn(),
+    guestCheckout: jest.fn(),
+  };
+
+  const mockWebhookEventsService = {
+    listEvents: jest.fn(),
   };
 
   const makeReq = (userId?: number) =>
@@ -32,6 +32,10 @@ describe('CheckoutController', () => {
           provide: CheckoutService,
           useValue: mockCheckoutService,
         },
+        {
+          provide: WebhookEventsService,
+          useValue: mockWebhookEventsService,
+        },
       ],
     }).compile();
 
@@ -109,4 +113,51 @@ describe('CheckoutController', () => {
       });
     });
   });
-});
\ No newline at end of file
+
+  describe('getWebhookEvents', () => {
+    it('should pass the status filter to the service', async () => {
+      const mockResponse = { message: 'Webhook events retrieved successfully', events: [] };
+      mockWebhookEventsService.listEvents.mockResolvedValue(mockResponse);
+
+      const result = await controller.getWebhookEvents('FAILED');
+
+      expect(result).toEqual(mockResponse);
+      expect(mockWebhookEventsService.listEvents).toHaveBeenCalledWith('FAILED');
+    });
+  });
+
+  describe('replayWebhookEvent', () => {
+    it('should replay the event by id', async () => {
+      const mockResponse = { message: 'Webhook event replayed successfully', result: {} };
+      mockCheckoutService.replayWebhookEvent.mockResolvedValue(mockResponse);
+
+      const result = await controller.replayWebhookEvent(7);
+
+      expect(result).toEqual(mockResponse);
+      expect(mockCheckoutService.replayWebhookEvent).toHaveBeenCalledWith(7);
+    });
+  });
+
+  describe('guestCheckout', () => {
+    it('should pass the body to the service', async () => {
+      const dto = {
+        email: 'guest@test.com',
+        items: [{ productId: 1, quantity: 1 }],
+        shippingAddress: {
+          fullName: 'Guest Buyer',
+          line1: '1 Main St',
+          city: 'Springfield',
+          postalCode: '12345',
+          country: 'US',
+        },
+      };
+      const mockResponse = { message: 'Guest order created successfully', orderId: 1, url: 'x' };
+      mockCheckoutService.guestCheckout.mockResolvedValue(mockResponse);
+
+      const result = await controller.guestCheckout(dto);
+
+      expect(result).toEqual(mockResponse);
+      expect(mockCheckoutService.guestCheckout).toHaveBeenCalledWith(dto);
+    });
+  });
+});
@@ -2,10 +2,14 @@ import {
   Body,
   Controller,
   Header,
+  Get,
   Headers,
   HttpException,
   HttpStatus,
+  Param,
+  ParseIntPipe,
   Post,
+  Query,
   Req,
   UseGuards,
 } from '@nestjs/common';
@@ -14,11 +18,18 @@ import { Public } from 'utils/publicDecorator';
 import { Request } from 'express';
 import { JwtAuthGuard } from 'src/auth/jwt.auth.guard';
 import { ApiTags } from '@nestjs/swagger';
+import { Roles } from 'utils/rolesDecorator';
+import { WebhookEventsService } from './webhook-events.service';
+import { Throttle, seconds } from '@nestjs/throttler';
+import { GuestCheckoutDto } from './dtos/GuestCheckoutDto';
 
 @ApiTags('checkout')
 @Controller('checkout')
 export class CheckoutController {
-  constructor(private readonly checkoutService: CheckoutService) {}
+  constructor(
+    private readonly checkoutService: CheckoutService,
+    private readonly webhookEventsService: WebhookEventsService,
+  ) {}
 
   @UseGuards(JwtAuthGuard)
   @Post('finalize')
@@ -33,6 +44,13 @@ export class CheckoutController {
     return this.checkoutService.finalizeCheckout(body.orderId, userId);
   }
 
+  @Public()
+  @Throttle({ default: { limit: 5, ttl: seconds(60) } })
+  @Post('guest')
+  guestCheckout(@Body() guestCheckoutDto: GuestCheckoutDto) {
+    return this.checkoutService.guestCheckout(guestCheckoutDto);
+  }
+
   @Post('/webhook')
   @Public()
   @Header('Content-Type', 'application/json')
@@ -49,4 +67,16 @@ export class CheckoutController {
       throw new HttpException('Webhook processing failed', HttpStatus.BAD_REQUEST);
     }
   }
+
+  @Roles('admin')
+  @Get('webhook-events')
+  getWebhookEvents(@Query('status') status?: string) {
+    return this.webhookEventsService.listEvents(status);
+  }
+
+  @Roles('admin')
+  @Post('webhook-events/:id/replay')
+  replayWebhookEvent(@Param('id', ParseIntPipe) id: number) {
+    return this.checkoutService.replayWebhookEvent(id);
+  }
 }
@@ -1,15 +1,19 @@
 import { Module } from '@nestjs/common';
 import { CheckoutService } from './checkout.service';
 import { CheckoutController } from './checkout.controller';
-import { OrdersService } from 'src/orders/orders.service';
+import { OrdersModule } from 'src/orders/orders.module';
 import { TypeOrmModule } from '@nestjs/typeorm';
-import { Order } from 'src/typeorm/entities/Order';
-import { Product } from 'src/typeorm/entities/Product';
-import { User } from 'src/typeorm/entities/User';
+import { ProcessedWebhookEvent } from 'src/typeorm/entities/ProcessedWebhookEvent';
+import { WebhookEventsService } from './webhook-events.service';
+import { PaymentsModule } from 'src/payments/payments.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Order, Product, User])],
+  imports: [
+    TypeOrmModule.forFeature([ProcessedWebhookEvent]),
+    OrdersModule,
+    PaymentsModule,
+  ],
   controllers: [CheckoutController],
-  providers: [CheckoutService, OrdersService],
+  providers: [CheckoutService, WebhookEventsService],
 })
 export class CheckoutModule {}
@@ -2,15 +2,9 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { CheckoutService } from './checkout.service';
 import { OrdersService } from '../orders/orders.service';
 import { UserService } from '../user/user.service';
+import { WebhookEventsService } from './webhook-events.service';
 import { HttpException, HttpStatus } from '@nestjs/common';
-
-jest.mock('../../lib/stripe', () => ({
-  stripe: {
-    checkout: { sessions: { create: jest.fn() } },
-    webhooks: { constructEvent: jest.fn() },
-  },
-}));
-import { stripe } from '../../lib/stripe';
+import { PAYMENT_PROVIDER } from '../payments/payment-provider';
 
 describe('CheckoutService', () => {
   let service: CheckoutService;
@@ -20,12 +14,33 @@ describe('CheckoutService', () => {
   const mockOrdersService = {
     getOrderForCheckout: jest.fn(),
     completeOrderFromWebhook: jest.fn(),
+    attachCheckoutSession: jest.fn(),
+    cancelOrderFromWebhook: jest.fn(),
+    cancelPendingOrder: jest.fn(),
+    createGuestOrder: jest.fn(),
+    sendGuestOrderLink: jest.fn(),
   };
 
   const mockUserService = {
     getUserById: jest.fn(),
   };
 
+  const mockWebhookRecord = { id: 7, eventId: 'evt_1', payload: '{}' };
+
+  const mockWebhookEventsService = {
+    claim: jest.fn(),
+    markProcessed: jest.fn(),
+    markFailed: jest.fn(),
+    claimForReplay: jest.fn(),
+  };
+
+  const mockPaymentProvider = {
+    name: 'stripe',
+    createCheckoutSession: jest.fn(),
+    verifyWebhook: jest.fn(),
+    refund: jest.fn(),
+  };
+
   const mockUser = {
     id: 1,
     name: 'Test User',
@@ -62,16 +77,28 @@ describe('CheckoutService', () => {
           provide: UserService,
           useValue: mockUserService,
         },
+        {
+          provide: WebhookEventsService,
+          useValue: mockWebhookEventsService,
+        },
+        {
+          provide: PAYMENT_PROVIDER,
+          useValue: mockPaymentProvider,
+        },
       ],
     }).compile();
 
+    mockWebhookEventsService.claim.mockResolvedValue({
+      record: mockWebhookRecord,
+      shouldProcess: true,
+    });
+
     service = module.get<CheckoutService>(CheckoutService);
     ordersService = module.get<OrdersService>(OrdersService);
     userService = module.get<UserService>(UserService);
 
 
     process.env.NEXT_PUBLIC_BASE_URL = 'http://localhost:3000';
-    process.env.STRIPE_WEBHOOK_SECRET = 'whsec_test_secret';
   });
 
   afterEach(() => {
@@ -89,7 +116,7 @@ describe('CheckoutService', () => {
     beforeEach(() => {
       mockUserService.getUserById.mockResolvedValue(mockUser);
       mockOrdersService.getOrderForCheckout.mockResolvedValue(mockOrder);
-      (stripe.checkout.sessions.create as jest.Mock).mockResolvedValue(
+      mockPaymentProvider.createCheckoutSession.mockResolvedValue(
         mockStripeSession,
       );
     });
@@ -100,31 +127,18 @@ describe('CheckoutService', () => {
       expect(result).toEqual({ url: mockStripeSession.url });
       expect(mockUserService.getUserById).toHaveBeenCalledWith(userId);
       expect(mockOrdersService.getOrderForCheckout).toHaveBeenCalledWith(orderId);
-      expect(stripe.checkout.sessions.create).toHaveBeenCalledTimes(1);
+      expect(mockPaymentProvider.createCheckoutSession).toHaveBeenCalledTimes(1);
     });
 
     it('should create session with correct line items', async () => {
       await service.finalizeCheckout(orderId, userId);
 
-      expect(stripe.checkout.sessions.create).toHaveBeenCalledWith(
+      expect(mockPaymentProvider.createCheckoutSession).toHaveBeenCalledWith(
         expect.objectContaining({
-          line_items: [
-            {
-              price_data: {
-                currency: 'usd',
-                product_data: { name: 'Test Product 1' },
-                unit_amount: 10000, 
-              },
-              quantity: 2,
-            },
-            {
-              price_data: {
-                currency: 'usd',
-                product_data: { name: 'Test Product 2' },
-                unit_amount: 5000, 
-              },
-              quantity: 1,
-            },
+          currency: 'usd',
+          lineItems: [
+            { name: 'Test Product 1', unitAmountCents: 10000, quantity: 2 },
+            { name: 'Test Product 2', unitAmountCents: 5000, quantity: 1 },
           ],
         }),
       );
@@ -133,10 +147,10 @@ describe('CheckoutService', () => {
     it('should create session with correct URLs', async () => {
       await service.finalizeCheckout(orderId, userId);
 
-      expect(stripe.checkout.sessions.create).toHaveBeenCalledWith(
+      expect(mockPaymentProvider.createCheckoutSession).toHaveBeenCalledWith(
         expect.objectContaining({
-          success_url: `http://localhost:3000/success?orderId=${orderId}`,
-          cancel_url: 'http://localhost:3000/cart',
+          successUrl: `http://localhost:3000/success?orderId=${orderId}`,
+          cancelUrl: 'http://localhost:3000/cart',
         }),
       );
     });
@@ -144,7 +158,7 @@ describe('CheckoutService', () => {
     it('should include orderId in session metadata', async () => {
       await service.finalizeCheckout(orderId, userId);
 
-      expect(stripe.checkout.sessions.create).toHaveBeenCalledWith(
+      expect(mockPaymentProvider.createCheckoutSession).toHaveBeenCalledWith(
         expect.objectContaining({
           metadata: expect.objectContaining({
             orderId: orderId.toString(),
@@ -156,14 +170,11 @@ describe('CheckoutService', () => {
       );
     });
 
-    it('should set payment mode and method types correctly', async () => {
+    it('should pass the orderId to the payment provider', async () => {
       await service.finalizeCheckout(orderId, userId);
 
-      expect(stripe.checkout.sessions.create).toHaveBeenCalledWith(
-        expect.objectContaining({
-          payment_method_types: ['card'],
-          mode: 'payment',
-        }),
+      expect(mockPaymentProvider.createCheckoutSession).toHaveBeenCalledWith(
+        expect.objectContaining({ orderId }),
       );
     });
 
@@ -173,9 +184,18 @@ describe('CheckoutService', () => {
 
       await service.finalizeCheckout(orderId, userId);
 
-      const createCall = (stripe.checkout.sessions.create as jest.Mock).mock
+      const createCall = mockPaymentProvider.createCheckoutSession.mock
         .calls[0][0];
-      expect(createCall.line_items[0].price_data.currency).toBe('eur');
+      expect(createCall.currency).toBe('eur');
+    });
+
+    it('should attach the created session to the order', async () => {
+      await service.finalizeCheckout(orderId, userId);
+
+      expect(mockOrdersService.attachCheckoutSession).toHaveBeenCalledWith(
+        orderId,
+        mockStripeSession.id,
+      );
     });
 
     it('should throw BAD_REQUEST when orderId is missing', async () => {
@@ -213,7 +233,7 @@ describe('CheckoutService', () => {
         service.finalizeCheckout(orderId, userId),
       ).rejects.toThrow(HttpException);
 
-      expect(stripe.checkout.sessions.create).not.toHaveBeenCalled();
+      expect(mockPaymentProvider.createCheckoutSession).not.toHaveBeenCalled();
     });
 
     it('should throw FORBIDDEN when order does not belong to user', async () => {
@@ -260,7 +280,7 @@ describe('CheckoutService', () => {
 
     it('should propagate Stripe API errors', async () => {
       const stripeError = new Error('Stripe API error');
-      (stripe.checkout.sessions.create as jest.Mock).mockRejectedValue(
+      mockPaymentProvider.createCheckoutSession.mockRejectedValue(
         stripeError,
       );
 
@@ -277,15 +297,235 @@ describe('CheckoutService', () => {
 
       await service.finalizeCheckout(999, userId);
 
-      expect(stripe.checkout.sessions.create).toHaveBeenCalledWith(
+      expect(mockPaymentProvider.createCheckoutSession).toHaveBeenCalledWith(
         expect.objectContaining({
-          success_url: 'http://localhost:3000/success?orderId=999',
+          successUrl: 'http://localhost:3000/success?orderId=999',
           metadata: expect.objectContaining({ orderId: '999' }),
         }),
       );
     });
   });
 
+  describe('guestCheckout', () => {
+    const guestParams = {
+      email: 'guest@test.com',
+      items: [{ productId: 1, quantity: 2 }],
+      shippingAddress: {
+        fullName: 'Guest Buyer',
+        line1: '1 Main St',
+        city: 'Springfield',
+        postalCode: '12345',
+        country: 'US',
+      },
+    };
+    const guestOrder = {
+      ...mockOrder,
+      id: 77,
+      user: null,
+      guestEmail: 'guest@test.com',
+      shippingAddress: {
+        fullName: 'Guest Buyer',
+        line1: '1 Main St',
+        line2: null,
+        city: 'Springfield',
+        region: null,
+        postalCode: '12345',
+        country: 'US',
+        phone: null,
+      },
+      items: [{ quantity: 2, unitPrice: 10000, product: { name: 'Test Product 1' } }],
+    };
+
+    beforeEach(() => {
+      process.env.NEXT_PUBLIC_BASE_URL = 'http://localhost:3000';
+      mockOrdersService.createGuestOrder.mockResolvedValue({
+        message: 'Order created successfully!',
+        order: guestOrder,
+      });
+      mockPaymentProvider.createCheckoutSession.mockResolvedValue(mockStripeSession);
+    });
+
+    it('should create the order, start a payment session and email the lookup link', async () => {
+      const result = await service.guestCheckout(guestParams);
+
+      expect(result).toEqual({
+        message: 'Guest order created successfully',
+        orderId: 77,
+        url: mockStripeSession.url,
+      });
+      expect(mockOrdersService.createGuestOrder).toHaveBeenCalledWith(guestParams);
+      expect(mockOrdersService.attachCheckoutSession).toHaveBeenCalledWith(77, 'cs_test_123');
+      expect(mockOrdersService.sendGuestOrderLink).toHaveBeenCalledWith(guestOrder);
+    });
+
+    it('should cancel the order and rethrow when the provider rejects the session', async () => {
+      mockPaymentProvider.createCheckoutSession.mockRejectedValueOnce(new Error('Stripe is down'));
+      mockOrdersService.cancelPendingOrder.mockResolvedValueOnce({ received: true });
+
+      await expect(service.guestCheckout(guestParams)).rejects.toThrow('Stripe is down');
+
+      expect(mockOrdersService.cancelPendingOrder).toHaveBeenCalledWith(77, {
+        actor: 'guest',
+        reason: 'Payment session could not be created: Stripe is down',
+      });
+      expect(mockOrdersService.attachCheckoutSession).not.toHaveBeenCalled();
+      expect(mockOrdersService.sendGuestOrderLink).not.toHaveBeenCalled();
+    });
+
+    it('should still rethrow the provider error when the cancellation fails', async () => {
+      mockPaymentProvider.createCheckoutSession.mockRejectedValueOnce(new Error('Stripe is down'));
+      mockOrdersService.cancelPendingOrder.mockRejectedValueOnce(new Error('Database error'));
+
+      await expect(service.guestCheckout(guestParams)).rejects.toThrow('Stripe is down');
+    });
+
+    it('should prefill the email and leave userId out of the metadata', async () => {
+      await service.guestCheckout(guestParams);
+
+      const input = mockPaymentProvider.createCheckoutSession.mock.calls[0][0];
+      expect(input.customerEmail).toBe('guest@test.com');
+      expect(input.currency).toBe('usd');
+      expect(input.metadata).toEqual({
+        orderId: '77',
+        expectedTotalCents: '20000',
+        currency: 'usd',
+      });
+    });
+
+    it('should pass the shipping address snapshot to the payment provider', async () => {
+      await service.guestCheckout(guestParams);
+
+      const input = mockPaymentProvider.createCheckoutSession.mock.calls[0][0];
+      expect(input.shippingAddress).toEqual({
+        name: 'Guest Buyer',
+        line1: '1 Main St',
+        line2: undefined,
+        city: 'Springfield',
+        region: undefined,
+        postalCode: '12345',
+        country: 'US',
+        phone: undefined,
+      });
+    });
+
+    it('should carry coupon discounts into the line items so the total still matches', async () => {
+      mockOrdersService.createGuestOrder.mockResolvedValueOnce({
+        message: 'Order created successfully!',
+        order: {
+          ...guestOrder,
+          items: [
+            // 3 x 10.00 with 1.00 off does not split evenly over the units
+            { quantity: 3, unitPrice: 1000, discountAmount: 100, product: { name: 'Mug' } },
+            { quantity: 2, unitPrice: 500, discountAmount: 100, product: { name: 'Pen' } },
+          ],
+          discountAmount: 200,
+          totalAmount: 3800,
+        },
+      });
+
+      await service.guestCheckout(guestParams);
+
+      const input = mockPaymentProvider.createCheckoutSession.mock.calls[0][0];
+      expect(input.lineItems).toEqual([
+        { name: 'Mug', unitAmountCents: 966, quantity: 1 },
+        { name: 'Mug', unitAmountCents: 967, quantity: 2 },
+        { name: 'Pen', unitAmountCents: 450, quantity: 2 },
+      ]);
+      expect(input.metadata.expectedTotalCents).toBe('3800');
+    });
+
+    it('should charge exclusive tax as its own line and leave inclusive tax in the prices', async () => {
+      mockOrdersService.createGuestOrder.mockResolvedValueOnce({
+        message: 'Order created successfully!',
+        order: {
+          ...guestOrder,
+          items: [
+            { quantity: 2, unitPrice: 1000, taxAmount: 190, taxInclusive: false, product: { name: 'Mug' } },
+            { quantity: 1, unitPrice: 1200, taxAmount: 200, taxInclusive: true, product: { name: 'Book' } },
+            { quantity: 1, unitPrice: 500, taxAmount: 35, taxInclusive: false, product: { name: 'Pen' } },
+          ],
+          taxAmount: 425,
+          totalAmount: 3925,
+        },
+      });
+
+      await service.guestCheckout(guestParams);
+
+      const input = mockPaymentProvider.createCheckoutSession.mock.calls[0][0];
+      expect(input.lineItems).toEqual([
+        { name: 'Mug', unitAmountCents: 1000, quantity: 2 },
+        { name: 'Book', unitAmountCents: 1200, quantity: 1 },
+        { name: 'Pen', unitAmountCents: 500, quantity: 1 },
+        { name: 'Tax', unitAmountCents: 225, quantity: 1 },
+      ]);
+      expect(input.metadata.expectedTotalCents).toBe('3925');
+    });
+
+    it('should charge shipping as its own line after tax', async () => {
+      mockOrdersService.createGuestOrder.mockResolvedValueOnce({
+        message: 'Order created successfully!',
+        order: {
+          ...guestOrder,
+          items: [
+            { quantity: 1, unitPrice: 1000, taxAmount: 100, taxInclusive: false, product: { name: 'Mug' } },
+          ],
+          taxAmount: 100,
+          shippingMethodName: 'Express',
+          shippingAmount: 750,
+          totalAmount: 1850,
+        },
+      });
+
+      await service.guestCheckout(guestParams);
+
+      const input = mockPaymentProvider.createCheckoutSession.mock.calls[0][0];
+      expect(input.lineItems).toEqual([
+        { name: 'Mug', unitAmountCents: 1000, quantity: 1 },
+        { name: 'Tax', unitAmountCents: 100, quantity: 1 },
+        { name: 'Shipping: Express', unitAmountCents: 750, quantity: 1 },
+      ]);
+      expect(input.metadata.expectedTotalCents).toBe('1850');
+    });
+
+    it('should send zero-decimal currencies to the provider as whole units', async () => {
+      mockOrdersService.createGuestOrder.mockResolvedValueOnce({
+        message: 'Order created successfully!',
+        order: {
+          ...guestOrder,
+          currency: 'JPY',
+          items: [{ quantity: 2, unitPrice: 1500, product: { name: 'Tea' } }],
+          totalAmount: 3000,
+        },
+      });
+
+      await service.guestCheckout(guestParams);
+
+      const input = mockPaymentProvider.createCheckoutSession.mock.calls[0][0];
+      expect(input.currency).toBe('jpy');
+      expect(input.lineItems).toEqual([{ name: 'Tea', unitAmountCents: 1500, quantity: 2 }]);
+      expect(input.metadata.expectedTotalCents).toBe('3000');
+    });
+
+    it('should not add a shipping line when shipping is free', async () => {
+      mockOrdersService.createGuestOrder.mockResolvedValueOnce({
+        message: 'Order created successfully!',
+        order: { ...guestOrder, shippingMethodName: 'Standard', shippingAmount: 0 },
+      });
+
+      await service.guestCheckout(guestParams);
+
+      const input = mockPaymentProvider.createCheckoutSession.mock.calls[0][0];
+      expect(input.lineItems.some((item) => item.name.startsWith('Shipping'))).toBe(false);
+    });
+
+    it('should not send the link when the payment session fails', async () => {
+      mockPaymentProvider.createCheckoutSession.mockRejectedValueOnce(new Error('Stripe API error'));
+
+      await expect(service.guestCheckout(guestParams)).rejects.toThrow('Stripe API error');
+      expect(mockOrdersService.sendGuestOrderLink).not.toHaveBeenCalled();
+    });
+  });
+
   describe('handleWebhookEvent', () => {
     const mockSignature = 'test_signature';
     const mockPayload = Buffer.from(JSON.stringify({ type: 'test' }));
@@ -303,14 +543,13 @@ describe('CheckoutService', () => {
           },
         },
       };
-      (stripe.webhooks.constructEvent as jest.Mock).mockReturnValue(mockEvent);
+      mockPaymentProvider.verifyWebhook.mockReturnValue(mockEvent);
 
       await service.handleWebhookEvent(mockSignature, mockPayload);
 
-      expect(stripe.webhooks.constructEvent).toHaveBeenCalledWith(
+      expect(mockPaymentProvider.verifyWebhook).toHaveBeenCalledWith(
         mockPayload,
         mockSignature,
-        process.env.STRIPE_WEBHOOK_SECRET,
       );
     });
 
@@ -325,12 +564,12 @@ describe('CheckoutService', () => {
           },
         },
       };
-      (stripe.webhooks.constructEvent as jest.Mock).mockReturnValue(mockEvent);
+      mockPaymentProvider.verifyWebhook.mockReturnValue(mockEvent);
 
       const result = await service.handleWebhookEvent(mockSignature, mockPayload);
 
       expect(result).toEqual({ received: true });
-      expect(mockOrdersService.completeOrderFromWebhook).toHaveBeenCalledWith(42, 25000);
+      expect(mockOrdersService.completeOrderFromWebhook).toHaveBeenCalledWith(42, 25000, undefined);
     });
 
     it('should not update order when orderId is missing from metadata', async () => {
@@ -343,7 +582,7 @@ describe('CheckoutService', () => {
           },
         },
       };
-      (stripe.webhooks.constructEvent as jest.Mock).mockReturnValue(mockEvent);
+      mockPaymentProvider.verifyWebhook.mockReturnValue(mockEvent);
 
       const result = await service.handleWebhookEvent(mockSignature, mockPayload);
 
@@ -358,7 +597,7 @@ describe('CheckoutService', () => {
           object: {},
         },
       };
-      (stripe.webhooks.constructEvent as jest.Mock).mockReturnValue(mockEvent);
+      mockPaymentProvider.verifyWebhook.mockReturnValue(mockEvent);
 
       const result = await service.handleWebhookEvent(mockSignature, mockPayload);
 
@@ -375,7 +614,7 @@ describe('CheckoutService', () => {
           },
         },
       };
-      (stripe.webhooks.constructEvent as jest.Mock).mockReturnValue(mockEvent);
+      mockPaymentProvider.verifyWebhook.mockReturnValue(mockEvent);
 
       const result = await service.handleWebhookEvent(mockSignature, mockPayload);
 
@@ -395,7 +634,7 @@ describe('CheckoutService', () => {
           type: eventType,
           data: { object: {} },
         };
-        (stripe.webhooks.constructEvent as jest.Mock).mockReturnValue(mockEvent);
+        mockPaymentProvider.verifyWebhook.mockReturnValue(mockEvent);
 
         const result = await service.handleWebhookEvent(mockSignature, mockPayload);
 
@@ -407,7 +646,7 @@ describe('CheckoutService', () => {
 
     it('should throw error on invalid signature', async () => {
       const signatureError = new Error('Invalid signature');
-      (stripe.webhooks.constructEvent as jest.Mock).mockImplementation(() => {
+      mockPaymentProvider.verifyWebhook.mockImplementation(() => {
         throw signatureError;
       });
 
@@ -422,7 +661,7 @@ describe('CheckoutService', () => {
       const { Logger } = require('@nestjs/common');
       const loggerErrorSpy = jest.spyOn(Logger.prototype, 'error').mockImplementation();
       const error = new Error('Webhook processing failed');
-      (stripe.webhooks.constructEvent as jest.Mock).mockImplementation(() => {
+      mockPaymentProvider.verifyWebhook.mockImplementation(() => {
         throw error;
       });
 
@@ -448,7 +687,7 @@ describe('CheckoutService', () => {
           },
         },
       };
-      (stripe.webhooks.constructEvent as jest.Mock).mockReturnValue(mockEvent);
+      mockPaymentProvider.verifyWebhook.mockReturnValue(mockEvent);
 
       const updateError = new HttpException(
         'Order not found',
@@ -472,11 +711,11 @@ describe('CheckoutService', () => {
           },
         },
       };
-      (stripe.webhooks.constructEvent as jest.Mock).mockReturnValue(mockEvent);
+      mockPaymentProvider.verifyWebhook.mockReturnValue(mockEvent);
 
       await service.handleWebhookEvent(mockSignature, mockPayload);
 
-      expect(mockOrdersService.completeOrderFromWebhook).toHaveBeenCalledWith(12345, 25000);
+      expect(mockOrdersService.completeOrderFromWebhook).toHaveBeenCalledWith(12345, 25000, undefined);
     });
 
     it('should return received: true for all successfully processed events', async () => {
@@ -488,11 +727,141 @@ describe('CheckoutService', () => {
           },
         },
       };
-      (stripe.webhooks.constructEvent as jest.Mock).mockReturnValue(mockEvent);
+      mockPaymentProvider.verifyWebhook.mockReturnValue(mockEvent);
 
       const result = await service.handleWebhookEvent(mockSignature, mockPayload);
 
       expect(result).toEqual({ received: true });
     });
   });
-});
\ No newline at end of file
+
+  describe('webhook idempotency', () => {
+    const mockSignature = 'test_signature';
+    const completedEvent = {
+      id: 'evt_1',
+      type: 'checkout.session.completed',
+      data: {
+        object: {
+          payment_status: 'paid',
+          amount_total: 25000,
+          metadata: { orderId: '42', expectedTotalCents: '25000' },
+        },
+      },
+    };
+    const mockPayload = Buffer.from(JSON.stringify(completedEvent));
+
+    beforeEach(() => {
+      mockPaymentProvider.verifyWebhook.mockReturnValue(completedEvent);
+      mockOrdersService.completeOrderFromWebhook.mockResolvedValue({ received: true });
+    });
+
+    it('should claim the event with its raw payload before processing', async () => {
+      await service.handleWebhookEvent(mockSignature, mockPayload);
+
+      expect(mockWebhookEventsService.claim).toHaveBeenCalledWith(
+        'stripe',
+        completedEvent,
+        mockPayload.toString('utf8'),
+      );
+      expect(mockWebhookEventsService.markProcessed).toHaveBeenCalledWith(
+        mockWebhookRecord,
+        { received: true },
+      );
+    });
+
+    it('should acknowledge duplicates without running side effects', async () => {
+      mockWebhookEventsService.claim.mockResolvedValue({
+        record: mockWebhookRecord,
+        shouldProcess: false,
+      });
+
+      const result = await service.handleWebhookEvent(mockSignature, mockPayload);
+
+      expect(result).toEqual({ received: true, duplicate: true });
+      expect(mockOrdersService.completeOrderFromWebhook).not.toHaveBeenCalled();
+      expect(mockWebhookEventsService.markProcessed).not.toHaveBeenCalled();
+    });
+
+    it('should mark the event failed and rethrow when processing fails', async () => {
+      const error = new HttpException('Order not found', HttpStatus.NOT_FOUND);
+      mockOrdersService.completeOrderFromWebhook.mockRejectedValue(error);
+      jest.spyOn((service as any).logger, 'error').mockImplementation();
+
+      await expect(
+        service.handleWebhookEvent(mockSignature, mockPayload),
+      ).rejects.toThrow(error);
+
+      expect(mockWebhookEventsService.markFailed).toHaveBeenCalledWith(
+        mockWebhookRecord,
+        error,
+      );
+      expect(mockWebhookEventsService.markProcessed).not.toHaveBeenCalled();
+    });
+
+    it('should not claim events whose signature is invalid', async () => {
+      mockPaymentProvider.verifyWebhook.mockImplementation(() => {
+        throw new Error('Invalid signature');
+      });
+      jest.spyOn((service as any).logger, 'error').mockImplementation();
+
+      await expect(
+        service.handleWebhookEvent(mockSignature, mockPayload),
+      ).rejects.toThrow('Invalid signature');
+      expect(mockWebhookEventsService.claim).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('replayWebhookEvent', () => {
+    const storedEvent = {
+      id: 7,
+      eventId: 'evt_1',
+      payload: JSON.stringify({
+        id: 'evt_1',
+        type: 'checkout.session.expired',
+        data: { object: { metadata: { orderId: '42' } } },
+      }),
+    };
+
+    it('should re-dispatch the stored payload and mark it processed', async () => {
+      mockWebhookEventsService.claimForReplay.mockResolvedValue(storedEvent);
+      mockOrdersService.cancelOrderFromWebhook.mockResolvedValue({ received: true });
+
+      const result = await service.replayWebhookEvent(7);
+
+      expect(mockOrdersService.cancelOrderFromWebhook).toHaveBeenCalledWith(
+        42,
+        'checkout.session.expired',
+      );
+      expect(mockWebhookEventsService.markProcessed).toHaveBeenCalledWith(
+        storedEvent,
+        { received: true },
+      );
+      expect(result).toEqual({
+        message: 'Webhook event replayed successfully',
+        result: { received: true },
+      });
+      expect(mockPaymentProvider.verifyWebhook).not.toHaveBeenCalled();
+    });
+
+    it('should mark the event failed again and report UNPROCESSABLE_ENTITY', async () => {
+      mockWebhookEventsService.claimForReplay.mockResolvedValue(storedEvent);
+      mockOrdersService.cancelOrderFromWebhook.mockRejectedValue(new Error('still broken'));
+      jest.spyOn((service as any).logger, 'error').mockImplementation();
+
+      await expect(service.replayWebhookEvent(7)).rejects.toMatchObject({
+        status: HttpStatus.UNPROCESSABLE_ENTITY,
+      });
+      expect(mockWebhookEventsService.markFailed).toHaveBeenCalled();
+    });
+
+    it('should propagate errors from claiming the replay', async () => {
+      mockWebhookEventsService.claimForReplay.mockRejectedValue(
+        new HttpException('Only failed webhook events can be replayed', HttpStatus.CONFLICT),
+      );
+
+      await expect(service.replayWebhookEvent(7)).rejects.toThrow(
+        'Only failed webhook events can be replayed',
+      );
+    });
+  });
+});
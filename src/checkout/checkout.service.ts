@@ -2,10 +2,21 @@ import {
   Injectable,
   HttpException,
   HttpStatus,
+  Inject,
   Logger,
 } from '@nestjs/common';
-import { stripe } from '../../lib/stripe';
 import { OrdersService } from 'src/orders/orders.service';
+import { WebhookEventsService } from './webhook-events.service';
+import {
+  CheckoutLineItem,
+  CheckoutShippingAddress,
+  PAYMENT_PROVIDER,
+  PaymentProvider,
+  PaymentWebhookEvent,
+} from 'src/payments/payment-provider';
+import { Order } from 'src/typeorm/entities/Order';
+import { Money } from 'src/money/money';
+import { ICreateGuestOrder } from 'utils/Interfaces';
 
 @Injectable()
 export class CheckoutService {
@@ -13,6 +24,8 @@ export class CheckoutService {
 
   constructor(
     private readonly ordersService: OrdersService,
+    private readonly webhookEventsService: WebhookEventsService,
+    @Inject(PAYMENT_PROVIDER) private readonly paymentProvider: PaymentProvider,
   ) {}
 
   async finalizeCheckout(orderId: number, userId: number | undefined) {
@@ -32,101 +45,297 @@ export class CheckoutService {
       throw new HttpException('Order is not payable', HttpStatus.CONFLICT);
     }
 
+    const url = await this.createPaymentSession(order);
+    return { url };
+  }
+
+  /**
+   * Places a PENDING order without an account and starts payment right away.
+   * The guest also gets an emailed link to look the order up later.
+   */
+  async guestCheckout(params: ICreateGuestOrder) {
+    const { order } = await this.ordersService.createGuestOrder(params);
+
+    let url: string;
+    try {
+      url = await this.createPaymentSession(order, order.guestEmail);
+    } catch (err) {
+      // Without a session no expiry webhook will ever come, and a guest can't cancel
+      // the order themselves, so give the reserved stock back now
+      try {
+        await this.ordersService.cancelPendingOrder(order.id, {
+          actor: 'guest',
+          reason: `Payment session could not be created: ${err?.message ?? err}`.slice(0, 255),
+        });
+      } catch (cancelErr) {
+        // Never hide the provider failure behind the cleanup one
+        this.logger.error(
+          `Failed to cancel guest order ${order.id} after a payment session error`,
+          cancelErr?.stack ?? String(cancelErr),
+        );
+      }
+      throw err;
+    }
+    await this.ordersService.sendGuestOrderLink(order);
+
+    return {
+      message: 'Guest order created successfully',
+      orderId: order.id,
+      url,
+    };
+  }
+
+  // Payment pages only take unit prices. A discounted line whose total doesn't divide
+  // by its quantity is sent as two lines whose unit prices differ by one minor unit.
+  private toLineItems(name: string, total: Money, quantity: number): CheckoutLineItem[] {
+    const unit = Math.floor(total.amount / quantity);
+    const extra = total.amount - unit * quantity;
+    if (extra === 0) {
+      return [{ name, unitAmountCents: unit, quantity }];
+    }
+    return [
+      { name, unitAmountCents: unit, quantity: quantity - extra },
+      { name, unitAmountCents: unit + 1, quantity: extra },
+    ];
+  }
+
+  private async createPaymentSession(order: Order, customerEmail?: string) {
     if (!Array.isArray(order.items) || order.items.length === 0) {
       throw new HttpException('Order has no items', HttpStatus.BAD_REQUEST);
     }
 
-    const currency = (order.user.preferredCurrency ?? 'USD').toLowerCase();
+    const orderId = order.id;
+    // Amounts are already in the currency's minor unit, which is what Stripe's
+    // unit_amount expects - including zero-decimal currencies such as JPY.
+    const orderCurrency = order.currency ?? 'USD';
+    const currency = orderCurrency.toLowerCase();
 
-    const line_items = order.items.map((item: any) => {
+    const lineItems = order.items.flatMap((item: any) => {
       const name = item?.product?.name ?? 'Item';
       // Use unitPrice (locked at order creation) — not current product price,
       // so price changes after order creation don't break the amount check.
       const unitPrice = Number(item?.unitPrice ?? 0);
       const quantity = Number(item?.quantity ?? 0);
 
-      if (!Number.isFinite(unitPrice) || unitPrice < 0 || !Number.isFinite(quantity) || quantity <= 0) {
+      if (!Number.isSafeInteger(unitPrice) || unitPrice < 0 || !Number.isFinite(quantity) || quantity <= 0) {
         throw new HttpException('Invalid order item', HttpStatus.BAD_REQUEST);
       }
 
-      const unit_amount = Math.round(unitPrice * 100);
-      return {
-        price_data: {
-          currency,
-          product_data: { name },
-          unit_amount,
-        },
-        quantity,
-      };
+      const lineTotal = Money.of(unitPrice, orderCurrency)
+        .multiply(quantity)
+        .subtract(Money.of(item?.discountAmount ?? 0, orderCurrency));
+      return this.toLineItems(name, lineTotal, quantity);
     });
 
-    const expectedTotalCents = line_items.reduce((sum: number, li: any) => {
-      return sum + Number(li.price_data.unit_amount) * Number(li.quantity);
+    // Inclusive tax is already in the prices; exclusive tax is charged as its own line
+    const exclusiveTax = Money.sum(
+      order.items
+        .filter((item: any) => !item?.taxInclusive)
+        .map((item: any) => Money.of(item?.taxAmount ?? 0, orderCurrency)),
+      orderCurrency,
+    );
+    if (!exclusiveTax.isZero()) {
+      lineItems.push({ name: 'Tax', unitAmountCents: exclusiveTax.amount, quantity: 1 });
+    }
+
+    const shipping = Money.of(order.shippingAmount ?? 0, orderCurrency);
+    if (!shipping.isZero()) {
+      lineItems.push({
+        name: `Shipping: ${order.shippingMethodName ?? 'Standard'}`,
+        unitAmountCents: shipping.amount,
+        quantity: 1,
+      });
+    }
+
+    const address = order.shippingAddress;
+    const shippingAddress: CheckoutShippingAddress | undefined = address?.line1
+      ? {
+          name: address.fullName,
+          line1: address.line1,
+          line2: address.line2 ?? undefined,
+          city: address.city,
+          region: address.region ?? undefined,
+          postalCode: address.postalCode,
+          country: address.country,
+          phone: address.phone ?? undefined,
+        }
+      : undefined;
+
+    const expectedTotalCents = lineItems.reduce((sum, item) => {
+      return sum + item.unitAmountCents * item.quantity;
     }, 0);
 
-    const session = await stripe.checkout.sessions.create({
-      payment_method_types: ['card'],
-      line_items,
-      mode: 'payment',
-      success_url: `${process.env.NEXT_PUBLIC_BASE_URL}/success?orderId=${orderId}`,
-      cancel_url: `${process.env.NEXT_PUBLIC_BASE_URL}/cart`,
+    const session = await this.paymentProvider.createCheckoutSession({
+      orderId,
+      currency,
+      lineItems,
+      successUrl: `${process.env.NEXT_PUBLIC_BASE_URL}/success?orderId=${orderId}`,
+      cancelUrl: `${process.env.NEXT_PUBLIC_BASE_URL}/cart`,
       metadata: {
         orderId: orderId.toString(),
-        userId: userId.toString(),
+        ...(order.user ? { userId: order.user.id.toString() } : {}),
         expectedTotalCents: expectedTotalCents.toString(),
         currency,
       },
+      ...(customerEmail ? { customerEmail } : {}),
+      ...(shippingAddress ? { shippingAddress } : {}),
     });
 
-    return { url: session.url };
+    await this.ordersService.attachCheckoutSession(orderId, session.id);
+
+    return session.url;
+  }
+
+  private parseOrderId(metadata: any): number | undefined {
+    const orderId = Number(metadata?.orderId);
+    return Number.isFinite(orderId) && orderId > 0 ? orderId : undefined;
+  }
+
+  private paymentIntentIdOf(value: any): string | undefined {
+    if (!value) return undefined;
+    return typeof value === 'string' ? value : value.id;
   }
 
   async handleWebhookEvent(signature: string, payload: Buffer) {
     try {
       // Verify webhook signature
-      const event = stripe.webhooks.constructEvent(
-        payload,
-        signature,
-        process.env.STRIPE_WEBHOOK_SECRET,
-      );
-
-      // Handle checkout.session.completed event
-      if (event.type === 'checkout.session.completed') {
-        const session: any = event.data.object;
-        const orderIdRaw = session?.metadata?.orderId;
-        const expectedTotalCentsRaw = session?.metadata?.expectedTotalCents;
-
-        const orderId = Number(orderIdRaw);
-        const expectedTotalCents = expectedTotalCentsRaw
-          ? Number(expectedTotalCentsRaw)
-          : undefined;
+      const event = this.paymentProvider.verifyWebhook(payload, signature);
 
-        // Only complete when Stripe says it was paid
-        if (session?.payment_status && session.payment_status !== 'paid') {
-          return { received: true, ignored: true };
-        }
-
-        if (Number.isFinite(orderId) && orderId > 0) {
-          // Best-effort amount check
-          if (
-            typeof expectedTotalCents === 'number' &&
-            Number.isFinite(session?.amount_total) &&
-            session.amount_total !== expectedTotalCents
-          ) {
-            throw new Error('Webhook amount mismatch');
-          }
-
-          return await this.ordersService.completeOrderFromWebhook(
-            orderId,
-            expectedTotalCents,
-          );
-        }
+      // Stripe retries deliveries; only the first successful one may run side effects
+      const { record, shouldProcess } = await this.webhookEventsService.claim(
+        this.paymentProvider.name,
+        event,
+        payload.toString('utf8'),
+      );
+      if (!shouldProcess) {
+        return { received: true, duplicate: true };
       }
 
-      return { received: true };
+      try {
+        const result = await this.dispatchEvent(event);
+        await this.webhookEventsService.markProcessed(record, result);
+        return result;
+      } catch (err) {
+        await this.webhookEventsService.markFailed(record, err);
+        throw err;
+      }
     } catch (err) {
       this.logger.error(`Webhook error: ${err.message}`);
       throw err;
     }
   }
+
+  // Re-runs a stored event that failed earlier. Its signature was verified on receipt.
+  async replayWebhookEvent(id: number) {
+    const record = await this.webhookEventsService.claimForReplay(id);
+
+    try {
+      const result = await this.dispatchEvent(JSON.parse(record.payload));
+      await this.webhookEventsService.markProcessed(record, result);
+      return { message: 'Webhook event replayed successfully', result };
+    } catch (err) {
+      await this.webhookEventsService.markFailed(record, err);
+      this.logger.error(`Webhook replay error: ${err.message}`);
+      throw new HttpException(
+        `Webhook replay failed: ${err.message}`,
+        HttpStatus.UNPROCESSABLE_ENTITY,
+      );
+    }
+  }
+
+  private async dispatchEvent(event: PaymentWebhookEvent) {
+    switch (event.type) {
+      case 'checkout.session.completed':
+        return await this.handleSessionCompleted(event.data.object);
+      case 'checkout.session.expired':
+        return await this.handleSessionExpired(event.data.object);
+      case 'payment_intent.payment_failed':
+        return await this.handlePaymentFailed(event.data.object);
+      case 'charge.refunded':
+        return await this.handleChargeRefunded(event.data.object);
+      case 'charge.dispute.created':
+        return await this.handleDisputeCreated(event.data.object);
+      default:
+        return { received: true };
+    }
+  }
+
+  private async handleSessionCompleted(session: any) {
+    const orderId = this.parseOrderId(session?.metadata);
+    const expectedTotalCentsRaw = session?.metadata?.expectedTotalCents;
+    const expectedTotalCents = expectedTotalCentsRaw
+      ? Number(expectedTotalCentsRaw)
+      : undefined;
+
+    // Only complete when Stripe says it was paid
+    if (session?.payment_status && session.payment_status !== 'paid') {
+      return { received: true, ignored: true };
+    }
+
+    if (!orderId) return { received: true };
+
+    // Best-effort amount check
+    if (
+      typeof expectedTotalCents === 'number' &&
+      Number.isFinite(session?.amount_total) &&
+      session.amount_total !== expectedTotalCents
+    ) {
+      throw new Error('Webhook amount mismatch');
+    }
+
+    return await this.ordersService.completeOrderFromWebhook(
+      orderId,
+      expectedTotalCents,
+      this.paymentIntentIdOf(session?.payment_intent),
+    );
+  }
+
+  private async handleSessionExpired(session: any) {
+    const orderId = this.parseOrderId(session?.metadata);
+    if (!orderId) return { received: true };
+
+    return await this.ordersService.cancelOrderFromWebhook(
+      orderId,
+      'checkout.session.expired',
+    );
+  }
+
+  private async handlePaymentFailed(paymentIntent: any) {
+    const ref = {
+      orderId: this.parseOrderId(paymentIntent?.metadata),
+      paymentIntentId: this.paymentIntentIdOf(paymentIntent),
+    };
+    const message =
+      paymentIntent?.last_payment_error?.message ?? 'Payment failed';
+
+    return await this.ordersService.recordPaymentFailureFromWebhook(ref, message);
+  }
+
+  private async handleChargeRefunded(charge: any) {
+    const ref = {
+      orderId: this.parseOrderId(charge?.metadata),
+      paymentIntentId: this.paymentIntentIdOf(charge?.payment_intent),
+    };
+    const amountRefunded = Number(charge?.amount_refunded ?? 0);
+    const fullyRefunded =
+      charge?.refunded === true || amountRefunded >= Number(charge?.amount ?? 0);
+
+    return await this.ordersService.applyRefundFromWebhook(
+      ref,
+      amountRefunded,
+      fullyRefunded,
+    );
+  }
+
+  private async handleDisputeCreated(dispute: any) {
+    const ref = {
+      orderId: this.parseOrderId(dispute?.metadata),
+      paymentIntentId: this.paymentIntentIdOf(dispute?.payment_intent),
+    };
+
+    return await this.ordersService.recordDisputeFromWebhook(ref, {
+      status: dispute?.status,
+      reason: dispute?.reason,
+    });
+  }
 }
@@ -0,0 +1,169 @@
+import Stripe from 'stripe';
+import { Test, TestingModule } from '@nestjs/testing';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { CheckoutService } from './checkout.service';
+import { OrdersService } from '../orders/orders.service';
+import { WebhookEventsService } from './webhook-events.service';
+import { PAYMENT_PROVIDER } from '../payments/payment-provider';
+import { StripePaymentProvider } from '../payments/stripe-payment.provider';
+
+const WEBHOOK_SECRET = 'whsec_fixture_secret';
+
+// Uses the real Stripe SDK so payloads are signed and verified exactly like in production.
+const stripe = new Stripe('sk_test_fixture');
+
+function signedFixture(name: string) {
+  const payload = readFileSync(
+    join(__dirname, 'fixtures', `${name}.json`),
+    'utf8',
+  );
+  const signature = stripe.webhooks.generateTestHeaderString({
+    payload,
+    secret: WEBHOOK_SECRET,
+  });
+  return { payload: Buffer.from(payload), signature };
+}
+
+describe('CheckoutService webhooks (signed fixtures)', () => {
+  let service: CheckoutService;
+
+  const mockOrdersService = {
+    completeOrderFromWebhook: jest.fn(),
+    cancelOrderFromWebhook: jest.fn(),
+    recordPaymentFailureFromWebhook: jest.fn(),
+    applyRefundFromWebhook: jest.fn(),
+    recordDisputeFromWebhook: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CheckoutService,
+        { provide: OrdersService, useValue: mockOrdersService },
+        {
+          provide: PAYMENT_PROVIDER,
+          useValue: new StripePaymentProvider(stripe, WEBHOOK_SECRET),
+        },
+        {
+          provide: WebhookEventsService,
+          useValue: {
+            claim: jest
+              .fn()
+              .mockResolvedValue({ record: { id: 1 }, shouldProcess: true }),
+            markProcessed: jest.fn(),
+            markFailed: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<CheckoutService>(CheckoutService);
+
+    Object.values(mockOrdersService).forEach((fn) =>
+      fn.mockResolvedValue({ received: true }),
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should mark the order paid and keep the payment intent on checkout.session.completed', async () => {
+    const { payload, signature } = signedFixture('checkout.session.completed');
+
+    const result = await service.handleWebhookEvent(signature, payload);
+
+    expect(result).toEqual({ received: true });
+    expect(mockOrdersService.completeOrderFromWebhook).toHaveBeenCalledWith(
+      42,
+      25000,
+      'pi_test_123',
+    );
+  });
+
+  it('should cancel the pending order on checkout.session.expired', async () => {
+    const { payload, signature } = signedFixture('checkout.session.expired');
+
+    await service.handleWebhookEvent(signature, payload);
+
+    expect(mockOrdersService.cancelOrderFromWebhook).toHaveBeenCalledWith(
+      42,
+      'checkout.session.expired',
+    );
+    expect(mockOrdersService.completeOrderFromWebhook).not.toHaveBeenCalled();
+  });
+
+  it('should record the decline message on payment_intent.payment_failed', async () => {
+    const { payload, signature } = signedFixture(
+      'payment_intent.payment_failed',
+    );
+
+    await service.handleWebhookEvent(signature, payload);
+
+    expect(
+      mockOrdersService.recordPaymentFailureFromWebhook,
+    ).toHaveBeenCalledWith(
+      { orderId: 42, paymentIntentId: 'pi_test_123' },
+      'Your card has insufficient funds.',
+    );
+  });
+
+  it('should apply a full refund on charge.refunded', async () => {
+    const { payload, signature } = signedFixture('charge.refunded');
+
+    await service.handleWebhookEvent(signature, payload);
+
+    expect(mockOrdersService.applyRefundFromWebhook).toHaveBeenCalledWith(
+      { orderId: 42, paymentIntentId: 'pi_test_123' },
+      25000,
+      true,
+    );
+  });
+
+  it('should apply a partial refund and fall back to the payment intent lookup', async () => {
+    const { payload, signature } = signedFixture('charge.refunded.partial');
+
+    await service.handleWebhookEvent(signature, payload);
+
+    expect(mockOrdersService.applyRefundFromWebhook).toHaveBeenCalledWith(
+      { orderId: undefined, paymentIntentId: 'pi_test_123' },
+      5000,
+      false,
+    );
+  });
+
+  it('should record the dispute on charge.dispute.created', async () => {
+    const { payload, signature } = signedFixture('charge.dispute.created');
+
+    await service.handleWebhookEvent(signature, payload);
+
+    expect(mockOrdersService.recordDisputeFromWebhook).toHaveBeenCalledWith(
+      { orderId: undefined, paymentIntentId: 'pi_test_123' },
+      { status: 'needs_response', reason: 'fraudulent' },
+    );
+  });
+
+  it('should reject a payload signed with a different secret', async () => {
+    const { payload } = signedFixture('charge.refunded');
+    const forged = stripe.webhooks.generateTestHeaderString({
+      payload: payload.toString(),
+      secret: 'whsec_someone_else',
+    });
+    jest.spyOn((service as any).logger, 'error').mockImplementation();
+
+    await expect(service.handleWebhookEvent(forged, payload)).rejects.toThrow();
+    expect(mockOrdersService.applyRefundFromWebhook).not.toHaveBeenCalled();
+  });
+
+  it('should reject a payload that was modified after signing', async () => {
+    const { payload, signature } = signedFixture('charge.refunded.partial');
+    const tampered = Buffer.from(payload.toString().replace('5000', '25000'));
+    jest.spyOn((service as any).logger, 'error').mockImplementation();
+
+    await expect(
+      service.handleWebhookEvent(signature, tampered),
+    ).rejects.toThrow();
+    expect(mockOrdersService.applyRefundFromWebhook).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,59 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsEmail,
+  IsISO4217CurrencyCode,
+  IsInt,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { OrderItemDto } from 'src/orders/dtos/CreateOrderDto';
+import { ShippingAddressDto } from 'src/orders/dtos/ShippingAddressDto';
+
+export class GuestCheckoutDto {
+  @IsEmail({}, { message: 'Email must be valid' })
+  @MaxLength(255)
+  email: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  name?: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => OrderItemDto)
+  items: OrderItemDto[];
+
+  @ValidateNested()
+  @Type(() => ShippingAddressDto)
+  shippingAddress: ShippingAddressDto;
+
+  // Defaults to the shipping address
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ShippingAddressDto)
+  billingAddress?: ShippingAddressDto;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  couponCode?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  shippingMethodId?: number;
+
+  // Defaults to USD
+  @IsOptional()
+  @IsISO4217CurrencyCode({
+    message: 'Currency must be a three-letter ISO code',
+  })
+  currency?: string;
+}
@@ -0,0 +1,323 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { WebhookEventsService } from './webhook-events.service';
+import { ProcessedWebhookEvent } from 'src/typeorm/entities/ProcessedWebhookEvent';
+
+describe('WebhookEventsService', () => {
+  let service: WebhookEventsService;
+
+  const mockWebhookEventRepository = {
+    findOne: jest.fn(),
+    find: jest.fn(),
+    create: jest.fn((entity) => entity),
+    save: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const event = { id: 'evt_1', type: 'checkout.session.completed' };
+  const minutesAgo = (minutes: number) =>
+    new Date(Date.now() - minutes * 60 * 1000);
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhookEventsService,
+        {
+          provide: getRepositoryToken(ProcessedWebhookEvent),
+          useValue: mockWebhookEventRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<WebhookEventsService>(WebhookEventsService);
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+    mockWebhookEventRepository.create.mockImplementation((entity) => entity);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('claim', () => {
+    it('should store a new event as PROCESSING and allow processing', async () => {
+      mockWebhookEventRepository.findOne.mockResolvedValue(null);
+      mockWebhookEventRepository.save.mockImplementation((e) => ({
+        id: 1,
+        ...e,
+      }));
+
+      const result = await service.claim('stripe', event, '{"id":"evt_1"}');
+
+      expect(result.shouldProcess).toBe(true);
+      expect(mockWebhookEventRepository.save).toHaveBeenCalledWith({
+        provider: 'stripe',
+        eventId: 'evt_1',
+        type: 'checkout.session.completed',
+        status: 'PROCESSING',
+        payload: '{"id":"evt_1"}',
+      });
+    });
+
+    it('should not process an event that was already processed', async () => {
+      const existing = { id: 1, status: 'PROCESSED' };
+      mockWebhookEventRepository.findOne.mockResolvedValue(existing);
+
+      const result = await service.claim('stripe', event, '{}');
+
+      expect(result).toEqual({ record: existing, shouldProcess: false });
+      expect(mockWebhookEventRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should not process an event another delivery is still processing', async () => {
+      mockWebhookEventRepository.findOne.mockResolvedValue({
+        id: 1,
+        status: 'PROCESSING',
+        claimedAt: minutesAgo(1),
+      });
+
+      const result = await service.claim('stripe', event, '{}');
+
+      expect(result.shouldProcess).toBe(false);
+      expect(mockWebhookEventRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should reclaim an event left PROCESSING past the timeout', async () => {
+      const existing = {
+        id: 1,
+        eventId: 'evt_1',
+        status: 'PROCESSING',
+        attempts: 1,
+        claimedAt: minutesAgo(30),
+      };
+      mockWebhookEventRepository.findOne.mockResolvedValue(existing);
+      mockWebhookEventRepository.update.mockResolvedValue({ affected: 1 });
+
+      const result = await service.claim('stripe', event, '{}');
+
+      expect(result.shouldProcess).toBe(true);
+      expect(result.record).toMatchObject({
+        status: 'PROCESSING',
+        attempts: 2,
+      });
+      expect(result.record.claimedAt.getTime()).toBeGreaterThan(
+        minutesAgo(1).getTime(),
+      );
+      expect(mockWebhookEventRepository.update).toHaveBeenCalledWith(
+        {
+          id: 1,
+          status: 'PROCESSING',
+          claimedAt: expect.objectContaining({ _type: 'lessThan' }),
+        },
+        expect.objectContaining({ status: 'PROCESSING', error: null }),
+      );
+    });
+
+    it('should not process a stale event another delivery already reclaimed', async () => {
+      mockWebhookEventRepository.findOne.mockResolvedValue({
+        id: 1,
+        status: 'PROCESSING',
+        claimedAt: minutesAgo(30),
+      });
+      mockWebhookEventRepository.update.mockResolvedValue({ affected: 0 });
+
+      const result = await service.claim('stripe', event, '{}');
+
+      expect(result.shouldProcess).toBe(false);
+    });
+
+    it('should retry a FAILED event when the provider redelivers it', async () => {
+      const existing = { id: 1, status: 'FAILED', attempts: 1, error: 'boom' };
+      mockWebhookEventRepository.findOne.mockResolvedValue(existing);
+      mockWebhookEventRepository.update.mockResolvedValue({ affected: 1 });
+
+      const result = await service.claim('stripe', event, '{}');
+
+      expect(result.shouldProcess).toBe(true);
+      expect(result.record).toMatchObject({
+        status: 'PROCESSING',
+        attempts: 2,
+        error: null,
+      });
+      expect(mockWebhookEventRepository.update).toHaveBeenCalledWith(
+        { id: 1, status: 'FAILED' },
+        expect.objectContaining({ status: 'PROCESSING', error: null }),
+      );
+    });
+
+    it('should not retry a FAILED event someone else already reclaimed', async () => {
+      mockWebhookEventRepository.findOne.mockResolvedValue({
+        id: 1,
+        status: 'FAILED',
+      });
+      mockWebhookEventRepository.update.mockResolvedValue({ affected: 0 });
+
+      const result = await service.claim('stripe', event, '{}');
+
+      expect(result.shouldProcess).toBe(false);
+    });
+
+    it('should treat a duplicate key on insert as a concurrent duplicate', async () => {
+      const existing = { id: 1, status: 'PROCESSING' };
+      mockWebhookEventRepository.findOne
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(existing);
+      mockWebhookEventRepository.save.mockRejectedValue({
+        driverError: { code: 'ER_DUP_ENTRY' },
+      });
+
+      const result = await service.claim('stripe', event, '{}');
+
+      expect(result).toEqual({ record: existing, shouldProcess: false });
+    });
+
+    it('should propagate other database errors', async () => {
+      mockWebhookEventRepository.findOne.mockResolvedValue(null);
+      mockWebhookEventRepository.save.mockRejectedValue(
+        new Error('connection lost'),
+      );
+
+      await expect(service.claim('stripe', event, '{}')).rejects.toThrow(
+        'connection lost',
+      );
+    });
+  });
+
+  describe('markProcessed / markFailed', () => {
+    it('should store the result and clear the error', async () => {
+      await service.markProcessed({ id: 1 } as any, { received: true });
+
+      expect(mockWebhookEventRepository.update).toHaveBeenCalledWith(
+        1,
+        expect.objectContaining({
+          status: 'PROCESSED',
+          result: { received: true },
+          error: null,
+        }),
+      );
+    });
+
+    it('should store the error message', async () => {
+      await service.markFailed({ id: 1 } as any, new Error('Order not found'));
+
+      expect(mockWebhookEventRepository.update).toHaveBeenCalledWith(
+        1,
+        expect.objectContaining({ status: 'FAILED', error: 'Order not found' }),
+      );
+    });
+
+    it('should swallow errors while marking a failure', async () => {
+      mockWebhookEventRepository.update.mockRejectedValue(new Error('db down'));
+      jest.spyOn((service as any).logger, 'error').mockImplementation();
+
+      await expect(
+        service.markFailed({ id: 1 } as any, new Error('original')),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('listEvents', () => {
+    it('should filter by status and return newest first', async () => {
+      mockWebhookEventRepository.find.mockResolvedValue([]);
+
+      const result = await service.listEvents('FAILED');
+
+      expect(mockWebhookEventRepository.find).toHaveBeenCalledWith({
+        where: { status: 'FAILED' },
+        order: { receivedAt: 'DESC', id: 'DESC' },
+        take: 100,
+      });
+      expect(result).toEqual({
+        message: 'Webhook events retrieved successfully',
+        events: [],
+      });
+    });
+
+    it('should throw BAD_REQUEST for an unknown status', async () => {
+      await expect(service.listEvents('NOPE')).rejects.toThrow(
+        new HttpException('Invalid status', HttpStatus.BAD_REQUEST),
+      );
+    });
+  });
+
+  describe('claimForReplay', () => {
+    it('should reclaim a FAILED event', async () => {
+      const existing = { id: 1, status: 'FAILED', attempts: 1 };
+      mockWebhookEventRepository.findOne.mockResolvedValue(existing);
+      mockWebhookEventRepository.update.mockResolvedValue({ affected: 1 });
+
+      const result = await service.claimForReplay(1);
+
+      expect(result).toMatchObject({
+        id: 1,
+        status: 'PROCESSING',
+        attempts: 2,
+      });
+    });
+
+    it('should reclaim an event stuck in PROCESSING', async () => {
+      const existing = {
+        id: 1,
+        eventId: 'evt_1',
+        status: 'PROCESSING',
+        attempts: 1,
+        claimedAt: minutesAgo(30),
+      };
+      mockWebhookEventRepository.findOne.mockResolvedValue(existing);
+      mockWebhookEventRepository.update.mockResolvedValue({ affected: 1 });
+
+      const result = await service.claimForReplay(1);
+
+      expect(result).toMatchObject({
+        id: 1,
+        status: 'PROCESSING',
+        attempts: 2,
+      });
+    });
+
+    it('should throw CONFLICT for events still processing within the timeout', async () => {
+      mockWebhookEventRepository.findOne.mockResolvedValue({
+        id: 1,
+        status: 'PROCESSING',
+        claimedAt: minutesAgo(1),
+      });
+
+      await expect(service.claimForReplay(1)).rejects.toMatchObject({
+        status: HttpStatus.CONFLICT,
+      });
+      expect(mockWebhookEventRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should throw NOT_FOUND for unknown events', async () => {
+      mockWebhookEventRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.claimForReplay(1)).rejects.toMatchObject({
+        status: HttpStatus.NOT_FOUND,
+      });
+    });
+
+    it('should throw CONFLICT for events that did not fail', async () => {
+      mockWebhookEventRepository.findOne.mockResolvedValue({
+        id: 1,
+        status: 'PROCESSED',
+      });
+
+      await expect(service.claimForReplay(1)).rejects.toThrow(
+        new HttpException(
+          'Only failed or stuck webhook events can be replayed',
+          HttpStatus.CONFLICT,
+        ),
+      );
+      expect(mockWebhookEventRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should throw BAD_REQUEST for invalid ids', async () => {
+      await expect(service.claimForReplay(0)).rejects.toMatchObject({
+        status: HttpStatus.BAD_REQUEST,
+      });
+    });
+  });
+});
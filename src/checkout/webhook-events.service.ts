@@ -0,0 +1,194 @@
+import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import {
+  ProcessedWebhookEvent,
+  WEBHOOK_EVENT_STATUSES,
+  WebhookEventStatus,
+} from 'src/typeorm/entities/ProcessedWebhookEvent';
+import { LessThan, Repository } from 'typeorm';
+
+// A delivery still PROCESSING after this long is assumed to have died mid-way
+const STALE_PROCESSING_MS = 10 * 60 * 1000;
+
+type ClaimResult = {
+  record: ProcessedWebhookEvent;
+  // false when the event was already handled (or is being handled right now)
+  shouldProcess: boolean;
+};
+
+@Injectable()
+export class WebhookEventsService {
+  private readonly logger = new Logger(WebhookEventsService.name);
+
+  constructor(
+    @InjectRepository(ProcessedWebhookEvent)
+    private webhookEventRepository: Repository<ProcessedWebhookEvent>,
+  ) {}
+
+  private isDuplicateKeyError(error: any): boolean {
+    return (
+      error?.code === 'ER_DUP_ENTRY' ||
+      error?.driverError?.code === 'ER_DUP_ENTRY'
+    );
+  }
+
+  private isStale(record: ProcessedWebhookEvent): boolean {
+    return (
+      record.status === 'PROCESSING' &&
+      !!record.claimedAt &&
+      new Date(record.claimedAt).getTime() < Date.now() - STALE_PROCESSING_MS
+    );
+  }
+
+  private isReclaimable(record: ProcessedWebhookEvent | null): boolean {
+    return !!record && (record.status === 'FAILED' || this.isStale(record));
+  }
+
+  // Flips FAILED (or stale PROCESSING) -> PROCESSING only if nobody else did it first
+  private async reclaim(record: ProcessedWebhookEvent): Promise<boolean> {
+    const claimedAt = new Date();
+    const result = await this.webhookEventRepository.update(
+      record.status === 'FAILED'
+        ? { id: record.id, status: 'FAILED' }
+        : {
+            id: record.id,
+            status: 'PROCESSING',
+            claimedAt: LessThan(
+              new Date(claimedAt.getTime() - STALE_PROCESSING_MS),
+            ),
+          },
+      {
+        status: 'PROCESSING',
+        attempts: () => 'attempts + 1',
+        error: null,
+        claimedAt,
+      },
+    );
+    if (!result.affected) return false;
+
+    if (record.status === 'PROCESSING') {
+      this.logger.warn(
+        `Reclaiming webhook event ${record.eventId} stuck in PROCESSING since ${new Date(record.claimedAt).toISOString()}`,
+      );
+    }
+    record.status = 'PROCESSING';
+    record.attempts = (record.attempts ?? 0) + 1;
+    record.error = null;
+    record.claimedAt = claimedAt;
+    return true;
+  }
+
+  /**
+   * Records an incoming event before any side effects run. The unique
+   * (provider, eventId) index makes this the single point that decides
+   * whether a delivery is new, a retry of a failure (or of an attempt that
+   * died while PROCESSING), or a duplicate.
+   */
+  async claim(
+    provider: string,
+    event: { id: string; type: string },
+    payload: string,
+  ): Promise<ClaimResult> {
+    let existing = await this.webhookEventRepository.findOne({
+      where: { provider, eventId: event.id },
+    });
+
+    if (!existing) {
+      try {
+        const record = await this.webhookEventRepository.save(
+          this.webhookEventRepository.create({
+            provider,
+            eventId: event.id,
+            type: event.type,
+            status: 'PROCESSING',
+            payload,
+          }),
+        );
+        return { record, shouldProcess: true };
+      } catch (error) {
+        if (!this.isDuplicateKeyError(error)) throw error;
+        // Lost the race against a concurrent delivery of the same event
+        existing = await this.webhookEventRepository.findOne({
+          where: { provider, eventId: event.id },
+        });
+      }
+    }
+
+    if (this.isReclaimable(existing) && (await this.reclaim(existing))) {
+      return { record: existing, shouldProcess: true };
+    }
+
+    return { record: existing, shouldProcess: false };
+  }
+
+  async markProcessed(
+    record: ProcessedWebhookEvent,
+    result: Record<string, any>,
+  ) {
+    await this.webhookEventRepository.update(record.id, {
+      status: 'PROCESSED',
+      result,
+      error: null,
+      processedAt: new Date(),
+    });
+  }
+
+  async markFailed(record: ProcessedWebhookEvent, error: any) {
+    try {
+      await this.webhookEventRepository.update(record.id, {
+        status: 'FAILED',
+        error: String(error?.message ?? error).slice(0, 65535),
+        processedAt: new Date(),
+      });
+    } catch (err) {
+      // Never hide the original failure behind a bookkeeping error
+      this.logger.error(
+        `Failed to mark webhook event ${record.eventId} as failed`,
+        (err as any)?.stack ?? String(err),
+      );
+    }
+  }
+
+  async listEvents(status?: string) {
+    if (
+      status !== undefined &&
+      !WEBHOOK_EVENT_STATUSES.includes(status as WebhookEventStatus)
+    ) {
+      throw new HttpException('Invalid status', HttpStatus.BAD_REQUEST);
+    }
+
+    const events = await this.webhookEventRepository.find({
+      where: status ? { status: status as WebhookEventStatus } : {},
+      order: { receivedAt: 'DESC', id: 'DESC' },
+      take: 100,
+    });
+    return { message: 'Webhook events retrieved successfully', events };
+  }
+
+  // Only failed or stuck events can be replayed; successful ones would double-apply side effects.
+  async claimForReplay(id: number) {
+    if (!id || id <= 0) {
+      throw new HttpException(
+        'Invalid webhook event ID',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const record = await this.webhookEventRepository.findOne({ where: { id } });
+    if (!record) {
+      throw new HttpException(
+        'Webhook event with that id does not exist!',
+        HttpStatus.NOT_FOUND,
+      );
+    }
+
+    if (!this.isReclaimable(record) || !(await this.reclaim(record))) {
+      throw new HttpException(
+        'Only failed or stuck webhook events can be replayed',
+        HttpStatus.CONFLICT,
+      );
+    }
+
+    return record;
+  }
+}
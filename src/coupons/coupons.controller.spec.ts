@@ -0,0 +1,55 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { CouponsController } from './coupons.controller';
+import { CouponsService } from './coupons.service';
+
+describe('CouponsController', () => {
+  let controller: CouponsController;
+
+  const mockCouponsService = {
+    getCoupons: jest.fn(),
+    getCouponById: jest.fn(),
+    createCoupon: jest.fn(),
+    updateCoupon: jest.fn(),
+    deleteCoupon: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [CouponsController],
+      providers: [{ provide: CouponsService, useValue: mockCouponsService }],
+    }).compile();
+
+    controller = module.get<CouponsController>(CouponsController);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should pass CRUD calls to the service', async () => {
+    const dto = { code: 'SAVE10', type: 'PERCENTAGE' as const, value: 10 };
+    mockCouponsService.createCoupon.mockResolvedValue({
+      message: 'Coupon created successfully',
+      coupon: { id: 1, ...dto },
+    });
+
+    const created = await controller.createCoupon(dto);
+    await controller.getCoupons();
+    await controller.getCouponById(1);
+    await controller.updateCoupon(1, { isActive: false });
+    await controller.deleteCoupon(1);
+
+    expect(created.coupon.id).toBe(1);
+    expect(mockCouponsService.createCoupon).toHaveBeenCalledWith(dto);
+    expect(mockCouponsService.getCoupons).toHaveBeenCalled();
+    expect(mockCouponsService.getCouponById).toHaveBeenCalledWith(1);
+    expect(mockCouponsService.updateCoupon).toHaveBeenCalledWith(1, {
+      isActive: false,
+    });
+    expect(mockCouponsService.deleteCoupon).toHaveBeenCalledWith(1);
+  });
+});
@@ -0,0 +1,56 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  ParseIntPipe,
+  Post,
+  Put,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { Roles } from 'utils/rolesDecorator';
+import { CouponsService } from './coupons.service';
+import { CreateCouponDto } from './dtos/CreateCouponDto';
+import { UpdateCouponDto } from './dtos/UpdateCouponDto';
+
+@ApiTags('coupons')
+@Controller('coupons')
+export class CouponsController {
+  constructor(private couponsService: CouponsService) {}
+
+  @Roles('admin')
+  @Get()
+  getCoupons() {
+    return this.couponsService.getCoupons();
+  }
+
+  @Roles('admin')
+  @Get(':id')
+  getCouponById(@Param('id', ParseIntPipe) id: number) {
+    return this.couponsService.getCouponById(id);
+  }
+
+  @Roles('admin')
+  @Post()
+  @HttpCode(201)
+  createCoupon(@Body() createCouponDto: CreateCouponDto) {
+    return this.couponsService.createCoupon(createCouponDto);
+  }
+
+  @Roles('admin')
+  @Put(':id')
+  updateCoupon(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateCouponDto: UpdateCouponDto,
+  ) {
+    return this.couponsService.updateCoupon(id, updateCouponDto);
+  }
+
+  @Roles('admin')
+  @Delete(':id')
+  deleteCoupon(@Param('id', ParseIntPipe) id: number) {
+    return this.couponsService.deleteCoupon(id);
+  }
+}
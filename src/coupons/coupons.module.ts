@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Coupon } from 'src/typeorm/entities/Coupon';
+import { Product } from 'src/typeorm/entities/Product';
+import { Category } from 'src/typeorm/entities/Category';
+import { CouponsController } from './coupons.controller';
+import { CouponsService } from './coupons.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Coupon, Product, Category])],
+  controllers: [CouponsController],
+  providers: [CouponsService],
+  exports: [CouponsService],
+})
+export class CouponsModule {}
@@ -0,0 +1,506 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { CouponsService } from './coupons.service';
+import { Coupon } from 'src/typeorm/entities/Coupon';
+import { Product } from 'src/typeorm/entities/Product';
+import { Category } from 'src/typeorm/entities/Category';
+import { Order } from 'src/typeorm/entities/Order';
+
+describe('CouponsService', () => {
+  let service: CouponsService;
+
+  const mockCouponRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn((coupon) => ({ ...coupon })),
+    save: jest.fn((coupon) => ({ id: 1, ...coupon })),
+    remove: jest.fn(),
+  };
+
+  const mockProductRepository = {
+    find: jest.fn(),
+  };
+
+  const mockCategoryRepository = {
+    find: jest.fn(),
+  };
+
+  const mockOrderRepository = {
+    count: jest.fn(),
+  };
+
+  const mockEntityManager = {
+    getRepository: jest.fn((entity) => {
+      if (entity === Coupon) return mockCouponRepository;
+      if (entity === Product) return mockProductRepository;
+      return mockOrderRepository;
+    }),
+  };
+
+  const coupon = (overrides: Partial<Coupon> = {}): Coupon =>
+    ({
+      id: 1,
+      code: 'SAVE10',
+      type: 'PERCENTAGE',
+      value: 10,
+      minOrderValue: null,
+      maxUses: null,
+      maxUsesPerUser: null,
+      startsAt: null,
+      expiresAt: null,
+      isActive: true,
+      products: [],
+      categories: [],
+      ...overrides,
+    }) as Coupon;
+
+  const order = (): Order =>
+    ({
+      user: { id: 5 },
+      currency: 'USD',
+      items: [
+        { product: { id: 1 }, quantity: 3, unitPrice: 1000, discountAmount: 0 },
+        { product: { id: 2 }, quantity: 1, unitPrice: 2000, discountAmount: 0 },
+      ],
+      totalAmount: 5000,
+    }) as any;
+
+  const withCoupon = (found: Coupon) => {
+    mockCouponRepository.findOne
+      .mockResolvedValueOnce(found)
+      .mockResolvedValueOnce(found);
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CouponsService,
+        { provide: getRepositoryToken(Coupon), useValue: mockCouponRepository },
+        {
+          provide: getRepositoryToken(Product),
+          useValue: mockProductRepository,
+        },
+        {
+          provide: getRepositoryToken(Category),
+          useValue: mockCategoryRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<CouponsService>(CouponsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    // Rejected codes leave the second lookup queued
+    mockCouponRepository.findOne.mockReset();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('createCoupon', () => {
+    it('should store the code uppercase with its product scope', async () => {
+      mockCouponRepository.findOne.mockResolvedValueOnce(null);
+      mockProductRepository.find.mockResolvedValueOnce([{ id: 1 }, { id: 2 }]);
+
+      const result = await service.createCoupon({
+        code: 'summer-sale',
+        type: 'PERCENTAGE',
+        value: 15,
+        expiresAt: '2030-01-01T00:00:00.000Z',
+        productIds: [1, 2, 2],
+      });
+
+      expect(result.message).toBe('Coupon created successfully');
+      expect(result.coupon).toMatchObject({
+        code: 'SUMMER-SALE',
+        value: 15,
+        expiresAt: new Date('2030-01-01T00:00:00.000Z'),
+        products: [{ id: 1 }, { id: 2 }],
+        categories: [],
+      });
+    });
+
+    it('should throw CONFLICT for a code that is taken', async () => {
+      mockCouponRepository.findOne.mockResolvedValueOnce(coupon({ id: 7 }));
+
+      await expect(
+        service.createCoupon({
+          code: 'save10',
+          type: 'FIXED_AMOUNT',
+          value: 5,
+        }),
+      ).rejects.toThrow(
+        new HttpException(
+          'A coupon with this code already exists',
+          HttpStatus.CONFLICT,
+        ),
+      );
+    });
+
+    it('should reject percentages above 100', async () => {
+      await expect(
+        service.createCoupon({
+          code: 'TOO-MUCH',
+          type: 'PERCENTAGE',
+          value: 150,
+        }),
+      ).rejects.toThrow(
+        new HttpException(
+          'Percentage must be between 0 and 100',
+          HttpStatus.BAD_REQUEST,
+        ),
+      );
+      expect(mockCouponRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject fixed amounts that are not whole minor units', async () => {
+      await expect(
+        service.createCoupon({
+          code: 'HALF-CENT',
+          type: 'FIXED_AMOUNT',
+          value: 2.5,
+        }),
+      ).rejects.toThrow(
+        new HttpException(
+          'Fixed amount must be a whole number of minor units',
+          HttpStatus.BAD_REQUEST,
+        ),
+      );
+    });
+
+    it('should throw NOT_FOUND for unknown categories', async () => {
+      mockCouponRepository.findOne.mockResolvedValueOnce(null);
+      mockCategoryRepository.find.mockResolvedValueOnce([]);
+
+      await expect(
+        service.createCoupon({
+          code: 'SHIPFREE',
+          type: 'FREE_SHIPPING',
+          categoryIds: [9],
+        }),
+      ).rejects.toMatchObject({ status: HttpStatus.NOT_FOUND });
+    });
+  });
+
+  describe('updateCoupon', () => {
+    it('should update the fields and keep the scope when no ids are sent', async () => {
+      mockCouponRepository.findOne.mockResolvedValueOnce(
+        coupon({ products: [{ id: 1 } as Product] }),
+      );
+
+      const result = await service.updateCoupon(1, {
+        isActive: false,
+        maxUses: 100,
+      });
+
+      expect(result.coupon).toMatchObject({
+        isActive: false,
+        maxUses: 100,
+        products: [{ id: 1 }],
+      });
+      expect(mockProductRepository.find).not.toHaveBeenCalled();
+    });
+
+    it('should reject a window that ends before it starts', async () => {
+      mockCouponRepository.findOne.mockResolvedValueOnce(coupon());
+
+      await expect(
+        service.updateCoupon(1, {
+          startsAt: '2030-02-01T00:00:00.000Z',
+          expiresAt: '2030-01-01T00:00:00.000Z',
+        }),
+      ).rejects.toMatchObject({ status: HttpStatus.BAD_REQUEST });
+    });
+
+    it('should throw NOT_FOUND for a missing coupon', async () => {
+      mockCouponRepository.findOne.mockResolvedValueOnce(null);
+
+      await expect(service.updateCoupon(3, { value: 5 })).rejects.toThrow(
+        new HttpException('Coupon not found', HttpStatus.NOT_FOUND),
+      );
+    });
+  });
+
+  describe('deleteCoupon', () => {
+    it('should remove the coupon', async () => {
+      const existing = coupon();
+      mockCouponRepository.findOne.mockResolvedValueOnce(existing);
+
+      const result = await service.deleteCoupon(1);
+
+      expect(result).toEqual({ message: 'Coupon deleted successfully' });
+      expect(mockCouponRepository.remove).toHaveBeenCalledWith(existing);
+    });
+  });
+
+  describe('applyToOrder', () => {
+    it('should take a percentage off and split it over the lines', async () => {
+      withCoupon(coupon());
+      const target = order();
+
+      await service.applyToOrder(mockEntityManager as any, ' save10 ', target);
+
+      expect(mockCouponRepository.findOne).toHaveBeenCalledWith({
+        where: { code: 'SAVE10' },
+        lock: { mode: 'pessimistic_write' },
+      });
+      expect(target).toMatchObject({
+        couponCode: 'SAVE10',
+        discountAmount: 500,
+        totalAmount: 4500,
+        freeShipping: false,
+      });
+      expect(target.items.map((item) => item.discountAmount)).toEqual([
+        300, 200,
+      ]);
+    });
+
+    it('should hand out leftover cents so the line discounts add up', async () => {
+      withCoupon(coupon({ type: 'FIXED_AMOUNT', value: 7 }));
+      const target = order();
+
+      await service.applyToOrder(mockEntityManager as any, 'SAVE10', target);
+
+      // 4.2 and 2.8 cents: the spare cent goes to the larger remainder
+      expect(target.items.map((item) => item.discountAmount)).toEqual([4, 3]);
+      expect(target.totalAmount).toBe(4993);
+    });
+
+    it("should convert a fixed amount at the order's locked rate", async () => {
+      withCoupon(coupon({ type: 'FIXED_AMOUNT', value: 1000 }));
+      const target = {
+        ...order(),
+        currency: 'EUR',
+        exchangeRate: '0.9',
+      } as any;
+
+      await service.applyToOrder(mockEntityManager as any, 'SAVE10', target);
+
+      // 10.00 USD off at 0.9 EUR per USD
+      expect(target.discountAmount).toBe(900);
+      expect(target.totalAmount).toBe(4100);
+    });
+
+    it('should only discount the products in scope', async () => {
+      withCoupon(
+        coupon({
+          type: 'FIXED_AMOUNT',
+          value: 10000,
+          products: [{ id: 2 } as Product],
+        }),
+      );
+      const target = order();
+
+      await service.applyToOrder(mockEntityManager as any, 'SAVE10', target);
+
+      // Capped at the value of the eligible line
+      expect(target.discountAmount).toBe(2000);
+      expect(target.items.map((item) => item.discountAmount)).toEqual([
+        0, 2000,
+      ]);
+      expect(target.totalAmount).toBe(3000);
+    });
+
+    it('should match lines by category', async () => {
+      withCoupon(coupon({ categories: [{ id: 4 } as Category] }));
+      mockProductRepository.find.mockResolvedValueOnce([
+        { id: 1, category: { id: 4 } },
+        { id: 2, category: { id: 5 } },
+      ]);
+      const target = order();
+
+      await service.applyToOrder(mockEntityManager as any, 'SAVE10', target);
+
+      expect(target.items.map((item) => item.discountAmount)).toEqual([300, 0]);
+    });
+
+    it('should mark free shipping without changing the total', async () => {
+      withCoupon(coupon({ type: 'FREE_SHIPPING', value: 0 }));
+      const target = order();
+
+      await service.applyToOrder(mockEntityManager as any, 'SAVE10', target);
+
+      expect(target).toMatchObject({
+        freeShipping: true,
+        discountAmount: 0,
+        totalAmount: 5000,
+      });
+    });
+
+    it.each([
+      ['an unknown code', null, 'Invalid coupon code'],
+      [
+        'an inactive coupon',
+        coupon({ isActive: false }),
+        'Invalid coupon code',
+      ],
+      [
+        'a coupon that has not started',
+        coupon({ startsAt: new Date(Date.now() + 60_000) }),
+        'Coupon is not active yet',
+      ],
+      [
+        'an expired coupon',
+        coupon({ expiresAt: new Date(Date.now() - 60_000) }),
+        'Coupon has expired',
+      ],
+      [
+        'an order below the minimum',
+        coupon({ minOrderValue: 7500 }),
+        'Order subtotal must be at least 75.00 USD to use this coupon',
+      ],
+      [
+        'a scope that matches nothing',
+        coupon({ products: [{ id: 99 } as Product] }),
+        'Coupon does not apply to any item in the order',
+      ],
+    ])('should reject %s', async (_case, found, message) => {
+      withCoupon(found);
+      const target = order();
+
+      await expect(
+        service.applyToOrder(mockEntityManager as any, 'SAVE10', target),
+      ).rejects.toThrow(new HttpException(message, HttpStatus.BAD_REQUEST));
+      expect(target.totalAmount).toBe(5000);
+    });
+
+    it('should enforce the global usage limit, ignoring the order itself', async () => {
+      withCoupon(coupon({ maxUses: 2 }));
+      mockOrderRepository.count.mockResolvedValueOnce(2);
+      const target = { ...order(), id: 12 } as Order;
+
+      await expect(
+        service.applyToOrder(mockEntityManager as any, 'SAVE10', target),
+      ).rejects.toThrow('Coupon usage limit reached');
+
+      const { where } = mockOrderRepository.count.mock.calls[0][0];
+      expect(where.coupon).toEqual({ id: 1 });
+      expect(where.status.value).toBe('CANCELED');
+      expect(where.id.value).toBe(12);
+      expect(where.user).toBeUndefined();
+    });
+
+    it('should enforce the per-user limit', async () => {
+      withCoupon(coupon({ maxUsesPerUser: 1 }));
+      mockOrderRepository.count.mockResolvedValueOnce(1);
+
+      await expect(
+        service.applyToOrder(mockEntityManager as any, 'SAVE10', order()),
+      ).rejects.toThrow('You have already used this coupon');
+      expect(mockOrderRepository.count.mock.calls[0][0].where.user).toEqual({
+        id: 5,
+      });
+    });
+
+    it('should count guest uses by email', async () => {
+      withCoupon(coupon({ maxUsesPerUser: 1 }));
+      mockOrderRepository.count.mockResolvedValueOnce(0);
+      const target = {
+        ...order(),
+        user: null,
+        guestEmail: 'guest@test.com',
+      } as Order;
+
+      await service.applyToOrder(mockEntityManager as any, 'SAVE10', target);
+
+      expect(mockOrderRepository.count.mock.calls[0][0].where.guestEmail).toBe(
+        'guest@test.com',
+      );
+      expect(target.couponCode).toBe('SAVE10');
+    });
+  });
+
+  describe('reallocateOnOrder', () => {
+    // An edited order: 3 x 10.00 and 1 x 20.00, carrying the 5.00 it was given when placed
+    const editedOrder = (overrides: Record<string, any> = {}): Order =>
+      ({
+        ...order(),
+        id: 9,
+        coupon: { id: 1 },
+        couponCode: 'SAVE10',
+        discountAmount: 500,
+        ...overrides,
+      }) as any;
+
+    it('should keep the discount of an expired coupon and spread it over the new lines', async () => {
+      mockCouponRepository.findOne.mockResolvedValueOnce(
+        coupon({ expiresAt: new Date('2020-01-01'), isActive: false }),
+      );
+      const target = editedOrder();
+
+      await service.reallocateOnOrder(mockEntityManager as any, target);
+
+      expect(mockCouponRepository.findOne).toHaveBeenCalledWith({
+        where: { id: 1 },
+        relations: ['products', 'categories'],
+      });
+      expect(mockOrderRepository.count).not.toHaveBeenCalled();
+      expect(target).toMatchObject({
+        couponCode: 'SAVE10',
+        discountAmount: 500,
+        totalAmount: 4500,
+      });
+      expect(target.items.map((item) => item.discountAmount)).toEqual([
+        300, 200,
+      ]);
+    });
+
+    it('should ignore a usage limit the order itself used up', async () => {
+      mockCouponRepository.findOne.mockResolvedValueOnce(
+        coupon({ maxUses: 1, maxUsesPerUser: 1 }),
+      );
+      const target = editedOrder();
+
+      await service.reallocateOnOrder(mockEntityManager as any, target);
+
+      expect(mockOrderRepository.count).not.toHaveBeenCalled();
+      expect(target.discountAmount).toBe(500);
+    });
+
+    it('should spread the discount over every line once the coupon is deleted', async () => {
+      const target = editedOrder({ coupon: null });
+
+      await service.reallocateOnOrder(mockEntityManager as any, target);
+
+      expect(mockCouponRepository.findOne).not.toHaveBeenCalled();
+      expect(target.items.map((item) => item.discountAmount)).toEqual([
+        300, 200,
+      ]);
+      expect(target.totalAmount).toBe(4500);
+    });
+
+    it('should cap the discount at what the eligible lines are now worth', async () => {
+      mockCouponRepository.findOne.mockResolvedValueOnce(
+        coupon({ products: [{ id: 2 } as Product] }),
+      );
+      const target = editedOrder({ discountAmount: 3000 });
+
+      await service.reallocateOnOrder(mockEntityManager as any, target);
+
+      expect(target.discountAmount).toBe(2000);
+      expect(target.items.map((item) => item.discountAmount)).toEqual([
+        0, 2000,
+      ]);
+      expect(target.totalAmount).toBe(3000);
+    });
+
+    it('should throw BAD_REQUEST when no line is in the coupon scope any more', async () => {
+      mockCouponRepository.findOne.mockResolvedValueOnce(
+        coupon({ products: [{ id: 3 } as Product] }),
+      );
+
+      await expect(
+        service.reallocateOnOrder(mockEntityManager as any, editedOrder()),
+      ).rejects.toThrow(
+        new HttpException(
+          'Coupon SAVE10 does not apply to any item in the order',
+          HttpStatus.BAD_REQUEST,
+        ),
+      );
+    });
+  });
+});
@@ -0,0 +1,363 @@
+import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, FindOptionsWhere, In, Not, Repository } from 'typeorm';
+import { Coupon } from 'src/typeorm/entities/Coupon';
+import { Product } from 'src/typeorm/entities/Product';
+import { Category } from 'src/typeorm/entities/Category';
+import { Order } from 'src/typeorm/entities/Order';
+import { DEFAULT_CURRENCY, Money } from 'src/money/money';
+import { ICreateCoupon, IUpdateCoupon } from 'utils/Interfaces';
+
+@Injectable()
+export class CouponsService {
+  private readonly logger = new Logger(CouponsService.name);
+
+  constructor(
+    @InjectRepository(Coupon) private couponRepository: Repository<Coupon>,
+    @InjectRepository(Product) private productRepository: Repository<Product>,
+    @InjectRepository(Category)
+    private categoryRepository: Repository<Category>,
+  ) {}
+
+  private rethrow(error: unknown, action: string): never {
+    if (error instanceof HttpException) throw error;
+    this.logger.error(
+      `Failed to ${action}`,
+      (error as any)?.stack ?? String(error),
+    );
+    throw new HttpException(
+      `An error occurred while trying to ${action}`,
+      HttpStatus.INTERNAL_SERVER_ERROR,
+    );
+  }
+
+  private invalid(message: string): never {
+    throw new HttpException(message, HttpStatus.BAD_REQUEST);
+  }
+
+  private async findCoupon(id: number) {
+    if (!id || id <= 0) {
+      throw new HttpException('Invalid coupon ID', HttpStatus.BAD_REQUEST);
+    }
+    const coupon = await this.couponRepository.findOne({
+      where: { id },
+      relations: ['products', 'categories'],
+    });
+    if (!coupon) {
+      throw new HttpException('Coupon not found', HttpStatus.NOT_FOUND);
+    }
+    return coupon;
+  }
+
+  private async assertCodeIsFree(code: string, exceptId?: number) {
+    const existing = await this.couponRepository.findOne({ where: { code } });
+    if (existing && existing.id !== exceptId) {
+      throw new HttpException(
+        'A coupon with this code already exists',
+        HttpStatus.CONFLICT,
+      );
+    }
+  }
+
+  private async loadScope(params: IUpdateCoupon, coupon: Coupon) {
+    if (params.productIds !== undefined) {
+      const ids = [...new Set(params.productIds)];
+      const products = ids.length
+        ? await this.productRepository.find({ where: { id: In(ids) } })
+        : [];
+      if (products.length !== ids.length) {
+        throw new HttpException(
+          'One or more products not found',
+          HttpStatus.NOT_FOUND,
+        );
+      }
+      coupon.products = products;
+    }
+    if (params.categoryIds !== undefined) {
+      const ids = [...new Set(params.categoryIds)];
+      const categories = ids.length
+        ? await this.categoryRepository.find({ where: { id: In(ids) } })
+        : [];
+      if (categories.length !== ids.length) {
+        throw new HttpException(
+          'One or more categories not found',
+          HttpStatus.NOT_FOUND,
+        );
+      }
+      coupon.categories = categories;
+    }
+  }
+
+  // Copies the plain fields and checks the combination still makes sense
+  private assign(coupon: Coupon, params: IUpdateCoupon) {
+    const { productIds, categoryIds, code, startsAt, expiresAt, ...fields } =
+      params;
+    Object.assign(coupon, fields);
+    if (code !== undefined) coupon.code = code.trim().toUpperCase();
+    if (startsAt !== undefined) {
+      coupon.startsAt = startsAt ? new Date(startsAt) : null;
+    }
+    if (expiresAt !== undefined) {
+      coupon.expiresAt = expiresAt ? new Date(expiresAt) : null;
+    }
+
+    const value = Number(coupon.value ?? 0);
+    if (coupon.type === 'PERCENTAGE' && (value <= 0 || value > 100)) {
+      this.invalid('Percentage must be between 0 and 100');
+    }
+    if (coupon.type === 'FIXED_AMOUNT' && value <= 0) {
+      this.invalid('Fixed amount must be greater than 0');
+    }
+    if (coupon.type === 'FIXED_AMOUNT' && !Number.isInteger(value)) {
+      this.invalid('Fixed amount must be a whole number of minor units');
+    }
+    if (
+      coupon.startsAt &&
+      coupon.expiresAt &&
+      coupon.startsAt >= coupon.expiresAt
+    ) {
+      this.invalid('Coupon must start before it expires');
+    }
+  }
+
+  async getCoupons() {
+    try {
+      const coupons = await this.couponRepository.find({
+        relations: ['products', 'categories'],
+        order: { createdAt: 'DESC' },
+      });
+      return { message: 'Coupons retrieved successfully', coupons };
+    } catch (error) {
+      this.rethrow(error, 'retrieve the coupons');
+    }
+  }
+
+  async getCouponById(id: number) {
+    try {
+      const coupon = await this.findCoupon(id);
+      return { message: 'Coupon retrieved successfully', coupon };
+    } catch (error) {
+      this.rethrow(error, 'retrieve the coupon');
+    }
+  }
+
+  async createCoupon(params: ICreateCoupon) {
+    try {
+      const coupon = this.couponRepository.create({
+        products: [],
+        categories: [],
+      });
+      this.assign(coupon, params);
+      await this.assertCodeIsFree(coupon.code);
+      await this.loadScope(params, coupon);
+
+      const saved = await this.couponRepository.save(coupon);
+      return { message: 'Coupon created successfully', coupon: saved };
+    } catch (error) {
+      this.rethrow(error, 'create the coupon');
+    }
+  }
+
+  async updateCoupon(id: number, params: IUpdateCoupon) {
+    try {
+      const coupon = await this.findCoupon(id);
+      this.assign(coupon, params);
+      if (params.code !== undefined) {
+        await this.assertCodeIsFree(coupon.code, id);
+      }
+      await this.loadScope(params, coupon);
+
+      const saved = await this.couponRepository.save(coupon);
+      return { message: 'Coupon updated successfully', coupon: saved };
+    } catch (error) {
+      this.rethrow(error, 'update the coupon');
+    }
+  }
+
+  async deleteCoupon(id: number) {
+    try {
+      const coupon = await this.findCoupon(id);
+      await this.couponRepository.remove(coupon);
+      return { message: 'Coupon deleted successfully' };
+    } catch (error) {
+      this.rethrow(error, 'delete the coupon');
+    }
+  }
+
+  // Orders that used the coupon and weren't canceled, optionally for one customer
+  private countUses(
+    manager: EntityManager,
+    coupon: Coupon,
+    order: Order,
+    perCustomer: boolean,
+  ) {
+    const where: FindOptionsWhere<Order> = {
+      coupon: { id: coupon.id },
+      status: Not('CANCELED'),
+    };
+    if (order.id) where.id = Not(order.id);
+    if (perCustomer) {
+      if (order.user?.id) where.user = { id: order.user.id };
+      else where.guestEmail = order.guestEmail;
+    }
+    return manager.getRepository(Order).count({ where });
+  }
+
+  private async eligibleLines(
+    manager: EntityManager,
+    coupon: Coupon,
+    order: Order,
+  ) {
+    const productIds = new Set(coupon.products.map((p) => p.id));
+    const categoryIds = new Set(coupon.categories.map((c) => c.id));
+    if (productIds.size === 0 && categoryIds.size === 0) return order.items;
+
+    const categoryOf = new Map<number, number | undefined>();
+    if (categoryIds.size > 0) {
+      const products = await manager.getRepository(Product).find({
+        where: { id: In(order.items.map((item) => item.product.id)) },
+        relations: ['category'],
+      });
+      products.forEach((p) => categoryOf.set(p.id, p.category?.id));
+    }
+
+    return order.items.filter(
+      (item) =>
+        productIds.has(item.product.id) ||
+        categoryIds.has(categoryOf.get(item.product.id)),
+    );
+  }
+
+  /**
+   * Validates `code` for the order and writes the discount onto it: the order
+   * total, coupon fields and each line's share of the discount. Must run in the
+   * transaction that saves the order - the coupon row is locked so two orders
+   * can't both take the last use.
+   */
+  async applyToOrder(manager: EntityManager, code: string, order: Order) {
+    const couponRepository = manager.getRepository(Coupon);
+    const locked = await couponRepository.findOne({
+      where: { code: (code ?? '').trim().toUpperCase() },
+      lock: { mode: 'pessimistic_write' },
+    });
+    if (!locked || !locked.isActive) {
+      this.invalid('Invalid coupon code');
+    }
+
+    const coupon = await couponRepository.findOne({
+      where: { id: locked.id },
+      relations: ['products', 'categories'],
+    });
+
+    const now = new Date();
+    if (coupon.startsAt && coupon.startsAt > now) {
+      this.invalid('Coupon is not active yet');
+    }
+    if (coupon.expiresAt && coupon.expiresAt <= now) {
+      this.invalid('Coupon has expired');
+    }
+
+    const currency = order.currency;
+    const lineTotal = (item: Order['items'][number]) =>
+      Money.of(item.unitPrice, currency).multiply(Number(item.quantity));
+    const subtotal = Money.sum(order.items.map(lineTotal), currency);
+    // Minimums and fixed amounts are set in the store currency
+    const inOrderCurrency = (amount: number) =>
+      Money.of(amount, DEFAULT_CURRENCY).convert(
+        order.exchangeRate ?? 1,
+        currency,
+      );
+
+    if (coupon.minOrderValue !== null) {
+      const minimum = inOrderCurrency(coupon.minOrderValue);
+      if (!subtotal.greaterThanOrEqual(minimum)) {
+        this.invalid(
+          `Order subtotal must be at least ${minimum.format()} to use this coupon`,
+        );
+      }
+    }
+    if (
+      coupon.maxUses !== null &&
+      (await this.countUses(manager, coupon, order, false)) >= coupon.maxUses
+    ) {
+      this.invalid('Coupon usage limit reached');
+    }
+    if (
+      coupon.maxUsesPerUser !== null &&
+      (await this.countUses(manager, coupon, order, true)) >=
+        coupon.maxUsesPerUser
+    ) {
+      this.invalid('You have already used this coupon');
+    }
+
+    const eligible = await this.eligibleLines(manager, coupon, order);
+    if (eligible.length === 0) {
+      this.invalid('Coupon does not apply to any item in the order');
+    }
+    const eligibleTotal = Money.sum(eligible.map(lineTotal), currency);
+
+    let discount = Money.zero(currency);
+    if (coupon.type === 'PERCENTAGE') {
+      discount = eligibleTotal.percent(Number(coupon.value));
+    } else if (coupon.type === 'FIXED_AMOUNT') {
+      discount = inOrderCurrency(coupon.value).min(eligibleTotal);
+    }
+
+    // Split the discount over the eligible lines by their share of the amount
+    const shares = discount.allocate(
+      eligible.map((item) => lineTotal(item).amount),
+    );
+
+    order.items.forEach((item) => (item.discountAmount = 0));
+    eligible.forEach((item, i) => (item.discountAmount = shares[i].amount));
+
+    order.coupon = coupon;
+    order.couponCode = coupon.code;
+    order.discountAmount = discount.amount;
+    order.freeShipping = coupon.type === 'FREE_SHIPPING';
+    order.totalAmount = subtotal.subtract(discount).amount;
+  }
+
+  /**
+   * Spreads an order's existing discount over its edited lines. The coupon was
+   * validated when the order was placed and isn't checked again - it may have
+   * expired, run out or been deleted since. The amount stays what it was,
+   * capped at what the eligible lines are now worth.
+   */
+  async reallocateOnOrder(manager: EntityManager, order: Order) {
+    const currency = order.currency;
+    const lineTotal = (item: Order['items'][number]) =>
+      Money.of(item.unitPrice, currency).multiply(Number(item.quantity));
+    const subtotal = Money.sum(order.items.map(lineTotal), currency);
+
+    // The coupon's scope still decides which lines share it; a deleted coupon covers them all
+    const coupon = order.coupon?.id
+      ? await manager.getRepository(Coupon).findOne({
+          where: { id: order.coupon.id },
+          relations: ['products', 'categories'],
+        })
+      : null;
+    const eligible = coupon
+      ? await this.eligibleLines(manager, coupon, order)
+      : order.items;
+    if (eligible.length === 0) {
+      this.invalid(
+        `Coupon ${order.couponCode} does not apply to any item in the order`,
+      );
+    }
+    const eligibleTotal = Money.sum(eligible.map(lineTotal), currency);
+
+    const discount = Money.of(order.discountAmount ?? 0, currency).min(
+      eligibleTotal,
+    );
+    const shares = discount.allocate(
+      eligible.map((item) => lineTotal(item).amount),
+    );
+
+    order.items.forEach((item) => (item.discountAmount = 0));
+    eligible.forEach((item, i) => (item.discountAmount = shares[i].amount));
+
+    order.discountAmount = discount.amount;
+    order.totalAmount = subtotal.subtract(discount).amount;
+  }
+}
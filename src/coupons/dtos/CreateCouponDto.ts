@@ -0,0 +1,64 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  Matches,
+  Min,
+} from 'class-validator';
+import { COUPON_TYPES, CouponType } from 'src/typeorm/entities/Coupon';
+
+export class CreateCouponDto {
+  @Matches(/^[A-Za-z0-9_-]{3,50}$/, {
+    message: 'Code must be 3-50 letters, digits, dashes or underscores',
+  })
+  code: string;
+
+  @IsIn(COUPON_TYPES)
+  type: CouponType;
+
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  value?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  minOrderValue?: number | null;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxUses?: number | null;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxUsesPerUser?: number | null;
+
+  @IsOptional()
+  @IsDateString()
+  startsAt?: string | null;
+
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string | null;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @IsOptional()
+  @IsArray()
+  @IsInt({ each: true })
+  productIds?: number[];
+
+  @IsOptional()
+  @IsArray()
+  @IsInt({ each: true })
+  categoryIds?: number[];
+}
@@ -0,0 +1,35 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { csvCell, parseCsv, undefuse } from './csv';
+
+describe('csv', () => {
+  it('should quote cells that need it and defuse formulas', () => {
+    expect(csvCell('plain')).toBe('plain');
+    expect(csvCell('a, "b"')).toBe('"a, ""b"""');
+    expect(csvCell(null)).toBe('');
+    expect(csvCell('=SUM(A1)', true)).toBe("'=SUM(A1)");
+    expect(csvCell('-12.50')).toBe('-12.50');
+    expect(undefuse("'=SUM(A1)")).toBe('=SUM(A1)');
+    expect(undefuse("'quoted'")).toBe("'quoted'");
+  });
+
+  it('should parse quoted cells, line breaks and blank lines', () => {
+    const text =
+      '\uFEFFname,notes\r\n"Mug, large","says ""hi""\nthere"\n\nTea,\n';
+
+    expect(parseCsv(text)).toEqual([
+      ['name', 'notes'],
+      ['Mug, large', 'says "hi"\nthere'],
+      [''],
+      ['Tea', ''],
+    ]);
+  });
+
+  it('should reject a quoted cell that never ends', () => {
+    expect(() => parseCsv('name\n"Mug')).toThrow(
+      new HttpException(
+        'Invalid CSV: a quoted cell is never closed',
+        HttpStatus.BAD_REQUEST,
+      ),
+    );
+  });
+});
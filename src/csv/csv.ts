@@ -0,0 +1,80 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+// A spreadsheet runs a cell starting with one of these as a formula
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/**
+ * One CSV cell, quoted when needed. `defuse` is for text people typed in:
+ * a leading `'` keeps a spreadsheet from running it as a formula.
+ */
+export function csvCell(value: CsvValue, defuse = false): string {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  if (defuse && FORMULA_START.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function csvRow(cells: string[]): string {
+  return `${cells.join(',')}\r\n`;
+}
+
+// Reverses the `defuse` of csvCell
+export function undefuse(text: string): string {
+  return text.startsWith("'") && FORMULA_START.test(text.slice(1))
+    ? text.slice(1)
+    : text;
+}
+
+/**
+ * Splits CSV text (RFC 4180: quoted cells may hold commas, quotes and line
+ * breaks) into rows of cells. Blank lines stay in as `['']` so rows keep the
+ * numbers a spreadsheet shows; a leading BOM and final line break don't.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    row.push(cell);
+    rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) {
+    throw new HttpException(
+      'Invalid CSV: a quoted cell is never closed',
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+  if (cell !== '' || row.length > 0) endRow();
+  return rows;
+}
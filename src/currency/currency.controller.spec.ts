@@ -0,0 +1,46 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { CurrencyController } from './currency.controller';
+import { CurrencyService } from './currency.service';
+
+describe('CurrencyController', () => {
+  let controller: CurrencyController;
+
+  const mockCurrencyService = {
+    getRates: jest.fn(),
+    createRate: jest.fn(),
+    importRates: jest.fn(),
+    deleteRate: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [CurrencyController],
+      providers: [{ provide: CurrencyService, useValue: mockCurrencyService }],
+    }).compile();
+
+    controller = module.get<CurrencyController>(CurrencyController);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should pass rate calls to the service', async () => {
+    const dto = { currency: 'EUR', rate: 0.92 };
+    const feed = { base: 'USD', rates: { EUR: 0.92 } };
+
+    await controller.getRates('EUR');
+    await controller.createRate(dto);
+    await controller.importRates(feed);
+    await controller.deleteRate(1);
+
+    expect(mockCurrencyService.getRates).toHaveBeenCalledWith('EUR');
+    expect(mockCurrencyService.createRate).toHaveBeenCalledWith(dto);
+    expect(mockCurrencyService.importRates).toHaveBeenCalledWith(feed);
+    expect(mockCurrencyService.deleteRate).toHaveBeenCalledWith(1);
+  });
+});
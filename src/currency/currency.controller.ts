@@ -0,0 +1,48 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { Roles } from 'utils/rolesDecorator';
+import { CurrencyService } from './currency.service';
+import { CreateExchangeRateDto } from './dtos/CreateExchangeRateDto';
+import { ImportExchangeRatesDto } from './dtos/ImportExchangeRatesDto';
+
+@ApiTags('exchange-rates')
+@Controller('exchange-rates')
+export class CurrencyController {
+  constructor(private currencyService: CurrencyService) {}
+
+  @Roles('admin')
+  @Get()
+  getRates(@Query('currency') currency?: string) {
+    return this.currencyService.getRates(currency);
+  }
+
+  @Roles('admin')
+  @Post()
+  @HttpCode(201)
+  createRate(@Body() createExchangeRateDto: CreateExchangeRateDto) {
+    return this.currencyService.createRate(createExchangeRateDto);
+  }
+
+  @Roles('admin')
+  @Post('import')
+  @HttpCode(201)
+  importRates(@Body() importExchangeRatesDto: ImportExchangeRatesDto) {
+    return this.currencyService.importRates(importExchangeRatesDto);
+  }
+
+  @Roles('admin')
+  @Delete(':id')
+  deleteRate(@Param('id', ParseIntPipe) id: number) {
+    return this.currencyService.deleteRate(id);
+  }
+}
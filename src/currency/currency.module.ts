@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ExchangeRate } from 'src/typeorm/entities/ExchangeRate';
+import { ProductPrice } from 'src/typeorm/entities/ProductPrice';
+import { CurrencyController } from './currency.controller';
+import { CurrencyService } from './currency.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([ExchangeRate, ProductPrice])],
+  controllers: [CurrencyController],
+  providers: [CurrencyService],
+  exports: [CurrencyService],
+})
+export class CurrencyModule {}
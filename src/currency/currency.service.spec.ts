@@ -0,0 +1,235 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { LessThanOrEqual } from 'typeorm';
+import { CurrencyService } from './currency.service';
+import { ExchangeRate } from 'src/typeorm/entities/ExchangeRate';
+import { ProductPrice } from 'src/typeorm/entities/ProductPrice';
+import { Product } from 'src/typeorm/entities/Product';
+import { ProductVariant } from 'src/typeorm/entities/ProductVariant';
+
+describe('CurrencyService', () => {
+  let service: CurrencyService;
+
+  const mockTransactionRepository = {
+    findOne: jest.fn(),
+    create: jest.fn(() => ({})),
+    save: jest.fn(),
+  };
+
+  const mockEntityManager = {
+    getRepository: jest.fn(() => mockTransactionRepository),
+  };
+
+  const mockRateRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn((rate) => ({ ...rate })),
+    save: jest.fn((rate) => ({ id: 1, ...rate })),
+    remove: jest.fn(),
+    manager: {
+      transaction: jest.fn((cb) => cb(mockEntityManager)),
+    },
+  };
+
+  const mockPriceRepository = {
+    find: jest.fn(),
+  };
+
+  const product = (overrides: Partial<Product> = {}) =>
+    ({ id: 1, price: 1999, currency: 'USD', ...overrides }) as Product;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CurrencyService,
+        {
+          provide: getRepositoryToken(ExchangeRate),
+          useValue: mockRateRepository,
+        },
+        {
+          provide: getRepositoryToken(ProductPrice),
+          useValue: mockPriceRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<CurrencyService>(CurrencyService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('createRate', () => {
+    it('should store an uppercased rate effective from the given date', async () => {
+      mockRateRepository.findOne.mockResolvedValueOnce(null);
+
+      const result = await service.createRate({
+        currency: 'eur',
+        rate: 0.92,
+        effectiveFrom: '2026-01-01T00:00:00.000Z',
+      });
+
+      expect(result.rate).toMatchObject({
+        currency: 'EUR',
+        rate: 0.92,
+        effectiveFrom: new Date('2026-01-01T00:00:00.000Z'),
+      });
+    });
+
+    it('should refuse a rate for the store currency', async () => {
+      await expect(
+        service.createRate({ currency: 'USD', rate: 1 }),
+      ).rejects.toThrow(
+        new HttpException(
+          'USD is the store currency and has no rate',
+          HttpStatus.BAD_REQUEST,
+        ),
+      );
+    });
+
+    it('should throw CONFLICT for a second rate at the same moment', async () => {
+      mockRateRepository.findOne.mockResolvedValueOnce({ id: 3 });
+
+      await expect(
+        service.createRate({
+          currency: 'EUR',
+          rate: 0.9,
+          effectiveFrom: '2026-01-01',
+        }),
+      ).rejects.toMatchObject({ status: HttpStatus.CONFLICT });
+    });
+  });
+
+  describe('importRates', () => {
+    it('should upsert every rate in one transaction', async () => {
+      mockTransactionRepository.findOne
+        .mockResolvedValueOnce({ id: 4, currency: 'EUR', rate: 0.9 })
+        .mockResolvedValueOnce(null);
+
+      const result = await service.importRates({
+        base: 'usd',
+        effectiveFrom: '2026-02-01',
+        rates: { eur: 0.93, JPY: 151.2 },
+      });
+
+      expect(mockRateRepository.manager.transaction).toHaveBeenCalledTimes(1);
+      expect(mockTransactionRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 4, currency: 'EUR', rate: 0.93 }),
+      );
+      expect(mockTransactionRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ currency: 'JPY', rate: 151.2 }),
+      );
+      expect(result).toMatchObject({
+        message: 'Exchange rates imported successfully',
+        imported: 2,
+      });
+    });
+
+    it('should reject rates quoted against another base', async () => {
+      await expect(
+        service.importRates({ base: 'EUR', rates: { USD: 1.08 } }),
+      ).rejects.toThrow(
+        new HttpException(
+          'Rates must be quoted against USD',
+          HttpStatus.BAD_REQUEST,
+        ),
+      );
+    });
+
+    it('should save nothing when one rate is invalid', async () => {
+      await expect(
+        service.importRates({ rates: { EUR: 0.93, GBP: -1 } }),
+      ).rejects.toThrow(
+        new HttpException(
+          'Rate for GBP must be a positive number',
+          HttpStatus.BAD_REQUEST,
+        ),
+      );
+      expect(mockRateRepository.manager.transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rateFor', () => {
+    it('should use the latest rate that has taken effect', async () => {
+      const at = new Date('2026-03-01');
+      mockRateRepository.findOne.mockResolvedValueOnce({ rate: '0.91000000' });
+
+      await expect(service.rateFor('eur', at)).resolves.toBe(0.91);
+      expect(mockRateRepository.findOne).toHaveBeenCalledWith({
+        where: { currency: 'EUR', effectiveFrom: LessThanOrEqual(at) },
+        order: { effectiveFrom: 'DESC' },
+      });
+    });
+
+    it('should not look up the store currency', async () => {
+      await expect(service.rateFor('USD')).resolves.toBe(1);
+      expect(mockRateRepository.findOne).not.toHaveBeenCalled();
+    });
+
+    it('should throw BAD_REQUEST without a rate', async () => {
+      mockRateRepository.findOne.mockResolvedValueOnce(null);
+
+      await expect(service.rateFor('CHF')).rejects.toThrow(
+        new HttpException('No exchange rate for CHF', HttpStatus.BAD_REQUEST),
+      );
+    });
+  });
+
+  describe('priceProducts', () => {
+    it('should prefer a price override over the converted price', async () => {
+      mockPriceRepository.find.mockResolvedValueOnce([
+        { product: { id: 2 }, currency: 'EUR', price: 1500 },
+      ]);
+      mockRateRepository.findOne.mockResolvedValueOnce({ rate: '0.92' });
+
+      const prices = await service.priceProducts(
+        [product(), product({ id: 2 })],
+        'eur',
+      );
+
+      expect(prices.get(1)).toBe(1839);
+      expect(prices.get(2)).toBe(1500);
+    });
+
+    it('should convert through the store currency with a locked rate', async () => {
+      mockPriceRepository.find.mockResolvedValueOnce([]);
+      // 0.8 GBP per USD
+      mockRateRepository.findOne.mockResolvedValueOnce({ rate: '0.8' });
+
+      const prices = await service.priceProducts(
+        [product({ currency: 'GBP', price: 800 }), product({ id: 2 })],
+        'JPY',
+        150,
+      );
+
+      // 8.00 GBP is 10.00 USD is 1500 JPY
+      expect(prices.get(1)).toBe(1500);
+      expect(prices.get(2)).toBe(2999);
+      expect(mockRateRepository.findOne).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('priceVariants', () => {
+    it('should fall back to the product price for variants without one', async () => {
+      mockPriceRepository.find.mockResolvedValueOnce([]);
+      const shirt = product();
+
+      const prices = await service.priceVariants(
+        [
+          { id: 10, price: null, product: shirt } as ProductVariant,
+          { id: 11, price: 2499, product: shirt } as ProductVariant,
+        ],
+        'USD',
+      );
+
+      expect(prices.get(10)).toBe(1999);
+      expect(prices.get(11)).toBe(2499);
+    });
+  });
+});
@@ -0,0 +1,273 @@
+import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, LessThanOrEqual, Repository } from 'typeorm';
+import { ExchangeRate } from 'src/typeorm/entities/ExchangeRate';
+import { ProductPrice } from 'src/typeorm/entities/ProductPrice';
+import { Product } from 'src/typeorm/entities/Product';
+import { ProductVariant } from 'src/typeorm/entities/ProductVariant';
+import { DEFAULT_CURRENCY, Money, normalizeCurrency } from 'src/money/money';
+import { ICreateExchangeRate, IImportExchangeRates } from 'utils/Interfaces';
+
+@Injectable()
+export class CurrencyService {
+  private readonly logger = new Logger(CurrencyService.name);
+
+  constructor(
+    @InjectRepository(ExchangeRate)
+    private rateRepository: Repository<ExchangeRate>,
+    @InjectRepository(ProductPrice)
+    private priceRepository: Repository<ProductPrice>,
+  ) {}
+
+  private rethrow(error: unknown, action: string): never {
+    if (error instanceof HttpException) throw error;
+    this.logger.error(
+      `Failed to ${action}`,
+      (error as any)?.stack ?? String(error),
+    );
+    throw new HttpException(
+      `An error occurred while trying to ${action}`,
+      HttpStatus.INTERNAL_SERVER_ERROR,
+    );
+  }
+
+  private invalid(message: string): never {
+    throw new HttpException(message, HttpStatus.BAD_REQUEST);
+  }
+
+  private effectiveDate(value?: string) {
+    const date = value ? new Date(value) : new Date();
+    if (Number.isNaN(date.getTime())) {
+      this.invalid('Invalid effectiveFrom date');
+    }
+    return date;
+  }
+
+  // Rates are quoted per store currency, which never needs one itself
+  private foreignCurrency(currency: string) {
+    const code = normalizeCurrency(currency);
+    if (!/^[A-Z]{3}$/.test(code)) {
+      this.invalid('Currency must be a three-letter ISO code');
+    }
+    if (code === DEFAULT_CURRENCY) {
+      this.invalid(`${DEFAULT_CURRENCY} is the store currency and has no rate`);
+    }
+    return code;
+  }
+
+  private assertRate(currency: string, rate: number) {
+    if (typeof rate !== 'number' || !Number.isFinite(rate) || rate <= 0) {
+      this.invalid(`Rate for ${currency} must be a positive number`);
+    }
+  }
+
+  async getRates(currency?: string) {
+    try {
+      const rates = await this.rateRepository.find({
+        where: currency ? { currency: normalizeCurrency(currency) } : {},
+        order: { currency: 'ASC', effectiveFrom: 'DESC' },
+      });
+      return { message: 'Exchange rates retrieved successfully', rates };
+    } catch (error) {
+      this.rethrow(error, 'retrieve the exchange rates');
+    }
+  }
+
+  async createRate(params: ICreateExchangeRate) {
+    try {
+      const currency = this.foreignCurrency(params.currency);
+      this.assertRate(currency, params.rate);
+      const effectiveFrom = this.effectiveDate(params.effectiveFrom);
+
+      const existing = await this.rateRepository.findOne({
+        where: { currency, effectiveFrom },
+      });
+      if (existing) {
+        throw new HttpException(
+          'A rate for this currency and date already exists',
+          HttpStatus.CONFLICT,
+        );
+      }
+
+      const saved = await this.rateRepository.save(
+        this.rateRepository.create({
+          currency,
+          rate: params.rate,
+          effectiveFrom,
+        }),
+      );
+      return { message: 'Exchange rate created successfully', rate: saved };
+    } catch (error) {
+      this.rethrow(error, 'create the exchange rate');
+    }
+  }
+
+  /**
+   * Stores a whole table of rates taking effect at one moment, replacing any
+   * rates already recorded for that moment. All rows are saved or none are.
+   */
+  async importRates(params: IImportExchangeRates) {
+    try {
+      if (params.base && normalizeCurrency(params.base) !== DEFAULT_CURRENCY) {
+        this.invalid(`Rates must be quoted against ${DEFAULT_CURRENCY}`);
+      }
+      const effectiveFrom = this.effectiveDate(params.effectiveFrom);
+      const entries = Object.entries(params.rates ?? {});
+      if (entries.length === 0) {
+        this.invalid('No rates to import');
+      }
+
+      const rows = entries.map(([code, rate]) => {
+        const currency = this.foreignCurrency(code);
+        this.assertRate(currency, rate);
+        return { currency, rate };
+      });
+
+      await this.rateRepository.manager.transaction(async (manager) => {
+        const repository = manager.getRepository(ExchangeRate);
+        for (const row of rows) {
+          const existing = await repository.findOne({
+            where: { currency: row.currency, effectiveFrom },
+          });
+          await repository.save(
+            Object.assign(existing ?? repository.create(), {
+              ...row,
+              effectiveFrom,
+            }),
+          );
+        }
+      });
+
+      return {
+        message: 'Exchange rates imported successfully',
+        imported: rows.length,
+        effectiveFrom,
+      };
+    } catch (error) {
+      this.rethrow(error, 'import the exchange rates');
+    }
+  }
+
+  async deleteRate(id: number) {
+    try {
+      if (!id || id <= 0) {
+        this.invalid('Invalid exchange rate ID');
+      }
+      const rate = await this.rateRepository.findOne({ where: { id } });
+      if (!rate) {
+        throw new HttpException(
+          'Exchange rate not found',
+          HttpStatus.NOT_FOUND,
+        );
+      }
+      await this.rateRepository.remove(rate);
+      return { message: 'Exchange rate deleted successfully' };
+    } catch (error) {
+      this.rethrow(error, 'delete the exchange rate');
+    }
+  }
+
+  // Units of `currency` per store currency unit in effect at `at`
+  async rateFor(currency: string, at: Date = new Date()): Promise<number> {
+    const code = normalizeCurrency(currency);
+    if (code === DEFAULT_CURRENCY) return 1;
+
+    const rate = await this.rateRepository.findOne({
+      where: { currency: code, effectiveFrom: LessThanOrEqual(at) },
+      order: { effectiveFrom: 'DESC' },
+    });
+    if (!rate) {
+      this.invalid(`No exchange rate for ${code}`);
+    }
+    return Number(rate.rate);
+  }
+
+  /**
+   * Returns a function converting money into `currency` at the current rates,
+   * looking each rate up once. `exchangeRate` stands in for the current rate
+   * of `currency`, so an existing order keeps converting at its locked rate.
+   */
+  converter(
+    currency: string,
+    exchangeRate?: number,
+  ): (money: Money) => Promise<Money> {
+    const target = normalizeCurrency(currency);
+    const rates = new Map<string, number>();
+    if (exchangeRate !== undefined) rates.set(target, Number(exchangeRate));
+    const rateOf = async (code: string) => {
+      if (!rates.has(code)) rates.set(code, await this.rateFor(code));
+      return rates.get(code);
+    };
+
+    return async (money) => {
+      if (money.currency === target) return money;
+      const rate = (await rateOf(target)) / (await rateOf(money.currency));
+      return money.convert(rate, target);
+    };
+  }
+
+  /**
+   * Prices each product in `currency`, keyed by product id: its ProductPrice
+   * for that currency when there is one, otherwise Product.price converted
+   * (see `converter` for `exchangeRate`).
+   */
+  async priceProducts(
+    products: Product[],
+    currency: string,
+    exchangeRate?: number,
+  ): Promise<Map<number, number>> {
+    const target = normalizeCurrency(currency);
+    const prices = new Map<number, number>();
+    if (products.length === 0) return prices;
+
+    const overrides = await this.priceRepository.find({
+      where: {
+        product: { id: In(products.map((product) => product.id)) },
+        currency: target,
+      },
+      relations: ['product'],
+    });
+    const overrideFor = new Map(
+      overrides.map((override) => [override.product.id, override.price]),
+    );
+    const convert = this.converter(target, exchangeRate);
+
+    for (const product of products) {
+      const price = overrideFor.has(product.id)
+        ? Number(overrideFor.get(product.id))
+        : (await convert(Money.of(product.price, product.currency))).amount;
+      prices.set(product.id, price);
+    }
+    return prices;
+  }
+
+  /**
+   * Prices each variant (with its product loaded) in `currency`, keyed by
+   * variant id: its own price converted, or its product's price.
+   */
+  async priceVariants(
+    variants: ProductVariant[],
+    currency: string,
+    exchangeRate?: number,
+  ): Promise<Map<number, number>> {
+    const productPrices = await this.priceProducts(
+      variants
+        .filter((variant) => variant.price == null)
+        .map((variant) => variant.product),
+      currency,
+      exchangeRate,
+    );
+    const convert = this.converter(currency, exchangeRate);
+
+    const prices = new Map<number, number>();
+    for (const variant of variants) {
+      const price =
+        variant.price == null
+          ? productPrices.get(variant.product.id)
+          : (await convert(Money.of(variant.price, variant.product.currency)))
+              .amount;
+      prices.set(variant.id, price);
+    }
+    return prices;
+  }
+}
@@ -0,0 +1,24 @@
+import {
+  IsDateString,
+  IsISO4217CurrencyCode,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+} from 'class-validator';
+
+export class CreateExchangeRateDto {
+  @IsISO4217CurrencyCode({
+    message: 'Currency must be a three-letter ISO code',
+  })
+  currency: string;
+
+  // Units of `currency` per one USD
+  @IsNumber({ maxDecimalPlaces: 8 })
+  @IsPositive()
+  rate: number;
+
+  // Defaults to now
+  @IsOptional()
+  @IsDateString()
+  effectiveFrom?: string;
+}
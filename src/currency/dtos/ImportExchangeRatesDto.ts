@@ -0,0 +1,22 @@
+import {
+  IsDateString,
+  IsISO4217CurrencyCode,
+  IsNotEmptyObject,
+  IsObject,
+  IsOptional,
+} from 'class-validator';
+
+// The shape most rate feeds publish: { base: 'USD', rates: { EUR: 0.92, ... } }
+export class ImportExchangeRatesDto {
+  @IsOptional()
+  @IsISO4217CurrencyCode({ message: 'Base must be a three-letter ISO code' })
+  base?: string;
+
+  @IsOptional()
+  @IsDateString()
+  effectiveFrom?: string;
+
+  @IsObject()
+  @IsNotEmptyObject()
+  rates: Record<string, number>;
+}
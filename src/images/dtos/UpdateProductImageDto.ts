@@ -0,0 +1,14 @@
+import { IsInt, IsOptional, IsString, MaxLength, Min } from 'class-validator';
+
+export class UpdateProductImageDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  altText?: string | null;
+
+  // Moves the image in the gallery; 0 makes it the product's main image
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  position?: number;
+}
@@ -0,0 +1,9 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+
+// The multipart fields sent next to the `file`
+export class UploadProductImageDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  altText?: string;
+}
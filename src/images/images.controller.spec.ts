@@ -0,0 +1,52 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ImagesController } from './images.controller';
+import { ImagesService } from './images.service';
+
+describe('ImagesController', () => {
+  let controller: ImagesController;
+
+  const mockImagesService = {
+    getImages: jest.fn(),
+    uploadProductImage: jest.fn(),
+    updateProductImage: jest.fn(),
+    deleteProductImage: jest.fn(),
+    setCategoryImage: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ImagesController],
+      providers: [{ provide: ImagesService, useValue: mockImagesService }],
+    }).compile();
+
+    controller = module.get<ImagesController>(ImagesController);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should pass uploads and gallery changes to the service', async () => {
+    const file = { originalname: 'mug.png' } as Express.Multer.File;
+
+    await controller.getImages(1);
+    await controller.uploadProductImage(1, file, { altText: 'Mug' });
+    await controller.updateProductImage(1, 2, { position: 0 });
+    await controller.deleteProductImage(1, 2);
+    await controller.setCategoryImage(3, file);
+
+    expect(mockImagesService.getImages).toHaveBeenCalledWith(1);
+    expect(mockImagesService.uploadProductImage).toHaveBeenCalledWith(1, file, {
+      altText: 'Mug',
+    });
+    expect(mockImagesService.updateProductImage).toHaveBeenCalledWith(1, 2, {
+      position: 0,
+    });
+    expect(mockImagesService.deleteProductImage).toHaveBeenCalledWith(1, 2);
+    expect(mockImagesService.setCategoryImage).toHaveBeenCalledWith(3, file);
+  });
+});
@@ -0,0 +1,88 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  ParseIntPipe,
+  Post,
+  Put,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiConsumes, ApiTags } from '@nestjs/swagger';
+import { Public } from 'utils/publicDecorator';
+import { Roles } from 'utils/rolesDecorator';
+import { ImagesService, MAX_IMAGE_BYTES } from './images.service';
+import { UploadProductImageDto } from './dtos/UploadProductImageDto';
+import { UpdateProductImageDto } from './dtos/UpdateProductImageDto';
+
+// Uploads are sent as multipart/form-data with the image in a `file` field
+const imageUpload = FileInterceptor('file', {
+  limits: { fileSize: MAX_IMAGE_BYTES, files: 1 },
+});
+
+@ApiTags('images')
+@Controller()
+export class ImagesController {
+  constructor(private imagesService: ImagesService) {}
+
+  @Public()
+  @Get('products/:productId/images')
+  getImages(@Param('productId', ParseIntPipe) productId: number) {
+    return this.imagesService.getImages(productId);
+  }
+
+  @Roles('admin')
+  @Post('products/:productId/images')
+  @HttpCode(201)
+  @ApiConsumes('multipart/form-data')
+  @UseInterceptors(imageUpload)
+  uploadProductImage(
+    @Param('productId', ParseIntPipe) productId: number,
+    @UploadedFile() file: Express.Multer.File,
+    @Body() uploadProductImageDto: UploadProductImageDto,
+  ) {
+    return this.imagesService.uploadProductImage(
+      productId,
+      file,
+      uploadProductImageDto,
+    );
+  }
+
+  @Roles('admin')
+  @Put('products/:productId/images/:imageId')
+  updateProductImage(
+    @Param('productId', ParseIntPipe) productId: number,
+    @Param('imageId', ParseIntPipe) imageId: number,
+    @Body() updateProductImageDto: UpdateProductImageDto,
+  ) {
+    return this.imagesService.updateProductImage(
+      productId,
+      imageId,
+      updateProductImageDto,
+    );
+  }
+
+  @Roles('admin')
+  @Delete('products/:productId/images/:imageId')
+  deleteProductImage(
+    @Param('productId', ParseIntPipe) productId: number,
+    @Param('imageId', ParseIntPipe) imageId: number,
+  ) {
+    return this.imagesService.deleteProductImage(productId, imageId);
+  }
+
+  @Roles('admin')
+  @Put('category/:categoryId/image')
+  @ApiConsumes('multipart/form-data')
+  @UseInterceptors(imageUpload)
+  setCategoryImage(
+    @Param('categoryId', ParseIntPipe) categoryId: number,
+    @UploadedFile() file: Express.Multer.File,
+  ) {
+    return this.imagesService.setCategoryImage(categoryId, file);
+  }
+}
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Category } from 'src/typeorm/entities/Category';
+import { Product } from 'src/typeorm/entities/Product';
+import { ProductImage } from 'src/typeorm/entities/ProductImage';
+import { StorageModule } from 'src/storage/storage.module';
+import { ImagesController } from './images.controller';
+import { ImagesService } from './images.service';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([ProductImage, Product, Category]),
+    StorageModule,
+  ],
+  controllers: [ImagesController],
+  providers: [ImagesService],
+  exports: [ImagesService],
+})
+export class ImagesModule {}
@@ -0,0 +1,282 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { HttpException, HttpStatus } from '@nestjs/common';
+import * as sharp from 'sharp';
+import { ImagesService } from './images.service';
+import { Category } from 'src/typeorm/entities/Category';
+import { Product } from 'src/typeorm/entities/Product';
+import { ProductImage } from 'src/typeorm/entities/ProductImage';
+import { FILE_STORAGE } from 'src/storage/file-storage';
+
+describe('ImagesService', () => {
+  let service: ImagesService;
+  let png: Buffer;
+
+  const mockTransactionRepository = {
+    save: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const mockEntityManager = {
+    getRepository: jest.fn(() => mockTransactionRepository),
+  };
+
+  const mockImageRepository = {
+    find: jest.fn(),
+    create: jest.fn((image) => ({ ...image })),
+    save: jest.fn((image) => ({ id: 9, ...image })),
+    remove: jest.fn(),
+    manager: {
+      transaction: jest.fn((cb) => cb(mockEntityManager)),
+    },
+  };
+
+  const mockProductRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockCategoryRepository = {
+    findOne: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const mockStorage = {
+    name: 'memory',
+    put: jest.fn(
+      async (key: string, body: Buffer, contentType: string) =>
+        `http://files/${key}`,
+    ),
+    delete: jest.fn(),
+    keyFromUrl: jest.fn((url: string) =>
+      url?.startsWith('http://files/') ? url.slice(13) : null,
+    ),
+  };
+
+  const upload = (overrides: Partial<Express.Multer.File> = {}) =>
+    ({
+      buffer: png,
+      size: png.length,
+      mimetype: 'image/png',
+      ...overrides,
+    }) as Express.Multer.File;
+
+  const galleryImage = (id: number, position: number) =>
+    ({
+      id,
+      position,
+      key: `products/1/${id}.png`,
+      thumbnailKey: `products/1/${id}-thumb.webp`,
+      url: `http://files/products/1/${id}.png`,
+    }) as ProductImage;
+
+  beforeAll(async () => {
+    png = await sharp({
+      create: { width: 800, height: 400, channels: 3, background: 'red' },
+    })
+      .png()
+      .toBuffer();
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ImagesService,
+        {
+          provide: getRepositoryToken(ProductImage),
+          useValue: mockImageRepository,
+        },
+        {
+          provide: getRepositoryToken(Product),
+          useValue: mockProductRepository,
+        },
+        {
+          provide: getRepositoryToken(Category),
+          useValue: mockCategoryRepository,
+        },
+        { provide: FILE_STORAGE, useValue: mockStorage },
+      ],
+    }).compile();
+
+    service = module.get<ImagesService>(ImagesService);
+    mockProductRepository.findOne.mockResolvedValue({ id: 1, imageUrl: null });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('uploadProductImage', () => {
+    it('should store the image and a thumbnail at the end of the gallery', async () => {
+      mockImageRepository.find.mockResolvedValueOnce([galleryImage(3, 0)]);
+
+      const result = await service.uploadProductImage(1, upload(), {
+        altText: ' Red mug ',
+      });
+
+      expect(mockStorage.put).toHaveBeenCalledWith(
+        expect.stringMatching(/^products\/1\/[\w-]+\.png$/),
+        png,
+        'image/png',
+      );
+      const [thumbnailKey, thumbnail, contentType] =
+        mockStorage.put.mock.calls[1];
+      expect(thumbnailKey).toMatch(/^products\/1\/[\w-]+-thumb\.webp$/);
+      expect(contentType).toBe('image/webp');
+      await expect(sharp(thumbnail).metadata()).resolves.toMatchObject({
+        width: 320,
+        height: 160,
+      });
+      expect(result.image).toMatchObject({
+        id: 9,
+        altText: 'Red mug',
+        position: 1,
+        width: 800,
+        height: 400,
+        contentType: 'image/png',
+      });
+      expect(result.image).not.toHaveProperty('key');
+    });
+
+    it('should make the first image the product imageUrl', async () => {
+      mockImageRepository.find.mockResolvedValueOnce([]);
+
+      await service.uploadProductImage(1, upload());
+
+      expect(mockTransactionRepository.update).toHaveBeenCalledWith(
+        { id: 1 },
+        { imageUrl: expect.stringMatching(/^http:\/\/files\/products\/1\//) },
+      );
+    });
+
+    it('should reject content types that are not images', async () => {
+      await expect(
+        service.uploadProductImage(1, upload({ mimetype: 'application/pdf' })),
+      ).rejects.toMatchObject({ status: HttpStatus.UNSUPPORTED_MEDIA_TYPE });
+      expect(mockStorage.put).not.toHaveBeenCalled();
+    });
+
+    it('should reject bytes that do not match the declared type', async () => {
+      await expect(
+        service.uploadProductImage(
+          1,
+          upload({ buffer: Buffer.from('<svg/>'), mimetype: 'image/png' }),
+        ),
+      ).rejects.toThrow(
+        new HttpException(
+          'The file is not a valid image of its type',
+          HttpStatus.UNSUPPORTED_MEDIA_TYPE,
+        ),
+      );
+    });
+
+    it('should reject images over the size limit', async () => {
+      await expect(
+        service.uploadProductImage(1, upload({ size: 6 * 1024 * 1024 })),
+      ).rejects.toMatchObject({ status: HttpStatus.PAYLOAD_TOO_LARGE });
+    });
+
+    it('should delete the stored files when saving the image fails', async () => {
+      mockImageRepository.find.mockResolvedValueOnce([]);
+      mockImageRepository.save.mockRejectedValueOnce(new Error('db down'));
+
+      await expect(
+        service.uploadProductImage(1, upload()),
+      ).rejects.toMatchObject({ status: HttpStatus.INTERNAL_SERVER_ERROR });
+      expect(mockStorage.delete).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('updateProductImage', () => {
+    it('should move an image and renumber the gallery', async () => {
+      mockImageRepository.find.mockResolvedValueOnce([
+        galleryImage(1, 0),
+        galleryImage(2, 1),
+        galleryImage(3, 2),
+      ]);
+
+      await service.updateProductImage(1, 3, { position: 0 });
+
+      const saved = mockTransactionRepository.save.mock.calls[0][0];
+      expect(saved.map((image) => [image.id, image.position])).toEqual([
+        [3, 0],
+        [1, 1],
+        [2, 2],
+      ]);
+      expect(mockTransactionRepository.update).toHaveBeenCalledWith(
+        { id: 1 },
+        { imageUrl: 'http://files/products/1/3.png' },
+      );
+    });
+
+    it('should throw NOT_FOUND for an image of another product', async () => {
+      mockImageRepository.find.mockResolvedValueOnce([galleryImage(1, 0)]);
+
+      await expect(
+        service.updateProductImage(1, 5, { altText: 'x' }),
+      ).rejects.toThrow(
+        new HttpException('Product image not found', HttpStatus.NOT_FOUND),
+      );
+    });
+  });
+
+  describe('deleteProductImage', () => {
+    it('should delete the files and clear imageUrl with the last image', async () => {
+      const image = galleryImage(1, 0);
+      mockProductRepository.findOne.mockResolvedValueOnce({
+        id: 1,
+        imageUrl: image.url,
+      });
+      mockImageRepository.find.mockResolvedValueOnce([image]);
+
+      await service.deleteProductImage(1, 1);
+
+      expect(mockImageRepository.remove).toHaveBeenCalledWith(image);
+      expect(mockTransactionRepository.update).toHaveBeenCalledWith(
+        { id: 1 },
+        { imageUrl: null },
+      );
+      expect(mockStorage.delete).toHaveBeenCalledWith('products/1/1.png');
+      expect(mockStorage.delete).toHaveBeenCalledWith(
+        'products/1/1-thumb.webp',
+      );
+    });
+  });
+
+  describe('deleteFiles', () => {
+    it('should keep going when a file cannot be deleted', async () => {
+      mockStorage.delete.mockRejectedValueOnce(new Error('gone'));
+
+      await expect(service.deleteFiles(['a', 'b'])).resolves.toBeUndefined();
+      expect(mockStorage.delete).toHaveBeenCalledWith('b');
+    });
+  });
+
+  describe('setCategoryImage', () => {
+    it('should replace the image and delete the old stored one', async () => {
+      mockCategoryRepository.findOne.mockResolvedValueOnce({
+        id: 4,
+        imageUrl: 'http://files/categories/4/old.png',
+      });
+
+      const result = await service.setCategoryImage(4, upload());
+
+      expect(result.imageUrl).toMatch(/^http:\/\/files\/categories\/4\//);
+      expect(mockCategoryRepository.update).toHaveBeenCalledWith(
+        { id: 4 },
+        { imageUrl: result.imageUrl },
+      );
+      expect(mockStorage.delete).toHaveBeenCalledWith('categories/4/old.png');
+    });
+
+    it('should leave an external old image alone', async () => {
+      mockCategoryRepository.findOne.mockResolvedValueOnce({
+        id: 4,
+        imageUrl: 'https://cdn.example.com/shoes.png',
+      });
+
+      await service.setCategoryImage(4, upload());
+
+      expect(mockStorage.delete).not.toHaveBeenCalled();
+    });
+  });
+});
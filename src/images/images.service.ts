@@ -0,0 +1,343 @@
+import {
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { randomUUID } from 'crypto';
+import * as sharp from 'sharp';
+import { Repository } from 'typeorm';
+import { Category } from 'src/typeorm/entities/Category';
+import { Product } from 'src/typeorm/entities/Product';
+import { ProductImage } from 'src/typeorm/entities/ProductImage';
+import { FILE_STORAGE, FileStorage } from 'src/storage/file-storage';
+import { IUpdateProductImage, IUploadProductImage } from 'utils/Interfaces';
+
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+// Formats as sharp reports them, with the content type they are stored under
+const IMAGE_TYPES: Record<string, { contentType: string; extension: string }> =
+  {
+    jpeg: { contentType: 'image/jpeg', extension: 'jpg' },
+    png: { contentType: 'image/png', extension: 'png' },
+    webp: { contentType: 'image/webp', extension: 'webp' },
+    gif: { contentType: 'image/gif', extension: 'gif' },
+  };
+
+// Thumbnails fit in a square of this many pixels
+const THUMBNAIL_SIZE = 320;
+
+type InspectedImage = {
+  body: Buffer;
+  contentType: string;
+  extension: string;
+  width: number;
+  height: number;
+};
+
+@Injectable()
+export class ImagesService {
+  private readonly logger = new Logger(ImagesService.name);
+
+  constructor(
+    @InjectRepository(ProductImage)
+    private imageRepository: Repository<ProductImage>,
+    @InjectRepository(Product) private productRepository: Repository<Product>,
+    @InjectRepository(Category)
+    private categoryRepository: Repository<Category>,
+    @Inject(FILE_STORAGE) private storage: FileStorage,
+  ) {}
+
+  private rethrow(error: unknown, action: string): never {
+    if (error instanceof HttpException) throw error;
+    this.logger.error(
+      `Failed to ${action}`,
+      (error as any)?.stack ?? String(error),
+    );
+    throw new HttpException(
+      `An error occurred while trying to ${action}`,
+      HttpStatus.INTERNAL_SERVER_ERROR,
+    );
+  }
+
+  /**
+   * Checks size and type of an upload. The declared content type has to be
+   * an allowed one and match what the bytes actually are.
+   */
+  private async inspect(file?: Express.Multer.File): Promise<InspectedImage> {
+    if (!file?.buffer?.length) {
+      throw new HttpException('No image uploaded', HttpStatus.BAD_REQUEST);
+    }
+    if (file.size > MAX_IMAGE_BYTES) {
+      throw new HttpException(
+        `Images can be at most ${MAX_IMAGE_BYTES / 1024 / 1024} MB`,
+        HttpStatus.PAYLOAD_TOO_LARGE,
+      );
+    }
+    const allowed = Object.values(IMAGE_TYPES).map((type) => type.contentType);
+    if (!allowed.includes(file.mimetype)) {
+      throw new HttpException(
+        'Only JPEG, PNG, WebP and GIF images are allowed',
+        HttpStatus.UNSUPPORTED_MEDIA_TYPE,
+      );
+    }
+
+    const metadata = await sharp(file.buffer)
+      .metadata()
+      .catch(() => null);
+    const type = IMAGE_TYPES[metadata?.format];
+    if (!type || type.contentType !== file.mimetype) {
+      throw new HttpException(
+        'The file is not a valid image of its type',
+        HttpStatus.UNSUPPORTED_MEDIA_TYPE,
+      );
+    }
+    return {
+      body: file.buffer,
+      ...type,
+      width: metadata.width,
+      height: metadata.height,
+    };
+  }
+
+  // Problems here only leave stray files behind, so they are logged, not thrown
+  async deleteFiles(keys: string[]) {
+    const results = await Promise.allSettled(
+      keys.map((key) => this.storage.delete(key)),
+    );
+    results.forEach((result, i) => {
+      if (result.status === 'rejected') {
+        this.logger.warn(`Failed to delete file ${keys[i]}: ${result.reason}`);
+      }
+    });
+  }
+
+  // Every stored file of a product's gallery, for cleaning up after it is deleted
+  async storedKeys(productId: number): Promise<string[]> {
+    const images = await this.imageRepository.find({
+      where: { product: { id: productId } },
+    });
+    return images.flatMap((image) => [image.key, image.thumbnailKey]);
+  }
+
+  private async findProduct(productId: number) {
+    if (!productId || productId <= 0) {
+      throw new HttpException('Invalid product ID', HttpStatus.BAD_REQUEST);
+    }
+    const product = await this.productRepository.findOne({
+      where: { id: productId },
+    });
+    if (!product) {
+      throw new HttpException('Product not found', HttpStatus.NOT_FOUND);
+    }
+    return product;
+  }
+
+  private gallery(productId: number) {
+    return this.imageRepository.find({
+      where: { product: { id: productId } },
+      order: { position: 'ASC', id: 'ASC' },
+    });
+  }
+
+  /**
+   * Saves the gallery in `images` order and points Product.imageUrl at its
+   * first image. An empty gallery clears imageUrl only if it was one of ours.
+   */
+  private async saveGallery(product: Product, images: ProductImage[]) {
+    images.forEach((image, position) => (image.position = position));
+    const imageUrl =
+      images[0]?.url ??
+      (this.storage.keyFromUrl(product.imageUrl) ? null : product.imageUrl);
+
+    await this.imageRepository.manager.transaction(async (manager) => {
+      if (images.length > 0) {
+        await manager.getRepository(ProductImage).save(images);
+      }
+      if (imageUrl !== product.imageUrl) {
+        await manager
+          .getRepository(Product)
+          .update({ id: product.id }, { imageUrl });
+      }
+    });
+  }
+
+  private view(image: ProductImage) {
+    const { product, key, thumbnailKey, ...rest } = image;
+    return rest;
+  }
+
+  async getImages(productId: number) {
+    try {
+      await this.findProduct(productId);
+      const images = await this.gallery(productId);
+      return {
+        message: 'Product images retrieved successfully',
+        images: images.map((image) => this.view(image)),
+      };
+    } catch (error) {
+      this.rethrow(error, 'retrieve the product images');
+    }
+  }
+
+  /** Stores the image and a thumbnail of it at the end of the gallery. */
+  async uploadProductImage(
+    productId: number,
+    file: Express.Multer.File,
+    params: IUploadProductImage = {},
+  ) {
+    const storedKeys: string[] = [];
+    try {
+      const product = await this.findProduct(productId);
+      const image = await this.inspect(file);
+
+      const name = `products/${product.id}/${randomUUID()}`;
+      const key = `${name}.${image.extension}`;
+      const thumbnailKey = `${name}-thumb.webp`;
+      const thumbnail = await sharp(image.body)
+        .rotate()
+        .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, {
+          fit: 'inside',
+          withoutEnlargement: true,
+        })
+        .webp()
+        .toBuffer();
+
+      const url = await this.storage.put(key, image.body, image.contentType);
+      storedKeys.push(key);
+      const thumbnailUrl = await this.storage.put(
+        thumbnailKey,
+        thumbnail,
+        'image/webp',
+      );
+      storedKeys.push(thumbnailKey);
+
+      const gallery = await this.gallery(product.id);
+      const saved = await this.imageRepository.save(
+        this.imageRepository.create({
+          product,
+          key,
+          thumbnailKey,
+          url,
+          thumbnailUrl,
+          altText: params.altText?.trim() || null,
+          position: gallery.length,
+          contentType: image.contentType,
+          size: image.body.length,
+          width: image.width,
+          height: image.height,
+        }),
+      );
+      storedKeys.length = 0;
+      await this.saveGallery(product, [...gallery, saved]);
+
+      return {
+        message: 'Product image uploaded successfully',
+        image: this.view(saved),
+      };
+    } catch (error) {
+      // Don't keep files the gallery doesn't know about
+      await this.deleteFiles(storedKeys);
+      this.rethrow(error, 'upload the product image');
+    }
+  }
+
+  async updateProductImage(
+    productId: number,
+    imageId: number,
+    params: IUpdateProductImage,
+  ) {
+    try {
+      const product = await this.findProduct(productId);
+      const gallery = await this.gallery(product.id);
+      const image = gallery.find((candidate) => candidate.id === imageId);
+      if (!image) {
+        throw new HttpException(
+          'Product image not found',
+          HttpStatus.NOT_FOUND,
+        );
+      }
+
+      if (params.altText !== undefined) {
+        image.altText = params.altText?.trim() || null;
+      }
+      const ordered = gallery.filter((candidate) => candidate !== image);
+      const position = Math.min(
+        params.position ?? gallery.indexOf(image),
+        ordered.length,
+      );
+      ordered.splice(position, 0, image);
+      await this.saveGallery(product, ordered);
+
+      return {
+        message: 'Product image updated successfully',
+        image: this.view(image),
+      };
+    } catch (error) {
+      this.rethrow(error, 'update the product image');
+    }
+  }
+
+  async deleteProductImage(productId: number, imageId: number) {
+    try {
+      const product = await this.findProduct(productId);
+      const gallery = await this.gallery(product.id);
+      const image = gallery.find((candidate) => candidate.id === imageId);
+      if (!image) {
+        throw new HttpException(
+          'Product image not found',
+          HttpStatus.NOT_FOUND,
+        );
+      }
+
+      await this.imageRepository.remove(image);
+      await this.saveGallery(
+        product,
+        gallery.filter((candidate) => candidate !== image),
+      );
+      await this.deleteFiles([image.key, image.thumbnailKey]);
+
+      return { message: 'Product image deleted successfully' };
+    } catch (error) {
+      this.rethrow(error, 'delete the product image');
+    }
+  }
+
+  /** Replaces Category.imageUrl with the upload, deleting the old file if it was ours. */
+  async setCategoryImage(categoryId: number, file: Express.Multer.File) {
+    let storedKey: string | null = null;
+    try {
+      if (!categoryId || categoryId <= 0) {
+        throw new HttpException('Invalid category ID', HttpStatus.BAD_REQUEST);
+      }
+      const category = await this.categoryRepository.findOne({
+        where: { id: categoryId },
+      });
+      if (!category) {
+        throw new HttpException('Category not found', HttpStatus.NOT_FOUND);
+      }
+      const image = await this.inspect(file);
+
+      const key = `categories/${category.id}/${randomUUID()}.${image.extension}`;
+      const url = await this.storage.put(key, image.body, image.contentType);
+      storedKey = key;
+      const previousKey = this.storage.keyFromUrl(category.imageUrl);
+      await this.categoryRepository.update(
+        { id: category.id },
+        { imageUrl: url },
+      );
+      storedKey = null;
+      if (previousKey) await this.deleteFiles([previousKey]);
+
+      return {
+        message: 'Category image uploaded successfully',
+        imageUrl: url,
+      };
+    } catch (error) {
+      if (storedKey) await this.deleteFiles([storedKey]);
+      this.rethrow(error, 'upload the category image');
+    }
+  }
+}
@@ -0,0 +1,158 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { InventoryService } from './inventory.service';
+import { Product } from 'src/typeorm/entities/Product';
+import { ProductVariant } from 'src/typeorm/entities/ProductVariant';
+
+describe('InventoryService', () => {
+  let service: InventoryService;
+
+  const mockQueryBuilder = {
+    update: jest.fn().mockReturnThis(),
+    set: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    setParameter: jest.fn().mockReturnThis(),
+    execute: jest.fn(),
+  };
+
+  const mockManager: any = {
+    createQueryBuilder: jest.fn(() => mockQueryBuilder),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [InventoryService],
+    }).compile();
+
+    service = module.get<InventoryService>(InventoryService);
+    mockQueryBuilder.execute.mockResolvedValue({ affected: 1 });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('reserve', () => {
+    it('should run one conditional update per product', async () => {
+      await service.reserve(mockManager, [
+        { productId: 2, quantity: 1 },
+        { productId: 1, quantity: 3 },
+      ]);
+
+      expect(mockQueryBuilder.execute).toHaveBeenCalledTimes(2);
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+        'stock - reservedStock >= :quantity',
+        { quantity: 3 },
+      );
+    });
+
+    it('should merge duplicate product lines and lock rows in id order', async () => {
+      await service.reserve(mockManager, [
+        { productId: 5, quantity: 1 },
+        { productId: 3, quantity: 2 },
+        { productId: 5, quantity: 4 },
+      ]);
+
+      expect(mockQueryBuilder.where.mock.calls).toEqual([
+        ['id = :productId', { productId: 3 }],
+        ['id = :productId', { productId: 5 }],
+      ]);
+      expect(mockQueryBuilder.andWhere.mock.calls[1][1]).toEqual({
+        quantity: 5,
+      });
+    });
+
+    it('should throw CONFLICT listing every product without enough stock', async () => {
+      mockQueryBuilder.execute
+        .mockResolvedValueOnce({ affected: 0 })
+        .mockResolvedValueOnce({ affected: 1 })
+        .mockResolvedValueOnce({ affected: 0 });
+
+      try {
+        await service.reserve(mockManager, [
+          { productId: 1, quantity: 1 },
+          { productId: 2, quantity: 1 },
+          { productId: 3, quantity: 1 },
+        ]);
+        fail('expected reserve to throw');
+      } catch (error) {
+        expect(error).toBeInstanceOf(HttpException);
+        expect(error.getStatus()).toBe(HttpStatus.CONFLICT);
+        expect(error.getResponse()).toMatchObject({ productIds: [1, 3] });
+      }
+    });
+
+    it('should reserve variant lines on the variant rows after the products', async () => {
+      mockQueryBuilder.execute
+        .mockResolvedValueOnce({ affected: 1 })
+        .mockResolvedValueOnce({ affected: 0 });
+
+      try {
+        await service.reserve(mockManager, [
+          { productId: 4, variantId: 9, quantity: 2 },
+          { productId: 1, quantity: 1 },
+        ]);
+        fail('expected reserve to throw');
+      } catch (error) {
+        expect(mockQueryBuilder.update.mock.calls).toEqual([
+          [Product],
+          [ProductVariant],
+        ]);
+        expect(mockQueryBuilder.where.mock.calls[1]).toEqual([
+          'id = :variantId',
+          { variantId: 9 },
+        ]);
+        expect(error.getResponse()).toMatchObject({
+          message: 'Insufficient stock for variant(s): 9',
+          productIds: [],
+          variantIds: [9],
+        });
+      }
+    });
+
+    it('should throw BAD_REQUEST for non-positive quantities', async () => {
+      await expect(
+        service.reserve(mockManager, [{ productId: 1, quantity: 0 }]),
+      ).rejects.toThrow(
+        new HttpException('Invalid quantity', HttpStatus.BAD_REQUEST),
+      );
+      expect(mockQueryBuilder.execute).not.toHaveBeenCalled();
+    });
+
+    it('should do nothing for an empty order', async () => {
+      await service.reserve(mockManager, []);
+
+      expect(mockManager.createQueryBuilder).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('release', () => {
+    it('should decrement reservedStock without going below zero', async () => {
+      await service.release(mockManager, [{ productId: 1, quantity: 2 }]);
+
+      expect(mockQueryBuilder.set).toHaveBeenCalledTimes(1);
+      const setArg = mockQueryBuilder.set.mock.calls[0][0];
+      expect(setArg.reservedStock()).toBe(
+        'GREATEST(reservedStock - :quantity, 0)',
+      );
+      expect(mockQueryBuilder.setParameter).toHaveBeenCalledWith('quantity', 2);
+    });
+  });
+
+  describe('commit', () => {
+    it('should decrement both stock and reservedStock', async () => {
+      await service.commit(mockManager, [{ productId: 1, quantity: 2 }]);
+
+      const setArg = mockQueryBuilder.set.mock.calls[0][0];
+      expect(setArg.stock()).toBe('GREATEST(stock - :quantity, 0)');
+      expect(setArg.reservedStock()).toBe(
+        'GREATEST(reservedStock - :quantity, 0)',
+      );
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { HttpException, HttpStatus, Injectable } from '@nestjs/common';
+import { Product } from 'src/typeorm/entities/Product';
+import { ProductVariant } from 'src/typeorm/entities/ProductVariant';
+import { EntityManager } from 'typeorm';
+
+export type StockLine = {
+  productId: number;
+  // Lines for a variant use the variant's stock instead of the product's
+  variantId?: number | null;
+  quantity: number;
+};
+
+type StockRow = {
+  entity: typeof Product | typeof ProductVariant;
+  param: 'productId' | 'variantId';
+  id: number;
+  quantity: number;
+};
+
+@Injectable()
+export class InventoryService {
+  // Merge duplicate lines and sort them (products by id, then variants by id) so
+  // concurrent transactions always lock rows in the same order (avoids deadlocks).
+  private aggregate(lines: StockLine[]): StockRow[] {
+    const totals = new Map<string, StockRow>();
+    for (const line of lines ?? []) {
+      const quantity = Number(line?.quantity);
+      if (!line?.productId || !Number.isInteger(quantity) || quantity <= 0) {
+        throw new HttpException('Invalid quantity', HttpStatus.BAD_REQUEST);
+      }
+      const row: StockRow = line.variantId
+        ? {
+            entity: ProductVariant,
+            param: 'variantId',
+            id: line.variantId,
+            quantity,
+          }
+        : { entity: Product, param: 'productId', id: line.productId, quantity };
+      const key = `${row.param}:${row.id}`;
+      totals.set(key, {
+        ...row,
+        quantity: (totals.get(key)?.quantity ?? 0) + quantity,
+      });
+    }
+    return [...totals.values()].sort((a, b) =>
+      a.param === b.param ? a.id - b.id : a.param === 'productId' ? -1 : 1,
+    );
+  }
+
+  /**
+   * Holds stock for a PENDING order. Each row is only updated when enough
+   * unreserved stock is left, so two orders can never reserve the same units.
+   * Must run inside the transaction that saves the order.
+   */
+  async reserve(manager: EntityManager, lines: StockLine[]) {
+    const insufficient: number[] = [];
+    const insufficientVariants: number[] = [];
+
+    for (const { entity, param, id, quantity } of this.aggregate(lines)) {
+      const result = await manager
+        .createQueryBuilder()
+        .update(entity)
+        .set({ reservedStock: () => 'reservedStock + :quantity' })
+        .where(`id = :${param}`, { [param]: id })
+        .andWhere('stock - reservedStock >= :quantity', { quantity })
+        .execute();
+
+      if (!result.affected) {
+        (param === 'variantId' ? insufficientVariants : insufficient).push(id);
+      }
+    }
+
+    if (insufficient.length > 0 || insufficientVariants.length > 0) {
+      const parts = [
+        insufficient.length && `product(s): ${insufficient.join(', ')}`,
+        insufficientVariants.length &&
+          `variant(s): ${insufficientVariants.join(', ')}`,
+      ].filter(Boolean);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.CONFLICT,
+          message: `Insufficient stock for ${parts.join('; ')}`,
+          productIds: insufficient,
+          ...(insufficientVariants.length > 0 && {
+            variantIds: insufficientVariants,
+          }),
+        },
+        HttpStatus.CONFLICT,
+      );
+    }
+  }
+
+  /** Gives reserved units back, e.g. when a PENDING order is canceled or deleted. */
+  async release(manager: EntityManager, lines: StockLine[]) {
+    for (const { entity, param, id, quantity } of this.aggregate(lines)) {
+      await manager
+        .createQueryBuilder()
+        .update(entity)
+        .set({ reservedStock: () => 'GREATEST(reservedStock - :quantity, 0)' })
+        .where(`id = :${param}`, { [param]: id })
+        .setParameter('quantity', quantity)
+        .execute();
+    }
+  }
+
+  /** Turns a reservation into a real decrement once the order is paid. */
+  async commit(manager: EntityManager, lines: StockLine[]) {
+    for (const { entity, param, id, quantity } of this.aggregate(lines)) {
+      await manager
+        .createQueryBuilder()
+        .update(entity)
+        .set({
+          stock: () => 'GREATEST(stock - :quantity, 0)',
+          reservedStock: () => 'GREATEST(reservedStock - :quantity, 0)',
+        })
+        .where(`id = :${param}`, { [param]: id })
+        .setParameter('quantity', quantity)
+        .execute();
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import { MailService } from './mail.service';
+import * as nodemailer from 'nodemailer';
+
+jest.mock('nodemailer', () => ({
+  createTransport: jest.fn(),
+}));
+
+jest.mock('mailtrap', () => ({
+  MailtrapTransport: jest.fn((opts: any) => opts),
+}));
+
+describe('MailService', () => {
+  const service = new MailService();
+  const sendMail = jest.fn();
+  const message = { to: 'a@test.com', subject: 'Hi', text: 'Hello' };
+
+  beforeEach(() => {
+    process.env.MAILTRAP_TOKEN = 'test-token';
+    process.env.MAILTRAP_TEST_INBOX_ID = '123';
+    delete process.env.MAIL_CATEGORY;
+    sendMail.mockResolvedValue('ok');
+    (nodemailer.createTransport as jest.Mock).mockReturnValue({ sendMail });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    delete process.env.MAIL_CATEGORY;
+  });
+
+  it('should send the message through the Mailtrap transport', async () => {
+    await service.send(message);
+
+    expect(nodemailer.createTransport).toHaveBeenCalledWith({
+      token: 'test-token',
+      sandbox: true,
+      testInboxId: 123,
+    });
+    expect(sendMail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: ['a@test.com'],
+        subject: 'Hi',
+        text: 'Hello',
+      }),
+    );
+    expect(sendMail.mock.calls[0][0]).not.toHaveProperty('category');
+  });
+
+  it('should tag the message with the configured category', async () => {
+    process.env.MAIL_CATEGORY = 'Order emails';
+
+    await service.send(message);
+
+    expect(sendMail).toHaveBeenCalledWith(
+      expect.objectContaining({ category: 'Order emails' }),
+    );
+  });
+
+  it('should refuse to send without a Mailtrap token', async () => {
+    delete process.env.MAILTRAP_TOKEN;
+
+    await expect(service.send(message)).rejects.toThrow(
+      'MAILTRAP_TOKEN is not set',
+    );
+    expect(sendMail).not.toHaveBeenCalled();
+  });
+});
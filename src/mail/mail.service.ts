@@ -0,0 +1,47 @@
+import { Injectable } from '@nestjs/common';
+import * as nodemailer from 'nodemailer';
+import { MailtrapTransport } from 'mailtrap';
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+@Injectable()
+export class MailService {
+  async send(message: MailMessage) {
+    const token = process.env.MAILTRAP_TOKEN;
+    const testInboxIdRaw = process.env.MAILTRAP_TEST_INBOX_ID;
+
+    if (!token) throw new Error('MAILTRAP_TOKEN is not set');
+    if (!testInboxIdRaw) throw new Error('MAILTRAP_TEST_INBOX_ID is not set');
+
+    const testInboxId = Number(testInboxIdRaw);
+    if (!Number.isFinite(testInboxId)) {
+      throw new Error('MAILTRAP_TEST_INBOX_ID must be a number');
+    }
+
+    const transport = nodemailer.createTransport(
+      MailtrapTransport({
+        token,
+        sandbox: true,
+        testInboxId,
+      }),
+    );
+
+    await transport.sendMail({
+      from: {
+        address: process.env.MAIL_FROM_ADDRESS ?? 'hello@example.com',
+        name: process.env.MAIL_FROM_NAME ?? 'Mailtrap Test',
+      },
+      to: [message.to],
+      subject: message.subject,
+      text: message.text,
+      // Mailtrap groups messages by category; leave it out unless one is configured
+      ...(process.env.MAIL_CATEGORY
+        ? { category: process.env.MAIL_CATEGORY }
+        : {}),
+    });
+  }
+}
@@ -1,4 +1,5 @@
 import { NestFactory } from '@nestjs/core';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { AppModule } from './app.module';
 import { ValidationPipe } from '@nestjs/common';
 import * as cookieParser from 'cookie-parser';
@@ -6,19 +7,29 @@ import * as bodyParser from 'body-parser';
 import helmet from 'helmet';
 import { csrf } from './csrf';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
+import { DEFAULT_UPLOADS_DIR } from './storage/local-file-storage';
 
 // Validate required secrets at startup
 function validateSecrets() {
   const requiredSecrets = [
     { name: 'JWT_SECRET', minLength: 32 },
     { name: 'CSRF_SECRET', minLength: 32 },
-    { name: 'STRIPE_SECRET_KEY', minLength: 10 },
-    { name: 'STRIPE_WEBHOOK_SECRET', minLength: 10 },
   ];
+  const usesFakePayments = process.env.PAYMENT_PROVIDER === 'fake';
+  if (!usesFakePayments) {
+    requiredSecrets.push(
+      { name: 'STRIPE_SECRET_KEY', minLength: 10 },
+      { name: 'STRIPE_WEBHOOK_SECRET', minLength: 10 },
+    );
+  }
 
   const errors: string[] = [];
   const isProduction = process.env.NODE_ENV === 'production';
 
+  if (isProduction && usesFakePayments) {
+    errors.push('PAYMENT_PROVIDER=fake is not allowed in production');
+  }
+
   for (const { name, minLength } of requiredSecrets) {
     const value = process.env[name];
     if (!value) {
@@ -60,7 +71,7 @@ async function bootstrap() {
   // Validate secrets before starting
   validateSecrets();
 
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create<NestExpressApplication>(AppModule);
 
   app.use(cookieParser());
 
@@ -90,6 +101,15 @@ async function bootstrap() {
   // Frontend must send: header `x-csrf-token` with the token returned by `generateCsrfToken()`.
   app.use(csrf.doubleCsrfProtection);
 
+  // Uploaded images on local disk (STORAGE_DRIVER=s3 serves them from the bucket instead).
+  // They are embedded by the frontend on another origin, hence the CORP header.
+  if (process.env.STORAGE_DRIVER !== 's3') {
+    app.useStaticAssets(process.env.UPLOADS_DIR ?? DEFAULT_UPLOADS_DIR, {
+      prefix: '/uploads',
+      setHeaders: (res) => res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin'),
+    });
+  }
+
   const allowedOrigins = parseCorsOrigins(process.env.CORS_ORIGIN);
   if (allowedOrigins.includes('*')) {
     throw new Error('CORS_ORIGIN cannot include "*" when credentials are enabled');
@@ -0,0 +1,85 @@
+import { Money, minorUnitDigits, normalizeCurrency } from './money';
+
+describe('Money', () => {
+  it('should normalize currency codes and default to USD', () => {
+    expect(normalizeCurrency(' eur ')).toBe('EUR');
+    expect(normalizeCurrency(null)).toBe('USD');
+    expect(Money.of(100, 'gbp').currency).toBe('GBP');
+  });
+
+  it('should know which currencies have no minor unit', () => {
+    expect(minorUnitDigits('USD')).toBe(2);
+    expect(minorUnitDigits('jpy')).toBe(0);
+    expect(minorUnitDigits('KRW')).toBe(0);
+  });
+
+  it('should only hold whole minor units', () => {
+    expect(() => Money.of(10.5, 'USD')).toThrow(
+      'Money amounts must be whole minor units',
+    );
+    expect(Money.of('1999', 'USD').amount).toBe(1999);
+  });
+
+  it('should convert from and to major units by currency', () => {
+    expect(Money.fromMajor(19.99, 'USD').amount).toBe(1999);
+    expect(Money.fromMajor(0.1 + 0.2, 'USD').amount).toBe(30);
+    expect(Money.fromMajor(500, 'JPY').amount).toBe(500);
+    expect(Money.of(1999, 'USD').toMajor()).toBe(19.99);
+    expect(Money.of(500, 'JPY').toMajor()).toBe(500);
+  });
+
+  it('should format with the right number of decimals', () => {
+    expect(Money.of(1999, 'USD').format()).toBe('19.99 USD');
+    expect(Money.of(500, 'JPY').format()).toBe('500 JPY');
+    expect(Money.of(5, 'USD').toDecimal()).toBe('0.05');
+    expect(Money.of(-1999, 'EUR').toDecimal()).toBe('-19.99');
+  });
+
+  it('should add, subtract and compare amounts of the same currency', () => {
+    const a = Money.of(1000, 'USD');
+    const b = Money.of(250, 'USD');
+
+    expect(a.add(b).amount).toBe(1250);
+    expect(a.subtract(b).amount).toBe(750);
+    expect(a.min(b)).toBe(b);
+    expect(a.greaterThanOrEqual(b)).toBe(true);
+    expect(Money.sum([a, b, b], 'USD').amount).toBe(1500);
+  });
+
+  it('should refuse to mix currencies', () => {
+    expect(() => Money.of(100, 'USD').add(Money.of(100, 'EUR'))).toThrow(
+      'Cannot combine USD and EUR amounts',
+    );
+  });
+
+  it('should round multiplication and percentages half away from zero', () => {
+    expect(Money.of(1000, 'USD').percent(7.25).amount).toBe(73);
+    expect(Money.of(5, 'USD').multiply(0.5).amount).toBe(3);
+    expect(Money.of(-5, 'USD').multiply(0.5).amount).toBe(-3);
+  });
+
+  it('should allocate so the parts add up to the whole', () => {
+    const parts = Money.of(100, 'USD').allocate([1, 1, 1]);
+
+    expect(parts.map((part) => part.amount)).toEqual([34, 33, 33]);
+    expect(
+      Money.of(7, 'USD')
+        .allocate([3000, 2000])
+        .map((p) => p.amount),
+    ).toEqual([4, 3]);
+    expect(
+      Money.of(10, 'USD')
+        .allocate([0, 0])
+        .map((p) => p.amount),
+    ).toEqual([0, 0]);
+  });
+
+  it('should convert at a major-unit rate into the target minor unit', () => {
+    expect(Money.of(1999, 'USD').convert(0.92, 'eur')).toEqual(
+      Money.of(1839, 'EUR'),
+    );
+    // 19.99 USD at 150.5 JPY per USD is 3008.495 yen
+    expect(Money.of(1999, 'USD').convert('150.5', 'JPY').amount).toBe(3008);
+    expect(Money.of(3000, 'JPY').convert(0.0066, 'USD').amount).toBe(1980);
+  });
+});
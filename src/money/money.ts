@@ -0,0 +1,170 @@
+export const DEFAULT_CURRENCY = 'USD';
+
+// ISO 4217 currencies without a minor unit - an amount of 500 JPY is sent to Stripe as 500
+const ZERO_DECIMAL_CURRENCIES = new Set([
+  'BIF',
+  'CLP',
+  'DJF',
+  'GNF',
+  'JPY',
+  'KMF',
+  'KRW',
+  'MGA',
+  'PYG',
+  'RWF',
+  'UGX',
+  'VND',
+  'VUV',
+  'XAF',
+  'XOF',
+  'XPF',
+]);
+
+export function normalizeCurrency(currency?: string | null): string {
+  return (currency || DEFAULT_CURRENCY).trim().toUpperCase();
+}
+
+// How many digits the minor unit has: 2 for USD (cents), 0 for JPY
+export function minorUnitDigits(currency: string): number {
+  return ZERO_DECIMAL_CURRENCIES.has(normalizeCurrency(currency)) ? 0 : 2;
+}
+
+/**
+ * An amount of money in integer minor units (cents, or yen for JPY) of one
+ * currency. Entities store the plain `amount` next to a `currency` column;
+ * services wrap them in Money to do arithmetic without float drift.
+ */
+export class Money {
+  private constructor(
+    readonly amount: number,
+    readonly currency: string,
+  ) {}
+
+  static of(amount: number | string, currency: string): Money {
+    const value = Number(amount ?? 0);
+    if (!Number.isSafeInteger(value)) {
+      throw new Error(`Money amounts must be whole minor units, got ${amount}`);
+    }
+    return new Money(value, normalizeCurrency(currency));
+  }
+
+  static zero(currency: string): Money {
+    return Money.of(0, currency);
+  }
+
+  // From a human amount such as 19.99, rounded to the currency's minor unit
+  static fromMajor(value: number | string, currency: string): Money {
+    const factor = 10 ** minorUnitDigits(currency);
+    return Money.of(Math.round(Number(value) * factor), currency);
+  }
+
+  static sum(amounts: Money[], currency: string): Money {
+    return amounts.reduce(
+      (total, money) => total.add(money),
+      Money.zero(currency),
+    );
+  }
+
+  private assertSameCurrency(other: Money) {
+    if (other.currency !== this.currency) {
+      throw new Error(
+        `Cannot combine ${this.currency} and ${other.currency} amounts`,
+      );
+    }
+  }
+
+  add(other: Money): Money {
+    this.assertSameCurrency(other);
+    return new Money(this.amount + other.amount, this.currency);
+  }
+
+  subtract(other: Money): Money {
+    this.assertSameCurrency(other);
+    return new Money(this.amount - other.amount, this.currency);
+  }
+
+  // Rounds half away from zero to whole minor units
+  multiply(factor: number): Money {
+    const exact = this.amount * factor;
+    return new Money(
+      Math.sign(exact) * Math.round(Math.abs(exact)),
+      this.currency,
+    );
+  }
+
+  /**
+   * Converts at `rate` units of `currency` per unit of this one (both in major
+   * units, as exchange rates are quoted), rounding to the target's minor unit.
+   */
+  convert(rate: number | string, currency: string): Money {
+    const target = normalizeCurrency(currency);
+    const scale =
+      10 ** (minorUnitDigits(target) - minorUnitDigits(this.currency));
+    return new Money(this.amount, target).multiply(Number(rate) * scale);
+  }
+
+  percent(rate: number): Money {
+    return this.multiply(Number(rate) / 100);
+  }
+
+  min(other: Money): Money {
+    this.assertSameCurrency(other);
+    return this.amount <= other.amount ? this : other;
+  }
+
+  isZero(): boolean {
+    return this.amount === 0;
+  }
+
+  greaterThanOrEqual(other: Money): boolean {
+    this.assertSameCurrency(other);
+    return this.amount >= other.amount;
+  }
+
+  /**
+   * Splits the amount in proportion to `weights`, handing leftover minor units
+   * to the largest remainders so the parts always add up to the whole.
+   */
+  allocate(weights: number[]): Money[] {
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    if (totalWeight <= 0) {
+      return weights.map(() => Money.zero(this.currency));
+    }
+
+    const shares = weights.map((weight) => {
+      const exact = (this.amount * weight) / totalWeight;
+      return { units: Math.floor(exact), remainder: exact - Math.floor(exact) };
+    });
+    let leftover =
+      this.amount - shares.reduce((sum, share) => sum + share.units, 0);
+    [...shares]
+      .sort((a, b) => b.remainder - a.remainder)
+      .forEach((share) => {
+        if (leftover > 0) {
+          share.units += 1;
+          leftover -= 1;
+        }
+      });
+
+    return shares.map((share) => new Money(share.units, this.currency));
+  }
+
+  toMajor(): number {
+    return this.amount / 10 ** minorUnitDigits(this.currency);
+  }
+
+  // e.g. "19.99" or "500", built from the integer so large amounts stay exact
+  toDecimal(): string {
+    const digits = minorUnitDigits(this.currency);
+    const sign = this.amount < 0 ? '-' : '';
+    const units = String(Math.abs(this.amount));
+    if (digits === 0) return `${sign}${units}`;
+    const padded = units.padStart(digits + 1, '0');
+    return `${sign}${padded.slice(0, -digits)}.${padded.slice(-digits)}`;
+  }
+
+  // e.g. "19.99 USD" or "500 JPY"
+  format(): string {
+    return `${this.toDecimal()} ${this.currency}`;
+  }
+}
@@ -1,9 +1,12 @@
 import { Type } from 'class-transformer';
 import {
   IsArray,
+  IsISO4217CurrencyCode,
+  IsInt,
   IsNumber,
   IsOptional,
   IsString,
+  MaxLength,
   Min,
   ValidateNested,
 } from 'class-validator';
@@ -12,6 +15,12 @@ export class OrderItemDto {
   @IsNumber()
   productId: number;
 
+  // Required for products that have variants
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  variantId?: number;
+
   @IsNumber()
   @Min(1)
   quantity: number;
@@ -32,4 +41,32 @@ export class CreateOrderDto {
   @ValidateNested({ each: true })
   @Type(() => OrderItemDto)
   items: OrderItemDto[];
+
+  // Address book entries to snapshot; the user's defaults are used when omitted
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  shippingAddressId?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  billingAddressId?: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  couponCode?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  shippingMethodId?: number;
+
+  // Defaults to the user's preferred currency, or USD for guests
+  @IsOptional()
+  @IsISO4217CurrencyCode({
+    message: 'Currency must be a three-letter ISO code',
+  })
+  currency?: string;
 }
@@ -0,0 +1,47 @@
+import {
+  IsISO31661Alpha2,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+export class ShippingAddressDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  fullName: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  line1: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  line2?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  city: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  region?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(20)
+  postalCode: string;
+
+  @IsISO31661Alpha2({ message: 'Country must be a two-letter ISO code' })
+  country: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(30)
+  phone?: string;
+}
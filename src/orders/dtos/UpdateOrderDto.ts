@@ -2,13 +2,16 @@ import { Type } from 'class-transformer';
 import {
   IsArray,
   IsEnum,
+  IsInt,
   IsNumber,
   IsOptional,
   IsString,
+  MaxLength,
   Min,
   ValidateNested,
 } from 'class-validator';
 import { OrderItemDto } from './CreateOrderDto';
+import { ORDER_STATUSES, OrderStatus } from '../order-status';
 
 export class UpdateOrderDto {
   @IsOptional()
@@ -28,11 +31,16 @@ export class UpdateOrderDto {
   items?: OrderItemDto[];
 
   @IsOptional()
-  @IsNumber()
+  @IsInt()
   @Min(0, { message: 'Total amount must be at least 0' })
   totalAmount?: number;
 
   @IsOptional()
-  @IsEnum(['PENDING', 'COMPLETED', 'CANCELED'], { message: 'Invalid status' })
-  status?: 'PENDING' | 'COMPLETED' | 'CANCELED';
+  @IsEnum(ORDER_STATUSES, { message: 'Invalid status' })
+  status?: OrderStatus;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255, { message: 'Status reason must not exceed 255 characters' })
+  statusReason?: string;
 }
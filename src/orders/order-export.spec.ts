@@ -0,0 +1,58 @@
+import { csvHeader, formatOrders } from './order-export';
+
+describe('order export', () => {
+  const order: any = {
+    id: 7,
+    name: 'Order, "gift"',
+    currency: 'USD',
+    totalAmount: 2599,
+    status: 'PAID',
+    createdAt: new Date('2026-01-02T10:00:00.000Z'),
+    user: { id: 3, name: '=HYPERLINK("x")', email: 'jo@example.com' },
+    items: [
+      { id: 1, product: { id: 4, name: 'Mug' }, quantity: 2, unitPrice: 999 },
+      { id: 2, product: { id: 5, name: 'Tea' }, quantity: 1, unitPrice: 601 },
+    ],
+  };
+
+  it('should write one CSV row per line, quoting and defusing text', () => {
+    const columns = [
+      'order_id',
+      'order_name',
+      'customer_name',
+      'product_name',
+      'line_subtotal',
+      'order_total',
+    ] as const;
+
+    expect(csvHeader(columns)).toBe(
+      'order_id,order_name,customer_name,product_name,line_subtotal,order_total\r\n',
+    );
+    expect(formatOrders([order], 'csv', columns)).toBe(
+      `7,"Order, ""gift""","'=HYPERLINK(""x"")",Mug,19.98,25.99\r\n` +
+        `7,"Order, ""gift""","'=HYPERLINK(""x"")",Tea,6.01,25.99\r\n`,
+    );
+  });
+
+  it('should write one JSON object per line with amounts in the order currency', () => {
+    const guestOrder = {
+      ...order,
+      currency: 'JPY',
+      totalAmount: 1500,
+      user: null,
+      guestEmail: 'guest@example.com',
+      items: [],
+    };
+
+    expect(
+      formatOrders([guestOrder], 'ndjson', [
+        'order_id',
+        'customer_email',
+        'order_total',
+        'quantity',
+      ]),
+    ).toBe(
+      '{"order_id":7,"customer_email":"guest@example.com","order_total":"1500","quantity":null}\n',
+    );
+  });
+});
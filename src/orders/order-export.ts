@@ -0,0 +1,139 @@
+import { csvCell, csvRow } from 'src/csv/csv';
+import { Money } from 'src/money/money';
+import { Order } from 'src/typeorm/entities/Order';
+import { OrderItem } from 'src/typeorm/entities/OrderItem';
+
+export const ORDER_EXPORT_FORMATS = ['csv', 'ndjson'] as const;
+
+export type OrderExportFormat = (typeof ORDER_EXPORT_FORMATS)[number];
+
+export const ORDER_EXPORT_CONTENT_TYPES: Record<OrderExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+};
+
+// Also the default set and order of columns
+export const ORDER_EXPORT_COLUMNS = [
+  'order_id',
+  'order_name',
+  'created_at',
+  'status',
+  'currency',
+  'customer_id',
+  'customer_email',
+  'customer_name',
+  'shipping_country',
+  'billing_country',
+  'coupon_code',
+  'order_discount',
+  'order_tax',
+  'shipping_method',
+  'shipping_amount',
+  'order_total',
+  'refunded_amount',
+  'line_id',
+  'product_id',
+  'product_name',
+  'sku',
+  'quantity',
+  'unit_price',
+  'line_subtotal',
+  'line_discount',
+  'line_tax',
+  'tax_rate',
+  'tax_inclusive',
+] as const;
+
+export type OrderExportColumn = (typeof ORDER_EXPORT_COLUMNS)[number];
+
+type ExportValue = string | number | boolean | null;
+
+// Amounts are decimals in the order's currency, e.g. "19.99" or "500" for JPY
+function amount(value: number, order: Order): string {
+  return Money.of(value ?? 0, order.currency).toDecimal();
+}
+
+const COLUMN_VALUES: Record<
+  OrderExportColumn,
+  (order: Order, item: OrderItem | null) => ExportValue
+> = {
+  order_id: (order) => order.id,
+  order_name: (order) => order.name,
+  created_at: (order) => new Date(order.createdAt).toISOString(),
+  status: (order) => order.status,
+  currency: (order) => order.currency,
+  customer_id: (order) => order.user?.id ?? null,
+  customer_email: (order) => order.user?.email ?? order.guestEmail,
+  customer_name: (order) => order.user?.name ?? null,
+  shipping_country: (order) => order.shippingAddress?.country ?? null,
+  billing_country: (order) => order.billingAddress?.country ?? null,
+  coupon_code: (order) => order.couponCode,
+  order_discount: (order) => amount(order.discountAmount, order),
+  order_tax: (order) => amount(order.taxAmount, order),
+  shipping_method: (order) => order.shippingMethodName,
+  shipping_amount: (order) => amount(order.shippingAmount, order),
+  order_total: (order) => amount(order.totalAmount, order),
+  refunded_amount: (order) => amount(order.amountRefundedCents, order),
+  line_id: (_, item) => item?.id ?? null,
+  product_id: (_, item) => item?.product?.id ?? null,
+  product_name: (_, item) => item?.product?.name ?? null,
+  sku: (_, item) => item?.sku ?? null,
+  quantity: (_, item) => item?.quantity ?? null,
+  unit_price: (order, item) => (item ? amount(item.unitPrice, order) : null),
+  line_subtotal: (order, item) =>
+    item ? amount(item.unitPrice * item.quantity, order) : null,
+  line_discount: (order, item) =>
+    item ? amount(item.discountAmount, order) : null,
+  line_tax: (order, item) => (item ? amount(item.taxAmount, order) : null),
+  // Percent; MySQL hands decimals back as strings
+  tax_rate: (_, item) => (item ? Number(item.taxRate) : null),
+  tax_inclusive: (_, item) => item?.taxInclusive ?? null,
+};
+
+// Typed in by customers, so a spreadsheet must not run them as formulas
+const FREE_TEXT_COLUMNS = new Set<OrderExportColumn>([
+  'order_name',
+  'customer_email',
+  'customer_name',
+  'coupon_code',
+  'shipping_method',
+  'product_name',
+  'sku',
+]);
+
+export function csvHeader(columns: readonly OrderExportColumn[]): string {
+  return csvRow(columns.map((column) => csvCell(column)));
+}
+
+/**
+ * One row per order line, with the order's columns repeated on each; an
+ * order without lines still gets a row, with the line columns empty.
+ */
+export function formatOrders(
+  orders: Order[],
+  format: OrderExportFormat,
+  columns: readonly OrderExportColumn[],
+): string {
+  let chunk = '';
+  for (const order of orders) {
+    const items = order.items?.length ? order.items : [null];
+    for (const item of items) {
+      const values = columns.map((column) =>
+        COLUMN_VALUES[column](order, item),
+      );
+      if (format === 'csv') {
+        chunk += csvRow(
+          values.map((value, i) =>
+            csvCell(value, FREE_TEXT_COLUMNS.has(columns[i])),
+          ),
+        );
+      } else {
+        const record = Object.fromEntries(
+          columns.map((column, i) => [column, values[i]]),
+        );
+        chunk += `${JSON.stringify(record)}\n`;
+      }
+    }
+  }
+  return chunk;
+}
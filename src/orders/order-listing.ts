@@ -0,0 +1,62 @@
+import { CursorSort } from 'src/pagination/cursor';
+import { Order } from 'src/typeorm/entities/Order';
+import { OrderStatus } from './order-status';
+
+export const ORDER_SORTS = [
+  'newest',
+  'oldest',
+  'total_desc',
+  'total_asc',
+] as const;
+
+export type OrderSort = (typeof ORDER_SORTS)[number];
+
+// `summary` is one flat row per order for tables, `full` has user, items and products
+export const ORDER_VIEWS = ['summary', 'full'] as const;
+
+export type OrderView = (typeof ORDER_VIEWS)[number];
+
+// Ids only grow, so they follow creation order
+export const ORDER_CURSOR_SORTS: Record<OrderSort, CursorSort<Order>> = {
+  newest: {
+    name: 'newest',
+    column: 'order.id',
+    order: 'DESC',
+    idOrder: 'DESC',
+    valueOf: (order) => order.id,
+  },
+  oldest: {
+    name: 'oldest',
+    column: 'order.id',
+    order: 'ASC',
+    idOrder: 'ASC',
+    valueOf: (order) => order.id,
+  },
+  total_desc: {
+    name: 'total_desc',
+    column: 'order.totalAmount',
+    order: 'DESC',
+    idOrder: 'DESC',
+    valueOf: (order) => order.totalAmount,
+  },
+  total_asc: {
+    name: 'total_asc',
+    column: 'order.totalAmount',
+    order: 'ASC',
+    idOrder: 'ASC',
+    valueOf: (order) => order.totalAmount,
+  },
+};
+
+export type OrderSummary = {
+  id: number;
+  name: string;
+  status: OrderStatus;
+  currency: string;
+  totalAmount: number;
+  // Order lines, not units
+  itemCount: number;
+  customer: { id: number | null; name: string | null; email: string };
+  createdAt: Date;
+  updatedAt: Date;
+};
@@ -0,0 +1,73 @@
+import {
+  ORDER_LOOKUP_TOKEN_TTL_MS,
+  signOrderLookupToken,
+  verifyOrderLookupToken,
+} from './order-lookup-token';
+
+describe('order lookup tokens', () => {
+  const now = Date.UTC(2025, 0, 1);
+
+  beforeEach(() => {
+    process.env.ORDER_LOOKUP_SECRET = 'order_lookup_test_secret';
+  });
+
+  afterEach(() => {
+    delete process.env.ORDER_LOOKUP_SECRET;
+  });
+
+  it('should accept a token for the same order and email', () => {
+    const token = signOrderLookupToken(7, 'guest@test.com', now);
+
+    expect(verifyOrderLookupToken(token, 7, 'guest@test.com', now)).toBe(true);
+  });
+
+  it('should ignore email case and surrounding spaces', () => {
+    const token = signOrderLookupToken(7, ' Guest@Test.com', now);
+
+    expect(verifyOrderLookupToken(token, 7, 'guest@test.com', now)).toBe(true);
+  });
+
+  it('should reject another order or email', () => {
+    const token = signOrderLookupToken(7, 'guest@test.com', now);
+
+    expect(verifyOrderLookupToken(token, 8, 'guest@test.com', now)).toBe(false);
+    expect(verifyOrderLookupToken(token, 7, 'other@test.com', now)).toBe(false);
+  });
+
+  it('should reject expired tokens', () => {
+    const token = signOrderLookupToken(7, 'guest@test.com', now);
+
+    expect(
+      verifyOrderLookupToken(
+        token,
+        7,
+        'guest@test.com',
+        now + ORDER_LOOKUP_TOKEN_TTL_MS + 1000,
+      ),
+    ).toBe(false);
+  });
+
+  it('should reject tampered expiry and malformed tokens', () => {
+    const [, signature] = signOrderLookupToken(7, 'guest@test.com', now).split(
+      '.',
+    );
+    const extended = `${Math.floor(now / 1000) + 10 ** 9}.${signature}`;
+
+    expect(verifyOrderLookupToken(extended, 7, 'guest@test.com', now)).toBe(
+      false,
+    );
+    expect(verifyOrderLookupToken('garbage', 7, 'guest@test.com', now)).toBe(
+      false,
+    );
+    expect(
+      verifyOrderLookupToken(undefined as any, 7, 'guest@test.com', now),
+    ).toBe(false);
+  });
+
+  it('should reject tokens signed with another secret', () => {
+    const token = signOrderLookupToken(7, 'guest@test.com', now);
+    process.env.ORDER_LOOKUP_SECRET = 'rotated_secret';
+
+    expect(verifyOrderLookupToken(token, 7, 'guest@test.com', now)).toBe(false);
+  });
+});
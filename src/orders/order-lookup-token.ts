@@ -0,0 +1,46 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// Guest order links stay valid for 30 days
+export const ORDER_LOOKUP_TOKEN_TTL_MS = 1000 * 60 * 60 * 24 * 30;
+
+function lookupSecret(): string {
+  const secret = process.env.ORDER_LOOKUP_SECRET ?? process.env.JWT_SECRET;
+  if (!secret) throw new Error('ORDER_LOOKUP_SECRET or JWT_SECRET must be set');
+  return secret;
+}
+
+function computeSignature(
+  orderId: number,
+  email: string,
+  expiresAt: number,
+): string {
+  return createHmac('sha256', lookupSecret())
+    .update(`${orderId}:${email.trim().toLowerCase()}:${expiresAt}`)
+    .digest('base64url');
+}
+
+/** Token format: "<expiry unix seconds>.<HMAC of orderId, email and expiry>". */
+export function signOrderLookupToken(
+  orderId: number,
+  email: string,
+  now = Date.now(),
+): string {
+  const expiresAt = Math.floor((now + ORDER_LOOKUP_TOKEN_TTL_MS) / 1000);
+  return `${expiresAt}.${computeSignature(orderId, email, expiresAt)}`;
+}
+
+export function verifyOrderLookupToken(
+  token: string,
+  orderId: number,
+  email: string,
+  now = Date.now(),
+): boolean {
+  const [expiresAtRaw, signature] = (token ?? '').split('.');
+  const expiresAt = Number(expiresAtRaw);
+  if (!Number.isInteger(expiresAt) || !signature) return false;
+  if (expiresAt * 1000 < now) return false;
+
+  const expected = Buffer.from(computeSignature(orderId, email, expiresAt));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,63 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import {
+  ORDER_STATUSES,
+  ORDER_STATUS_TRANSITIONS,
+  assertOrderTransition,
+  canTransitionOrder,
+} from './order-status';
+
+describe('order status lifecycle', () => {
+  it('should define transitions for every status', () => {
+    for (const status of ORDER_STATUSES) {
+      expect(ORDER_STATUS_TRANSITIONS[status]).toBeDefined();
+    }
+  });
+
+  it('should only reference known statuses as targets', () => {
+    for (const targets of Object.values(ORDER_STATUS_TRANSITIONS)) {
+      for (const target of targets) {
+        expect(ORDER_STATUSES).toContain(target);
+      }
+    }
+  });
+
+  it('should allow the happy path PENDING -> PAID -> PROCESSING -> SHIPPED -> DELIVERED', () => {
+    expect(canTransitionOrder('PENDING', 'PAID')).toBe(true);
+    expect(canTransitionOrder('PAID', 'PROCESSING')).toBe(true);
+    expect(canTransitionOrder('PROCESSING', 'SHIPPED')).toBe(true);
+    expect(canTransitionOrder('SHIPPED', 'DELIVERED')).toBe(true);
+  });
+
+  it('should only allow canceling PENDING orders', () => {
+    expect(canTransitionOrder('PENDING', 'CANCELED')).toBe(true);
+    expect(canTransitionOrder('PAID', 'CANCELED')).toBe(false);
+    expect(canTransitionOrder('SHIPPED', 'CANCELED')).toBe(false);
+  });
+
+  it('should never leave terminal statuses', () => {
+    for (const status of ORDER_STATUSES) {
+      expect(canTransitionOrder('CANCELED', status)).toBe(false);
+      expect(canTransitionOrder('REFUNDED', status)).toBe(false);
+    }
+  });
+
+  it('should never move into the legacy COMPLETED status', () => {
+    for (const status of ORDER_STATUSES) {
+      expect(canTransitionOrder(status, 'COMPLETED')).toBe(false);
+    }
+  });
+
+  it('should reject unknown statuses', () => {
+    expect(canTransitionOrder('UNKNOWN', 'PAID')).toBe(false);
+  });
+
+  it('should throw CONFLICT for illegal jumps', () => {
+    expect(() => assertOrderTransition('PENDING', 'SHIPPED')).toThrow(
+      new HttpException(
+        'Cannot change order status from PENDING to SHIPPED',
+        HttpStatus.CONFLICT,
+      ),
+    );
+    expect(() => assertOrderTransition('PENDING', 'PAID')).not.toThrow();
+  });
+});
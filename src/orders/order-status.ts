@@ -0,0 +1,64 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+export const ORDER_STATUSES = [
+  'PENDING',
+  'PAID',
+  'PROCESSING',
+  'SHIPPED',
+  'DELIVERED',
+  'PARTIALLY_REFUNDED',
+  'REFUNDED',
+  'CANCELED',
+  // Legacy: orders paid before the full lifecycle existed. Nothing moves *into* it anymore.
+  'COMPLETED',
+] as const;
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+// The only place that decides which status changes are legal. Webhooks, admin
+// updates and user cancellation all go through `assertOrderTransition`.
+export const ORDER_STATUS_TRANSITIONS: Record<
+  OrderStatus,
+  readonly OrderStatus[]
+> = {
+  PENDING: ['PAID', 'CANCELED'],
+  PAID: ['PROCESSING', 'PARTIALLY_REFUNDED', 'REFUNDED'],
+  PROCESSING: ['SHIPPED', 'PARTIALLY_REFUNDED', 'REFUNDED'],
+  SHIPPED: ['DELIVERED', 'PARTIALLY_REFUNDED', 'REFUNDED'],
+  DELIVERED: ['PARTIALLY_REFUNDED', 'REFUNDED'],
+  // A second partial refund keeps the order partially refunded.
+  PARTIALLY_REFUNDED: ['PARTIALLY_REFUNDED', 'REFUNDED'],
+  REFUNDED: [],
+  CANCELED: [],
+  COMPLETED: [
+    'PROCESSING',
+    'SHIPPED',
+    'DELIVERED',
+    'PARTIALLY_REFUNDED',
+    'REFUNDED',
+  ],
+};
+
+export function canTransitionOrder(from: string, to: string): boolean {
+  const allowed = ORDER_STATUS_TRANSITIONS[from as OrderStatus];
+  return Array.isArray(allowed) && allowed.includes(to as OrderStatus);
+}
+
+export function assertOrderTransition(from: string, to: string) {
+  if (!canTransitionOrder(from, to)) {
+    throw new HttpException(
+      `Cannot change order status from ${from} to ${to}`,
+      HttpStatus.CONFLICT,
+    );
+  }
+}
+
+// Orders whose items count as sold: paid for and not refunded in full
+export const SOLD_ORDER_STATUSES: readonly OrderStatus[] = [
+  'PAID',
+  'PROCESSING',
+  'SHIPPED',
+  'DELIVERED',
+  'PARTIALLY_REFUNDED',
+  'COMPLETED',
+];
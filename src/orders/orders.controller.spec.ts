@@ -9,7 +9,8 @@ import { OrdersController } from './orders.controller';
 import { OrdersService } from './orders.service';
 import { CreateOrderDto } from './dtos/CreateOrderDto';
 import { UpdateOrderDto } from './dtos/UpdateOrderDto';
-import { HttpException, HttpStatus } from '@nestjs/common';
+import { HttpException, HttpStatus, StreamableFile } from '@nestjs/common';
+import { Readable } from 'stream';
 import { canAccess, canAccessUser } from 'utils/canAccess';
 
 describe('OrdersController', () => {
@@ -17,7 +18,10 @@ describe('OrdersController', () => {
 
   const mockOrdersService = {
     getAllOrders: jest.fn(),
+    exportOrders: jest.fn(),
     getOrderById: jest.fn(),
+    getOrderHistory: jest.fn(),
+    getGuestOrder: jest.fn(),
     getOrdersByUserId: jest.fn(),
     createOrder: jest.fn(),
     updateOrder: jest.fn(),
@@ -78,6 +82,74 @@ describe('OrdersController', () => {
       expect(mockOrdersService.getAllOrders).toHaveBeenCalledWith();
     });
 
+    it('should page by cursor when cursor or limit is given', async () => {
+      mockOrdersService.getAllOrders.mockResolvedValue({ orders: [] });
+
+      await controller.getOrders('', '25');
+
+      expect(mockOrdersService.getAllOrders).toHaveBeenCalledWith({ cursor: '', limit: 25, page: 1 });
+    });
+
+    it('should parse filters, sort and view for the admin listing', async () => {
+      mockOrdersService.getAllOrders.mockResolvedValue({ orders: [] });
+
+      await controller.getOrders(
+        undefined,
+        undefined,
+        '2',
+        'paid,shipped',
+        '2026-01-01',
+        '2026-01-31',
+        '3',
+        ' jane@ ',
+        '100',
+        '5000',
+        '7',
+        'total_desc',
+        'full',
+      );
+
+      expect(mockOrdersService.getAllOrders).toHaveBeenCalledWith({
+        statuses: ['PAID', 'SHIPPED'],
+        from: new Date('2026-01-01T00:00:00.000Z'),
+        to: new Date('2026-01-31T23:59:59.999Z'),
+        userId: 3,
+        email: 'jane@',
+        minTotal: 100,
+        maxTotal: 5000,
+        productId: 7,
+        sort: 'total_desc',
+        view: 'full',
+        page: 2,
+        limit: 10,
+      });
+    });
+
+    it('should reject an unknown status, date or sort', async () => {
+      expect(() => controller.getOrders(undefined, undefined, undefined, 'LOST')).toThrow(HttpException);
+      expect(() =>
+        controller.getOrders(undefined, undefined, undefined, undefined, 'yesterday'),
+      ).toThrow(new HttpException('Query parameter "from" must be an ISO 8601 date', HttpStatus.BAD_REQUEST));
+      expect(() =>
+        controller.getOrders(
+          undefined, undefined, undefined, undefined, undefined, undefined, undefined, undefined, undefined, undefined, undefined, 'cheapest',
+        ),
+      ).toThrow(
+        new HttpException(
+          'Query parameter "sort" must be one of: newest, oldest, total_desc, total_asc',
+          HttpStatus.BAD_REQUEST,
+        ),
+      );
+      expect(mockOrdersService.getAllOrders).not.toHaveBeenCalled();
+    });
+
+    it('should reject a limit that is not a positive integer', async () => {
+      expect(() => controller.getOrders(undefined, '0')).toThrow(
+        new HttpException('Query parameter "limit" must be a positive integer', HttpStatus.BAD_REQUEST),
+      );
+      expect(mockOrdersService.getAllOrders).not.toHaveBeenCalled();
+    });
+
     it('should return empty orders array', async () => {
       const mockResponse = { message: 'Orders retrieved successfully', orders: [] };
 
@@ -186,6 +258,51 @@ describe('OrdersController', () => {
     });
   });
 
+  describe('getOrderHistory', () => {
+    it('should return the status history of an order', async () => {
+      const mockResponse = {
+        message: 'Order history retrieved successfully',
+        history: [{ id: 1, fromStatus: null, toStatus: 'PENDING' }],
+      };
+      mockOrdersService.getOrderHistory.mockResolvedValue(mockResponse);
+
+      const result = await controller.getOrderHistory(1, mockReq);
+
+      expect(result).toEqual(mockResponse);
+      expect(mockOrdersService.getOrderHistory).toHaveBeenCalledWith(1, mockReq);
+    });
+  });
+
+  describe('exportOrders', () => {
+    it('should stream the export as a download in the asked format', async () => {
+      mockOrdersService.exportOrders.mockResolvedValue(Readable.from(['{}\n']));
+
+      const file = await controller.exportOrders('ndjson', '2026-01-01', '2026-01-31', 'PAID', 'order_id,order_total');
+
+      expect(mockOrdersService.exportOrders).toHaveBeenCalledWith({
+        format: 'ndjson',
+        statuses: ['PAID'],
+        from: new Date('2026-01-01T00:00:00.000Z'),
+        to: new Date('2026-01-31T23:59:59.999Z'),
+        columns: ['order_id', 'order_total'],
+      });
+      expect(file).toBeInstanceOf(StreamableFile);
+      expect(file.getHeaders()).toEqual(
+        expect.objectContaining({
+          type: 'application/x-ndjson; charset=utf-8',
+          disposition: 'attachment; filename="orders.ndjson"',
+        }),
+      );
+    });
+
+    it('should reject an unknown column', async () => {
+      await expect(controller.exportOrders('csv', undefined, undefined, undefined, 'order_id,password')).rejects.toThrow(
+        HttpException,
+      );
+      expect(mockOrdersService.exportOrders).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getOrdersByUserId', () => {
     it('should return orders for a userId and call canAccessUser', async () => {
       const mockResponse = {
@@ -303,4 +420,16 @@ describe('OrdersController', () => {
       );
     });
   });
-});
\ No newline at end of file
+
+  describe('getGuestOrder', () => {
+    it('should look the order up with the token from the link', async () => {
+      const mockResponse = { message: 'Order retrieved successfully', order: mockOrder };
+      mockOrdersService.getGuestOrder.mockResolvedValue(mockResponse);
+
+      const result = await controller.getGuestOrder(1, 'signed-token');
+
+      expect(result).toEqual(mockResponse);
+      expect(mockOrdersService.getGuestOrder).toHaveBeenCalledWith(1, 'signed-token');
+    });
+  });
+});
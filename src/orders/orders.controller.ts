@@ -9,7 +9,9 @@ import {
   ParseIntPipe,
   Post,
   Put,
+  Query,
   Req,
+  StreamableFile,
 } from '@nestjs/common';
 import { OrdersService } from './orders.service';
 import { CreateOrderDto } from './dtos/CreateOrderDto';
@@ -18,24 +20,197 @@ import { canAccess, canAccessUser } from 'utils/canAccess';
 import { Request } from 'express';
 import { Roles } from 'utils/rolesDecorator';
 import { ApiTags } from '@nestjs/swagger';
+import { Public } from 'utils/publicDecorator';
+import { ICursorPage, IOrderListQuery } from 'utils/Interfaces';
+import { ORDER_STATUSES, OrderStatus } from './order-status';
+import { ORDER_SORTS, ORDER_VIEWS, OrderSort, OrderView } from './order-listing';
+import {
+  ORDER_EXPORT_COLUMNS,
+  ORDER_EXPORT_CONTENT_TYPES,
+  ORDER_EXPORT_FORMATS,
+  OrderExportColumn,
+  OrderExportFormat,
+} from './order-export';
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
 
 @ApiTags('orders')
 @Controller('orders')
 export class OrdersController {
   constructor(private ordersService: OrdersService) {}
 
+  // `cursor` or `limit` pages the listing; without both every order comes back
+  private parsePage(cursor?: string, limit?: string): ICursorPage | undefined {
+    if (cursor === undefined && limit === undefined) return undefined;
+    if (limit !== undefined && !/^[1-9]\d*$/.test(limit)) {
+      throw new HttpException('Query parameter "limit" must be a positive integer', HttpStatus.BAD_REQUEST);
+    }
+    return { cursor, limit: limit === undefined ? 10 : parseInt(limit, 10) };
+  }
+
+  private parseId(value: string | undefined, label: string): number | undefined {
+    if (value === undefined || value === '') return undefined;
+    if (!/^[1-9]\d*$/.test(value)) {
+      throw new HttpException(`Query parameter "${label}" must be a positive integer`, HttpStatus.BAD_REQUEST);
+    }
+    return parseInt(value, 10);
+  }
+
+  private parseAmount(value: string | undefined, label: string): number | undefined {
+    if (value === undefined || value === '') return undefined;
+    if (!/^\d+$/.test(value)) {
+      throw new HttpException(`Query parameter "${label}" must be a whole number of minor units`, HttpStatus.BAD_REQUEST);
+    }
+    return parseInt(value, 10);
+  }
+
+  // A bare date as `to` covers that whole day (UTC)
+  private parseDate(value: string | undefined, label: string, endOfDay = false): Date | undefined {
+    if (value === undefined || value === '') return undefined;
+    const date = new Date(endOfDay && DATE_ONLY.test(value) ? `${value}T23:59:59.999Z` : value);
+    if (Number.isNaN(date.getTime())) {
+      throw new HttpException(`Query parameter "${label}" must be an ISO 8601 date`, HttpStatus.BAD_REQUEST);
+    }
+    return date;
+  }
+
+  // Accepts status=PAID,SHIPPED as well as status=PAID&status=SHIPPED
+  private parseStatuses(value: string | string[] | undefined): OrderStatus[] | undefined {
+    if (value === undefined) return undefined;
+    const tokens = (Array.isArray(value) ? value.join(',') : value)
+      .split(',')
+      .map((s) => s.trim().toUpperCase())
+      .filter(Boolean);
+    if (tokens.some((t) => !ORDER_STATUSES.includes(t as OrderStatus))) {
+      throw new HttpException(
+        `Query parameter "status" must be a comma-separated list of: ${ORDER_STATUSES.join(', ')}`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    return tokens.length ? [...new Set(tokens as OrderStatus[])] : undefined;
+  }
+
+  private parseChoice<T extends string>(value: string | undefined, choices: readonly T[], label: string): T | undefined {
+    if (value === undefined || value === '') return undefined;
+    if (!choices.includes(value as T)) {
+      throw new HttpException(
+        `Query parameter "${label}" must be one of: ${choices.join(', ')}`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    return value as T;
+  }
+
+  /**
+   * The admin orders table: filtered, sorted and paged by `page` or, when it
+   * is given, `cursor`. Rows are summaries unless `view=full`. Without any
+   * query parameter every order comes back in full, as before.
+   */
   @Roles('admin')
   @Get()
-  getOrders() {
-    return this.ordersService.getAllOrders();
+  getOrders(
+    @Query('cursor') cursor?: string,
+    @Query('limit') limit?: string,
+    @Query('page') page?: string,
+    @Query('status') status?: string | string[],
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('userId') userId?: string,
+    @Query('email') email?: string,
+    @Query('minTotal') minTotal?: string,
+    @Query('maxTotal') maxTotal?: string,
+    @Query('productId') productId?: string,
+    @Query('sort') sort?: string,
+    @Query('view') view?: string,
+  ) {
+    const listed = [cursor, limit, page, status, from, to, userId, email, minTotal, maxTotal, productId, sort, view]
+      .some((value) => value !== undefined);
+    if (!listed) return this.ordersService.getAllOrders();
+
+    const query: IOrderListQuery = {
+      statuses: this.parseStatuses(status),
+      from: this.parseDate(from, 'from'),
+      to: this.parseDate(to, 'to', true),
+      userId: this.parseId(userId, 'userId'),
+      email: email?.trim() || undefined,
+      minTotal: this.parseAmount(minTotal, 'minTotal'),
+      maxTotal: this.parseAmount(maxTotal, 'maxTotal'),
+      productId: this.parseId(productId, 'productId'),
+      sort: this.parseChoice<OrderSort>(sort, ORDER_SORTS, 'sort'),
+      view: this.parseChoice<OrderView>(view, ORDER_VIEWS, 'view'),
+      page: this.parseId(page, 'page') ?? 1,
+      limit: this.parseId(limit, 'limit') ?? 10,
+    };
+    return this.ordersService.getAllOrders(cursor === undefined ? query : { ...query, cursor });
+  }
+
+  // Picks and orders the export columns, e.g. columns=order_id,created_at,order_total
+  private parseColumns(value: string | undefined): OrderExportColumn[] | undefined {
+    if (value === undefined || value === '') return undefined;
+    const tokens = value.split(',').map((s) => s.trim()).filter(Boolean);
+    if (tokens.some((t) => !ORDER_EXPORT_COLUMNS.includes(t as OrderExportColumn))) {
+      throw new HttpException(
+        `Query parameter "columns" must be a comma-separated list of: ${ORDER_EXPORT_COLUMNS.join(', ')}`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    return tokens.length ? [...new Set(tokens as OrderExportColumn[])] : undefined;
+  }
+
+  /**
+   * Downloads the orders created between `from` and `to` with the given
+   * `status`es as CSV (default) or NDJSON, one row per order line.
+   */
+  @Roles('admin')
+  @Get('export')
+  async exportOrders(
+    @Query('format') format?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('status') status?: string | string[],
+    @Query('columns') columns?: string,
+  ) {
+    const exportFormat = this.parseChoice<OrderExportFormat>(format, ORDER_EXPORT_FORMATS, 'format') ?? 'csv';
+    const stream = await this.ordersService.exportOrders({
+      format: exportFormat,
+      statuses: this.parseStatuses(status),
+      from: this.parseDate(from, 'from'),
+      to: this.parseDate(to, 'to', true),
+      columns: this.parseColumns(columns),
+    });
+    return new StreamableFile(stream, {
+      type: ORDER_EXPORT_CONTENT_TYPES[exportFormat],
+      disposition: `attachment; filename="orders.${exportFormat}"`,
+    });
   }
 
   // NOTE: "/user/:userId" must be declared BEFORE "/:id" so NestJS doesn't
   // greedily match "user" as the :id param (ParseIntPipe would throw).
   @Roles("admin", "user")
   @Get("/user/:userId")
-  getOrdersByUserId(@Param('userId', ParseIntPipe) userId: number, @Req() req: Request){
-    return this.ordersService.getOrdersByUserId(userId, req);
+  getOrdersByUserId(
+    @Param('userId', ParseIntPipe) userId: number,
+    @Req() req: Request,
+    @Query('cursor') cursor?: string,
+    @Query('limit') limit?: string,
+  ){
+    const page = this.parsePage(cursor, limit);
+    return page
+      ? this.ordersService.getOrdersByUserId(userId, req, page)
+      : this.ordersService.getOrdersByUserId(userId, req);
+  }
+
+  // Guests open their order through the signed link they got by email
+  @Public()
+  @Get('guest/:id')
+  getGuestOrder(@Param('id', ParseIntPipe) id: number, @Query('token') token: string) {
+    return this.ordersService.getGuestOrder(id, token);
+  }
+
+  @Roles("admin", "user")
+  @Get(':id/history')
+  getOrderHistory(@Param('id', ParseIntPipe) id: number, @Req() req: Request) {
+    return this.ordersService.getOrderHistory(id, req);
   }
 
   @Roles("admin", "user")
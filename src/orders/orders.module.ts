@@ -4,10 +4,34 @@ import { OrdersService } from './orders.service';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { Order } from 'src/typeorm/entities/Order';
 import { Product } from 'src/typeorm/entities/Product';
+import { ProductVariant } from 'src/typeorm/entities/ProductVariant';
 import { User } from 'src/typeorm/entities/User';
+import { OrderStatusHistory } from 'src/typeorm/entities/OrderStatusHistory';
+import { InventoryModule } from 'src/inventory/inventory.module';
+import { MailModule } from 'src/mail/mail.module';
+import { AddressesModule } from 'src/addresses/addresses.module';
+import { CouponsModule } from 'src/coupons/coupons.module';
+import { TaxModule } from 'src/tax/tax.module';
+import { ShippingModule } from 'src/shipping/shipping.module';
+import { CurrencyModule } from 'src/currency/currency.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Order, Product, User])],
+  imports: [
+    TypeOrmModule.forFeature([
+      Order,
+      Product,
+      ProductVariant,
+      User,
+      OrderStatusHistory,
+    ]),
+    InventoryModule,
+    MailModule,
+    AddressesModule,
+    CouponsModule,
+    TaxModule,
+    ShippingModule,
+    CurrencyModule,
+  ],
   controllers: [OrdersController],
   providers: [OrdersService],
   exports: [OrdersService],
@@ -7,14 +7,29 @@ import { OrdersService } from './orders.service';
 import { getRepositoryToken } from '@nestjs/typeorm';
 import { Order } from 'src/typeorm/entities/Order';
 import { Product } from 'src/typeorm/entities/Product';
+import { ProductVariant } from 'src/typeorm/entities/ProductVariant';
 import { User } from 'src/typeorm/entities/User';
 import { Repository } from 'typeorm';
 import { HttpException, HttpStatus } from '@nestjs/common';
 import { canAccessUser } from 'utils/canAccess';
+import { InventoryService } from 'src/inventory/inventory.service';
+import { OrderStatus } from './order-status';
+import { OrderStatusHistory } from 'src/typeorm/entities/OrderStatusHistory';
+import { MailService } from 'src/mail/mail.service';
+import { AddressesService } from 'src/addresses/addresses.service';
+import { CouponsService } from 'src/coupons/coupons.service';
+import { TaxService } from 'src/tax/tax.service';
+import { ShippingService } from 'src/shipping/shipping.service';
+import { CurrencyService } from 'src/currency/currency.service';
+import { signOrderLookupToken } from './order-lookup-token';
 
 describe('OrdersService', () => {
   let service: OrdersService;
 
+  const mockEntityManager = {
+    getRepository: jest.fn(),
+  };
+
   const mockOrderRepository = {
     find: jest.fn(),
     findOne: jest.fn(),
@@ -22,6 +37,22 @@ describe('OrdersService', () => {
     save: jest.fn(),
     delete: jest.fn(),
     remove: jest.fn(),
+    update: jest.fn(),
+    manager: {
+      transaction: jest.fn((cb) => cb(mockEntityManager)),
+    },
+  };
+
+  const mockStatusHistoryRepository = {
+    find: jest.fn(),
+    create: jest.fn((entry) => entry),
+    save: jest.fn(),
+  };
+
+  const mockInventoryService = {
+    reserve: jest.fn(),
+    release: jest.fn(),
+    commit: jest.fn(),
   };
 
   const mockProductRepository = {
@@ -29,10 +60,47 @@ describe('OrdersService', () => {
     findOne: jest.fn(),
   };
 
+  // No product is sold in variants unless a test says otherwise
+  const mockVariantRepository = {
+    find: jest.fn(async () => []),
+  };
+
   const mockUserRepository = {
     findOne: jest.fn(),
   };
 
+  const mockMailService = {
+    send: jest.fn(),
+  };
+
+  const mockAddressesService = {
+    resolveForOrder: jest.fn(),
+  };
+
+  const mockCouponsService = {
+    applyToOrder: jest.fn(),
+    reallocateOnOrder: jest.fn(),
+  };
+
+  const mockTaxService = {
+    applyToOrder: jest.fn(),
+  };
+
+  const mockShippingService = {
+    applyToOrder: jest.fn(),
+  };
+
+  // Store-currency rates and prices unless a test says otherwise
+  const mockCurrencyService = {
+    rateFor: jest.fn(async () => 1),
+    priceProducts: jest.fn(async (products: any[]) =>
+      new Map(products.map((product) => [product.id, Number(product.price)])),
+    ),
+    priceVariants: jest.fn(async (variants: any[]) =>
+      new Map(variants.map((variant) => [variant.id, Number(variant.price)])),
+    ),
+  };
+
   const mockUser = {
     id: 1,
     name: 'Test User',
@@ -63,16 +131,43 @@ describe('OrdersService', () => {
     user: { userId: 1, role: 'admin' },
   };
 
+  // Fresh copy for tests that depend on status/total (mockOrder is mutated by updateOrder tests)
+  const pendingOrder = () => ({
+    ...mockOrder,
+    status: 'PENDING',
+    totalAmount: 200,
+    items: [{ id: 1, product: mockProduct, quantity: 2, unitPrice: 100 }],
+  });
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         OrdersService,
         { provide: getRepositoryToken(Order), useValue: mockOrderRepository },
         { provide: getRepositoryToken(Product), useValue: mockProductRepository },
+        {
+          provide: getRepositoryToken(ProductVariant),
+          useValue: mockVariantRepository,
+        },
         { provide: getRepositoryToken(User), useValue: mockUserRepository },
+        {
+          provide: getRepositoryToken(OrderStatusHistory),
+          useValue: mockStatusHistoryRepository,
+        },
+        { provide: InventoryService, useValue: mockInventoryService },
+        { provide: MailService, useValue: mockMailService },
+        { provide: AddressesService, useValue: mockAddressesService },
+        { provide: CouponsService, useValue: mockCouponsService },
+        { provide: TaxService, useValue: mockTaxService },
+        { provide: ShippingService, useValue: mockShippingService },
+        { provide: CurrencyService, useValue: mockCurrencyService },
       ],
     }).compile();
 
+    mockEntityManager.getRepository.mockImplementation((entity) =>
+      entity === OrderStatusHistory ? mockStatusHistoryRepository : mockOrderRepository,
+    );
+
     service = module.get<OrdersService>(OrdersService);
   });
 
@@ -127,6 +222,130 @@ describe('OrdersService', () => {
         expect(error.getStatus()).toBe(HttpStatus.INTERNAL_SERVER_ERROR);
       }
     });
+
+    it('should page newest first by cursor when asked to', async () => {
+      const qb: any = { alias: 'order' };
+      ['leftJoinAndSelect', 'where', 'andWhere', 'orderBy', 'take'].forEach(
+        (method) => (qb[method] = jest.fn().mockReturnValue(qb)),
+      );
+      qb.getMany = jest.fn().mockResolvedValue([{ id: 9 }, { id: 8 }, { id: 7 }]);
+      (mockOrderRepository as any).createQueryBuilder = jest.fn().mockReturnValue(qb);
+
+      const result = await service.getAllOrders({ cursor: '', page: 1, limit: 2, view: 'full' });
+
+      expect(result.orders).toEqual([{ id: 9 }, { id: 8 }]);
+      expect((result as any).meta).toEqual({
+        limit: 2,
+        nextCursor: expect.any(String),
+        prevCursor: null,
+      });
+      expect(qb.orderBy).toHaveBeenCalledWith('order.id', 'DESC');
+      expect(mockOrderRepository.find).not.toHaveBeenCalled();
+    });
+
+    it('should page filtered summaries by offset', async () => {
+      const qb: any = { alias: 'order' };
+      ['leftJoin', 'addSelect', 'loadRelationCountAndMap', 'andWhere', 'orderBy', 'addOrderBy', 'skip', 'take'].forEach(
+        (method) => (qb[method] = jest.fn().mockReturnValue(qb)),
+      );
+      const createdAt = new Date('2026-01-02T00:00:00.000Z');
+      qb.getManyAndCount = jest.fn().mockResolvedValue([
+        [
+          { ...mockOrder, id: 4, itemCount: 2, createdAt, updatedAt: createdAt },
+          { ...mockOrder, id: 3, currency: 'USD', user: null, guestEmail: 'guest@example.com', itemCount: 1, createdAt, updatedAt: createdAt },
+        ],
+        7,
+      ]);
+      (mockOrderRepository as any).createQueryBuilder = jest.fn().mockReturnValue(qb);
+
+      const result = await service.getAllOrders({
+        statuses: ['PAID'],
+        minTotal: 100,
+        sort: 'total_asc',
+        page: 2,
+        limit: 2,
+      });
+
+      expect(qb.andWhere).toHaveBeenCalledWith('order.status IN (:...statuses)', { statuses: ['PAID'] });
+      expect(qb.andWhere).toHaveBeenCalledWith('order.totalAmount >= :minTotal', { minTotal: 100 });
+      expect(qb.orderBy).toHaveBeenCalledWith('order.totalAmount', 'ASC');
+      expect(qb.addOrderBy).toHaveBeenCalledWith('order.id', 'ASC');
+      expect(qb.skip).toHaveBeenCalledWith(2);
+      expect(result.orders[1]).toEqual({
+        id: 3,
+        name: mockOrder.name,
+        status: mockOrder.status,
+        currency: 'USD',
+        totalAmount: mockOrder.totalAmount,
+        itemCount: 1,
+        customer: { id: null, name: null, email: 'guest@example.com' },
+        createdAt,
+        updatedAt: createdAt,
+      });
+      expect((result as any).meta).toEqual({
+        page: 2,
+        limit: 2,
+        totalItems: 7,
+        totalPages: 4,
+        hasNextPage: true,
+        hasPrevPage: true,
+      });
+    });
+
+    it('should reject a minimum total above the maximum', async () => {
+      await expect(
+        service.getAllOrders({ minTotal: 500, maxTotal: 100, page: 1, limit: 10 }),
+      ).rejects.toThrow(
+        new HttpException('minTotal cannot be greater than maxTotal', HttpStatus.BAD_REQUEST),
+      );
+    });
+  });
+
+  describe('exportOrders', () => {
+    const exportQuery = (batches: any[][]) => {
+      const qb: any = { alias: 'order' };
+      ['leftJoin', 'addSelect', 'leftJoinAndSelect', 'andWhere', 'orderBy', 'addOrderBy', 'take'].forEach(
+        (method) => (qb[method] = jest.fn().mockReturnValue(qb)),
+      );
+      qb.getMany = jest.fn();
+      batches.forEach((batch) => qb.getMany.mockResolvedValueOnce(batch));
+      (mockOrderRepository as any).createQueryBuilder = jest.fn().mockReturnValue(qb);
+      return qb;
+    };
+
+    const read = async (stream: NodeJS.ReadableStream) => {
+      let text = '';
+      for await (const chunk of stream) text += chunk;
+      return text;
+    };
+
+    it('should stream the filtered orders in batches after a CSV header', async () => {
+      const batch = Array.from({ length: 500 }, (_, i) => ({ id: i + 1, currency: 'USD', totalAmount: 100 }));
+      const qb = exportQuery([batch, [{ id: 501, currency: 'USD', totalAmount: 250 }]]);
+
+      const stream = await service.exportOrders({
+        format: 'csv',
+        statuses: ['PAID'],
+        columns: ['order_id', 'order_total'],
+      });
+      const lines = (await read(stream)).trimEnd().split('\r\n');
+
+      expect(lines[0]).toBe('order_id,order_total');
+      expect(lines).toHaveLength(502);
+      expect(lines[501]).toBe('501,2.50');
+      expect(qb.andWhere).toHaveBeenCalledWith('order.status IN (:...statuses)', { statuses: ['PAID'] });
+      expect(qb.andWhere).toHaveBeenCalledWith('order.id > :afterId', { afterId: 500 });
+      expect(qb.getMany).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fail before streaming when the first batch cannot be read', async () => {
+      const qb = exportQuery([]);
+      qb.getMany.mockRejectedValue(new Error('Database down'));
+
+      await expect(service.exportOrders({ format: 'ndjson' })).rejects.toThrow(
+        new HttpException('An error occurred while exporting orders', HttpStatus.INTERNAL_SERVER_ERROR),
+      );
+    });
   });
 
   describe('getOrderById', () => {
@@ -189,6 +408,56 @@ describe('OrdersService', () => {
     });
   });
 
+  describe('getOrderHistory', () => {
+    const history = [
+      { id: 1, fromStatus: null, toStatus: 'PENDING', actor: 'user', actorId: 1 },
+      { id: 2, fromStatus: 'PENDING', toStatus: 'PAID', actor: 'stripe-webhook', actorId: null },
+    ];
+
+    it('should return the history in chronological order and check access', async () => {
+      mockOrderRepository.findOne.mockResolvedValue(mockOrder);
+      mockStatusHistoryRepository.find.mockResolvedValue(history);
+      (canAccessUser as jest.Mock).mockImplementation(() => undefined);
+
+      const result = await service.getOrderHistory(1, mockReq);
+
+      expect(canAccessUser).toHaveBeenCalledWith(mockReq, mockOrder.user.id);
+      expect(mockStatusHistoryRepository.find).toHaveBeenCalledWith({
+        where: { order: { id: 1 } },
+        order: { createdAt: 'ASC', id: 'ASC' },
+      });
+      expect(result).toEqual({
+        message: 'Order history retrieved successfully',
+        history,
+      });
+    });
+
+    it('should throw BAD_REQUEST for invalid order ID', async () => {
+      await expect(service.getOrderHistory(0, mockReq)).rejects.toThrow(
+        new HttpException('Invalid order ID', HttpStatus.BAD_REQUEST),
+      );
+      expect(mockOrderRepository.findOne).not.toHaveBeenCalled();
+    });
+
+    it('should throw NOT_FOUND when order does not exist', async () => {
+      mockOrderRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.getOrderHistory(999, mockReq)).rejects.toThrow(
+        new HttpException('Order with that id does not exist!', HttpStatus.NOT_FOUND),
+      );
+    });
+
+    it('should not load history when access is denied', async () => {
+      mockOrderRepository.findOne.mockResolvedValue(mockOrder);
+      (canAccessUser as jest.Mock).mockImplementationOnce(() => {
+        throw new HttpException('Forbidden', HttpStatus.FORBIDDEN);
+      });
+
+      await expect(service.getOrderHistory(1, mockReq)).rejects.toThrow('Forbidden');
+      expect(mockStatusHistoryRepository.find).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getOrdersByUserId', () => {
     it('should return orders for a user with relations', async () => {
       mockOrderRepository.find.mockResolvedValue([mockOrder]);
@@ -261,6 +530,76 @@ describe('OrdersService', () => {
       expect(result).toEqual({ message: 'Order created successfully!', order: mockOrder });
     });
 
+    it('should snapshot the chosen shipping address and the default billing address', async () => {
+      const shipping = {
+        id: 3,
+        fullName: 'Test User',
+        line1: '1 Main St',
+        line2: null,
+        city: 'Springfield',
+        region: 'IL',
+        postalCode: '12345',
+        country: 'US',
+        phone: null,
+      };
+      const billing = { ...shipping, id: 4, line1: '2 Office Rd' };
+      mockUserRepository.findOne.mockResolvedValue(mockUser);
+      mockProductRepository.find.mockResolvedValue([mockProduct]);
+      mockAddressesService.resolveForOrder
+        .mockResolvedValueOnce(shipping)
+        .mockResolvedValueOnce(billing);
+      mockOrderRepository.create.mockImplementation((order) => order);
+      mockOrderRepository.save.mockImplementation((order) => order);
+      (canAccessUser as jest.Mock).mockImplementation(() => undefined);
+
+      const result = await service.createOrder(
+        { ...createOrderParams, shippingAddressId: 3 },
+        mockReq,
+      );
+
+      expect(mockAddressesService.resolveForOrder).toHaveBeenCalledWith(1, 'shipping', 3);
+      expect(mockAddressesService.resolveForOrder).toHaveBeenCalledWith(1, 'billing', undefined);
+      expect(result.order.shippingAddress).toEqual({
+        fullName: 'Test User',
+        line1: '1 Main St',
+        line2: null,
+        city: 'Springfield',
+        region: 'IL',
+        postalCode: '12345',
+        country: 'US',
+        phone: null,
+      });
+      expect(result.order.shippingAddress).not.toHaveProperty('id');
+      expect(result.order.billingAddress.line1).toBe('2 Office Rd');
+      mockOrderRepository.create.mockReset();
+      mockOrderRepository.save.mockReset();
+    });
+
+    it('should bill to the shipping address when there is no billing address', async () => {
+      const shipping = {
+        fullName: 'Test User',
+        line1: '1 Main St',
+        city: 'Springfield',
+        postalCode: '12345',
+        country: 'US',
+      };
+      mockUserRepository.findOne.mockResolvedValue(mockUser);
+      mockProductRepository.find.mockResolvedValue([mockProduct]);
+      mockAddressesService.resolveForOrder
+        .mockResolvedValueOnce(shipping)
+        .mockResolvedValueOnce(null);
+      mockOrderRepository.create.mockImplementation((order) => order);
+      mockOrderRepository.save.mockImplementation((order) => order);
+      (canAccessUser as jest.Mock).mockImplementation(() => undefined);
+
+      const result = await service.createOrder(createOrderParams, mockReq);
+
+      expect(result.order.billingAddress).toEqual(result.order.shippingAddress);
+      expect(result.order.billingAddress.line1).toBe('1 Main St');
+      mockOrderRepository.create.mockReset();
+      mockOrderRepository.save.mockReset();
+    });
+
     it('should throw BAD_REQUEST for invalid user ID (zero)', async () => {
       await expect(
         service.createOrder({ ...createOrderParams, userId: 0 }, mockReq),
@@ -375,6 +714,229 @@ describe('OrdersService', () => {
       expect(createCall.items[0].unitPrice).toBe(mockProduct.price);
     });
 
+    it('should lock the requested currency, its rate and the converted prices', async () => {
+      mockUserRepository.findOne.mockResolvedValue(mockUser);
+      mockProductRepository.find.mockResolvedValue([mockProduct]);
+      mockCurrencyService.rateFor.mockResolvedValueOnce(0.9);
+      mockCurrencyService.priceProducts.mockResolvedValueOnce(new Map([[1, 90]]));
+      mockOrderRepository.create.mockImplementation((order) => order);
+      mockOrderRepository.save.mockImplementation((order) => order);
+
+      await service.createOrder({ ...createOrderParams, currency: 'eur' }, mockReq);
+
+      expect(mockCurrencyService.rateFor).toHaveBeenCalledWith('EUR');
+      expect(mockCurrencyService.priceProducts).toHaveBeenCalledWith([mockProduct], 'EUR', 0.9);
+      const createCall = mockOrderRepository.create.mock.calls[0][0];
+      expect(createCall).toMatchObject({ currency: 'EUR', exchangeRate: 0.9, totalAmount: 180 });
+      expect(createCall.items[0]).toMatchObject({ currency: 'EUR', unitPrice: 90 });
+    });
+
+    it("should default to the user's preferred currency", async () => {
+      mockUserRepository.findOne.mockResolvedValue({ ...mockUser, preferredCurrency: 'GBP' });
+      mockProductRepository.find.mockResolvedValue([mockProduct]);
+      mockOrderRepository.create.mockImplementation((order) => order);
+      mockOrderRepository.save.mockImplementation((order) => order);
+
+      await service.createOrder(createOrderParams, mockReq);
+
+      expect(mockCurrencyService.rateFor).toHaveBeenCalledWith('GBP');
+      expect(mockOrderRepository.create.mock.calls[0][0].currency).toBe('GBP');
+    });
+
+    it('should not save the order when there is no rate for the currency', async () => {
+      mockUserRepository.findOne.mockResolvedValue(mockUser);
+      mockProductRepository.find.mockResolvedValue([mockProduct]);
+      mockCurrencyService.rateFor.mockRejectedValueOnce(
+        new HttpException('No exchange rate for CHF', HttpStatus.BAD_REQUEST),
+      );
+
+      await expect(
+        service.createOrder({ ...createOrderParams, currency: 'CHF' }, mockReq),
+      ).rejects.toThrow(new HttpException('No exchange rate for CHF', HttpStatus.BAD_REQUEST));
+      expect(mockOrderRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should price and reserve a variant line at the variant', async () => {
+      const variant = { id: 7, sku: 'TP-RED-M', price: 120, product: mockProduct };
+      mockUserRepository.findOne.mockResolvedValue(mockUser);
+      mockProductRepository.find.mockResolvedValue([mockProduct]);
+      mockVariantRepository.find.mockResolvedValueOnce([variant]);
+      mockOrderRepository.create.mockImplementation((order) => order);
+      mockOrderRepository.save.mockImplementation((order) => order);
+
+      await service.createOrder(
+        { ...createOrderParams, items: [{ productId: 1, variantId: 7, quantity: 2 }] },
+        mockReq,
+      );
+
+      const createCall = mockOrderRepository.create.mock.calls[0][0];
+      expect(createCall.items[0]).toMatchObject({ variant, sku: 'TP-RED-M', unitPrice: 120 });
+      expect(createCall.totalAmount).toBe(240);
+      expect(mockInventoryService.reserve).toHaveBeenCalledWith(mockEntityManager, [
+        { productId: 1, variantId: 7, quantity: 2 },
+      ]);
+    });
+
+    it('should require a variant for a product sold in variants', async () => {
+      mockUserRepository.findOne.mockResolvedValue(mockUser);
+      mockProductRepository.find.mockResolvedValue([mockProduct]);
+      mockVariantRepository.find.mockResolvedValueOnce([
+        { id: 7, sku: 'TP-RED-M', price: null, product: mockProduct },
+      ]);
+
+      await expect(service.createOrder(createOrderParams, mockReq)).rejects.toThrow(
+        new HttpException('Choose a variant of Test Product', HttpStatus.BAD_REQUEST),
+      );
+      expect(mockOrderRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject a variant of another product', async () => {
+      mockUserRepository.findOne.mockResolvedValue(mockUser);
+      mockProductRepository.find.mockResolvedValue([mockProduct]);
+
+      await expect(
+        service.createOrder(
+          { ...createOrderParams, items: [{ productId: 1, variantId: 9, quantity: 1 }] },
+          mockReq,
+        ),
+      ).rejects.toThrow(
+        new HttpException('Variant 9 is not available for Test Product', HttpStatus.BAD_REQUEST),
+      );
+    });
+
+    it('should reserve stock for the order items inside the transaction', async () => {
+      mockUserRepository.findOne.mockResolvedValue(mockUser);
+      mockProductRepository.find.mockResolvedValue([mockProduct]);
+      mockOrderRepository.create.mockReturnValue(mockOrder);
+      mockOrderRepository.save.mockResolvedValue(mockOrder);
+
+      await service.createOrder(createOrderParams, mockReq);
+
+      expect(mockOrderRepository.manager.transaction).toHaveBeenCalledTimes(1);
+      expect(mockInventoryService.reserve).toHaveBeenCalledWith(mockEntityManager, [
+        { productId: 1, quantity: 2 },
+      ]);
+    });
+
+    it('should apply the coupon inside the same transaction before reserving stock', async () => {
+      mockUserRepository.findOne.mockResolvedValue(mockUser);
+      mockProductRepository.find.mockResolvedValue([mockProduct]);
+      mockOrderRepository.create.mockReturnValue(mockOrder);
+      mockOrderRepository.save.mockResolvedValue(mockOrder);
+
+      await service.createOrder({ ...createOrderParams, couponCode: 'SAVE10' }, mockReq);
+
+      expect(mockCouponsService.applyToOrder).toHaveBeenCalledWith(
+        mockEntityManager,
+        'SAVE10',
+        mockOrder,
+      );
+      expect(mockCouponsService.applyToOrder.mock.invocationCallOrder[0]).toBeLessThan(
+        mockInventoryService.reserve.mock.invocationCallOrder[0],
+      );
+    });
+
+    it('should work out tax after the coupon discount', async () => {
+      mockUserRepository.findOne.mockResolvedValue(mockUser);
+      mockProductRepository.find.mockResolvedValue([mockProduct]);
+      mockOrderRepository.create.mockReturnValue(mockOrder);
+      mockOrderRepository.save.mockResolvedValue(mockOrder);
+
+      await service.createOrder({ ...createOrderParams, couponCode: 'SAVE10' }, mockReq);
+
+      expect(mockTaxService.applyToOrder).toHaveBeenCalledWith(mockEntityManager, mockOrder);
+      expect(mockCouponsService.applyToOrder.mock.invocationCallOrder[0]).toBeLessThan(
+        mockTaxService.applyToOrder.mock.invocationCallOrder[0],
+      );
+    });
+
+    it('should price the chosen shipping method after the coupon and before tax', async () => {
+      mockUserRepository.findOne.mockResolvedValue(mockUser);
+      mockProductRepository.find.mockResolvedValue([mockProduct]);
+      mockOrderRepository.create.mockReturnValue(mockOrder);
+      mockOrderRepository.save.mockResolvedValue(mockOrder);
+
+      await service.createOrder(
+        { ...createOrderParams, couponCode: 'SAVE10', shippingMethodId: 3 },
+        mockReq,
+      );
+
+      expect(mockShippingService.applyToOrder).toHaveBeenCalledWith(
+        mockEntityManager,
+        mockOrder,
+        3,
+      );
+      const shippingCall = mockShippingService.applyToOrder.mock.invocationCallOrder[0];
+      expect(mockCouponsService.applyToOrder.mock.invocationCallOrder[0]).toBeLessThan(shippingCall);
+      expect(shippingCall).toBeLessThan(mockTaxService.applyToOrder.mock.invocationCallOrder[0]);
+    });
+
+    it('should not save the order when the shipping method is unavailable', async () => {
+      mockUserRepository.findOne.mockResolvedValue(mockUser);
+      mockProductRepository.find.mockResolvedValue([mockProduct]);
+      mockOrderRepository.create.mockReturnValue(mockOrder);
+      mockShippingService.applyToOrder.mockRejectedValueOnce(
+        new HttpException('Shipping method is required', HttpStatus.BAD_REQUEST),
+      );
+
+      await expect(service.createOrder(createOrderParams, mockReq)).rejects.toThrow(
+        new HttpException('Shipping method is required', HttpStatus.BAD_REQUEST),
+      );
+      expect(mockOrderRepository.save).not.toHaveBeenCalled();
+      expect(mockInventoryService.reserve).not.toHaveBeenCalled();
+    });
+
+    it('should not save the order when the coupon is rejected', async () => {
+      mockUserRepository.findOne.mockResolvedValue(mockUser);
+      mockProductRepository.find.mockResolvedValue([mockProduct]);
+      mockOrderRepository.create.mockReturnValue(mockOrder);
+      mockCouponsService.applyToOrder.mockRejectedValueOnce(
+        new HttpException('Coupon has expired', HttpStatus.BAD_REQUEST),
+      );
+
+      await expect(
+        service.createOrder({ ...createOrderParams, couponCode: 'OLD' }, mockReq),
+      ).rejects.toThrow(new HttpException('Coupon has expired', HttpStatus.BAD_REQUEST));
+      expect(mockOrderRepository.save).not.toHaveBeenCalled();
+      expect(mockInventoryService.reserve).not.toHaveBeenCalled();
+    });
+
+    it('should record the initial PENDING status in the history', async () => {
+      mockUserRepository.findOne.mockResolvedValue(mockUser);
+      mockProductRepository.find.mockResolvedValue([mockProduct]);
+      mockOrderRepository.create.mockReturnValue(mockOrder);
+      mockOrderRepository.save.mockResolvedValue(mockOrder);
+
+      await service.createOrder(createOrderParams, mockReq);
+
+      expect(mockStatusHistoryRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          order: { id: mockOrder.id },
+          fromStatus: null,
+          toStatus: 'PENDING',
+          actor: 'admin',
+          actorId: 1,
+        }),
+      );
+    });
+
+    it('should propagate CONFLICT from stock reservation and not save the order', async () => {
+      mockUserRepository.findOne.mockResolvedValue(mockUser);
+      mockProductRepository.find.mockResolvedValue([mockProduct]);
+      mockOrderRepository.create.mockReturnValue(mockOrder);
+      mockInventoryService.reserve.mockRejectedValueOnce(
+        new HttpException(
+          { message: 'Insufficient stock for product(s): 1', productIds: [1] },
+          HttpStatus.CONFLICT,
+        ),
+      );
+
+      await expect(service.createOrder(createOrderParams, mockReq)).rejects.toMatchObject({
+        status: HttpStatus.CONFLICT,
+      });
+      expect(mockOrderRepository.save).not.toHaveBeenCalled();
+    });
+
     it('should propagate database save errors', async () => {
       mockUserRepository.findOne.mockResolvedValue(mockUser);
       mockProductRepository.find.mockResolvedValue([mockProduct]);
@@ -391,10 +953,163 @@ describe('OrdersService', () => {
     });
   });
 
+  describe('guest orders', () => {
+    const shippingAddress = {
+      fullName: 'Guest Buyer',
+      line1: '1 Main St',
+      city: 'Springfield',
+      postalCode: '12345',
+      country: 'us',
+    };
+
+    const guestOrder = () => ({
+      ...pendingOrder(),
+      id: 9,
+      user: null,
+      guestEmail: 'guest@test.com',
+    });
+
+    beforeEach(() => {
+      process.env.JWT_SECRET = 'test_jwt_secret_for_order_lookup_links';
+      process.env.NEXT_PUBLIC_BASE_URL = 'http://localhost:3000';
+    });
+
+    describe('createGuestOrder', () => {
+      it('should create a PENDING order without a user and snapshot the address', async () => {
+        mockProductRepository.find.mockResolvedValue([mockProduct]);
+        mockOrderRepository.create.mockImplementation((order) => order);
+        mockOrderRepository.save.mockImplementation((order) => ({ id: 9, ...order }));
+
+        const result = await service.createGuestOrder({
+          email: ' Guest@Test.com ',
+          items: [{ productId: 1, quantity: 2 }],
+          shippingAddress,
+        });
+
+        expect(result.order).toMatchObject({
+          id: 9,
+          user: null,
+          guestEmail: 'guest@test.com',
+          totalAmount: 200,
+          status: 'PENDING',
+          shippingAddress: {
+            fullName: 'Guest Buyer',
+            line1: '1 Main St',
+            line2: null,
+            country: 'US',
+          },
+          billingAddress: { line1: '1 Main St', country: 'US' },
+        });
+        expect(mockInventoryService.reserve).toHaveBeenCalledWith(mockEntityManager, [
+          { productId: 1, quantity: 2 },
+        ]);
+        expect(mockStatusHistoryRepository.save).toHaveBeenCalledWith(
+          expect.objectContaining({ toStatus: 'PENDING', actor: 'guest', actorId: null }),
+        );
+        mockOrderRepository.create.mockReset();
+        mockOrderRepository.save.mockReset();
+      });
+
+      it('should throw BAD_REQUEST without items', async () => {
+        await expect(
+          service.createGuestOrder({ email: 'guest@test.com', items: [], shippingAddress }),
+        ).rejects.toThrow(new HttpException('Order has no items', HttpStatus.BAD_REQUEST));
+      });
+
+      it('should throw BAD_REQUEST without an email', async () => {
+        await expect(
+          service.createGuestOrder({
+            email: '  ',
+            items: [{ productId: 1, quantity: 1 }],
+            shippingAddress,
+          }),
+        ).rejects.toThrow(new HttpException('Invalid email', HttpStatus.BAD_REQUEST));
+      });
+    });
+
+    describe('sendGuestOrderLink', () => {
+      it('should email a signed lookup link', async () => {
+        await service.sendGuestOrderLink(guestOrder() as any);
+
+        expect(mockMailService.send).toHaveBeenCalledWith({
+          to: 'guest@test.com',
+          subject: 'Your order #9',
+          text: expect.stringContaining(
+            'http://localhost:3000/orders/lookup?orderId=9&token=',
+          ),
+        });
+      });
+
+      it('should swallow mail errors', async () => {
+        mockMailService.send.mockRejectedValueOnce(new Error('smtp down'));
+        jest.spyOn((service as any).logger, 'error').mockImplementation();
+
+        await expect(service.sendGuestOrderLink(guestOrder() as any)).resolves.toBeUndefined();
+      });
+
+      it('should not send anything for account orders', async () => {
+        await service.sendGuestOrderLink(pendingOrder() as any);
+
+        expect(mockMailService.send).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('getGuestOrder', () => {
+      it('should return the order without the user for a valid token', async () => {
+        mockOrderRepository.findOne.mockResolvedValueOnce({ ...guestOrder(), user: mockUser });
+        const token = signOrderLookupToken(9, 'guest@test.com');
+
+        const result = await service.getGuestOrder(9, token);
+
+        expect(result.message).toBe('Order retrieved successfully');
+        expect(result.order.id).toBe(9);
+        expect(result.order).not.toHaveProperty('user');
+      });
+
+      it('should throw FORBIDDEN for a token of another order', async () => {
+        mockOrderRepository.findOne.mockResolvedValueOnce(guestOrder());
+        const token = signOrderLookupToken(10, 'guest@test.com');
+
+        await expect(service.getGuestOrder(9, token)).rejects.toThrow(
+          new HttpException('Invalid or expired order link', HttpStatus.FORBIDDEN),
+        );
+      });
+
+      it('should throw NOT_FOUND for orders placed with an account', async () => {
+        mockOrderRepository.findOne.mockResolvedValueOnce(pendingOrder());
+
+        await expect(service.getGuestOrder(1, 'whatever')).rejects.toMatchObject({
+          status: HttpStatus.NOT_FOUND,
+        });
+      });
+    });
+
+    describe('claimGuestOrders', () => {
+      it('should attach unclaimed guest orders with the same email to the user', async () => {
+        const queryBuilder = {
+          update: jest.fn().mockReturnThis(),
+          set: jest.fn().mockReturnThis(),
+          where: jest.fn().mockReturnThis(),
+          execute: jest.fn().mockResolvedValue({ affected: 2 }),
+        };
+        (mockOrderRepository as any).createQueryBuilder = jest.fn(() => queryBuilder);
+
+        const claimed = await service.claimGuestOrders(5, 'Guest@Test.com');
+
+        expect(claimed).toBe(2);
+        expect(queryBuilder.set).toHaveBeenCalledWith({ user: { id: 5 } });
+        expect(queryBuilder.where).toHaveBeenCalledWith(
+          'guestEmail = :email AND userId IS NULL',
+          { email: 'guest@test.com' },
+        );
+      });
+    });
+  });
+
   describe('updateOrder', () => {
     const updateOrderParams = {
       name: 'Updated Order',
-      status: 'COMPLETED' as 'PENDING' | 'COMPLETED' | 'CANCELED',
+      status: 'PAID' as OrderStatus,
       totalAmount: 300,
     };
 
@@ -461,7 +1176,7 @@ describe('OrdersService', () => {
 
     it('should update only status when provided', async () => {
       const updatedOrder = { ...mockOrder, status: 'CANCELED' };
-      mockOrderRepository.findOne.mockResolvedValue(mockOrder);
+      mockOrderRepository.findOne.mockResolvedValue(pendingOrder());
       mockOrderRepository.save.mockResolvedValue(updatedOrder);
 
       await service.updateOrder(1, { status: 'CANCELED' }, mockReq);
@@ -481,6 +1196,315 @@ describe('OrdersService', () => {
       expect(savedOrder.totalAmount).toBe(500);
     });
 
+    it('should release reserved stock when a PENDING order is canceled', async () => {
+      mockOrderRepository.findOne.mockResolvedValue(pendingOrder());
+      mockOrderRepository.save.mockImplementation((order) => order);
+
+      await service.updateOrder(1, { status: 'CANCELED' }, mockReq);
+
+      expect(mockInventoryService.release).toHaveBeenCalledWith(mockEntityManager, [
+        { productId: 1, quantity: 2 },
+      ]);
+      expect(mockInventoryService.commit).not.toHaveBeenCalled();
+    });
+
+    it('should not touch stock when status is unchanged', async () => {
+      mockOrderRepository.findOne.mockResolvedValue(pendingOrder());
+      mockOrderRepository.save.mockImplementation((order) => order);
+
+      await service.updateOrder(1, { name: 'Renamed' }, mockReq);
+
+      expect(mockInventoryService.release).not.toHaveBeenCalled();
+      expect(mockInventoryService.commit).not.toHaveBeenCalled();
+    });
+
+    it('should commit reserved stock when an admin marks a PENDING order PAID', async () => {
+      mockOrderRepository.findOne.mockResolvedValue(pendingOrder());
+      mockOrderRepository.save.mockImplementation((order) => order);
+
+      await service.updateOrder(1, { status: 'PAID' }, mockReq);
+
+      expect(mockInventoryService.commit).toHaveBeenCalledWith(mockEntityManager, [
+        { productId: 1, quantity: 2 },
+      ]);
+      expect(mockOrderRepository.save.mock.calls[0][0].status).toBe('PAID');
+    });
+
+    it('should record the transition with actor and reason', async () => {
+      const userReq: any = { user: { userId: 1, role: 'user' } };
+      mockOrderRepository.findOne.mockResolvedValue(pendingOrder());
+      mockOrderRepository.save.mockImplementation((order) => order);
+
+      await service.updateOrder(
+        1,
+        { status: 'CANCELED', statusReason: 'Changed my mind' },
+        userReq,
+      );
+
+      expect(mockStatusHistoryRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          fromStatus: 'PENDING',
+          toStatus: 'CANCELED',
+          actor: 'user',
+          actorId: 1,
+          reason: 'Changed my mind',
+        }),
+      );
+    });
+
+    it('should not record history when status is not changed', async () => {
+      mockOrderRepository.findOne.mockResolvedValue(pendingOrder());
+      mockOrderRepository.save.mockImplementation((order) => order);
+
+      await service.updateOrder(1, { name: 'Renamed' }, mockReq);
+
+      expect(mockStatusHistoryRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should throw CONFLICT for an illegal status jump', async () => {
+      mockOrderRepository.findOne.mockResolvedValue(pendingOrder());
+
+      await expect(
+        service.updateOrder(1, { status: 'SHIPPED' }, mockReq),
+      ).rejects.toThrow(
+        new HttpException(
+          'Cannot change order status from PENDING to SHIPPED',
+          HttpStatus.CONFLICT,
+        ),
+      );
+      expect(mockOrderRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should treat re-sending the current status as a no-op', async () => {
+      mockOrderRepository.findOne.mockResolvedValue({ ...mockOrder, status: 'SHIPPED' });
+      mockOrderRepository.save.mockImplementation((order) => order);
+
+      await service.updateOrder(1, { status: 'SHIPPED' }, mockReq);
+
+      expect(mockOrderRepository.save.mock.calls[0][0].status).toBe('SHIPPED');
+    });
+
+    it('should forbid non-admin users from setting statuses other than CANCELED', async () => {
+      const userReq: any = { user: { userId: 1, role: 'user' } };
+      mockOrderRepository.findOne.mockResolvedValue(pendingOrder());
+
+      await expect(
+        service.updateOrder(1, { status: 'PAID' }, userReq),
+      ).rejects.toThrow(
+        new HttpException('Users can only cancel pending orders', HttpStatus.FORBIDDEN),
+      );
+    });
+
+    it('should reject a user canceling an already paid order with CONFLICT', async () => {
+      const userReq: any = { user: { userId: 1, role: 'user' } };
+      mockOrderRepository.findOne.mockResolvedValue({ ...mockOrder, status: 'PAID' });
+
+      await expect(
+        service.updateOrder(1, { status: 'CANCELED' }, userReq),
+      ).rejects.toMatchObject({ status: HttpStatus.CONFLICT });
+      expect(mockInventoryService.release).not.toHaveBeenCalled();
+    });
+
+    describe('editing items', () => {
+      const secondProduct = { id: 2, name: 'Second Product', price: 30 };
+
+      it('should replace items, re-lock prices and recompute the total', async () => {
+        const order = {
+          ...pendingOrder(),
+          items: [{ id: 10, product: { ...mockProduct }, quantity: 2, unitPrice: 80 }],
+        };
+        mockOrderRepository.findOne.mockResolvedValue(order);
+        mockProductRepository.find.mockResolvedValue([mockProduct, secondProduct]);
+        mockOrderRepository.save.mockImplementation((o) => o);
+
+        await service.updateOrder(
+          1,
+          {
+            items: [
+              { productId: 1, quantity: 3 },
+              { productId: 2, quantity: 1 },
+            ],
+          },
+          mockReq,
+        );
+
+        const saved = mockOrderRepository.save.mock.calls[0][0];
+        expect(saved.items).toHaveLength(2);
+        expect(saved.items[0]).toMatchObject({ id: 10, quantity: 3, unitPrice: 100 });
+        expect(saved.items[1]).toMatchObject({ product: secondProduct, quantity: 1, unitPrice: 30 });
+        expect(saved.totalAmount).toBe(330);
+      });
+
+      it("should re-price new items at the order's locked rate", async () => {
+        const order = { ...pendingOrder(), currency: 'EUR', exchangeRate: '0.85000000' };
+        mockOrderRepository.findOne.mockResolvedValue(order);
+        mockProductRepository.find.mockResolvedValue([secondProduct]);
+        mockCurrencyService.priceProducts.mockResolvedValueOnce(new Map([[2, 26]]));
+        mockOrderRepository.save.mockImplementation((o) => o);
+
+        await service.updateOrder(1, { items: [{ productId: 2, quantity: 2 }] }, mockReq);
+
+        expect(mockCurrencyService.rateFor).not.toHaveBeenCalled();
+        expect(mockCurrencyService.priceProducts).toHaveBeenCalledWith([secondProduct], 'EUR', 0.85);
+        const saved = mockOrderRepository.save.mock.calls[0][0];
+        expect(saved.items[0]).toMatchObject({ unitPrice: 26, currency: 'EUR' });
+        expect(saved.totalAmount).toBe(52);
+      });
+
+      it('should spread the order coupon discount over the new items', async () => {
+        const order = { ...pendingOrder(), id: 1, couponCode: 'SAVE10' };
+        mockOrderRepository.findOne.mockResolvedValue(order);
+        mockProductRepository.find.mockResolvedValue([secondProduct]);
+        mockOrderRepository.save.mockImplementation((o) => o);
+
+        await service.updateOrder(1, { items: [{ productId: 2, quantity: 4 }] }, mockReq);
+
+        expect(mockCouponsService.reallocateOnOrder).toHaveBeenCalledWith(mockEntityManager, order);
+        expect(mockCouponsService.reallocateOnOrder.mock.invocationCallOrder[0]).toBeLessThan(
+          mockTaxService.applyToOrder.mock.invocationCallOrder[0],
+        );
+        expect(mockTaxService.applyToOrder).toHaveBeenCalledWith(mockEntityManager, order);
+      });
+
+      it('should still edit an order whose coupon has expired since it was placed', async () => {
+        const order = {
+          ...pendingOrder(),
+          id: 1,
+          coupon: { id: 4 },
+          couponCode: 'SUMMER',
+          discountAmount: 500,
+        };
+        mockOrderRepository.findOne.mockResolvedValue(order);
+        mockProductRepository.find.mockResolvedValue([secondProduct]);
+        mockOrderRepository.save.mockImplementation((o) => o);
+
+        const result = await service.updateOrder(
+          1,
+          { items: [{ productId: 2, quantity: 4 }] },
+          mockReq,
+        );
+
+        expect(result).toEqual({ message: 'Order updated successfully!' });
+        expect(mockCouponsService.applyToOrder).not.toHaveBeenCalled();
+        expect(mockOrderRepository.findOne).toHaveBeenCalledWith(
+          expect.objectContaining({
+            relations: expect.arrayContaining(['coupon']),
+          }),
+        );
+        expect(mockOrderRepository.save).toHaveBeenCalledWith(
+          expect.objectContaining({ couponCode: 'SUMMER' }),
+        );
+      });
+
+      it('should re-price the order shipping method for the new items', async () => {
+        const order = { ...pendingOrder(), id: 1, shippingMethod: { id: 3 } };
+        mockOrderRepository.findOne.mockResolvedValue(order);
+        mockProductRepository.find.mockResolvedValue([secondProduct]);
+        mockOrderRepository.save.mockImplementation((o) => o);
+
+        await service.updateOrder(1, { items: [{ productId: 2, quantity: 4 }] }, mockReq);
+
+        expect(mockShippingService.applyToOrder).toHaveBeenCalledWith(mockEntityManager, order, 3);
+        expect(mockShippingService.applyToOrder.mock.invocationCallOrder[0]).toBeLessThan(
+          mockTaxService.applyToOrder.mock.invocationCallOrder[0],
+        );
+      });
+
+      it('should leave shipping alone for orders without a shipping method', async () => {
+        mockOrderRepository.findOne.mockResolvedValue(pendingOrder());
+        mockProductRepository.find.mockResolvedValue([secondProduct]);
+        mockOrderRepository.save.mockImplementation((o) => o);
+
+        await service.updateOrder(1, { items: [{ productId: 2, quantity: 4 }] }, mockReq);
+
+        expect(mockShippingService.applyToOrder).not.toHaveBeenCalled();
+      });
+
+      it('should swap the stock reservation from old to new items', async () => {
+        mockOrderRepository.findOne.mockResolvedValue(pendingOrder());
+        mockProductRepository.find.mockResolvedValue([secondProduct]);
+        mockOrderRepository.save.mockImplementation((o) => o);
+
+        await service.updateOrder(1, { items: [{ productId: 2, quantity: 4 }] }, mockReq);
+
+        expect(mockInventoryService.release).toHaveBeenCalledWith(mockEntityManager, [
+          { productId: 1, quantity: 2 },
+        ]);
+        expect(mockInventoryService.reserve).toHaveBeenCalledWith(mockEntityManager, [
+          { productId: 2, quantity: 4 },
+        ]);
+      });
+
+      it('should merge duplicate product lines', async () => {
+        mockOrderRepository.findOne.mockResolvedValue(pendingOrder());
+        mockProductRepository.find.mockResolvedValue([mockProduct]);
+        mockOrderRepository.save.mockImplementation((o) => o);
+
+        await service.updateOrder(
+          1,
+          {
+            items: [
+              { productId: 1, quantity: 1 },
+              { productId: 1, quantity: 2 },
+            ],
+          },
+          mockReq,
+        );
+
+        const saved = mockOrderRepository.save.mock.calls[0][0];
+        expect(saved.items).toHaveLength(1);
+        expect(saved.items[0].quantity).toBe(3);
+      });
+
+      it('should refuse edits on non-PENDING orders', async () => {
+        mockOrderRepository.findOne.mockResolvedValue({ ...mockOrder, status: 'PAID' });
+
+        await expect(
+          service.updateOrder(1, { items: [{ productId: 1, quantity: 1 }] }, mockReq),
+        ).rejects.toThrow(
+          new HttpException('Only pending orders can be edited', HttpStatus.CONFLICT),
+        );
+      });
+
+      it('should refuse edits once a checkout session exists', async () => {
+        mockOrderRepository.findOne.mockResolvedValue({
+          ...pendingOrder(),
+          checkoutSessionId: 'cs_test_123',
+        });
+
+        await expect(
+          service.updateOrder(1, { items: [{ productId: 1, quantity: 1 }] }, mockReq),
+        ).rejects.toThrow(
+          new HttpException(
+            'Order items cannot be changed once checkout has started',
+            HttpStatus.CONFLICT,
+          ),
+        );
+        expect(mockProductRepository.find).not.toHaveBeenCalled();
+      });
+
+      it('should reject totalAmount sent together with items', async () => {
+        mockOrderRepository.findOne.mockResolvedValue(pendingOrder());
+
+        await expect(
+          service.updateOrder(
+            1,
+            { items: [{ productId: 1, quantity: 1 }], totalAmount: 1 },
+            mockReq,
+          ),
+        ).rejects.toMatchObject({ status: HttpStatus.BAD_REQUEST });
+      });
+
+      it('should throw NOT_FOUND when a product does not exist', async () => {
+        mockOrderRepository.findOne.mockResolvedValue(pendingOrder());
+        mockProductRepository.find.mockResolvedValue([]);
+
+        await expect(
+          service.updateOrder(1, { items: [{ productId: 99, quantity: 1 }] }, mockReq),
+        ).rejects.toThrow('One or more products not found');
+      });
+    });
+
     it('should update user when userId is provided', async () => {
       const newUser = { ...mockUser, id: 2, name: 'New User' };
       mockOrderRepository.findOne.mockResolvedValue(mockOrder);
@@ -547,6 +1571,226 @@ describe('OrdersService', () => {
     });
   });
 
+  describe('completeOrderFromWebhook', () => {
+    it('should mark a PENDING order PAID and commit its stock', async () => {
+      mockOrderRepository.findOne.mockResolvedValue(pendingOrder());
+      mockOrderRepository.save.mockImplementation((order) => order);
+
+      // totalAmount is already in minor units
+      const result = await service.completeOrderFromWebhook(1, 200);
+
+      expect(result).toEqual({ received: true });
+      expect(mockInventoryService.commit).toHaveBeenCalledWith(mockEntityManager, [
+        { productId: 1, quantity: 2 },
+      ]);
+      expect(mockOrderRepository.save.mock.calls[0][0].status).toBe('PAID');
+    });
+
+    it('should record the webhook as the actor', async () => {
+      mockOrderRepository.findOne.mockResolvedValue(pendingOrder());
+      mockOrderRepository.save.mockImplementation((order) => order);
+
+      await service.completeOrderFromWebhook(1);
+
+      expect(mockStatusHistoryRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          fromStatus: 'PENDING',
+          toStatus: 'PAID',
+          actor: 'stripe-webhook',
+          actorId: null,
+        }),
+      );
+    });
+
+    it('should ignore orders that are no longer PENDING', async () => {
+      mockOrderRepository.findOne.mockResolvedValue({ ...mockOrder, status: 'PAID' });
+
+      const result = await service.completeOrderFromWebhook(1);
+
+      expect(result).toEqual({ received: true, ignored: true });
+      expect(mockInventoryService.commit).not.toHaveBeenCalled();
+      expect(mockOrderRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject a total mismatch before touching stock', async () => {
+      mockOrderRepository.findOne.mockResolvedValue(pendingOrder());
+
+      await expect(service.completeOrderFromWebhook(1, 1)).rejects.toThrow(
+        'Webhook total mismatch',
+      );
+      expect(mockInventoryService.commit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelOrderFromWebhook', () => {
+    it('should cancel a PENDING order and release its stock', async () => {
+      mockOrderRepository.findOne.mockResolvedValue(pendingOrder());
+      mockOrderRepository.save.mockImplementation((order) => order);
+
+      const result = await service.cancelOrderFromWebhook(1, 'checkout.session.expired');
+
+      expect(result).toEqual({ received: true });
+      expect(mockInventoryService.release).toHaveBeenCalled();
+      expect(mockStatusHistoryRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          toStatus: 'CANCELED',
+          actor: 'stripe-webhook',
+          reason: 'checkout.session.expired',
+        }),
+      );
+    });
+
+    it('should ignore orders that were already paid', async () => {
+      mockOrderRepository.findOne.mockResolvedValue({ ...mockOrder, status: 'PAID' });
+
+      const result = await service.cancelOrderFromWebhook(1, 'checkout.session.expired');
+
+      expect(result).toEqual({ received: true, ignored: true });
+      expect(mockInventoryService.release).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelPendingOrder', () => {
+    it('should cancel with the given actor and reason', async () => {
+      mockOrderRepository.findOne.mockResolvedValue(pendingOrder());
+      mockOrderRepository.save.mockImplementation((order) => order);
+
+      const result = await service.cancelPendingOrder(1, {
+        actor: 'guest',
+        reason: 'Payment session could not be created: timeout',
+      });
+
+      expect(result).toEqual({ received: true });
+      expect(mockInventoryService.release).toHaveBeenCalled();
+      expect(mockStatusHistoryRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          fromStatus: 'PENDING',
+          toStatus: 'CANCELED',
+          actor: 'guest',
+          reason: 'Payment session could not be created: timeout',
+        }),
+      );
+    });
+  });
+
+  describe('recordPaymentFailureFromWebhook', () => {
+    it('should store the failure message on the order', async () => {
+      mockOrderRepository.findOne.mockResolvedValue(pendingOrder());
+      mockOrderRepository.save.mockImplementation((order) => order);
+
+      await service.recordPaymentFailureFromWebhook(
+        { orderId: 1, paymentIntentId: 'pi_1' },
+        'Your card was declined.',
+      );
+
+      const saved = mockOrderRepository.save.mock.calls[0][0];
+      expect(saved.lastPaymentError).toBe('Your card was declined.');
+      expect(saved.paymentIntentId).toBe('pi_1');
+      expect(saved.status).toBe('PENDING');
+    });
+
+    it('should ignore events for unknown orders', async () => {
+      mockOrderRepository.findOne.mockResolvedValue(null);
+
+      const result = await service.recordPaymentFailureFromWebhook(
+        { paymentIntentId: 'pi_unknown' },
+        'declined',
+      );
+
+      expect(result).toEqual({ received: true, ignored: true });
+      expect(mockOrderRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('applyRefundFromWebhook', () => {
+    const paidOrder = () => ({ ...pendingOrder(), status: 'PAID', amountRefundedCents: 0 });
+
+    it('should mark the order REFUNDED on a full refund', async () => {
+      mockOrderRepository.findOne.mockResolvedValue(paidOrder());
+      mockOrderRepository.save.mockImplementation((order) => order);
+
+      await service.applyRefundFromWebhook({ orderId: 1 }, 20000, true);
+
+      const saved = mockOrderRepository.save.mock.calls[0][0];
+      expect(saved.status).toBe('REFUNDED');
+      expect(saved.amountRefundedCents).toBe(20000);
+    });
+
+    it('should mark the order PARTIALLY_REFUNDED and look it up by payment intent', async () => {
+      mockOrderRepository.findOne.mockResolvedValue(paidOrder());
+      mockOrderRepository.save.mockImplementation((order) => order);
+
+      await service.applyRefundFromWebhook({ paymentIntentId: 'pi_1' }, 5000, false);
+
+      expect(mockOrderRepository.findOne).toHaveBeenCalledWith({
+        where: { paymentIntentId: 'pi_1' },
+        relations: ['user', 'items', 'items.product'],
+      });
+      expect(mockOrderRepository.save.mock.calls[0][0].status).toBe('PARTIALLY_REFUNDED');
+    });
+
+    it('should ignore a refund amount that was already applied', async () => {
+      mockOrderRepository.findOne.mockResolvedValue({
+        ...paidOrder(),
+        status: 'PARTIALLY_REFUNDED',
+        amountRefundedCents: 5000,
+      });
+
+      const result = await service.applyRefundFromWebhook({ orderId: 1 }, 5000, false);
+
+      expect(result).toEqual({ received: true, ignored: true });
+      expect(mockOrderRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should record a refund on an order that is still PENDING without moving it', async () => {
+      mockOrderRepository.findOne.mockResolvedValue(pendingOrder());
+      mockOrderRepository.save.mockImplementation((order) => order);
+      jest.spyOn((service as any).logger, 'warn').mockImplementation();
+
+      const result = await service.applyRefundFromWebhook({ orderId: 1 }, 5000, true);
+
+      expect(result).toEqual({ received: true });
+      const saved = mockOrderRepository.save.mock.calls[0][0];
+      expect(saved.status).toBe('PENDING');
+      expect(saved.amountRefundedCents).toBe(5000);
+      expect(mockStatusHistoryRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          fromStatus: 'PENDING',
+          toStatus: 'PENDING',
+          actor: 'stripe-webhook',
+          reason: 'charge.refunded: 0 -> 5000 cents (status left at PENDING)',
+        }),
+      );
+      expect(mockInventoryService.release).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordDisputeFromWebhook', () => {
+    it('should store the dispute status and reason', async () => {
+      mockOrderRepository.findOne.mockResolvedValue({ ...mockOrder, status: 'PAID' });
+      mockOrderRepository.save.mockImplementation((order) => order);
+
+      await service.recordDisputeFromWebhook(
+        { paymentIntentId: 'pi_1' },
+        { status: 'needs_response', reason: 'fraudulent' },
+      );
+
+      const saved = mockOrderRepository.save.mock.calls[0][0];
+      expect(saved.disputeStatus).toBe('needs_response');
+      expect(saved.disputeReason).toBe('fraudulent');
+    });
+  });
+
+  describe('attachCheckoutSession', () => {
+    it('should store the checkout session id on the order', async () => {
+      await service.attachCheckoutSession(1, 'cs_test_123');
+
+      expect(mockOrderRepository.update).toHaveBeenCalledWith(1, {
+        checkoutSessionId: 'cs_test_123',
+      });
+    });
+  });
+
   describe('deleteOrder', () => {
     it('should delete an order successfully', async () => {
       mockOrderRepository.findOne.mockResolvedValue(mockOrder);
@@ -560,6 +1804,26 @@ describe('OrdersService', () => {
       expect(mockOrderRepository.remove).toHaveBeenCalledWith(mockOrder);
     });
 
+    it('should release reserved stock when deleting a PENDING order', async () => {
+      mockOrderRepository.findOne.mockResolvedValue(pendingOrder());
+      mockOrderRepository.remove.mockResolvedValue(mockOrder);
+
+      await service.deleteOrder(1, mockReq);
+
+      expect(mockInventoryService.release).toHaveBeenCalledWith(mockEntityManager, [
+        { productId: 1, quantity: 2 },
+      ]);
+    });
+
+    it('should not release stock when deleting a PAID order', async () => {
+      mockOrderRepository.findOne.mockResolvedValue({ ...mockOrder, status: 'PAID' });
+      mockOrderRepository.remove.mockResolvedValue(mockOrder);
+
+      await service.deleteOrder(1, mockReq);
+
+      expect(mockInventoryService.release).not.toHaveBeenCalled();
+    });
+
     it('should throw BAD_REQUEST for invalid order ID (zero)', async () => {
       await expect(service.deleteOrder(0, mockReq)).rejects.toThrow(
         new HttpException('Invalid Order ID', HttpStatus.BAD_REQUEST),
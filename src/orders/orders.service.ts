@@ -1,12 +1,71 @@
 import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Request } from 'express';
+import { Readable } from 'stream';
 import { Order } from 'src/typeorm/entities/Order';
 import { Product } from 'src/typeorm/entities/Product';
+import { ProductVariant } from 'src/typeorm/entities/ProductVariant';
 import { User } from 'src/typeorm/entities/User';
-import { In, Repository } from 'typeorm';
+import {
+  Brackets,
+  EntityManager,
+  In,
+  Repository,
+  SelectQueryBuilder,
+} from 'typeorm';
 import { canAccessUser } from 'utils/canAccess';
-import { ICreateOrder, IUpdateOrder } from 'utils/Interfaces';
+import {
+  ICreateGuestOrder,
+  ICreateOrder,
+  ICursorPage,
+  IOrderExport,
+  IOrderFilters,
+  IOrderListQuery,
+  IShippingAddress,
+  IUpdateOrder,
+} from 'utils/Interfaces';
+import { OrderItem } from 'src/typeorm/entities/OrderItem';
+import { OrderItemDto } from './dtos/CreateOrderDto';
+import { InventoryService, StockLine } from 'src/inventory/inventory.service';
+import { assertOrderTransition, canTransitionOrder, OrderStatus } from './order-status';
+import {
+  OrderStatusActor,
+  OrderStatusHistory,
+} from 'src/typeorm/entities/OrderStatusHistory';
+import { AddressSnapshot } from 'src/typeorm/entities/AddressSnapshot';
+import { MailService } from 'src/mail/mail.service';
+import { AddressesService } from 'src/addresses/addresses.service';
+import { CouponsService } from 'src/coupons/coupons.service';
+import { TaxService } from 'src/tax/tax.service';
+import { ShippingService } from 'src/shipping/shipping.service';
+import { CurrencyService } from 'src/currency/currency.service';
+import { Money, normalizeCurrency } from 'src/money/money';
+import { MAX_CURSOR_LIMIT, paginateByCursor } from 'src/pagination/cursor';
+import { ORDER_CURSOR_SORTS, OrderSummary } from './order-listing';
+import {
+  csvHeader,
+  formatOrders,
+  ORDER_EXPORT_COLUMNS,
+  OrderExportColumn,
+} from './order-export';
+import {
+  signOrderLookupToken,
+  verifyOrderLookupToken,
+} from './order-lookup-token';
+
+export type WebhookOrderRef = {
+  orderId?: number;
+  paymentIntentId?: string;
+};
+
+// Orders read from the database at a time while exporting
+const EXPORT_BATCH_SIZE = 500;
+
+export type StatusChangeContext = {
+  actor: OrderStatusActor;
+  actorId?: number | null;
+  reason?: string | null;
+};
 
 @Injectable()
 export class OrdersService {
@@ -15,9 +74,242 @@ export class OrdersService {
   constructor(
     @InjectRepository(Order) private orderRepository: Repository<Order>,
     @InjectRepository(Product) private productRepository: Repository<Product>,
+    @InjectRepository(ProductVariant)
+    private variantRepository: Repository<ProductVariant>,
     @InjectRepository(User) private userRepository: Repository<User>,
+    @InjectRepository(OrderStatusHistory)
+    private statusHistoryRepository: Repository<OrderStatusHistory>,
+    private inventoryService: InventoryService,
+    private mailService: MailService,
+    private addressesService: AddressesService,
+    private couponsService: CouponsService,
+    private taxService: TaxService,
+    private shippingService: ShippingService,
+    private currencyService: CurrencyService,
   ) {}
 
+  private toStockLines(
+    items: { product?: Product; variant?: ProductVariant | null; quantity: number }[],
+  ): StockLine[] {
+    return (items ?? [])
+      .filter((item) => item?.product?.id)
+      .map((item) => ({
+        productId: item.product.id,
+        variantId: item.variant?.id,
+        quantity: Number(item.quantity),
+      }));
+  }
+
+  private toAddressSnapshot(address?: IShippingAddress | null): AddressSnapshot {
+    if (!address) {
+      return {
+        fullName: null,
+        line1: null,
+        line2: null,
+        city: null,
+        region: null,
+        postalCode: null,
+        country: null,
+        phone: null,
+      };
+    }
+    return {
+      fullName: address.fullName,
+      line1: address.line1,
+      line2: address.line2 ?? null,
+      city: address.city,
+      region: address.region ?? null,
+      postalCode: address.postalCode,
+      country: address.country.toUpperCase(),
+      phone: address.phone ?? null,
+    };
+  }
+
+  private actorFromRequest(req?: Request): StatusChangeContext {
+    return {
+      actor: req?.user?.role === 'admin' ? 'admin' : 'user',
+      actorId: req?.user?.userId ?? null,
+    };
+  }
+
+  private async recordStatusChange(
+    manager: EntityManager,
+    order: Order,
+    fromStatus: OrderStatus | null,
+    toStatus: OrderStatus,
+    context: StatusChangeContext,
+  ) {
+    const historyRepository = manager.getRepository(OrderStatusHistory);
+    await historyRepository.save(
+      historyRepository.create({
+        order: { id: order.id } as Order,
+        fromStatus,
+        toStatus,
+        actor: context.actor,
+        actorId: context.actorId ?? null,
+        reason: context.reason ?? null,
+      }),
+    );
+  }
+
+  // Every status change goes through here so the lifecycle table, the stock
+  // side effects and the audit trail can't drift apart. Runs inside the
+  // caller's transaction.
+  private async applyStatusTransition(
+    manager: EntityManager,
+    order: Order,
+    to: OrderStatus,
+    context: StatusChangeContext,
+  ) {
+    const from = order.status;
+    assertOrderTransition(from, to);
+
+    if (from === 'PENDING' && to === 'CANCELED') {
+      await this.inventoryService.release(manager, this.toStockLines(order.items));
+    }
+    if (from === 'PENDING' && to === 'PAID') {
+      await this.inventoryService.commit(manager, this.toStockLines(order.items));
+    }
+
+    order.status = to;
+    await this.recordStatusChange(manager, order, from, to, context);
+  }
+
+  /**
+   * Resolves requested lines against current products and variants, locking
+   * `unitPrice` at each one's price in the order currency and computing the
+   * total server-side. Lines for the same product and variant are merged;
+   * `existingItems` are reused so edited lines keep their ids. A new order
+   * takes the current exchange rate; an edited one passes the `exchangeRate`
+   * it was locked at.
+   */
+  private async buildOrderItems(
+    items: OrderItemDto[] | undefined,
+    existingItems: OrderItem[] = [],
+    currency?: string,
+    exchangeRate?: number,
+  ) {
+    // Lines are merged per product and variant
+    const lines = new Map<string, { productId: number; variantId?: number; quantity: number }>();
+    for (const item of items ?? []) {
+      if (!item.quantity || item.quantity <= 0) {
+        throw new HttpException('Invalid quantity', HttpStatus.BAD_REQUEST);
+      }
+      const key = `${item.productId}:${item.variantId ?? ''}`;
+      const line = lines.get(key) ?? {
+        productId: item.productId,
+        variantId: item.variantId,
+        quantity: 0,
+      };
+      line.quantity += item.quantity;
+      lines.set(key, line);
+    }
+
+    // If items are provided, fetch all products at once to validate and use them
+    const productMap = new Map<number, Product>();
+    const variantMap = new Map<number, ProductVariant>();
+    if (lines.size > 0) {
+      const productIds = [...new Set([...lines.values()].map((line) => line.productId))];
+      const products = await this.productRepository.find({
+        where: { id: In(productIds) },
+      });
+
+      if (products.length !== productIds.length) {
+        throw new HttpException(
+          'One or more products not found',
+          HttpStatus.NOT_FOUND,
+        );
+      }
+
+      products.forEach((product) => {
+        productMap.set(product.id, product);
+      });
+
+      const variants = await this.variantRepository.find({
+        where: { product: { id: In(productIds) }, isActive: true },
+        relations: ['product'],
+      });
+      variants.forEach((variant) => {
+        variantMap.set(variant.id, variant);
+      });
+    }
+
+    const orderCurrency = normalizeCurrency(currency);
+    const orderRate =
+      exchangeRate !== undefined
+        ? Number(exchangeRate)
+        : await this.currencyService.rateFor(orderCurrency);
+    const prices = await this.currencyService.priceProducts(
+      [...productMap.values()],
+      orderCurrency,
+      orderRate,
+    );
+
+    const variantPrices =
+      variantMap.size > 0
+        ? await this.currencyService.priceVariants(
+            [...variantMap.values()],
+            orderCurrency,
+            orderRate,
+          )
+        : new Map<number, number>();
+
+    const orderItems = [...lines.values()].map(({ productId, variantId, quantity }) => {
+      const product = productMap.get(productId);
+      if (!product) {
+        throw new HttpException(
+          `Product with ID ${productId} not found`,
+          HttpStatus.NOT_FOUND,
+        );
+      }
+
+      // Products sold in variants can only be ordered as one of them
+      const variant = variantId ? variantMap.get(variantId) : null;
+      if (variantId && variant?.product.id !== productId) {
+        throw new HttpException(
+          `Variant ${variantId} is not available for ${product.name}`,
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+      const hasVariants = [...variantMap.values()].some(
+        (candidate) => candidate.product.id === productId,
+      );
+      if (!variant && hasVariants) {
+        throw new HttpException(
+          `Choose a variant of ${product.name}`,
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+
+      const existing = existingItems.find(
+        (item) =>
+          item.product?.id === productId &&
+          (item.variant?.id ?? null) === (variant?.id ?? null),
+      );
+      return Object.assign(existing ?? new OrderItem(), {
+        product,
+        variant,
+        sku: variant?.sku ?? null,
+        quantity,
+        unitPrice: variant ? variantPrices.get(variant.id) : prices.get(productId),
+        currency: orderCurrency,
+      });
+    });
+
+    // Compute totalAmount server-side to prevent tampering
+    const totalAmount = Money.sum(
+      orderItems.map((item) => Money.of(item.unitPrice, orderCurrency).multiply(item.quantity)),
+      orderCurrency,
+    ).amount;
+
+    return {
+      orderItems,
+      totalAmount,
+      currency: orderCurrency,
+      exchangeRate: orderRate,
+    };
+  }
+
   async getOrderForCheckout(orderId: number) {
     if (!orderId || orderId <= 0) {
       throw new HttpException('Invalid order ID', HttpStatus.BAD_REQUEST);
@@ -35,12 +327,15 @@ export class OrdersService {
     return order;
   }
 
-  async completeOrderFromWebhook(orderId: number, expectedTotalCents?: number) {
+  async completeOrderFromWebhook(
+    orderId: number,
+    expectedTotalCents?: number,
+    paymentIntentId?: string,
+  ) {
     const order = await this.getOrderForCheckout(orderId);
 
     if (typeof expectedTotalCents === 'number' && Number.isFinite(expectedTotalCents)) {
-      const orderTotalCents = Math.round(Number(order.totalAmount) * 100);
-      if (orderTotalCents !== expectedTotalCents) {
+      if (Number(order.totalAmount) !== expectedTotalCents) {
         throw new HttpException('Webhook total mismatch', HttpStatus.BAD_REQUEST);
       }
     }
@@ -49,16 +344,296 @@ export class OrdersService {
       return { received: true, ignored: true };
     }
 
-    order.status = 'COMPLETED';
+    if (paymentIntentId) {
+      order.paymentIntentId = paymentIntentId;
+    }
+
+    await this.orderRepository.manager.transaction(async (manager) => {
+      await this.applyStatusTransition(manager, order, 'PAID', {
+        actor: 'stripe-webhook',
+        reason: 'checkout.session.completed',
+      });
+      await manager.getRepository(Order).save(order);
+    });
+    return { received: true };
+  }
+
+  // Abandoned checkout: the session expired before payment, so the reservation goes back.
+  async cancelOrderFromWebhook(orderId: number, reason: string) {
+    return this.cancelPendingOrder(orderId, { actor: 'stripe-webhook', reason });
+  }
+
+  // Cancels an order that was never paid and releases its reservation; anything past PENDING is left alone.
+  async cancelPendingOrder(orderId: number, context: StatusChangeContext) {
+    const order = await this.getOrderForCheckout(orderId);
+
+    if (order.status !== 'PENDING') {
+      return { received: true, ignored: true };
+    }
+
+    await this.orderRepository.manager.transaction(async (manager) => {
+      await this.applyStatusTransition(manager, order, 'CANCELED', context);
+      await manager.getRepository(Order).save(order);
+    });
+    return { received: true };
+  }
+
+  // Charges and disputes don't always carry our metadata, so fall back to the payment intent.
+  private async findOrderForWebhook(ref: WebhookOrderRef) {
+    if (ref.orderId && ref.orderId > 0) {
+      return this.getOrderForCheckout(ref.orderId);
+    }
+    if (!ref.paymentIntentId) return null;
+
+    return this.orderRepository.findOne({
+      where: { paymentIntentId: ref.paymentIntentId },
+      relations: ['user', 'items', 'items.product'],
+    });
+  }
+
+  // A failed attempt doesn't end the order - the customer can retry on the same session.
+  async recordPaymentFailureFromWebhook(ref: WebhookOrderRef, message: string) {
+    const order = await this.findOrderForWebhook(ref);
+    if (!order) return { received: true, ignored: true };
+
+    order.lastPaymentError = (message || 'Payment failed').slice(0, 255);
+    if (ref.paymentIntentId && !order.paymentIntentId) {
+      order.paymentIntentId = ref.paymentIntentId;
+    }
     await this.orderRepository.save(order);
     return { received: true };
   }
-  async getAllOrders() {
-    try {
-      const orders = await this.orderRepository.find({
-        relations: ['user', 'items', 'items.product'],
+
+  async applyRefundFromWebhook(
+    ref: WebhookOrderRef,
+    amountRefundedCents: number,
+    fullyRefunded: boolean,
+  ) {
+    const order = await this.findOrderForWebhook(ref);
+    if (!order) return { received: true, ignored: true };
+
+    // Stripe sends the cumulative refunded amount; a replay of an older event must not go backwards
+    if (amountRefundedCents <= (order.amountRefundedCents ?? 0)) {
+      return { received: true, ignored: true };
+    }
+
+    const target: OrderStatus = fullyRefunded ? 'REFUNDED' : 'PARTIALLY_REFUNDED';
+    const previousRefundCents = order.amountRefundedCents ?? 0;
+    order.amountRefundedCents = amountRefundedCents;
+    const context: StatusChangeContext = {
+      actor: 'stripe-webhook',
+      reason: `charge.refunded: ${previousRefundCents} -> ${amountRefundedCents} cents`,
+    };
+
+    await this.orderRepository.manager.transaction(async (manager) => {
+      if (canTransitionOrder(order.status, target)) {
+        await this.applyStatusTransition(manager, order, target, context);
+      } else {
+        // The money went back anyway (e.g. a PENDING order whose payment webhook failed
+        // or hasn't come yet): keep the amount and the trail, and leave the status alone
+        // rather than fail the webhook for good
+        this.logger.warn(`Order ${order.id} was refunded while ${order.status}`);
+        await this.recordStatusChange(manager, order, order.status, order.status, {
+          ...context,
+          reason: `${context.reason} (status left at ${order.status})`,
+        });
+      }
+      await manager.getRepository(Order).save(order);
+    });
+    return { received: true };
+  }
+
+  async recordDisputeFromWebhook(
+    ref: WebhookOrderRef,
+    dispute: { status: string; reason?: string },
+  ) {
+    const order = await this.findOrderForWebhook(ref);
+    if (!order) return { received: true, ignored: true };
+
+    order.disputeStatus = dispute.status ?? 'needs_response';
+    order.disputeReason = dispute.reason ?? null;
+    await this.orderRepository.save(order);
+    return { received: true };
+  }
+
+  // Called once a payment session exists; from then on line items are frozen.
+  async attachCheckoutSession(orderId: number, sessionId: string) {
+    await this.orderRepository.update(orderId, { checkoutSessionId: sessionId });
+  }
+
+  private ordersQuery() {
+    return this.orderRepository
+      .createQueryBuilder('order')
+      .leftJoinAndSelect('order.user', 'user')
+      .leftJoinAndSelect('order.items', 'items')
+      .leftJoinAndSelect('items.product', 'product');
+  }
+
+  // One row per order with its customer and line count, without the lines
+  private summariesQuery() {
+    return this.orderRepository
+      .createQueryBuilder('order')
+      .leftJoin('order.user', 'user')
+      .addSelect(['user.id', 'user.name', 'user.email'])
+      .loadRelationCountAndMap('order.itemCount', 'order.items');
+  }
+
+  private toSummary(order: Order & { itemCount?: number }): OrderSummary {
+    return {
+      id: order.id,
+      name: order.name,
+      status: order.status,
+      currency: order.currency,
+      totalAmount: order.totalAmount,
+      itemCount: order.itemCount ?? 0,
+      customer: order.user
+        ? { id: order.user.id, name: order.user.name, email: order.user.email }
+        : { id: null, name: null, email: order.guestEmail },
+      createdAt: order.createdAt,
+      updatedAt: order.updatedAt,
+    };
+  }
+
+  private escapeLike(input: string) {
+    return input.replace(/[%_\\]/g, '\\$&');
+  }
+
+  private filterOrders(query: SelectQueryBuilder<Order>, filters: IOrderFilters) {
+    if (filters.statuses?.length) {
+      query.andWhere('order.status IN (:...statuses)', {
+        statuses: filters.statuses,
       });
-      return { message: 'Orders retrieved successfully', orders };
+    }
+    if (filters.from) {
+      query.andWhere('order.createdAt >= :from', { from: filters.from });
+    }
+    if (filters.to) {
+      query.andWhere('order.createdAt <= :to', { to: filters.to });
+    }
+    if (filters.userId) {
+      query.andWhere('user.id = :userId', { userId: filters.userId });
+    }
+    if (filters.email) {
+      query.andWhere(
+        new Brackets((byEmail) => {
+          byEmail
+            .where("user.email LIKE :email ESCAPE '\\\\'")
+            .orWhere("order.guestEmail LIKE :email ESCAPE '\\\\'");
+        }),
+        { email: `%${this.escapeLike(filters.email)}%` },
+      );
+    }
+    if (filters.minTotal !== undefined) {
+      query.andWhere('order.totalAmount >= :minTotal', {
+        minTotal: filters.minTotal,
+      });
+    }
+    if (filters.maxTotal !== undefined) {
+      query.andWhere('order.totalAmount <= :maxTotal', {
+        maxTotal: filters.maxTotal,
+      });
+    }
+    if (filters.productId) {
+      // A subquery rather than a join, so the order's other lines still load
+      const hasProduct = query
+        .subQuery()
+        .select('1')
+        .from(OrderItem, 'line')
+        .where('line.orderId = order.id')
+        .andWhere('line.productId = :productId')
+        .getQuery();
+      query.andWhere(`EXISTS ${hasProduct}`, { productId: filters.productId });
+    }
+    return query;
+  }
+
+  /**
+   * Without `filters` every order is returned in full, as before the listing
+   * could be paged. With them, a page of the matching orders: by `cursor` when
+   * one is set (empty for the first page), otherwise by `page`. The default
+   * `summary` view leaves out the lines and products.
+   */
+  async getAllOrders(filters?: IOrderListQuery) {
+    try {
+      if (!filters) {
+        const orders = await this.orderRepository.find({
+          relations: ['user', 'items', 'items.product'],
+        });
+        return { message: 'Orders retrieved successfully', orders };
+      }
+
+      if (
+        filters.minTotal !== undefined &&
+        filters.maxTotal !== undefined &&
+        filters.minTotal > filters.maxTotal
+      ) {
+        throw new HttpException(
+          'minTotal cannot be greater than maxTotal',
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+      if (filters.from && filters.to && filters.from > filters.to) {
+        throw new HttpException(
+          'from cannot be later than to',
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+
+      const summary = (filters.view ?? 'summary') === 'summary';
+      const sort = ORDER_CURSOR_SORTS[filters.sort ?? 'newest'];
+      const query = this.filterOrders(
+        summary ? this.summariesQuery() : this.ordersQuery(),
+        filters,
+      );
+      const present = (orders: Order[]) =>
+        summary ? orders.map((order) => this.toSummary(order)) : orders;
+
+      if (filters.cursor !== undefined) {
+        const { items, meta } = await paginateByCursor(
+          query,
+          sort,
+          filters.cursor,
+          filters.limit,
+        );
+        return {
+          message: 'Orders retrieved successfully',
+          orders: present(items),
+          meta,
+        };
+      }
+
+      const { page, limit } = filters;
+      if (!Number.isInteger(page) || page <= 0) {
+        throw new HttpException('Invalid page', HttpStatus.BAD_REQUEST);
+      }
+      if (!Number.isInteger(limit) || limit <= 0) {
+        throw new HttpException('Invalid limit', HttpStatus.BAD_REQUEST);
+      }
+      if (limit > MAX_CURSOR_LIMIT) {
+        throw new HttpException(
+          `limit must be <= ${MAX_CURSOR_LIMIT}`,
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+      query.orderBy(sort.column, sort.order);
+      if (sort.column !== 'order.id') query.addOrderBy('order.id', sort.idOrder);
+      const [orders, totalItems] = await query
+        .skip((page - 1) * limit)
+        .take(limit)
+        .getManyAndCount();
+      const totalPages = totalItems === 0 ? 0 : Math.ceil(totalItems / limit);
+      return {
+        message: 'Orders retrieved successfully',
+        orders: present(orders),
+        meta: {
+          page,
+          limit,
+          totalItems,
+          totalPages,
+          hasNextPage: page < totalPages,
+          hasPrevPage: totalPages !== 0 && page > 1,
+        },
+      };
     } catch (error) {
       if (error instanceof HttpException) throw error;
       this.logger.error('Failed to get all orders', (error as any)?.stack ?? String(error));
@@ -69,6 +644,62 @@ export class OrdersService {
     }
   }
 
+  // Orders after `afterId` with what the export needs, leaving out the rest of the user and products
+  private exportBatch(filters: IOrderFilters, afterId: number) {
+    return this.filterOrders(
+      this.orderRepository
+        .createQueryBuilder('order')
+        .leftJoin('order.user', 'user')
+        .addSelect(['user.id', 'user.name', 'user.email'])
+        .leftJoinAndSelect('order.items', 'items')
+        .leftJoin('items.product', 'product')
+        .addSelect(['product.id', 'product.name']),
+      filters,
+    )
+      .andWhere('order.id > :afterId', { afterId })
+      .orderBy('order.id', 'ASC')
+      .addOrderBy('items.id', 'ASC')
+      .take(EXPORT_BATCH_SIZE)
+      .getMany();
+  }
+
+  private async *exportChunks(
+    options: IOrderExport,
+    columns: readonly OrderExportColumn[],
+    first: Order[],
+  ) {
+    if (options.format === 'csv') yield csvHeader(columns);
+    let batch = first;
+    while (batch.length > 0) {
+      yield formatOrders(batch, options.format, columns);
+      if (batch.length < EXPORT_BATCH_SIZE) return;
+      batch = await this.exportBatch(options, batch[batch.length - 1].id);
+    }
+  }
+
+  /**
+   * Streams the matching orders oldest first, one row per line, reading them
+   * a batch at a time so the whole export is never held in memory. The first
+   * batch is read before anything is sent, so a failing query still gets an
+   * error response instead of a cut-off file.
+   */
+  async exportOrders(options: IOrderExport): Promise<Readable> {
+    if (options.from && options.to && options.from > options.to) {
+      throw new HttpException('from cannot be later than to', HttpStatus.BAD_REQUEST);
+    }
+    const columns = options.columns?.length ? options.columns : ORDER_EXPORT_COLUMNS;
+    try {
+      const first = await this.exportBatch(options, 0);
+      return Readable.from(this.exportChunks(options, columns, first));
+    } catch (error) {
+      this.logger.error('Failed to export orders', (error as any)?.stack ?? String(error));
+      throw new HttpException(
+        'An error occurred while exporting orders',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
   async getOrderById(id: number, req: Request) {
     if (!id || id <= 0) {
       throw new HttpException('Invalid order ID', HttpStatus.BAD_REQUEST);
@@ -83,7 +714,7 @@ export class OrdersService {
           'Order with that id does not exist!',
           HttpStatus.NOT_FOUND,
         );
-      canAccessUser(req, order.user.id);
+      canAccessUser(req, order.user?.id);
       return { message: 'Order retrieved successfully', order };
     } catch (error) {
       if (error instanceof HttpException) throw error;
@@ -95,12 +726,52 @@ export class OrdersService {
     }
   }
 
-  async getOrdersByUserId(userId: number, req: Request){
+  async getOrderHistory(id: number, req: Request) {
+    if (!id || id <= 0) {
+      throw new HttpException('Invalid order ID', HttpStatus.BAD_REQUEST);
+    }
+    try {
+      const order = await this.orderRepository.findOne({
+        where: { id },
+        relations: ['user'],
+      });
+      if (!order)
+        throw new HttpException(
+          'Order with that id does not exist!',
+          HttpStatus.NOT_FOUND,
+        );
+      canAccessUser(req, order.user?.id);
+
+      const history = await this.statusHistoryRepository.find({
+        where: { order: { id } },
+        order: { createdAt: 'ASC', id: 'ASC' },
+      });
+      return { message: 'Order history retrieved successfully', history };
+    } catch (error) {
+      if (error instanceof HttpException) throw error;
+      this.logger.error('Failed to get order history', (error as any)?.stack ?? String(error));
+      throw new HttpException(
+        'An error occurred while getting order history',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  async getOrdersByUserId(userId: number, req: Request, page?: ICursorPage){
     if(!userId || userId <= 0){
       throw new HttpException("Invalid user ID", HttpStatus.BAD_REQUEST);
     }
     canAccessUser(req, userId);
     try {
+      if (page) {
+        const { items, meta } = await paginateByCursor(
+          this.ordersQuery().where('user.id = :userId', { userId }),
+          ORDER_CURSOR_SORTS.newest,
+          page.cursor,
+          page.limit,
+        );
+        return { message: 'Orders retrieved successfully', orders: items, meta };
+      }
       const orders = await this.orderRepository.find(
         { where: { user: { id: userId } }, relations: ['user', 'items', 'items.product'] }
       );
@@ -115,6 +786,27 @@ export class OrdersService {
     }
   }
 
+  // Reserve stock and persist the order atomically; an oversell, a rejected coupon
+  // or an unavailable shipping method rolls back both.
+  private async saveNewOrder(
+    order: Order,
+    context: StatusChangeContext,
+    couponCode?: string,
+    shippingMethodId?: number,
+  ) {
+    return this.orderRepository.manager.transaction(async (manager) => {
+      if (couponCode) {
+        await this.couponsService.applyToOrder(manager, couponCode, order);
+      }
+      await this.shippingService.applyToOrder(manager, order, shippingMethodId);
+      await this.taxService.applyToOrder(manager, order);
+      await this.inventoryService.reserve(manager, this.toStockLines(order.items));
+      const created = await manager.getRepository(Order).save(order);
+      await this.recordStatusChange(manager, created, null, 'PENDING', context);
+      return created;
+    });
+  }
+
   async createOrder(createOrderParams: ICreateOrder, req: Request) {
     // Validate the userId
     if (!createOrderParams.userId || createOrderParams.userId <= 0) {
@@ -136,68 +828,46 @@ export class OrdersService {
 
       canAccessUser(req, user.id);
 
-      // If items are provided, fetch all products at once to validate and use them
-      let productMap = new Map();
-      if (createOrderParams.items && createOrderParams.items.length > 0) {
-        const productIds = createOrderParams.items.map(
-          (item) => item.productId,
-        );
-        const products = await this.productRepository.find({
-          where: { id: In(productIds) },
-        });
-
-        if (products.length !== productIds.length) {
-          throw new HttpException(
-            'One or more products not found',
-            HttpStatus.NOT_FOUND,
-          );
-        }
-
-        // Create a map for quick product lookup
-        products.forEach((product) => {
-          productMap.set(product.id, product);
-        });
-      }
-
-      // Create order items from the provided items
-      const orderItems =
-        createOrderParams.items?.map((item) => {
-          const product = productMap.get(item.productId);
-          if (!product) {
-            throw new HttpException(
-              `Product with ID ${item.productId} not found`,
-              HttpStatus.NOT_FOUND,
-            );
-          }
-
-          if (!item.quantity || item.quantity <= 0) {
-            throw new HttpException('Invalid quantity', HttpStatus.BAD_REQUEST);
-          }
-
-          return {
-            product,
-            quantity: item.quantity,
-            unitPrice: Number(product.price),
-          };
-        }) || [];
+      // Billing falls back to the shipping address when the user has no billing default
+      const shippingAddress = await this.addressesService.resolveForOrder(
+        user.id,
+        'shipping',
+        createOrderParams.shippingAddressId,
+      );
+      const billingAddress =
+        (await this.addressesService.resolveForOrder(
+          user.id,
+          'billing',
+          createOrderParams.billingAddressId,
+        )) ?? shippingAddress;
 
-      // Compute totalAmount server-side to prevent tampering
-      const computedTotal = orderItems.reduce((sum, item) => {
-        const unitPrice = Number((item as any).unitPrice);
-        const quantity = Number((item as any).quantity);
-        return sum + unitPrice * quantity;
-      }, 0);
+      // Requested currency, else the user's preferred one
+      const { orderItems, totalAmount: computedTotal, currency, exchangeRate } =
+        await this.buildOrderItems(
+          createOrderParams.items,
+          [],
+          createOrderParams.currency ?? user.preferredCurrency,
+        );
 
       // Orders are always created as PENDING - status changes only via payment webhook or admin
       const order = this.orderRepository.create({
         name: createOrderParams.name,
         user,
+        shippingAddress: this.toAddressSnapshot(shippingAddress),
+        billingAddress: this.toAddressSnapshot(billingAddress),
         items: orderItems,
+        currency,
+        exchangeRate,
         totalAmount: computedTotal,
         status: 'PENDING',
       });
 
-      const savedOrder = await this.orderRepository.save(order);
+      const savedOrder = await this.saveNewOrder(
+        order,
+        this.actorFromRequest(req),
+        createOrderParams.couponCode,
+        createOrderParams.shippingMethodId,
+      );
 
       return {
         message: 'Order created successfully!',
@@ -212,6 +882,127 @@ export class OrdersService {
       );
     }
   }
+
+  async createGuestOrder(params: ICreateGuestOrder) {
+    const email = (params.email ?? '').trim().toLowerCase();
+    if (!email) {
+      throw new HttpException('Invalid email', HttpStatus.BAD_REQUEST);
+    }
+    if (!params.items?.length) {
+      throw new HttpException('Order has no items', HttpStatus.BAD_REQUEST);
+    }
+
+    try {
+      const { orderItems, totalAmount, currency, exchangeRate } =
+        await this.buildOrderItems(params.items, [], params.currency);
+
+      const order = this.orderRepository.create({
+        name: params.name,
+        user: null,
+        guestEmail: email,
+        shippingAddress: this.toAddressSnapshot(params.shippingAddress),
+        billingAddress: this.toAddressSnapshot(
+          params.billingAddress ?? params.shippingAddress,
+        ),
+        items: orderItems,
+        currency,
+        exchangeRate,
+        totalAmount,
+        status: 'PENDING',
+      });
+
+      const savedOrder = await this.saveNewOrder(
+        order,
+        { actor: 'guest' },
+        params.couponCode,
+        params.shippingMethodId,
+      );
+
+      return {
+        message: 'Order created successfully!',
+        order: savedOrder,
+      };
+    } catch (error) {
+      if (error instanceof HttpException) throw error;
+      this.logger.error('Failed to create guest order', (error as any)?.stack ?? String(error));
+      throw new HttpException(
+        'An error occurred while creating the order',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Emails the guest a signed link to view their order. Never throws - the
+   * order already exists and the link can be sent again.
+   */
+  async sendGuestOrderLink(order: Order) {
+    if (!order.guestEmail) return;
+
+    try {
+      const webBase =
+        process.env.NEXT_PUBLIC_BASE_URL?.trim() || 'http://localhost:3000';
+      const token = signOrderLookupToken(order.id, order.guestEmail);
+      const lookupUrl = `${webBase}/orders/lookup?orderId=${order.id}&token=${encodeURIComponent(token)}`;
+
+      await this.mailService.send({
+        to: order.guestEmail,
+        subject: `Your order #${order.id}`,
+        text: `Thanks for your order! You can check on it here: ${lookupUrl}`,
+      });
+    } catch (error) {
+      this.logger.error('Failed to send guest order link', (error as any)?.stack ?? String(error));
+    }
+  }
+
+  async getGuestOrder(id: number, token: string) {
+    if (!id || id <= 0) {
+      throw new HttpException('Invalid order ID', HttpStatus.BAD_REQUEST);
+    }
+    try {
+      const order = await this.orderRepository.findOne({
+        where: { id },
+        relations: ['user', 'items', 'items.product'],
+      });
+      if (!order?.guestEmail) {
+        throw new HttpException(
+          'Order with that id does not exist!',
+          HttpStatus.NOT_FOUND,
+        );
+      }
+      if (!verifyOrderLookupToken(token, order.id, order.guestEmail)) {
+        throw new HttpException('Invalid or expired order link', HttpStatus.FORBIDDEN);
+      }
+
+      // The link is public - never include the account of a claimed order
+      const { user: _user, ...safeOrder } = order;
+      return { message: 'Order retrieved successfully', order: safeOrder };
+    } catch (error) {
+      if (error instanceof HttpException) throw error;
+      this.logger.error('Failed to get guest order', (error as any)?.stack ?? String(error));
+      throw new HttpException(
+        'An error occurred while getting the order',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Attaches guest orders placed with `email` to the account. Only called once
+   * the account owner has proven they own the address (email verification).
+   */
+  async claimGuestOrders(userId: number, email: string): Promise<number> {
+    const result = await this.orderRepository
+      .createQueryBuilder()
+      .update(Order)
+      .set({ user: { id: userId } })
+      .where('guestEmail = :email AND userId IS NULL', {
+        email: email.trim().toLowerCase(),
+      })
+      .execute();
+    return result.affected ?? 0;
+  }
+
   async updateOrder(
     id: number,
     updateOrderParams: IUpdateOrder,
@@ -223,7 +1014,7 @@ export class OrdersService {
     try {
       const order = await this.orderRepository.findOne({
         where: { id },
-        relations: ['user', 'items', 'items.product'],
+        relations: ['user', 'items', 'items.product', 'shippingMethod', 'coupon'],
       });
 
       if (!order)
@@ -233,7 +1024,7 @@ export class OrdersService {
         );
 
       if (req) {
-        canAccessUser(req, order.user.id);
+        canAccessUser(req, order.user?.id);
       }
 
       // Update basic properties
@@ -244,17 +1035,19 @@ export class OrdersService {
       // Only admins can modify status and totalAmount to prevent payment bypass
       const isAdmin = req?.user?.role === 'admin';
 
-      if (updateOrderParams.status !== undefined) {
-        if (!isAdmin) {
-          // Users can only cancel their pending orders
-          if (updateOrderParams.status !== 'CANCELED' || order.status !== 'PENDING') {
-            throw new HttpException(
-              'Users can only cancel pending orders',
-              HttpStatus.FORBIDDEN,
-            );
-          }
-        }
-        order.status = updateOrderParams.status;
+      // Re-sending the current status is a no-op rather than a transition
+      const nextStatus =
+        updateOrderParams.status !== undefined &&
+        updateOrderParams.status !== order.status
+          ? updateOrderParams.status
+          : undefined;
+
+      // Users can only cancel; whether the order can still be canceled is up to the lifecycle table
+      if (nextStatus !== undefined && !isAdmin && nextStatus !== 'CANCELED') {
+        throw new HttpException(
+          'Users can only cancel pending orders',
+          HttpStatus.FORBIDDEN,
+        );
       }
 
       // totalAmount can only be modified by admins - users cannot bypass payment
@@ -268,6 +1061,39 @@ export class OrdersService {
         order.totalAmount = updateOrderParams.totalAmount;
       }
 
+      // Line items can only change while the order is still an unpaid draft
+      let previousStockLines: StockLine[] | undefined;
+      if (updateOrderParams.items !== undefined) {
+        if (updateOrderParams.totalAmount !== undefined) {
+          throw new HttpException(
+            'totalAmount is computed from items and cannot be sent with them',
+            HttpStatus.BAD_REQUEST,
+          );
+        }
+        if (order.status !== 'PENDING') {
+          throw new HttpException(
+            'Only pending orders can be edited',
+            HttpStatus.CONFLICT,
+          );
+        }
+        if (order.checkoutSessionId) {
+          throw new HttpException(
+            'Order items cannot be changed once checkout has started',
+            HttpStatus.CONFLICT,
+          );
+        }
+
+        previousStockLines = this.toStockLines(order.items);
+        const { orderItems, totalAmount } = await this.buildOrderItems(
+          updateOrderParams.items,
+          order.items,
+          order.currency,
+          order.exchangeRate,
+        );
+        order.items = orderItems;
+        order.totalAmount = totalAmount;
+      }
+
       // Update user if needed
       if (updateOrderParams.userId) {
         const user = await this.userRepository.findOne({
@@ -284,7 +1110,30 @@ export class OrdersService {
         order.user = user;
       }
 
-      await this.orderRepository.save(order);
+      await this.orderRepository.manager.transaction(async (manager) => {
+        if (previousStockLines) {
+          // The discount was settled when the order was placed; only its split over the lines changes
+          if (order.couponCode) {
+            await this.couponsService.reallocateOnOrder(manager, order);
+          }
+          // Weight and free-shipping thresholds depend on the lines too
+          if (order.shippingMethod) {
+            await this.shippingService.applyToOrder(manager, order, order.shippingMethod.id);
+          }
+          await this.taxService.applyToOrder(manager, order);
+
+          // Swap the reservation; an oversell rolls back the release too
+          await this.inventoryService.release(manager, previousStockLines);
+          await this.inventoryService.reserve(manager, this.toStockLines(order.items));
+        }
+        if (nextStatus !== undefined) {
+          await this.applyStatusTransition(manager, order, nextStatus, {
+            ...this.actorFromRequest(req),
+            reason: updateOrderParams.statusReason,
+          });
+        }
+        await manager.getRepository(Order).save(order);
+      });
       return { message: 'Order updated successfully!' };
     } catch (error: any) {
       if (error instanceof HttpException) throw error;
@@ -301,15 +1150,20 @@ export class OrdersService {
     try {
       const order = await this.orderRepository.findOne({
         where: { id },
-        relations: ['user'],
+        relations: ['user', 'items', 'items.product'],
       });
       if(!order) throw new HttpException(
           "The order you're trying to delete does not exist!",
           HttpStatus.NOT_FOUND,
         );
-      canAccessUser(req, order.user.id);
+      canAccessUser(req, order.user?.id);
       // Use remove() instead of delete() to prevent TOCTOU race condition
-      await this.orderRepository.remove(order);
+      await this.orderRepository.manager.transaction(async (manager) => {
+        if (order.status === 'PENDING') {
+          await this.inventoryService.release(manager, this.toStockLines(order.items));
+        }
+        await manager.getRepository(Order).remove(order);
+      });
       return { message: 'Order deleted successfully' };
     } catch (error: any) {
       if (error instanceof HttpException) throw error;
@@ -0,0 +1,121 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { CursorSort, paginateByCursor } from './cursor';
+
+type Row = { id: number; price: number };
+
+describe('paginateByCursor', () => {
+  const byPrice: CursorSort<Row> = {
+    name: 'price_asc',
+    column: 'row.price',
+    order: 'ASC',
+    idOrder: 'ASC',
+    valueOf: (row) => row.price,
+  };
+
+  const query = (rows: Row[]) => {
+    const qb: any = { alias: 'row' };
+    ['andWhere', 'orderBy', 'addOrderBy', 'take'].forEach(
+      (method) => (qb[method] = jest.fn().mockReturnValue(qb)),
+    );
+    qb.getMany = jest.fn().mockResolvedValue(rows);
+    return qb;
+  };
+
+  const cursorOf = (cursor: object) =>
+    Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+  it('should give the first page and a cursor to the next one', async () => {
+    const qb = query([
+      { id: 1, price: 100 },
+      { id: 2, price: 200 },
+      { id: 3, price: 300 },
+    ]);
+
+    const page = await paginateByCursor(qb, byPrice, '', 2);
+
+    expect(page.items.map((row) => row.id)).toEqual([1, 2]);
+    expect(page.meta.prevCursor).toBeNull();
+    expect(page.meta.nextCursor).toBe(
+      cursorOf({ s: 'price_asc', v: 200, id: 2 }),
+    );
+    expect(qb.andWhere).not.toHaveBeenCalled();
+    expect(qb.orderBy).toHaveBeenCalledWith('row.price', 'ASC');
+    expect(qb.addOrderBy).toHaveBeenCalledWith('row.id', 'ASC');
+    // One more than asked for, to know there is a next page
+    expect(qb.take).toHaveBeenCalledWith(3);
+  });
+
+  it('should seek past the cursor and stop at the last page', async () => {
+    const qb = query([{ id: 3, price: 300 }]);
+
+    const page = await paginateByCursor(
+      qb,
+      byPrice,
+      cursorOf({ s: 'price_asc', v: 200, id: 2 }),
+      2,
+    );
+
+    expect(page.items).toEqual([{ id: 3, price: 300 }]);
+    expect(page.meta.nextCursor).toBeNull();
+    expect(page.meta.prevCursor).toBe(
+      cursorOf({ s: 'price_asc', v: 300, id: 3, b: true }),
+    );
+    expect(qb.andWhere).toHaveBeenCalledWith(expect.anything(), {
+      cursorValue: 200,
+      cursorId: 2,
+    });
+  });
+
+  it('should page backwards in reverse order and return the items in order', async () => {
+    // Fetched nearest first: 2, 1, then one more that says page 1 isn't the start
+    const qb = query([
+      { id: 2, price: 200 },
+      { id: 1, price: 100 },
+      { id: 0, price: 50 },
+    ]);
+
+    const page = await paginateByCursor(
+      qb,
+      byPrice,
+      cursorOf({ s: 'price_asc', v: 300, id: 3, b: true }),
+      2,
+    );
+
+    expect(qb.orderBy).toHaveBeenCalledWith('row.price', 'DESC');
+    expect(qb.addOrderBy).toHaveBeenCalledWith('row.id', 'DESC');
+    expect(page.items.map((row) => row.id)).toEqual([1, 2]);
+    expect(page.meta.nextCursor).toBe(
+      cursorOf({ s: 'price_asc', v: 200, id: 2 }),
+    );
+    expect(page.meta.prevCursor).toBe(
+      cursorOf({ s: 'price_asc', v: 100, id: 1, b: true }),
+    );
+  });
+
+  it('should reject a cursor that is garbled or from another sort', async () => {
+    await expect(
+      paginateByCursor(query([]), byPrice, 'not-a-cursor', 10),
+    ).rejects.toThrow(
+      new HttpException('Invalid cursor', HttpStatus.BAD_REQUEST),
+    );
+    await expect(
+      paginateByCursor(
+        query([]),
+        byPrice,
+        cursorOf({ s: 'name', v: 'Laptop', id: 2 }),
+        10,
+      ),
+    ).rejects.toThrow(
+      new HttpException('Invalid cursor', HttpStatus.BAD_REQUEST),
+    );
+  });
+
+  it('should validate the limit', async () => {
+    await expect(paginateByCursor(query([]), byPrice, '', 0)).rejects.toThrow(
+      new HttpException('Invalid limit', HttpStatus.BAD_REQUEST),
+    );
+    await expect(paginateByCursor(query([]), byPrice, '', 101)).rejects.toThrow(
+      new HttpException('limit must be <= 100', HttpStatus.BAD_REQUEST),
+    );
+  });
+});
@@ -0,0 +1,141 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { Brackets, ObjectLiteral, SelectQueryBuilder } from 'typeorm';
+
+export const MAX_CURSOR_LIMIT = 100;
+
+/**
+ * An order a listing can be paged through by cursor: a column, then the id
+ * to break ties. The key must not change while someone pages, which rules
+ * out computed scores like relevance.
+ */
+export type CursorSort<T> = {
+  // Stored in the cursor, so a cursor can't be used with another sort
+  name: string;
+  column: string;
+  order: 'ASC' | 'DESC';
+  idOrder: 'ASC' | 'DESC';
+  valueOf: (item: T) => string | number;
+  // Turns the value read back from a cursor into a query parameter
+  parse?: (value: string | number) => unknown;
+};
+
+export type CursorMeta = {
+  limit: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
+};
+
+export type CursorPage<T> = {
+  items: T[];
+  meta: CursorMeta;
+};
+
+// What a cursor holds: the sort, the key of the item it points at, and
+// whether it pages backwards from there
+type Cursor = {
+  s: string;
+  v: string | number;
+  id: number;
+  b?: true;
+};
+
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(raw: string, sort: string): Cursor {
+  let cursor: Cursor;
+  try {
+    cursor = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+  } catch {
+    cursor = null;
+  }
+  const valid =
+    cursor?.s === sort &&
+    Number.isInteger(cursor.id) &&
+    (typeof cursor.v === 'string' || typeof cursor.v === 'number');
+  if (!valid) {
+    throw new HttpException('Invalid cursor', HttpStatus.BAD_REQUEST);
+  }
+  return cursor;
+}
+
+function flip(order: 'ASC' | 'DESC') {
+  return order === 'ASC' ? 'DESC' : 'ASC';
+}
+
+/**
+ * Fetches the page of `query` after (or, for a `prevCursor`, before) the
+ * item `cursor` points at; an empty cursor gives the first page. Seeking on
+ * the sort key instead of an offset keeps pages stable while rows are added.
+ */
+export async function paginateByCursor<
+  T extends ObjectLiteral & { id: number },
+>(
+  query: SelectQueryBuilder<T>,
+  sort: CursorSort<T>,
+  cursor: string | undefined,
+  limit: number,
+): Promise<CursorPage<T>> {
+  if (!Number.isInteger(limit) || limit <= 0) {
+    throw new HttpException('Invalid limit', HttpStatus.BAD_REQUEST);
+  }
+  if (limit > MAX_CURSOR_LIMIT) {
+    throw new HttpException(
+      `limit must be <= ${MAX_CURSOR_LIMIT}`,
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+
+  const from = cursor ? decodeCursor(cursor, sort.name) : null;
+  const backwards = !!from?.b;
+  const order = backwards ? flip(sort.order) : sort.order;
+  const idOrder = backwards ? flip(sort.idOrder) : sort.idOrder;
+  const idColumn = `${query.alias}.id`;
+
+  const byId = sort.column === idColumn;
+  const after = (direction: 'ASC' | 'DESC') =>
+    direction === 'ASC' ? '>' : '<';
+
+  if (from) {
+    const value = sort.parse ? sort.parse(from.v) : from.v;
+    query.andWhere(
+      new Brackets((seek) => {
+        seek.where(`${sort.column} ${after(order)} :cursorValue`);
+        if (!byId) {
+          seek.orWhere(
+            `${sort.column} = :cursorValue AND ${idColumn} ${after(idOrder)} :cursorId`,
+          );
+        }
+      }),
+      { cursorValue: value, cursorId: from.id },
+    );
+  }
+  query.orderBy(sort.column, order);
+  if (!byId) query.addOrderBy(idColumn, idOrder);
+
+  // One extra row tells whether there is anything past this page
+  const rows = await query.take(limit + 1).getMany();
+  const hasMore = rows.length > limit;
+  const items = rows.slice(0, limit);
+  if (backwards) items.reverse();
+
+  const at = (item: T, back: boolean) =>
+    encodeCursor({
+      s: sort.name,
+      v: sort.valueOf(item),
+      id: item.id,
+      ...(back && { b: true as const }),
+    });
+  const first = items[0];
+  const last = items[items.length - 1];
+  return {
+    items,
+    meta: {
+      limit,
+      nextCursor: last && (backwards || hasMore) ? at(last, false) : null,
+      prevCursor:
+        first && (backwards ? hasMore : !!from) ? at(first, true) : null,
+    },
+  };
+}
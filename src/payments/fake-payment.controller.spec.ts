@@ -0,0 +1,87 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { HttpStatus } from '@nestjs/common';
+import { FakePaymentController } from './fake-payment.controller';
+import { FakePaymentProvider } from './fake-payment.provider';
+import { PAYMENT_PROVIDER } from './payment-provider';
+
+describe('FakePaymentController', () => {
+  let controller: FakePaymentController;
+  let provider: FakePaymentProvider;
+
+  const createController = async (paymentProvider: unknown) => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [FakePaymentController],
+      providers: [{ provide: PAYMENT_PROVIDER, useValue: paymentProvider }],
+    }).compile();
+
+    return module.get<FakePaymentController>(FakePaymentController);
+  };
+
+  beforeEach(async () => {
+    provider = new FakePaymentProvider({ appUrl: 'http://localhost:5000' });
+    controller = await createController(provider);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const createSession = () =>
+    provider.createCheckoutSession({
+      orderId: 7,
+      currency: 'usd',
+      lineItems: [{ name: '<b>Mug</b>', unitAmountCents: 1299, quantity: 1 }],
+      successUrl: 'http://shop/success?orderId=7',
+      cancelUrl: 'http://shop/cart',
+      metadata: { orderId: '7' },
+    });
+
+  it('should render the pay page with escaped item names', async () => {
+    const session = await createSession();
+
+    const html = controller.showPaymentPage(session.id);
+
+    expect(html).toContain('Order #7');
+    expect(html).toContain('&lt;b&gt;Mug&lt;/b&gt;');
+    expect(html).toContain('12.99 USD');
+    expect(html).toContain(`/payments/fake/${session.id}/pay`);
+  });
+
+  it('should show the decline notice', async () => {
+    const session = await createSession();
+
+    expect(controller.showPaymentPage(session.id, '1')).toContain(
+      'Your card was declined.',
+    );
+  });
+
+  it('should redirect to the success url after paying', async () => {
+    const session = await createSession();
+    jest
+      .spyOn(provider, 'pay')
+      .mockResolvedValue('http://shop/success?orderId=7');
+
+    await expect(controller.pay(session.id)).resolves.toEqual({
+      url: 'http://shop/success?orderId=7',
+      statusCode: HttpStatus.SEE_OTHER,
+    });
+  });
+
+  it('should send the customer back to the page after a decline', async () => {
+    const session = await createSession();
+    jest.spyOn(provider, 'decline').mockResolvedValue();
+
+    await expect(controller.decline(session.id)).resolves.toEqual({
+      url: `/payments/fake/${session.id}?declined=1`,
+      statusCode: HttpStatus.SEE_OTHER,
+    });
+  });
+
+  it('should 404 when the fake provider is not active', async () => {
+    const stripeController = await createController({ name: 'stripe' });
+
+    expect(() => stripeController.showPaymentPage('cs_fake_1')).toThrow(
+      expect.objectContaining({ status: HttpStatus.NOT_FOUND }),
+    );
+  });
+});
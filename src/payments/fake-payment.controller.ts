@@ -0,0 +1,110 @@
+import {
+  Controller,
+  Get,
+  Header,
+  HttpException,
+  HttpStatus,
+  Inject,
+  Param,
+  Post,
+  Query,
+  Redirect,
+} from '@nestjs/common';
+import { ApiExcludeController } from '@nestjs/swagger';
+import { Public } from 'utils/publicDecorator';
+import { Money } from 'src/money/money';
+import { PAYMENT_PROVIDER, PaymentProvider } from './payment-provider';
+import { FakePaymentProvider } from './fake-payment.provider';
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatAmount(amount: number, currency: string): string {
+  return Money.of(amount, currency).format();
+}
+
+// Hosted "checkout page" for FakePaymentProvider. 404s unless PAYMENT_PROVIDER=fake.
+@ApiExcludeController()
+@Public()
+@Controller('payments/fake')
+export class FakePaymentController {
+  constructor(
+    @Inject(PAYMENT_PROVIDER) private readonly paymentProvider: PaymentProvider,
+  ) {}
+
+  private get fakeProvider(): FakePaymentProvider {
+    if (!(this.paymentProvider instanceof FakePaymentProvider)) {
+      throw new HttpException('Not Found', HttpStatus.NOT_FOUND);
+    }
+    return this.paymentProvider;
+  }
+
+  @Get(':sessionId')
+  @Header('Content-Type', 'text/html; charset=utf-8')
+  showPaymentPage(
+    @Param('sessionId') sessionId: string,
+    @Query('declined') declined?: string,
+  ) {
+    const session = this.fakeProvider.getSession(sessionId);
+    const { input } = session;
+    const id = encodeURIComponent(session.id);
+
+    const rows = input.lineItems
+      .map(
+        (item) =>
+          `<tr><td>${escapeHtml(item.name)}</td><td>${item.quantity}</td><td>${formatAmount(item.unitAmountCents * item.quantity, input.currency)}</td></tr>`,
+      )
+      .join('');
+
+    const actions =
+      session.status === 'open'
+        ? `<form method="post" action="/payments/fake/${id}/pay"><button>Pay</button></form>
+<form method="post" action="/payments/fake/${id}/decline"><button>Decline card</button></form>
+<form method="post" action="/payments/fake/${id}/expire"><button>Let the session expire</button></form>
+<p><a href="${escapeHtml(input.cancelUrl)}">Back to the shop</a></p>`
+        : `<p>This session is ${session.status}.</p>`;
+
+    return `<!doctype html>
+<html>
+<head><meta charset="utf-8"><title>Fake payment - order ${input.orderId}</title></head>
+<body style="font-family: sans-serif; max-width: 480px; margin: 40px auto;">
+<h1>Fake payment</h1>
+<p>Order #${input.orderId}. Nothing is charged - this page only exists when PAYMENT_PROVIDER=fake.</p>
+${declined ? '<p style="color: #b00020;">Your card was declined.</p>' : ''}
+<table>${rows}</table>
+<p><strong>Total: ${formatAmount(session.amountTotalCents, input.currency)}</strong></p>
+${actions}
+</body>
+</html>`;
+  }
+
+  @Post(':sessionId/pay')
+  @Redirect()
+  async pay(@Param('sessionId') sessionId: string) {
+    const url = await this.fakeProvider.pay(sessionId);
+    return { url, statusCode: HttpStatus.SEE_OTHER };
+  }
+
+  @Post(':sessionId/decline')
+  @Redirect()
+  async decline(@Param('sessionId') sessionId: string) {
+    await this.fakeProvider.decline(sessionId);
+    return {
+      url: `/payments/fake/${encodeURIComponent(sessionId)}?declined=1`,
+      statusCode: HttpStatus.SEE_OTHER,
+    };
+  }
+
+  @Post(':sessionId/expire')
+  @Redirect()
+  async expire(@Param('sessionId') sessionId: string) {
+    const url = await this.fakeProvider.expire(sessionId);
+    return { url, statusCode: HttpStatus.SEE_OTHER };
+  }
+}
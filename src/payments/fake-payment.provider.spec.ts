@@ -0,0 +1,216 @@
+import { HttpStatus } from '@nestjs/common';
+import { FakePaymentProvider } from './fake-payment.provider';
+import { CreateCheckoutSessionInput } from './payment-provider';
+
+describe('FakePaymentProvider', () => {
+  let provider: FakePaymentProvider;
+  let fetchMock: jest.Mock;
+
+  const input: CreateCheckoutSessionInput = {
+    orderId: 42,
+    currency: 'usd',
+    lineItems: [
+      { name: 'Widget', unitAmountCents: 1000, quantity: 2 },
+      { name: 'Gadget', unitAmountCents: 500, quantity: 1 },
+    ],
+    successUrl: 'http://shop/success?orderId=42',
+    cancelUrl: 'http://shop/cart',
+    metadata: { orderId: '42', expectedTotalCents: '2500' },
+  };
+
+  // Returns the last event posted to the webhook, after checking its signature
+  const lastDelivered = () => {
+    const [url, init] = fetchMock.mock.calls[fetchMock.mock.calls.length - 1];
+    expect(url).toBe('http://localhost:5000/checkout/webhook');
+    return provider.verifyWebhook(
+      Buffer.from(init.body),
+      init.headers['stripe-signature'],
+    );
+  };
+
+  beforeEach(() => {
+    provider = new FakePaymentProvider({
+      appUrl: 'http://localhost:5000',
+      webhookSecret: 'whsec_fake_test',
+    });
+    fetchMock = jest.fn().mockResolvedValue({ ok: true, status: 200 });
+    global.fetch = fetchMock as any;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should create a local session that points at the fake payment page', async () => {
+    const session = await provider.createCheckoutSession(input);
+
+    expect(session.url).toBe(
+      `http://localhost:5000/payments/fake/${session.id}`,
+    );
+    expect(provider.getSession(session.id)).toMatchObject({
+      status: 'open',
+      amountTotalCents: 2500,
+    });
+  });
+
+  it('should throw NOT_FOUND for unknown sessions', () => {
+    expect(() => provider.getSession('cs_fake_nope')).toThrow(
+      expect.objectContaining({ status: HttpStatus.NOT_FOUND }),
+    );
+  });
+
+  describe('pay', () => {
+    it('should emit a signed checkout.session.completed event and return the success url', async () => {
+      const session = await provider.createCheckoutSession(input);
+
+      const redirect = await provider.pay(session.id);
+
+      expect(redirect).toBe(input.successUrl);
+      const event = lastDelivered();
+      expect(event.type).toBe('checkout.session.completed');
+      expect(event.data.object).toMatchObject({
+        id: session.id,
+        payment_status: 'paid',
+        amount_total: 2500,
+        metadata: input.metadata,
+      });
+      expect(event.data.object.payment_intent).toMatch(/^pi_fake_/);
+    });
+
+    it('should not allow paying a session twice', async () => {
+      const session = await provider.createCheckoutSession(input);
+      await provider.pay(session.id);
+
+      await expect(provider.pay(session.id)).rejects.toMatchObject({
+        status: HttpStatus.CONFLICT,
+      });
+    });
+
+    it('should still complete when the webhook delivery fails', async () => {
+      fetchMock.mockRejectedValue(new Error('ECONNREFUSED'));
+      jest.spyOn((provider as any).logger, 'error').mockImplementation();
+      const session = await provider.createCheckoutSession(input);
+
+      await expect(provider.pay(session.id)).resolves.toBe(input.successUrl);
+      expect(provider.getSession(session.id).status).toBe('complete');
+    });
+  });
+
+  it('should emit payment_intent.payment_failed on decline and keep the session open', async () => {
+    const session = await provider.createCheckoutSession(input);
+
+    await provider.decline(session.id);
+
+    const event = lastDelivered();
+    expect(event.type).toBe('payment_intent.payment_failed');
+    expect(event.data.object).toMatchObject({
+      metadata: { orderId: '42' },
+      last_payment_error: { message: 'Your card was declined.' },
+    });
+    expect(provider.getSession(session.id).status).toBe('open');
+  });
+
+  it('should emit checkout.session.expired and return the cancel url on expire', async () => {
+    const session = await provider.createCheckoutSession(input);
+
+    const redirect = await provider.expire(session.id);
+
+    expect(redirect).toBe(input.cancelUrl);
+    expect(lastDelivered().type).toBe('checkout.session.expired');
+  });
+
+  describe('refund', () => {
+    it('should emit charge.refunded with the cumulative amount', async () => {
+      const session = await provider.createCheckoutSession(input);
+      await provider.pay(session.id);
+      const { paymentIntentId } = provider.getSession(session.id);
+
+      await provider.refund(paymentIntentId, 1000);
+      expect(lastDelivered().data.object).toMatchObject({
+        amount: 2500,
+        amount_refunded: 1000,
+        refunded: false,
+      });
+
+      const result = await provider.refund(paymentIntentId);
+      expect(result).toMatchObject({ amountCents: 1500, status: 'succeeded' });
+      expect(lastDelivered().data.object).toMatchObject({
+        amount_refunded: 2500,
+        refunded: true,
+        payment_intent: paymentIntentId,
+      });
+    });
+
+    it('should reject refunds larger than what is left', async () => {
+      const session = await provider.createCheckoutSession(input);
+      await provider.pay(session.id);
+
+      await expect(
+        provider.refund(provider.getSession(session.id).paymentIntentId, 3000),
+      ).rejects.toMatchObject({ status: HttpStatus.BAD_REQUEST });
+    });
+
+    it('should throw NOT_FOUND for payments that were never completed', async () => {
+      await expect(provider.refund('pi_fake_nope')).rejects.toMatchObject({
+        status: HttpStatus.NOT_FOUND,
+      });
+    });
+  });
+
+  describe('verifyWebhook', () => {
+    const payload = JSON.stringify({
+      id: 'evt_1',
+      type: 'ping',
+      data: { object: {} },
+    });
+
+    it('should accept its own signatures', () => {
+      const event = provider.verifyWebhook(
+        Buffer.from(payload),
+        provider.sign(payload),
+      );
+
+      expect(event.id).toBe('evt_1');
+    });
+
+    it('should reject a tampered payload', () => {
+      const signature = provider.sign(payload);
+
+      expect(() =>
+        provider.verifyWebhook(
+          Buffer.from(payload.replace('ping', 'pong')),
+          signature,
+        ),
+      ).toThrow(
+        'No signatures found matching the expected signature for payload',
+      );
+    });
+
+    it('should reject signatures from another secret', () => {
+      const other = new FakePaymentProvider({
+        appUrl: 'http://localhost:5000',
+      });
+
+      expect(() =>
+        provider.verifyWebhook(Buffer.from(payload), other.sign(payload)),
+      ).toThrow();
+    });
+
+    it('should reject stale timestamps', () => {
+      const signature = provider.sign(
+        payload,
+        Math.floor(Date.now() / 1000) - 3600,
+      );
+
+      expect(() =>
+        provider.verifyWebhook(Buffer.from(payload), signature),
+      ).toThrow('Timestamp outside the tolerance zone');
+    });
+
+    it('should reject a malformed header', () => {
+      expect(() =>
+        provider.verifyWebhook(Buffer.from(payload), 'garbage'),
+      ).toThrow('Unable to extract timestamp and signatures from header');
+    });
+  });
+});
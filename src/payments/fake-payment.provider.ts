@@ -0,0 +1,253 @@
+import { HttpException, HttpStatus, Logger } from '@nestjs/common';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import {
+  CheckoutSession,
+  CreateCheckoutSessionInput,
+  PaymentProvider,
+  PaymentRefund,
+  PaymentWebhookEvent,
+} from './payment-provider';
+
+export type FakeSessionStatus = 'open' | 'complete' | 'expired';
+
+export interface FakeCheckoutSession {
+  id: string;
+  paymentIntentId: string;
+  chargeId: string;
+  input: CreateCheckoutSessionInput;
+  amountTotalCents: number;
+  amountRefundedCents: number;
+  status: FakeSessionStatus;
+}
+
+export interface FakePaymentProviderOptions {
+  // Base URL the app is reachable at; serves the pay page and receives the webhooks
+  appUrl: string;
+  webhookSecret?: string;
+}
+
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/**
+ * Offline stand-in for Stripe. Sessions live in memory, the customer pays or
+ * declines on a local page (FakePaymentController) and the outcome is posted
+ * back to /checkout/webhook as a Stripe-shaped event signed the way Stripe
+ * signs them, so it goes through the same verification and handlers.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake';
+  private readonly logger = new Logger(FakePaymentProvider.name);
+  private readonly sessions = new Map<string, FakeCheckoutSession>();
+  private readonly webhookSecret: string;
+
+  constructor(private readonly options: FakePaymentProviderOptions) {
+    this.webhookSecret =
+      options.webhookSecret ?? `whsec_fake_${randomBytes(16).toString('hex')}`;
+  }
+
+  async createCheckoutSession(
+    input: CreateCheckoutSessionInput,
+  ): Promise<CheckoutSession> {
+    const suffix = randomBytes(12).toString('hex');
+    const session: FakeCheckoutSession = {
+      id: `cs_fake_${suffix}`,
+      paymentIntentId: `pi_fake_${suffix}`,
+      chargeId: `ch_fake_${suffix}`,
+      input,
+      amountTotalCents: input.lineItems.reduce(
+        (sum, item) => sum + item.unitAmountCents * item.quantity,
+        0,
+      ),
+      amountRefundedCents: 0,
+      status: 'open',
+    };
+    this.sessions.set(session.id, session);
+
+    return {
+      id: session.id,
+      url: `${this.options.appUrl}/payments/fake/${session.id}`,
+    };
+  }
+
+  getSession(id: string): FakeCheckoutSession {
+    const session = this.sessions.get(id);
+    if (!session) {
+      throw new HttpException(
+        'Payment session not found',
+        HttpStatus.NOT_FOUND,
+      );
+    }
+    return session;
+  }
+
+  /** Completes the payment and returns where the customer should be sent. */
+  async pay(id: string): Promise<string> {
+    const session = this.getOpenSession(id);
+    session.status = 'complete';
+
+    await this.deliver(
+      'checkout.session.completed',
+      this.sessionObject(session, 'paid'),
+    );
+    return session.input.successUrl;
+  }
+
+  /** Reports a declined card; the session stays open so the customer can retry. */
+  async decline(id: string): Promise<void> {
+    const session = this.getOpenSession(id);
+
+    await this.deliver('payment_intent.payment_failed', {
+      id: session.paymentIntentId,
+      object: 'payment_intent',
+      metadata: { orderId: session.input.orderId.toString() },
+      last_payment_error: { message: 'Your card was declined.' },
+    });
+  }
+
+  async expire(id: string): Promise<string> {
+    const session = this.getOpenSession(id);
+    session.status = 'expired';
+
+    await this.deliver(
+      'checkout.session.expired',
+      this.sessionObject(session, 'unpaid'),
+    );
+    return session.input.cancelUrl;
+  }
+
+  async refund(
+    paymentIntentId: string,
+    amountCents?: number,
+  ): Promise<PaymentRefund> {
+    const session = [...this.sessions.values()].find(
+      (s) => s.paymentIntentId === paymentIntentId && s.status === 'complete',
+    );
+    if (!session) {
+      throw new HttpException('Payment not found', HttpStatus.NOT_FOUND);
+    }
+
+    const remaining = session.amountTotalCents - session.amountRefundedCents;
+    const amount = amountCents ?? remaining;
+    if (!Number.isInteger(amount) || amount <= 0 || amount > remaining) {
+      throw new HttpException('Invalid refund amount', HttpStatus.BAD_REQUEST);
+    }
+    session.amountRefundedCents += amount;
+
+    await this.deliver('charge.refunded', {
+      id: session.chargeId,
+      object: 'charge',
+      amount: session.amountTotalCents,
+      amount_refunded: session.amountRefundedCents,
+      refunded: session.amountRefundedCents >= session.amountTotalCents,
+      payment_intent: session.paymentIntentId,
+      metadata: { orderId: session.input.orderId.toString() },
+    });
+
+    return {
+      id: `re_fake_${randomBytes(12).toString('hex')}`,
+      amountCents: amount,
+      status: 'succeeded',
+    };
+  }
+
+  // Same scheme as Stripe: "t=<unix seconds>,v1=<hex HMAC-SHA256 of `${t}.${payload}`>"
+  sign(payload: string, timestamp = Math.floor(Date.now() / 1000)): string {
+    return `t=${timestamp},v1=${this.computeSignature(payload, timestamp)}`;
+  }
+
+  verifyWebhook(payload: Buffer, signature: string): PaymentWebhookEvent {
+    const parts = (signature ?? '').split(',').map((part) => part.split('='));
+    const timestamp = Number(parts.find(([key]) => key === 't')?.[1]);
+    const candidates = parts
+      .filter(([key]) => key === 'v1')
+      .map(([, value]) => value ?? '');
+
+    if (!Number.isFinite(timestamp) || candidates.length === 0) {
+      throw new Error('Unable to extract timestamp and signatures from header');
+    }
+
+    const expected = Buffer.from(
+      this.computeSignature(payload.toString('utf8'), timestamp),
+    );
+    const matches = candidates.some((candidate) => {
+      const actual = Buffer.from(candidate);
+      return (
+        actual.length === expected.length && timingSafeEqual(actual, expected)
+      );
+    });
+    if (!matches) {
+      throw new Error(
+        'No signatures found matching the expected signature for payload',
+      );
+    }
+
+    if (
+      Math.abs(Math.floor(Date.now() / 1000) - timestamp) >
+      SIGNATURE_TOLERANCE_SECONDS
+    ) {
+      throw new Error('Timestamp outside the tolerance zone');
+    }
+
+    return JSON.parse(payload.toString('utf8'));
+  }
+
+  private computeSignature(payload: string, timestamp: number): string {
+    return createHmac('sha256', this.webhookSecret)
+      .update(`${timestamp}.${payload}`)
+      .digest('hex');
+  }
+
+  private getOpenSession(id: string): FakeCheckoutSession {
+    const session = this.getSession(id);
+    if (session.status !== 'open') {
+      throw new HttpException(
+        'Payment session is no longer open',
+        HttpStatus.CONFLICT,
+      );
+    }
+    return session;
+  }
+
+  private sessionObject(session: FakeCheckoutSession, paymentStatus: string) {
+    return {
+      id: session.id,
+      object: 'checkout.session',
+      amount_total: session.amountTotalCents,
+      currency: session.input.currency,
+      metadata: session.input.metadata,
+      payment_status: paymentStatus,
+      payment_intent: session.paymentIntentId,
+    };
+  }
+
+  // Like Stripe, a failed delivery doesn't undo the payment; it is only logged.
+  private async deliver(type: string, object: Record<string, any>) {
+    const payload = JSON.stringify({
+      id: `evt_fake_${randomBytes(12).toString('hex')}`,
+      object: 'event',
+      type,
+      created: Math.floor(Date.now() / 1000),
+      data: { object },
+    });
+
+    try {
+      const response = await fetch(`${this.options.appUrl}/checkout/webhook`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'stripe-signature': this.sign(payload),
+        },
+        body: payload,
+      });
+      if (!response.ok) {
+        this.logger.error(
+          `Fake ${type} webhook was rejected with ${response.status}`,
+        );
+      }
+    } catch (err) {
+      this.logger.error(
+        `Failed to deliver fake ${type} webhook: ${err.message}`,
+      );
+    }
+  }
+}
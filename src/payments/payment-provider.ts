@@ -0,0 +1,62 @@
+// Injection token for the active PaymentProvider (see PaymentsModule)
+export const PAYMENT_PROVIDER = 'PAYMENT_PROVIDER';
+
+export interface CheckoutLineItem {
+  name: string;
+  // In the currency's minor unit ("cents" is historical - it's yen for JPY)
+  unitAmountCents: number;
+  quantity: number;
+}
+
+export interface CheckoutShippingAddress {
+  name: string;
+  line1: string;
+  line2?: string;
+  city: string;
+  region?: string;
+  postalCode: string;
+  country: string;
+  phone?: string;
+}
+
+export interface CreateCheckoutSessionInput {
+  orderId: number;
+  currency: string;
+  lineItems: CheckoutLineItem[];
+  successUrl: string;
+  cancelUrl: string;
+  metadata: Record<string, string>;
+  // Prefills the email on the payment page (guest checkout)
+  customerEmail?: string;
+  // The order's shipping address, attached to the payment so it shows up prefilled for the customer
+  shippingAddress?: CheckoutShippingAddress;
+}
+
+export interface CheckoutSession {
+  id: string;
+  url: string | null;
+}
+
+// Events keep Stripe's shape (type names and data.object) so one webhook handler serves every provider
+export interface PaymentWebhookEvent {
+  id: string;
+  type: string;
+  data: { object: any };
+}
+
+export interface PaymentRefund {
+  id: string;
+  amountCents: number;
+  status: string;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+  createCheckoutSession(
+    input: CreateCheckoutSessionInput,
+  ): Promise<CheckoutSession>;
+  /** Throws when the signature does not match the payload. */
+  verifyWebhook(payload: Buffer, signature: string): PaymentWebhookEvent;
+  /** Refunds the whole payment when amountCents is omitted. */
+  refund(paymentIntentId: string, amountCents?: number): Promise<PaymentRefund>;
+}
@@ -0,0 +1,37 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Stripe from 'stripe';
+import { PAYMENT_PROVIDER, PaymentProvider } from './payment-provider';
+import { StripePaymentProvider } from './stripe-payment.provider';
+import { FakePaymentProvider } from './fake-payment.provider';
+import { FakePaymentController } from './fake-payment.controller';
+
+@Module({
+  controllers: [FakePaymentController],
+  providers: [
+    {
+      provide: PAYMENT_PROVIDER,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): PaymentProvider => {
+        if (configService.get<string>('PAYMENT_PROVIDER') === 'fake') {
+          const port = configService.get<string>('PORT') ?? '5000';
+          return new FakePaymentProvider({
+            appUrl:
+              configService.get<string>('FAKE_PAYMENT_APP_URL') ??
+              `http://localhost:${port}`,
+            webhookSecret: configService.get<string>(
+              'FAKE_PAYMENT_WEBHOOK_SECRET',
+            ),
+          });
+        }
+
+        return new StripePaymentProvider(
+          new Stripe(configService.get<string>('STRIPE_SECRET_KEY')),
+          configService.get<string>('STRIPE_WEBHOOK_SECRET'),
+        );
+      },
+    },
+  ],
+  exports: [PAYMENT_PROVIDER],
+})
+export class PaymentsModule {}
@@ -0,0 +1,176 @@
+import Stripe from 'stripe';
+import { StripePaymentProvider } from './stripe-payment.provider';
+
+describe('StripePaymentProvider', () => {
+  const WEBHOOK_SECRET = 'whsec_provider_secret';
+
+  const mockClient = {
+    checkout: { sessions: { create: jest.fn() } },
+    refunds: { create: jest.fn() },
+    webhooks: { constructEvent: jest.fn() },
+  };
+
+  let provider: StripePaymentProvider;
+
+  beforeEach(() => {
+    provider = new StripePaymentProvider(mockClient as any, WEBHOOK_SECRET);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createCheckoutSession', () => {
+    it('should map the input to a Stripe checkout session', async () => {
+      mockClient.checkout.sessions.create.mockResolvedValue({
+        id: 'cs_test_1',
+        url: 'https://checkout.stripe.com/test',
+      });
+
+      const result = await provider.createCheckoutSession({
+        orderId: 42,
+        currency: 'usd',
+        lineItems: [{ name: 'Widget', unitAmountCents: 1250, quantity: 2 }],
+        successUrl: 'http://shop/success?orderId=42',
+        cancelUrl: 'http://shop/cart',
+        metadata: { orderId: '42', expectedTotalCents: '2500' },
+      });
+
+      expect(result).toEqual({
+        id: 'cs_test_1',
+        url: 'https://checkout.stripe.com/test',
+      });
+      expect(mockClient.checkout.sessions.create).toHaveBeenCalledWith({
+        payment_method_types: ['card'],
+        mode: 'payment',
+        line_items: [
+          {
+            price_data: {
+              currency: 'usd',
+              product_data: { name: 'Widget' },
+              unit_amount: 1250,
+            },
+            quantity: 2,
+          },
+        ],
+        success_url: 'http://shop/success?orderId=42',
+        cancel_url: 'http://shop/cart',
+        metadata: { orderId: '42', expectedTotalCents: '2500' },
+        payment_intent_data: { metadata: { orderId: '42' } },
+      });
+    });
+
+    it('should prefill the email and attach the shipping address', async () => {
+      mockClient.checkout.sessions.create.mockResolvedValue({
+        id: 'cs_test_2',
+        url: 'x',
+      });
+
+      await provider.createCheckoutSession({
+        orderId: 42,
+        currency: 'usd',
+        lineItems: [{ name: 'Widget', unitAmountCents: 1250, quantity: 1 }],
+        successUrl: 'http://shop/success?orderId=42',
+        cancelUrl: 'http://shop/cart',
+        metadata: { orderId: '42' },
+        customerEmail: 'guest@test.com',
+        shippingAddress: {
+          name: 'Guest Buyer',
+          line1: '1 Main St',
+          city: 'Springfield',
+          region: 'IL',
+          postalCode: '12345',
+          country: 'US',
+        },
+      });
+
+      const params = mockClient.checkout.sessions.create.mock.calls[0][0];
+      expect(params.customer_email).toBe('guest@test.com');
+      expect(params.payment_intent_data).toEqual({
+        metadata: { orderId: '42' },
+        shipping: {
+          name: 'Guest Buyer',
+          phone: undefined,
+          address: {
+            line1: '1 Main St',
+            line2: undefined,
+            city: 'Springfield',
+            state: 'IL',
+            postal_code: '12345',
+            country: 'US',
+          },
+        },
+      });
+    });
+  });
+
+  describe('verifyWebhook', () => {
+    it('should accept payloads signed with the webhook secret', () => {
+      const stripe = new Stripe('sk_test_fixture');
+      const realProvider = new StripePaymentProvider(stripe, WEBHOOK_SECRET);
+      const payload = JSON.stringify({
+        id: 'evt_1',
+        type: 'ping',
+        data: { object: {} },
+      });
+      const signature = stripe.webhooks.generateTestHeaderString({
+        payload,
+        secret: WEBHOOK_SECRET,
+      });
+
+      const event = realProvider.verifyWebhook(Buffer.from(payload), signature);
+
+      expect(event.id).toBe('evt_1');
+    });
+
+    it('should reject payloads signed with another secret', () => {
+      const stripe = new Stripe('sk_test_fixture');
+      const realProvider = new StripePaymentProvider(stripe, WEBHOOK_SECRET);
+      const payload = JSON.stringify({ id: 'evt_1' });
+      const signature = stripe.webhooks.generateTestHeaderString({
+        payload,
+        secret: 'whsec_someone_else',
+      });
+
+      expect(() =>
+        realProvider.verifyWebhook(Buffer.from(payload), signature),
+      ).toThrow();
+    });
+  });
+
+  describe('refund', () => {
+    it('should refund the whole payment when no amount is given', async () => {
+      mockClient.refunds.create.mockResolvedValue({
+        id: 're_1',
+        amount: 2500,
+        status: 'succeeded',
+      });
+
+      const result = await provider.refund('pi_1');
+
+      expect(mockClient.refunds.create).toHaveBeenCalledWith({
+        payment_intent: 'pi_1',
+      });
+      expect(result).toEqual({
+        id: 're_1',
+        amountCents: 2500,
+        status: 'succeeded',
+      });
+    });
+
+    it('should pass a partial amount through', async () => {
+      mockClient.refunds.create.mockResolvedValue({
+        id: 're_2',
+        amount: 500,
+        status: 'pending',
+      });
+
+      await provider.refund('pi_1', 500);
+
+      expect(mockClient.refunds.create).toHaveBeenCalledWith({
+        payment_intent: 'pi_1',
+        amount: 500,
+      });
+    });
+  });
+});
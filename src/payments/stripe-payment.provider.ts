@@ -0,0 +1,85 @@
+import Stripe from 'stripe';
+import {
+  CheckoutSession,
+  CheckoutShippingAddress,
+  CreateCheckoutSessionInput,
+  PaymentProvider,
+  PaymentRefund,
+  PaymentWebhookEvent,
+} from './payment-provider';
+
+export class StripePaymentProvider implements PaymentProvider {
+  readonly name = 'stripe';
+
+  constructor(
+    private readonly client: Stripe,
+    private readonly webhookSecret: string,
+  ) {}
+
+  private toStripeShipping(
+    address: CheckoutShippingAddress,
+  ): Stripe.Checkout.SessionCreateParams.PaymentIntentData.Shipping {
+    return {
+      name: address.name,
+      phone: address.phone,
+      address: {
+        line1: address.line1,
+        line2: address.line2,
+        city: address.city,
+        state: address.region,
+        postal_code: address.postalCode,
+        country: address.country,
+      },
+    };
+  }
+
+  async createCheckoutSession(
+    input: CreateCheckoutSessionInput,
+  ): Promise<CheckoutSession> {
+    const session = await this.client.checkout.sessions.create({
+      payment_method_types: ['card'],
+      line_items: input.lineItems.map((item) => ({
+        price_data: {
+          currency: input.currency,
+          product_data: { name: item.name },
+          unit_amount: item.unitAmountCents,
+        },
+        quantity: item.quantity,
+      })),
+      mode: 'payment',
+      success_url: input.successUrl,
+      cancel_url: input.cancelUrl,
+      metadata: input.metadata,
+      ...(input.customerEmail ? { customer_email: input.customerEmail } : {}),
+      // Copied onto the payment intent (and its charges) so failure/refund events can find the order
+      payment_intent_data: {
+        metadata: { orderId: input.orderId.toString() },
+        ...(input.shippingAddress
+          ? { shipping: this.toStripeShipping(input.shippingAddress) }
+          : {}),
+      },
+    });
+
+    return { id: session.id, url: session.url };
+  }
+
+  verifyWebhook(payload: Buffer, signature: string): PaymentWebhookEvent {
+    return this.client.webhooks.constructEvent(
+      payload,
+      signature,
+      this.webhookSecret,
+    );
+  }
+
+  async refund(
+    paymentIntentId: string,
+    amountCents?: number,
+  ): Promise<PaymentRefund> {
+    const refund = await this.client.refunds.create({
+      payment_intent: paymentIntentId,
+      ...(amountCents !== undefined ? { amount: amountCents } : {}),
+    });
+
+    return { id: refund.id, amountCents: refund.amount, status: refund.status };
+  }
+}
@@ -1,10 +1,13 @@
 import { Type } from 'class-transformer';
 import {
+  IsISO4217CurrencyCode,
+  IsInt,
   IsNotEmpty,
   IsNumber,
   IsOptional,
   IsString,
   IsUrl,
+  Matches,
   MaxLength,
   Min,
 } from 'class-validator';
@@ -15,15 +18,29 @@ export class CreateProductDto {
   @MaxLength(100, { message: 'Name must not exceed 100 characters' })
   name: string;
 
+  @IsOptional()
+  @Matches(/^[A-Za-z0-9._-]{1,64}$/, {
+    message: 'SKU must be 1-64 letters, digits, dots, dashes or underscores',
+  })
+  sku?: string;
+
   @IsString()
   @MaxLength(500, { message: 'Description must not exceed 500 characters' })
   description: string;
 
-  @IsNumber()
+  @IsInt({
+    message: 'Price must be a whole number of minor units (e.g. cents)',
+  })
   @Type(() => Number)
   @Min(0, { message: 'Price must be at least 0' })
   price: number;
 
+  @IsOptional()
+  @IsISO4217CurrencyCode({
+    message: 'Currency must be a three-letter ISO code',
+  })
+  currency?: string;
+
   @IsNumber()
   @Type(() => Number)
   @IsNotEmpty()
@@ -32,4 +49,24 @@ export class CreateProductDto {
   @IsOptional()
   @IsUrl({}, { message: 'Image URL must be a valid URL' })
   imageUrl?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Type(() => Number)
+  @Min(0, { message: 'Stock must be at least 0' })
+  stock?: number;
+
+  @IsOptional()
+  @IsString()
+  @Matches(/^[a-z0-9_-]{1,50}$/, {
+    message:
+      'Tax class must be lowercase letters, digits, dashes or underscores',
+  })
+  taxClass?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Type(() => Number)
+  @Min(0, { message: 'Weight must be at least 0' })
+  weightGrams?: number;
 }
@@ -0,0 +1,9 @@
+import { IsInt, Min } from 'class-validator';
+
+export class SetProductPriceDto {
+  @IsInt({
+    message: 'Price must be a whole number of minor units (e.g. cents)',
+  })
+  @Min(0)
+  price: number;
+}
@@ -0,0 +1,196 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { ProductCsvService } from './product-csv.service';
+import { Product } from '../typeorm/entities/Product';
+import { Category } from '../typeorm/entities/Category';
+
+describe('ProductCsvService', () => {
+  let service: ProductCsvService;
+
+  const mockProductRepository: any = {
+    find: jest.fn(),
+    create: jest.fn((product) => product),
+    save: jest.fn(),
+  };
+
+  const mockEntityManager = {
+    getRepository: jest.fn(() => mockProductRepository),
+    transaction: jest.fn((cb) => cb(mockEntityManager)),
+  };
+  mockProductRepository.manager = mockEntityManager;
+
+  const mockCategoryRepository = {
+    find: jest.fn(),
+  };
+
+  const laptop = {
+    id: 5,
+    sku: null,
+    name: 'Laptop',
+    description: 'Old text',
+    price: 99900,
+    currency: 'USD',
+    imageUrl: 'https://example.com/laptop.png',
+    stock: 3,
+  };
+
+  const csv = [
+    'name,sku,description,price,category,imageUrl,stock',
+    'laptop,LAP-1,"Fast, light",109900,laptops,,7',
+    'Phone,,A phone,49900,2,,',
+    '',
+    'Tablet,,A tablet,-1,Watches,not-a-url,',
+  ].join('\r\n');
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProductCsvService,
+        {
+          provide: getRepositoryToken(Product),
+          useValue: mockProductRepository,
+        },
+        {
+          provide: getRepositoryToken(Category),
+          useValue: mockCategoryRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ProductCsvService>(ProductCsvService);
+    mockCategoryRepository.find.mockResolvedValue([
+      { id: 1, name: 'Laptops' },
+      { id: 2, name: 'Phones' },
+    ]);
+    mockProductRepository.find.mockResolvedValue([{ ...laptop }]);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('importProducts', () => {
+    it('should report what a dry run would do and every invalid row', async () => {
+      const result = await service.importProducts(csv, true);
+
+      expect(result).toEqual({
+        message: 'Product import checked successfully',
+        dryRun: true,
+        summary: { rows: 3, created: 1, updated: 1, invalid: 1 },
+        errors: [
+          {
+            row: 5,
+            errors: [
+              'Category "Watches" not found',
+              'Price must be at least 0',
+              'Image URL must be a valid URL',
+            ],
+          },
+        ],
+      });
+      expect(mockEntityManager.transaction).not.toHaveBeenCalled();
+      expect(mockProductRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should save nothing and list the errors when a row is invalid', async () => {
+      await expect(service.importProducts(csv, false)).rejects.toThrow(
+        new HttpException(
+          '1 of 3 rows are invalid; nothing was imported',
+          HttpStatus.BAD_REQUEST,
+        ),
+      );
+      expect(mockProductRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should create and update products in one transaction', async () => {
+      const valid = csv.split('\r\n').slice(0, 3).join('\r\n');
+
+      const result = await service.importProducts(valid, false);
+
+      expect(result.summary).toEqual({
+        rows: 2,
+        created: 1,
+        updated: 1,
+        invalid: 0,
+      });
+      expect(mockEntityManager.transaction).toHaveBeenCalledTimes(1);
+      expect(mockProductRepository.save).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({
+            name: 'Phone',
+            price: 49900,
+            category: { id: 2 },
+          }),
+          // The empty imageUrl cell leaves the image alone
+          expect.objectContaining({
+            id: 5,
+            sku: 'LAP-1',
+            name: 'laptop',
+            description: 'Fast, light',
+            price: 109900,
+            stock: 7,
+            imageUrl: 'https://example.com/laptop.png',
+            category: { id: 1 },
+          }),
+        ],
+        { chunk: 100 },
+      );
+    });
+
+    it('should not match a product that already has another SKU', async () => {
+      mockProductRepository.find.mockResolvedValue([
+        { ...laptop, sku: 'LAP-OLD' },
+      ]);
+
+      const result = await service.importProducts(
+        'name,sku,description,price,category\nLaptop,LAP-1,New,100,1\n',
+        true,
+      );
+
+      expect(result.errors).toEqual([
+        { row: 2, errors: ['"Laptop" already exists with SKU LAP-OLD'] },
+      ]);
+    });
+
+    it('should reject a file with an unknown or missing column', async () => {
+      await expect(
+        service.importProducts('name,colour\nLaptop,red\n', true),
+      ).rejects.toThrow(
+        new HttpException(
+          'Unknown column "colour"; columns are: sku, name, description, price, currency, category, imageUrl, stock',
+          HttpStatus.BAD_REQUEST,
+        ),
+      );
+      await expect(
+        service.importProducts('name,price\nLaptop,100\n', true),
+      ).rejects.toThrow(
+        new HttpException(
+          'Missing column "description"',
+          HttpStatus.BAD_REQUEST,
+        ),
+      );
+    });
+  });
+
+  describe('exportProducts', () => {
+    it('should write every product in the columns the import takes', async () => {
+      mockProductRepository.find.mockResolvedValueOnce([
+        {
+          ...laptop,
+          sku: 'LAP-1',
+          name: '=Laptop',
+          category: { id: 1, name: 'Laptops' },
+        },
+      ]);
+
+      let text = '';
+      for await (const chunk of await service.exportProducts()) text += chunk;
+
+      expect(text).toBe(
+        'sku,name,description,price,currency,category,imageUrl,stock\r\n' +
+          "LAP-1,'=Laptop,Old text,99900,USD,Laptops,https://example.com/laptop.png,3\r\n",
+      );
+    });
+  });
+});
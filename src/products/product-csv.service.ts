@@ -0,0 +1,393 @@
+import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { Readable } from 'stream';
+import { EntityManager, In, MoreThan, Repository } from 'typeorm';
+import { Product } from '../typeorm/entities/Product';
+import { Category } from '../typeorm/entities/Category';
+import { CreateProductDto } from './dtos/CreateProductDto';
+import { normalizeCurrency } from '../money/money';
+import { csvCell, csvRow, parseCsv, undefuse } from '../csv/csv';
+
+// Also the order of the export's columns
+export const PRODUCT_CSV_COLUMNS = [
+  'sku',
+  'name',
+  'description',
+  'price',
+  'currency',
+  'category',
+  'imageUrl',
+  'stock',
+] as const;
+
+type ProductCsvColumn = (typeof PRODUCT_CSV_COLUMNS)[number];
+
+const REQUIRED_COLUMNS: ProductCsvColumn[] = [
+  'name',
+  'description',
+  'price',
+  'category',
+];
+
+export const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+const MAX_IMPORT_ROWS = 5000;
+
+// Products read from the database at a time while exporting
+const EXPORT_BATCH_SIZE = 500;
+
+export type ImportRowError = {
+  // As a spreadsheet numbers it: the header is row 1
+  row: number;
+  errors: string[];
+};
+
+// A data row of the file, before it is checked
+type CsvRow = {
+  row: number;
+  extraCells: boolean;
+  values: Partial<Record<ProductCsvColumn, string>>;
+};
+
+type ImportRow = {
+  row: number;
+  product: CreateProductDto;
+  errors: string[];
+};
+
+type ImportPlan = {
+  creates: ImportRow[];
+  updates: { row: ImportRow; product: Product }[];
+};
+
+@Injectable()
+export class ProductCsvService {
+  private readonly logger = new Logger(ProductCsvService.name);
+
+  constructor(
+    @InjectRepository(Product) private productRepository: Repository<Product>,
+    @InjectRepository(Category)
+    private categoryRepository: Repository<Category>,
+  ) {}
+
+  private invalid(message: string): never {
+    throw new HttpException(message, HttpStatus.BAD_REQUEST);
+  }
+
+  // The data rows as column => trimmed cell, keyed by the header
+  private readRows(csv: string): CsvRow[] {
+    const [header, ...rows] = parseCsv(csv);
+    if (!header || header.every((cell) => cell.trim() === '')) {
+      this.invalid('The CSV file is empty');
+    }
+
+    const columns = header.map((cell) => {
+      const column = PRODUCT_CSV_COLUMNS.find(
+        (known) => known.toLowerCase() === cell.trim().toLowerCase(),
+      );
+      if (!column) {
+        this.invalid(
+          `Unknown column "${cell.trim()}"; columns are: ${PRODUCT_CSV_COLUMNS.join(', ')}`,
+        );
+      }
+      return column;
+    });
+    const repeated = columns.find((column, i) => columns.indexOf(column) !== i);
+    if (repeated) this.invalid(`Column "${repeated}" appears twice`);
+    const missing = REQUIRED_COLUMNS.find(
+      (column) => !columns.includes(column),
+    );
+    if (missing) this.invalid(`Missing column "${missing}"`);
+
+    const data = rows
+      .map((cells, i) => ({ row: i + 2, cells }))
+      .filter(({ cells }) => cells.some((cell) => cell.trim() !== ''));
+    if (data.length === 0) this.invalid('The CSV file has no products');
+    if (data.length > MAX_IMPORT_ROWS) {
+      this.invalid(`The CSV file can have at most ${MAX_IMPORT_ROWS} products`);
+    }
+
+    return data.map(({ row, cells }) => ({
+      row,
+      extraCells: cells.length > columns.length,
+      values: Object.fromEntries(
+        columns.map((column, i) => [column, undefuse((cells[i] ?? '').trim())]),
+      ) as Partial<Record<ProductCsvColumn, string>>,
+    }));
+  }
+
+  /**
+   * Checks a row with the rules of CreateProductDto, after resolving its
+   * category from a name or an id. Empty cells count as not given.
+   */
+  private async checkRow(
+    { row, extraCells, values }: CsvRow,
+    categories: { byId: Set<number>; byName: Map<string, number> },
+  ): Promise<ImportRow> {
+    const errors: string[] = [];
+    if (extraCells) errors.push('Row has more cells than the header');
+
+    const plain: Record<string, string | number> = {};
+    for (const [column, value] of Object.entries(values)) {
+      if (value !== '') plain[column] = value;
+    }
+    let unknownCategory = false;
+    if (plain.category !== undefined) {
+      const category = String(plain.category);
+      const id = /^\d+$/.test(category)
+        ? categories.byId.has(Number(category))
+          ? Number(category)
+          : undefined
+        : categories.byName.get(category.toLowerCase());
+      if (id === undefined) {
+        unknownCategory = true;
+        errors.push(`Category "${category}" not found`);
+      }
+      plain.category = id ?? 0;
+    }
+
+    const product = plainToInstance(CreateProductDto, plain);
+    for (const error of await validate(product)) {
+      if (error.property === 'category' && unknownCategory) continue;
+      errors.push(...Object.values(error.constraints ?? {}));
+    }
+    return { row, product, errors };
+  }
+
+  /**
+   * Matches rows to products: by SKU when the row has one, else by name. A
+   * row with a new SKU takes over the product of the same name if that one
+   * has no SKU yet. Rows that can't be matched safely get errors instead.
+   */
+  private async planImport(
+    manager: EntityManager,
+    rows: ImportRow[],
+  ): Promise<ImportPlan> {
+    const valid = rows.filter((row) => row.errors.length === 0);
+    const skus = valid.map((row) => row.product.sku).filter(Boolean);
+    const names = valid.map((row) => row.product.name);
+    const existing = valid.length
+      ? await manager.getRepository(Product).find({
+          where: [
+            ...(skus.length ? [{ sku: In(skus) }] : []),
+            { name: In(names) },
+          ],
+        })
+      : [];
+
+    const bySku = new Map(
+      existing.filter((p) => p.sku).map((p) => [p.sku, p] as const),
+    );
+    const byName = new Map<string, Product[]>();
+    for (const product of existing) {
+      const key = product.name.toLowerCase();
+      byName.set(key, [...(byName.get(key) ?? []), product]);
+    }
+
+    const plan: ImportPlan = { creates: [], updates: [] };
+    const seenNames = new Map<string, number>();
+    const seenSkus = new Map<string, number>();
+    for (const row of valid) {
+      const { name, sku } = row.product;
+      const nameKey = name.toLowerCase();
+      const firstRow = seenNames.get(nameKey) ?? (sku && seenSkus.get(sku));
+      if (firstRow) {
+        row.errors.push(`Same product as row ${firstRow}`);
+        continue;
+      }
+      seenNames.set(nameKey, row.row);
+      if (sku) seenSkus.set(sku, row.row);
+
+      let target = sku ? bySku.get(sku) : undefined;
+      const named = (byName.get(nameKey) ?? []).filter(
+        (product) => product.id !== target?.id,
+      );
+      if (target && named.length > 0) {
+        row.errors.push(`Another product is already named "${name}"`);
+      } else if (named.length > 1) {
+        row.errors.push(
+          `${named.length} products are named "${name}"; add a sku to pick one`,
+        );
+      } else if (named.length === 1 && sku && named[0].sku) {
+        row.errors.push(`"${name}" already exists with SKU ${named[0].sku}`);
+      } else {
+        target = target ?? named[0];
+      }
+      if (row.errors.length > 0) continue;
+
+      if (target) plan.updates.push({ row, product: target });
+      else plan.creates.push(row);
+    }
+    return plan;
+  }
+
+  private async saveImport(manager: EntityManager, plan: ImportPlan) {
+    const repository = manager.getRepository(Product);
+    const toSave: Product[] = [];
+    for (const { product: dto } of plan.creates) {
+      toSave.push(
+        repository.create({
+          ...dto,
+          ...(dto.currency && { currency: normalizeCurrency(dto.currency) }),
+          category: { id: dto.category } as Category,
+        }),
+      );
+    }
+    // Cells left empty keep what the product has
+    for (const { row, product } of plan.updates) {
+      const { category, currency, ...fields } = row.product;
+      for (const [field, value] of Object.entries(fields)) {
+        if (value !== undefined) product[field] = value;
+      }
+      if (currency) product.currency = normalizeCurrency(currency);
+      product.category = { id: category } as Category;
+      toSave.push(product);
+    }
+    await repository.save(toSave, { chunk: 100 });
+  }
+
+  /**
+   * Creates or updates a product per CSV row, all in one transaction: if any
+   * row is invalid nothing is saved and the 400 lists every row's errors. A
+   * dry run checks the same way and reports what would happen.
+   */
+  async importProducts(csv: string, dryRun: boolean) {
+    const rows = this.readRows(csv);
+    const categories = await this.categoryRepository.find({
+      select: { id: true, name: true },
+    });
+    const lookup = {
+      byId: new Set(categories.map((category) => category.id)),
+      byName: new Map(
+        categories.map((category) => [
+          category.name.toLowerCase(),
+          category.id,
+        ]),
+      ),
+    };
+    const checked: ImportRow[] = [];
+    for (const row of rows) checked.push(await this.checkRow(row, lookup));
+
+    const report = (plan: ImportPlan) => {
+      const errors: ImportRowError[] = checked
+        .filter((row) => row.errors.length > 0)
+        .map(({ row, errors }) => ({ row, errors }));
+      return {
+        summary: {
+          rows: checked.length,
+          created: plan.creates.length,
+          updated: plan.updates.length,
+          invalid: errors.length,
+        },
+        errors,
+      };
+    };
+
+    if (dryRun) {
+      const plan = await this.planImport(
+        this.productRepository.manager,
+        checked,
+      );
+      return {
+        message: 'Product import checked successfully',
+        dryRun: true,
+        ...report(plan),
+      };
+    }
+
+    try {
+      return await this.productRepository.manager.transaction(
+        async (manager) => {
+          const plan = await this.planImport(manager, checked);
+          const { summary, errors } = report(plan);
+          if (errors.length > 0) {
+            throw new HttpException(
+              {
+                statusCode: HttpStatus.BAD_REQUEST,
+                message: `${errors.length} of ${summary.rows} rows are invalid; nothing was imported`,
+                errors,
+              },
+              HttpStatus.BAD_REQUEST,
+            );
+          }
+          await this.saveImport(manager, plan);
+          return {
+            message: 'Products imported successfully',
+            dryRun: false,
+            summary,
+            errors,
+          };
+        },
+      );
+    } catch (error) {
+      if (error instanceof HttpException) throw error;
+      if (error?.code === 'ER_DUP_ENTRY') {
+        throw new HttpException(
+          'A product in the file was added meanwhile; run the import again',
+          HttpStatus.CONFLICT,
+        );
+      }
+      this.logger.error(
+        'Failed to import products',
+        error?.stack ?? String(error),
+      );
+      throw new HttpException(
+        'An error occurred while importing products',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  private exportBatch(afterId: number) {
+    return this.productRepository.find({
+      where: { id: MoreThan(afterId) },
+      relations: { category: true },
+      order: { id: 'ASC' },
+      take: EXPORT_BATCH_SIZE,
+    });
+  }
+
+  private async *exportChunks(first: Product[]) {
+    yield csvRow(PRODUCT_CSV_COLUMNS.map((column) => csvCell(column)));
+    let batch = first;
+    while (batch.length > 0) {
+      yield batch
+        .map((product) =>
+          csvRow([
+            csvCell(product.sku),
+            csvCell(product.name, true),
+            csvCell(product.description, true),
+            csvCell(product.price),
+            csvCell(product.currency),
+            csvCell(product.category?.name, true),
+            csvCell(product.imageUrl),
+            csvCell(product.stock),
+          ]),
+        )
+        .join('');
+      if (batch.length < EXPORT_BATCH_SIZE) return;
+      batch = await this.exportBatch(batch[batch.length - 1].id);
+    }
+  }
+
+  /**
+   * Every product as CSV in the columns the import takes, so a file can be
+   * exported, edited and imported back. Read a batch at a time.
+   */
+  async exportProducts(): Promise<Readable> {
+    try {
+      const first = await this.exportBatch(0);
+      return Readable.from(this.exportChunks(first));
+    } catch (error) {
+      this.logger.error(
+        'Failed to export products',
+        error?.stack ?? String(error),
+      );
+      throw new HttpException(
+        'An error occurred while exporting products',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import { CursorSort } from '../pagination/cursor';
+import { Product } from '../typeorm/entities/Product';
+
+export const PRODUCT_SORTS = [
+  'price_asc',
+  'price_desc',
+  'newest',
+  'popularity',
+  'name',
+] as const;
+
+export type ProductSort = (typeof PRODUCT_SORTS)[number];
+
+/**
+ * Sorts cursor pagination can seek on, `id` being the default. Popularity and
+ * relevance scores move as orders and products come in, so those sorts are
+ * only paged by offset.
+ */
+export const PRODUCT_CURSOR_SORTS: Record<
+  'id' | Exclude<ProductSort, 'popularity'>,
+  CursorSort<Product>
+> = {
+  id: {
+    name: 'id',
+    column: 'product.id',
+    order: 'ASC',
+    idOrder: 'ASC',
+    valueOf: (product) => product.id,
+  },
+  price_asc: {
+    name: 'price_asc',
+    column: 'product.price',
+    order: 'ASC',
+    idOrder: 'ASC',
+    valueOf: (product) => product.price,
+  },
+  price_desc: {
+    name: 'price_desc',
+    column: 'product.price',
+    order: 'DESC',
+    idOrder: 'ASC',
+    valueOf: (product) => product.price,
+  },
+  newest: {
+    name: 'newest',
+    column: 'product.createdAt',
+    order: 'DESC',
+    idOrder: 'DESC',
+    valueOf: (product) => new Date(product.createdAt).toISOString(),
+    parse: (value) => new Date(value),
+  },
+  name: {
+    name: 'name',
+    column: 'product.name',
+    order: 'ASC',
+    idOrder: 'ASC',
+    valueOf: (product) => product.name,
+  },
+};
+
+// Facet buckets in minor units of the stored price; `max` is exclusive, null means no upper bound
+export const PRICE_BUCKETS: readonly { min: number; max: number | null }[] = [
+  { min: 0, max: 2500 },
+  { min: 2500, max: 5000 },
+  { min: 5000, max: 10000 },
+  { min: 10000, max: 25000 },
+  { min: 25000, max: null },
+];
+
+export type ProductFacets = {
+  categories: { id: number; name: string; count: number }[];
+  prices: { min: number; max: number | null; count: number }[];
+};
+
+// InnoDB's innodb_ft_min_token_size: shorter words aren't in a FULLTEXT index
+export const FULLTEXT_MIN_WORD_LENGTH = 3;
+
+// How much more a match in the name counts than one in the description
+export const NAME_MATCH_WEIGHT = 3;
+
+/**
+ * Turns search text into a boolean-mode FULLTEXT query requiring every word
+ * as a prefix ("lap" finds "laptop"). Words too short to be indexed are
+ * dropped; null when none is left.
+ */
+export function fullTextTerms(text: string): string | null {
+  const words = text
+    .split(/[^\p{L}\p{N}_]+/u)
+    .filter((word) => word.length >= FULLTEXT_MIN_WORD_LENGTH);
+  return words.length > 0 ? words.map((word) => `+${word}*`).join(' ') : null;
+}
@@ -1,6 +1,8 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { ProductsController } from './products.controller';
 import { ProductsService } from './products.service';
+import { SearchService } from 'src/search/search.service';
+import { ProductCsvService } from './product-csv.service';
 import { CreateProductDto } from './dtos/CreateProductDto';
 import { UpdateProductDto } from './dtos/UpdateProductDto';
 import { HttpException, HttpStatus } from '@nestjs/common';
@@ -16,9 +18,24 @@ describe('ProductsController', () => {
     getProductsByIds: jest.fn(),
     getProductsByNameSearch: jest.fn(),
     getProductsByNameSearchPaginated: jest.fn(),
+    searchProducts: jest.fn(),
+    getProductsByCursor: jest.fn(),
+    searchProductsByCursor: jest.fn(),
     createProduct: jest.fn(),
     deleteProduct: jest.fn(),
     updateProduct: jest.fn(),
+    getProductPrices: jest.fn(),
+    setProductPrice: jest.fn(),
+    deleteProductPrice: jest.fn(),
+  };
+
+  const mockSearchService = {
+    suggest: jest.fn(),
+  };
+
+  const mockProductCsvService = {
+    importProducts: jest.fn(),
+    exportProducts: jest.fn(),
   };
 
   beforeEach(async () => {
@@ -29,6 +46,14 @@ describe('ProductsController', () => {
           provide: ProductsService,
           useValue: mockProductsService,
         },
+        {
+          provide: SearchService,
+          useValue: mockSearchService,
+        },
+        {
+          provide: ProductCsvService,
+          useValue: mockProductCsvService,
+        },
       ],
     }).compile();
 
@@ -69,7 +94,7 @@ describe('ProductsController', () => {
       const result = await controller.getProducts();
 
       expect(result).toEqual(mockProducts);
-      expect(service.getProducts).toHaveBeenCalledWith();
+      expect(service.getProducts).toHaveBeenCalledWith(undefined, undefined);
       expect(service.getProducts).toHaveBeenCalledTimes(1);
     });
 
@@ -91,7 +116,7 @@ describe('ProductsController', () => {
       const result = await controller.getProducts('1', '10');
 
       expect(result).toEqual(payload);
-      expect(service.getProductsPaginated).toHaveBeenCalledWith(1, 10);
+      expect(service.getProductsPaginated).toHaveBeenCalledWith(1, 10, undefined, undefined);
     });
   });
 
@@ -111,7 +136,7 @@ describe('ProductsController', () => {
       const result = await controller.getProductsBySearch('Lap');
 
       expect(result).toEqual(mockProducts);
-      expect(service.getProductsByNameSearch).toHaveBeenCalledWith('Lap');
+      expect(service.getProductsByNameSearch).toHaveBeenCalledWith('Lap', undefined, undefined);
       expect(service.getProductsByNameSearch).toHaveBeenCalledTimes(1);
     });
 
@@ -120,7 +145,7 @@ describe('ProductsController', () => {
       mockProductsService.getProductsByNameSearch.mockRejectedValue(error);
 
       await expect(controller.getProductsBySearch(undefined as any)).rejects.toThrow(error);
-      expect(service.getProductsByNameSearch).toHaveBeenCalledWith(undefined);
+      expect(service.getProductsByNameSearch).toHaveBeenCalledWith(undefined, undefined, undefined);
     });
 
     it('should propagate service errors for invalid search', async () => {
@@ -128,7 +153,7 @@ describe('ProductsController', () => {
       mockProductsService.getProductsByNameSearch.mockRejectedValue(error);
 
       await expect(controller.getProductsBySearch('')).rejects.toThrow(error);
-      expect(service.getProductsByNameSearch).toHaveBeenCalledWith('');
+      expect(service.getProductsByNameSearch).toHaveBeenCalledWith('', undefined, undefined);
     });
 
     it('should propagate not found errors', async () => {
@@ -151,7 +176,62 @@ describe('ProductsController', () => {
       const result = await controller.getProductsBySearch('Lap', '2', '5');
 
       expect(result).toEqual(payload);
-      expect(service.getProductsByNameSearchPaginated).toHaveBeenCalledWith('Lap', 2, 5);
+      expect(service.getProductsByNameSearchPaginated).toHaveBeenCalledWith('Lap', 2, 5, undefined, undefined);
+    });
+
+    it('should run the faceted search when a filter is given', async () => {
+      await controller.getProductsBySearch(
+        undefined, undefined, undefined, 'EUR', undefined,
+        'shoe', ['1,2', '2'], '1000', '5000', 'true', 'price_asc',
+      );
+
+      expect(service.searchProducts).toHaveBeenCalledWith(
+        {
+          q: 'shoe',
+          categoryIds: [1, 2],
+          minPrice: 1000,
+          maxPrice: 5000,
+          inStock: true,
+          sort: 'price_asc',
+          options: undefined,
+          page: 1,
+          limit: 10,
+        },
+        'EUR',
+      );
+      expect(service.getProductsByNameSearch).not.toHaveBeenCalled();
+    });
+
+    it('should include subcategories of the category filter when asked', async () => {
+      await controller.getProductsBySearch(
+        undefined, undefined, undefined, undefined, undefined,
+        undefined, '4', undefined, undefined, undefined, undefined, undefined, 'true',
+      );
+
+      expect(service.searchProducts).toHaveBeenCalledWith(
+        expect.objectContaining({ categoryIds: [4], includeSubcategories: true }),
+        undefined,
+      );
+    });
+
+    it('should reject malformed search filters', () => {
+      expect(() =>
+        controller.getProductsBySearch(undefined, undefined, undefined, undefined, undefined, undefined, 'a,1'),
+      ).toThrow(HttpException);
+      expect(() =>
+        controller.getProductsBySearch(undefined, undefined, undefined, undefined, undefined, undefined, undefined, '-1'),
+      ).toThrow(HttpException);
+      expect(() =>
+        controller.getProductsBySearch(
+          undefined, undefined, undefined, undefined, undefined, undefined, undefined, undefined, undefined, undefined, 'cheapest',
+        ),
+      ).toThrow(
+        new HttpException(
+          'Query parameter "sort" must be one of: price_asc, price_desc, newest, popularity, name',
+          HttpStatus.BAD_REQUEST,
+        ),
+      );
+      expect(service.searchProducts).not.toHaveBeenCalled();
     });
   });
 
@@ -170,7 +250,7 @@ describe('ProductsController', () => {
       const result = await controller.getProductById(1);
 
       expect(result).toEqual(mockProduct);
-      expect(service.getProductById).toHaveBeenCalledWith(1);
+      expect(service.getProductById).toHaveBeenCalledWith(1, undefined);
       expect(service.getProductById).toHaveBeenCalledTimes(1);
     });
 
@@ -179,7 +259,7 @@ describe('ProductsController', () => {
       mockProductsService.getProductById.mockRejectedValue(error);
 
       await expect(controller.getProductById(999)).rejects.toThrow(error);
-      expect(service.getProductById).toHaveBeenCalledWith(999);
+      expect(service.getProductById).toHaveBeenCalledWith(999, undefined);
     });
 
     it('should propagate bad request errors for invalid id', async () => {
@@ -187,7 +267,57 @@ describe('ProductsController', () => {
       mockProductsService.getProductById.mockRejectedValue(error);
 
       await expect(controller.getProductById(0)).rejects.toThrow(error);
-      expect(service.getProductById).toHaveBeenCalledWith(0);
+      expect(service.getProductById).toHaveBeenCalledWith(0, undefined);
+    });
+  });
+
+  describe('cursor pagination', () => {
+    it('should page products by cursor when one is given, even empty', async () => {
+      await controller.getProducts(undefined, '5', 'EUR', undefined, '');
+
+      expect(service.getProductsByCursor).toHaveBeenCalledWith('', 5, 'EUR', undefined);
+      expect(service.getProductsPaginated).not.toHaveBeenCalled();
+    });
+
+    it('should search by cursor', async () => {
+      await controller.getProductsBySearch(
+        'shoe',
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        'name',
+        'abc',
+      );
+
+      expect(service.searchProductsByCursor).toHaveBeenCalledWith(
+        expect.objectContaining({ q: 'shoe', sort: 'name', cursor: 'abc', limit: 10 }),
+        undefined,
+      );
+      expect(service.searchProducts).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getSuggestions', () => {
+    it('should pass the typed text to the search service', async () => {
+      const suggestions = { query: 'lap', products: [], categories: [], queries: [] };
+      mockSearchService.suggest.mockResolvedValue({ message: 'Suggestions retrieved successfully', suggestions });
+
+      const result = await controller.getSuggestions('lap');
+
+      expect(mockSearchService.suggest).toHaveBeenCalledWith('lap');
+      expect(result.suggestions).toBe(suggestions);
+    });
+
+    it('should treat a missing q as empty', async () => {
+      await controller.getSuggestions(undefined);
+
+      expect(mockSearchService.suggest).toHaveBeenCalledWith('');
     });
   });
 
@@ -214,7 +344,7 @@ describe('ProductsController', () => {
       const result = await controller.getProductsByIds('1,2');
 
       expect(result).toEqual(mockProducts);
-      expect(service.getProductsByIds).toHaveBeenCalledWith([1, 2]);
+      expect(service.getProductsByIds).toHaveBeenCalledWith([1, 2], undefined);
       expect(service.getProductsByIds).toHaveBeenCalledTimes(1);
     });
 
@@ -224,7 +354,7 @@ describe('ProductsController', () => {
       const result = await controller.getProductsByIds(['1', '2'] as any);
 
       expect(result).toEqual([{ id: 1 }, { id: 2 }]);
-      expect(service.getProductsByIds).toHaveBeenCalledWith([1, 2]);
+      expect(service.getProductsByIds).toHaveBeenCalledWith([1, 2], undefined);
       expect(service.getProductsByIds).toHaveBeenCalledTimes(1);
     });
 
@@ -233,7 +363,7 @@ describe('ProductsController', () => {
 
       await controller.getProductsByIds(' 1, , 2 ,');
 
-      expect(service.getProductsByIds).toHaveBeenCalledWith([1, 2]);
+      expect(service.getProductsByIds).toHaveBeenCalledWith([1, 2], undefined);
       expect(service.getProductsByIds).toHaveBeenCalledTimes(1);
     });
 
@@ -242,7 +372,7 @@ describe('ProductsController', () => {
 
       await controller.getProductsByIds('2,2,2');
 
-      expect(service.getProductsByIds).toHaveBeenCalledWith([2]);
+      expect(service.getProductsByIds).toHaveBeenCalledWith([2], undefined);
       expect(service.getProductsByIds).toHaveBeenCalledTimes(1);
     });
 
@@ -317,7 +447,7 @@ describe('ProductsController', () => {
       mockProductsService.getProductsByIds.mockRejectedValue(error);
 
       await expect(controller.getProductsByIds('999,1000')).rejects.toThrow(error);
-      expect(service.getProductsByIds).toHaveBeenCalledWith([999, 1000]);
+      expect(service.getProductsByIds).toHaveBeenCalledWith([999, 1000], undefined);
     });
 
     it('should propagate generic service errors', async () => {
@@ -325,7 +455,7 @@ describe('ProductsController', () => {
       mockProductsService.getProductsByIds.mockRejectedValue(error);
 
       await expect(controller.getProductsByIds('1,2')).rejects.toThrow(error);
-      expect(service.getProductsByIds).toHaveBeenCalledWith([1, 2]);
+      expect(service.getProductsByIds).toHaveBeenCalledWith([1, 2], undefined);
     });
   });
 
@@ -487,4 +617,56 @@ describe('ProductsController', () => {
       expect(service.updateProduct).toHaveBeenCalledWith(1, mockUpdateProductParams);
     });
   });
-});
\ No newline at end of file
+
+  describe('prices', () => {
+    it('should pass the requested currency to the product getters', async () => {
+      mockProductsService.getProducts.mockResolvedValue([]);
+      mockProductsService.getProductById.mockResolvedValue({});
+
+      await controller.getProducts(undefined, undefined, 'EUR');
+      await controller.getProductById(1, 'EUR');
+
+      expect(service.getProducts).toHaveBeenCalledWith('EUR', undefined);
+      expect(service.getProductById).toHaveBeenCalledWith(1, 'EUR');
+    });
+
+    it('should pass price overrides to the service', async () => {
+      await controller.getProductPrices(1);
+      await controller.setProductPrice(1, 'eur', { price: 1799 });
+      await controller.deleteProductPrice(1, 'eur');
+
+      expect(service.getProductPrices).toHaveBeenCalledWith(1);
+      expect(service.setProductPrice).toHaveBeenCalledWith(1, 'eur', 1799);
+      expect(service.deleteProductPrice).toHaveBeenCalledWith(1, 'eur');
+    });
+  });
+
+  describe('importProducts', () => {
+    const file = { buffer: Buffer.from('name,description,price,category\r\n') } as Express.Multer.File;
+
+    it('should import the uploaded file, as a dry run when asked', async () => {
+      mockProductCsvService.importProducts.mockResolvedValue({ dryRun: true });
+
+      await controller.importProducts(file, 'true');
+      await controller.importProducts(file);
+
+      expect(mockProductCsvService.importProducts).toHaveBeenNthCalledWith(
+        1,
+        'name,description,price,category\r\n',
+        true,
+      );
+      expect(mockProductCsvService.importProducts).toHaveBeenNthCalledWith(
+        2,
+        'name,description,price,category\r\n',
+        false,
+      );
+    });
+
+    it('should require a file', () => {
+      expect(() => controller.importProducts(undefined)).toThrow(
+        new HttpException('A CSV file is required in the "file" field', HttpStatus.BAD_REQUEST),
+      );
+      expect(mockProductCsvService.importProducts).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -11,18 +11,31 @@ import {
   Post,
   Put,
   Query,
+  StreamableFile,
+  UploadedFile,
+  UseInterceptors,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import { ProductsService } from './products.service';
 import { CreateProductDto } from 'src/products/dtos/CreateProductDto';
 import { UpdateProductDto } from 'src/products/dtos/UpdateProductDto';
+import { SetProductPriceDto } from 'src/products/dtos/SetProductPriceDto';
 import { Public } from 'utils/publicDecorator';
 import { Roles } from 'utils/rolesDecorator';
-import { ApiTags } from '@nestjs/swagger';
+import { ApiConsumes, ApiTags } from '@nestjs/swagger';
+import { Throttle, seconds } from '@nestjs/throttler';
+import { PRODUCT_SORTS, ProductSort } from './product-search';
+import { SearchService } from 'src/search/search.service';
+import { MAX_IMPORT_BYTES, ProductCsvService } from './product-csv.service';
 
 @ApiTags('products')
 @Controller('products')
 export class ProductsController {
-  constructor(private productService: ProductsService) {}
+  constructor(
+    private productService: ProductsService,
+    private searchService: SearchService,
+    private productCsvService: ProductCsvService,
+  ) {}
 
   private parsePositiveInt(value: string | undefined, fallback: number, label: string): number {
     if (value === undefined || value === null || value === '') return fallback;
@@ -36,40 +49,149 @@ export class ProductsController {
     return parsed;
   }
 
+  // Prices may be 0, so this one starts at 0
+  private parsePrice(value: string | undefined, label: string): number | undefined {
+    if (value === undefined || value === '') return undefined;
+    if (!/^\d+$/.test(value)) {
+      throw new HttpException(`Query parameter "${label}" must be a whole number of minor units`, HttpStatus.BAD_REQUEST);
+    }
+    return parseInt(value, 10);
+  }
+
+  // Accepts category=1,2 as well as category=1&category=2
+  private parseCategoryIds(value: string | string[] | undefined): number[] | undefined {
+    if (value === undefined) return undefined;
+    const tokens = (Array.isArray(value) ? value.join(',') : value)
+      .split(',')
+      .map((s) => s.trim())
+      .filter(Boolean);
+    if (tokens.length > 50 || tokens.some((t) => !/^[1-9]\d*$/.test(t))) {
+      throw new HttpException(
+        'Query parameter "category" must be a comma-separated list of category ids',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    return tokens.length ? [...new Set(tokens.map((t) => parseInt(t, 10)))] : undefined;
+  }
+
+  private parseBoolean(value: string | undefined, label: string): boolean | undefined {
+    if (value === undefined || value === '') return undefined;
+    if (value === 'true' || value === '1') return true;
+    if (value === 'false' || value === '0') return false;
+    throw new HttpException(`Query parameter "${label}" must be true or false`, HttpStatus.BAD_REQUEST);
+  }
+
+  private parseSort(value: string | undefined): ProductSort | undefined {
+    if (value === undefined || value === '') return undefined;
+    if (!PRODUCT_SORTS.includes(value as ProductSort)) {
+      throw new HttpException(
+        `Query parameter "sort" must be one of: ${PRODUCT_SORTS.join(', ')}`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    return value as ProductSort;
+  }
+
   @Public()
   @Get()
   getProducts(
     @Query('page') page?: string,
     @Query('limit') limit?: string,
+    @Query('currency') currency?: string,
+    @Query('options') options?: string,
+    @Query('cursor') cursor?: string,
   ) {
+    // ?cursor= (empty for the first page) switches to cursor pagination
+    if (cursor !== undefined) {
+      return this.productService.getProductsByCursor(
+        cursor,
+        this.parsePositiveInt(limit, 10, 'limit'),
+        currency,
+        options,
+      );
+    }
+
     // Backward compatible: when no pagination is provided, return all products
     if (page === undefined && limit === undefined) {
-      return this.productService.getProducts();
+      return this.productService.getProducts(currency, options);
     }
 
     const parsedPage = this.parsePositiveInt(page, 1, 'page');
     const parsedLimit = this.parsePositiveInt(limit, 10, 'limit');
-    return this.productService.getProductsPaginated(parsedPage, parsedLimit);
+    return this.productService.getProductsPaginated(parsedPage, parsedLimit, currency, options);
   }
+  /**
+   * Faceted search (`q`, `category`, `minPrice`, `maxPrice`, `inStock`, `sort`),
+   * returning `{ items, meta, facets }`, paged by `cursor` when it is given.
+   * `includeSubcategories=true` also matches products in the subcategories of `category`.
+   * Calls without any of those keep the old name-only search and response.
+   */
   @Public()
   @Get('search') 
   getProductsBySearch(
     @Query('name') name: string,
     @Query('page') page?: string,
     @Query('limit') limit?: string,
+    @Query('currency') currency?: string,
+    @Query('options') options?: string,
+    @Query('q') q?: string,
+    @Query('category') category?: string | string[],
+    @Query('minPrice') minPrice?: string,
+    @Query('maxPrice') maxPrice?: string,
+    @Query('inStock') inStock?: string,
+    @Query('sort') sort?: string,
+    @Query('cursor') cursor?: string,
+    @Query('includeSubcategories') includeSubcategories?: string,
   ) {
+    const faceted = [q, category, minPrice, maxPrice, inStock, sort, cursor, includeSubcategories].some(
+      (value) => value !== undefined,
+    );
+    if (faceted) {
+      const params = {
+        q: q ?? name,
+        categoryIds: this.parseCategoryIds(category),
+        includeSubcategories: this.parseBoolean(includeSubcategories, 'includeSubcategories'),
+        minPrice: this.parsePrice(minPrice, 'minPrice'),
+        maxPrice: this.parsePrice(maxPrice, 'maxPrice'),
+        inStock: this.parseBoolean(inStock, 'inStock'),
+        sort: this.parseSort(sort),
+        options,
+        page: this.parsePositiveInt(page, 1, 'page'),
+        limit: this.parsePositiveInt(limit, 10, 'limit'),
+      };
+      if (cursor !== undefined) {
+        return this.productService.searchProductsByCursor({ ...params, cursor }, currency);
+      }
+      return this.productService.searchProducts(params, currency);
+    }
+
     if (page === undefined && limit === undefined) {
-      return this.productService.getProductsByNameSearch(name);
+      return this.productService.getProductsByNameSearch(name, currency, options);
     }
 
     const parsedPage = this.parsePositiveInt(page, 1, 'page');
     const parsedLimit = this.parsePositiveInt(limit, 10, 'limit');
-    return this.productService.getProductsByNameSearchPaginated(name, parsedPage, parsedLimit);
+    return this.productService.getProductsByNameSearchPaginated(name, parsedPage, parsedLimit, currency, options);
+  }
+
+  /**
+   * Autocomplete for the search box: product names, category names and
+   * popular searches starting with `q`. Typing sends a request per keystroke,
+   * so it gets a limit of its own instead of the global one.
+   */
+  @Public()
+  @Throttle({ default: { limit: 30, ttl: seconds(10) } })
+  @Get('suggest')
+  getSuggestions(@Query('q') q?: string) {
+    return this.searchService.suggest(q ?? '');
   }
 
    @Public()
   @Get('all')
-  getProductsByIds(@Query('ids') ids: string | string[]) {
+  getProductsByIds(
+    @Query('ids') ids: string | string[],
+    @Query('currency') currency?: string,
+  ) {
     if (!ids || (Array.isArray(ids) && ids.length === 0)) {
       throw new HttpException('Query parameter "ids" is required', HttpStatus.BAD_REQUEST);
     }
@@ -111,13 +233,69 @@ export class ProductsController {
     }
 
     const uniqueIds = [...new Set(parsedIds)];
-    return this.productService.getProductsByIds(uniqueIds);
+    return this.productService.getProductsByIds(uniqueIds, currency);
+  }
+
+  // Every product as a CSV file that `POST /products/import` takes back
+  @Roles('admin')
+  @Get('export')
+  async exportProducts() {
+    const stream = await this.productCsvService.exportProducts();
+    return new StreamableFile(stream, {
+      type: 'text/csv; charset=utf-8',
+      disposition: 'attachment; filename="products.csv"',
+    });
+  }
+
+  /**
+   * Creates or updates the products of a CSV file sent as multipart/form-data
+   * in a `file` field. With `dryRun=true` nothing is saved and the answer
+   * says what would be created or updated and which rows are invalid.
+   */
+  @Roles('admin')
+  @Post('import')
+  @HttpCode(200)
+  @ApiConsumes('multipart/form-data')
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_IMPORT_BYTES, files: 1 } }))
+  importProducts(@UploadedFile() file: Express.Multer.File, @Query('dryRun') dryRun?: string) {
+    if (!file) {
+      throw new HttpException('A CSV file is required in the "file" field', HttpStatus.BAD_REQUEST);
+    }
+    return this.productCsvService.importProducts(file.buffer.toString('utf8'), this.parseBoolean(dryRun, 'dryRun') ?? false);
   }
 
   @Public()
   @Get(':id')
-  getProductById(@Param('id', ParseIntPipe) id: number) {
-    return this.productService.getProductById(id);
+  getProductById(
+    @Param('id', ParseIntPipe) id: number,
+    @Query('currency') currency?: string,
+  ) {
+    return this.productService.getProductById(id, currency);
+  }
+
+  @Roles("admin")
+  @Get(':id/prices')
+  getProductPrices(@Param('id', ParseIntPipe) id: number) {
+    return this.productService.getProductPrices(id);
+  }
+
+  @Roles("admin")
+  @Put(':id/prices/:currency')
+  setProductPrice(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('currency') currency: string,
+    @Body() setProductPriceDto: SetProductPriceDto,
+  ) {
+    return this.productService.setProductPrice(id, currency, setProductPriceDto.price);
+  }
+
+  @Roles("admin")
+  @Delete(':id/prices/:currency')
+  deleteProductPrice(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('currency') currency: string,
+  ) {
+    return this.productService.deleteProductPrice(id, currency);
   }
 
   @Roles("admin")
@@ -1,15 +1,28 @@
 import { Module } from '@nestjs/common';
 import { ProductsController } from './products.controller';
 import { ProductsService } from './products.service';
+import { ProductCsvService } from './product-csv.service';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { Product } from 'src/typeorm/entities/Product';
 import { CategoryService } from 'src/category/category.service';
 import { CategoryModule } from 'src/category/category.module';
 import { Category } from 'src/typeorm/entities/Category';
+import { ProductPrice } from 'src/typeorm/entities/ProductPrice';
+import { CurrencyModule } from 'src/currency/currency.module';
+import { VariantsModule } from 'src/variants/variants.module';
+import { ImagesModule } from 'src/images/images.module';
+import { SearchModule } from 'src/search/search.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Product, Category]), CategoryModule],
+  imports: [
+    TypeOrmModule.forFeature([Product, Category, ProductPrice]),
+    CategoryModule,
+    CurrencyModule,
+    VariantsModule,
+    ImagesModule,
+    SearchModule,
+  ],
   controllers: [ProductsController],
-  providers: [ProductsService, CategoryService],
+  providers: [ProductsService, ProductCsvService, CategoryService],
 })
 export class ProductsModule {}
@@ -3,6 +3,11 @@ import { ProductsService } from './products.service';
 import { getRepositoryToken } from '@nestjs/typeorm';
 import { Product } from '../typeorm/entities/Product';
 import { CategoryService } from '../category/category.service';
+import { ProductPrice } from '../typeorm/entities/ProductPrice';
+import { CurrencyService } from '../currency/currency.service';
+import { VariantsService } from '../variants/variants.service';
+import { ImagesService } from '../images/images.service';
+import { SearchService } from '../search/search.service';
 import { In, Repository } from 'typeorm';
 import { HttpException, HttpStatus } from '@nestjs/common';
 
@@ -21,6 +26,32 @@ describe('ProductsService', () => {
 
   const mockCategoryService = {
     getCategoryById: jest.fn(),
+    breadcrumbs: jest.fn().mockResolvedValue(new Map()),
+  };
+
+  const mockProductPriceRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn((price) => ({ ...price })),
+    save: jest.fn((price) => ({ id: 5, ...price })),
+    remove: jest.fn(),
+  };
+
+  const mockCurrencyService = {
+    priceProducts: jest.fn(),
+  };
+
+  const mockVariantsService = {
+    productIdsWithOptions: jest.fn(),
+  };
+
+  const mockImagesService = {
+    storedKeys: jest.fn(async () => []),
+    deleteFiles: jest.fn(),
+  };
+
+  const mockSearchService = {
+    recordSearch: jest.fn(),
   };
 
   beforeEach(async () => {
@@ -35,6 +66,26 @@ describe('ProductsService', () => {
           provide: CategoryService,
           useValue: mockCategoryService,
         },
+        {
+          provide: getRepositoryToken(ProductPrice),
+          useValue: mockProductPriceRepository,
+        },
+        {
+          provide: CurrencyService,
+          useValue: mockCurrencyService,
+        },
+        {
+          provide: VariantsService,
+          useValue: mockVariantsService,
+        },
+        {
+          provide: ImagesService,
+          useValue: mockImagesService,
+        },
+        {
+          provide: SearchService,
+          useValue: mockSearchService,
+        },
       ],
     }).compile();
 
@@ -96,6 +147,19 @@ describe('ProductsService', () => {
         new HttpException('No products found', HttpStatus.NOT_FOUND),
       );
     });
+
+    it('should only list products with a variant matching the options', async () => {
+      mockVariantsService.productIdsWithOptions.mockResolvedValue([2]);
+      mockProductRepository.find.mockResolvedValue([{ id: 2, name: 'Shirt' }]);
+
+      await service.getProducts(undefined, 'Color:Red,Size:M');
+
+      expect(mockVariantsService.productIdsWithOptions).toHaveBeenCalledWith('Color:Red,Size:M');
+      expect(mockProductRepository.find).toHaveBeenCalledWith({
+        where: { id: In([2]) },
+        relations: ['orderItems', 'category'],
+      });
+    });
   });
 
   describe('getProductById', () => {
@@ -115,12 +179,26 @@ describe('ProductsService', () => {
       expect(result).toEqual(mockProduct);
       expect(mockProductRepository.findOne).toHaveBeenCalled();
       expect(mockProductRepository.findOne).toHaveBeenCalledWith({
-        relations: ['orderItems'],
+        relations: ['orderItems', 'category'],
         where: { id: mockProduct.id },
       });
       expect(mockProductRepository.findOne).toHaveBeenCalledTimes(1);
     });
 
+    it('should add the breadcrumbs of the product category', async () => {
+      const crumbs = [
+        { id: 1, name: 'Electronics' },
+        { id: 4, name: 'Laptops' },
+      ];
+      mockProductRepository.findOne.mockResolvedValue({ id: 1, name: 'Laptop', category: { id: 4 } });
+      mockCategoryService.breadcrumbs.mockResolvedValueOnce(new Map([[4, crumbs]]));
+
+      const result = await service.getProductById(1);
+
+      expect(mockCategoryService.breadcrumbs).toHaveBeenCalledWith([4]);
+      expect(result.breadcrumbs).toEqual(crumbs);
+    });
+
     it('should throw error when there are no products found', async () => {
       mockProductRepository.findOne.mockResolvedValue(null);
 
@@ -214,6 +292,10 @@ describe('ProductsService', () => {
       qb = {
         leftJoinAndSelect: jest.fn().mockReturnThis(),
         where: jest.fn().mockReturnThis(),
+        andWhere: jest.fn().mockReturnThis(),
+        addSelect: jest.fn().mockReturnThis(),
+        orderBy: jest.fn().mockReturnThis(),
+        addOrderBy: jest.fn().mockReturnThis(),
         getMany: jest.fn(),
       };
       (mockProductRepository as any).createQueryBuilder = jest.fn().mockReturnValue(qb);
@@ -239,16 +321,39 @@ describe('ProductsService', () => {
       expect(qb.leftJoinAndSelect).toHaveBeenCalledWith('product.orderItems', 'orderItems');
       expect(qb.leftJoinAndSelect).toHaveBeenCalledWith('product.category', 'category');
 
-      // current implementation passes `%${escaped}` (no trailing %)
-      expect(qb.where).toHaveBeenCalledWith(
-        "product.name LIKE :name ESCAPE '\\\\'",
-        { name: '%Lap' },
+      expect(qb.andWhere).toHaveBeenCalledWith(
+        'MATCH(product.name, product.description) AGAINST (:terms IN BOOLEAN MODE)',
+        { terms: '+Lap*' },
       );
+      expect(qb.addSelect).toHaveBeenCalledWith(expect.stringContaining('MATCH(product.name)'), 'relevance');
+      expect(qb.orderBy).toHaveBeenCalledWith('relevance', 'DESC');
+      expect(qb.where).not.toHaveBeenCalled();
 
       expect(qb.getMany).toHaveBeenCalledTimes(1);
       expect(mockProductRepository.find).not.toHaveBeenCalled();
     });
 
+    it('should count a search that found products towards popular searches', async () => {
+      qb.getMany.mockResolvedValue([{ id: 1, name: 'Laptop' }]);
+
+      await service.getProductsByNameSearch(' Laptop ');
+
+      expect(mockSearchService.recordSearch).toHaveBeenCalledWith('Laptop');
+    });
+
+    it('should use LIKE for queries too short for the FULLTEXT index', async () => {
+      qb.getMany.mockResolvedValue([{ id: 2, name: 'TV stand' }]);
+
+      await service.getProductsByNameSearch('tv');
+
+      expect(qb.where).toHaveBeenCalledWith(
+        "product.name LIKE :name ESCAPE '\\\\'",
+        { name: '%tv%' },
+      );
+      expect(qb.addSelect).not.toHaveBeenCalled();
+      expect(qb.orderBy).not.toHaveBeenCalled();
+    });
+
     it('should throw bad request error when name is empty', async () => {
       await expect(service.getProductsByNameSearch('')).rejects.toThrow(
         new HttpException('Invalid product name', HttpStatus.BAD_REQUEST),
@@ -389,6 +494,10 @@ describe('ProductsService', () => {
       qb = {
         leftJoinAndSelect: jest.fn().mockReturnThis(),
         where: jest.fn().mockReturnThis(),
+        andWhere: jest.fn().mockReturnThis(),
+        addSelect: jest.fn().mockReturnThis(),
+        orderBy: jest.fn().mockReturnThis(),
+        addOrderBy: jest.fn().mockReturnThis(),
         skip: jest.fn().mockReturnThis(),
         take: jest.fn().mockReturnThis(),
         getManyAndCount: jest.fn(),
@@ -416,10 +525,12 @@ describe('ProductsService', () => {
       });
 
       expect((mockProductRepository as any).createQueryBuilder).toHaveBeenCalledWith('product');
-      expect(qb.where).toHaveBeenCalledWith(
-        "product.name LIKE :name ESCAPE '\\\\'",
-        { name: '%Lap' },
+      expect(qb.andWhere).toHaveBeenCalledWith(
+        'MATCH(product.name, product.description) AGAINST (:terms IN BOOLEAN MODE)',
+        { terms: '+Lap*' },
       );
+      expect(qb.orderBy).toHaveBeenCalledWith('relevance', 'DESC');
+      expect(qb.addOrderBy).toHaveBeenCalledWith('product.id', 'ASC');
       expect(qb.skip).toHaveBeenCalledWith(0);
       expect(qb.take).toHaveBeenCalledWith(10);
       expect(qb.getManyAndCount).toHaveBeenCalledTimes(1);
@@ -442,6 +553,31 @@ describe('ProductsService', () => {
       });
     });
 
+    it('should weight name matches above description matches', async () => {
+      qb.getManyAndCount.mockResolvedValue([[], 0]);
+
+      await service.getProductsByNameSearchPaginated('gaming laptop', 1, 10);
+
+      expect(qb.addSelect).toHaveBeenCalledWith(
+        'MATCH(product.name) AGAINST (:terms IN BOOLEAN MODE) * 3' +
+          ' + MATCH(product.name, product.description) AGAINST (:terms IN BOOLEAN MODE)',
+        'relevance',
+      );
+      expect(qb.andWhere).toHaveBeenCalledWith(expect.any(String), { terms: '+gaming* +laptop*' });
+    });
+
+    it('should fall back to LIKE when every word is too short to be indexed', async () => {
+      qb.getManyAndCount.mockResolvedValue([[], 0]);
+
+      await service.getProductsByNameSearchPaginated('4k', 1, 10);
+
+      expect(qb.where).toHaveBeenCalledWith(
+        "product.name LIKE :name ESCAPE '\\\\'",
+        { name: '%4k%' },
+      );
+      expect(qb.addSelect).not.toHaveBeenCalled();
+    });
+
     it('should validate name and pagination params', async () => {
       await expect(service.getProductsByNameSearchPaginated('', 1, 10)).rejects.toThrow(
         new HttpException('Invalid product name', HttpStatus.BAD_REQUEST),
@@ -452,6 +588,204 @@ describe('ProductsService', () => {
     });
   });
 
+  describe('searchProducts', () => {
+    let qb: any;
+
+    beforeEach(() => {
+      qb = {};
+      [
+        'leftJoinAndSelect',
+        'andWhere',
+        'orderBy',
+        'addOrderBy',
+        'addSelect',
+        'setParameter',
+        'offset',
+        'limit',
+        'select',
+        'groupBy',
+        'addGroupBy',
+        'subQuery',
+        'from',
+        'where',
+        'innerJoin',
+      ].forEach((method) => (qb[method] = jest.fn().mockReturnValue(qb)));
+      qb.getQuery = jest.fn(() => '(subquery)');
+      qb.getManyAndCount = jest.fn().mockResolvedValue([[], 0]);
+      qb.getRawMany = jest.fn().mockResolvedValue([]);
+      qb.getRawOne = jest.fn().mockResolvedValue({});
+      (mockProductRepository as any).createQueryBuilder = jest.fn().mockReturnValue(qb);
+    });
+
+    it('should return a page of matches with category and price facets', async () => {
+      const mockProducts = [{ id: 1, name: 'Laptop', price: 99900, category: { id: 1 } }];
+      qb.getManyAndCount.mockResolvedValue([mockProducts, 11]);
+      qb.getRawMany.mockResolvedValue([{ id: '1', name: 'Electronics', count: '11' }]);
+      qb.getRawOne.mockResolvedValue({ bucket0: '0', bucket1: '0', bucket2: '0', bucket3: '1', bucket4: '10' });
+
+      const result = await service.searchProducts({ q: 'lap', page: 1, limit: 10 });
+
+      expect(result.items).toEqual(mockProducts);
+      expect(result.meta).toMatchObject({ page: 1, totalItems: 11, totalPages: 2 });
+      expect(result.facets.categories).toEqual([{ id: 1, name: 'Electronics', count: 11 }]);
+      expect(result.facets.prices).toEqual([
+        { min: 0, max: 2500, count: 0 },
+        { min: 2500, max: 5000, count: 0 },
+        { min: 5000, max: 10000, count: 0 },
+        { min: 10000, max: 25000, count: 1 },
+        { min: 25000, max: null, count: 10 },
+      ]);
+      expect(qb.andWhere).toHaveBeenCalledWith(
+        'MATCH(product.name, product.description) AGAINST (:terms IN BOOLEAN MODE)',
+        { terms: '+lap*' },
+      );
+      expect(qb.orderBy).toHaveBeenCalledWith('relevance', 'DESC');
+      expect(qb.offset).toHaveBeenCalledWith(0);
+      expect(qb.limit).toHaveBeenCalledWith(10);
+    });
+
+    it('should only count searches that found something', async () => {
+      await service.searchProducts({ q: 'nothing like it', page: 1, limit: 10 });
+
+      expect(mockSearchService.recordSearch).not.toHaveBeenCalled();
+    });
+
+    it('should match short text with LIKE in name or description', async () => {
+      await service.searchProducts({ q: 'tv', page: 1, limit: 10 });
+
+      expect(qb.andWhere).toHaveBeenCalledWith(
+        "(product.name LIKE :text ESCAPE '\\\\' OR product.description LIKE :text ESCAPE '\\\\')",
+        { text: '%tv%' },
+      );
+      expect(qb.orderBy).toHaveBeenCalledWith('product.id', 'ASC');
+    });
+
+    it('should keep an explicit sort over relevance', async () => {
+      await service.searchProducts({ q: 'laptop', sort: 'price_asc', page: 1, limit: 10 });
+
+      expect(qb.orderBy).toHaveBeenCalledWith('product.price', 'ASC');
+      expect(qb.orderBy).not.toHaveBeenCalledWith('relevance', 'DESC');
+    });
+
+    it('should not narrow a facet by its own filter', async () => {
+      await service.searchProducts({ categoryIds: [1, 2], minPrice: 1000, page: 1, limit: 10 });
+
+      const filters = qb.andWhere.mock.calls.map(([condition]) => condition);
+      // Items and the price facet filter by category; the category facet doesn't
+      expect(filters.filter((condition) => condition === 'category.id IN (:...categoryIds)')).toHaveLength(2);
+      // Items and the category facet filter by price; the price facet doesn't
+      expect(filters.filter((condition) => condition === 'product.price >= :minPrice')).toHaveLength(2);
+    });
+
+    it('should match the subcategories of a category when asked to', async () => {
+      await service.searchProducts({ categoryIds: [3], includeSubcategories: true, page: 1, limit: 10 });
+
+      expect(qb.from).toHaveBeenCalledWith(expect.any(Function), 'ancestor');
+      expect(qb.andWhere).toHaveBeenCalledWith('EXISTS (subquery)', { categoryIds: [3] });
+      expect(qb.andWhere).not.toHaveBeenCalledWith('category.id IN (:...categoryIds)', expect.anything());
+    });
+
+    it('should sort by units sold for popularity', async () => {
+      await service.searchProducts({ sort: 'popularity', page: 1, limit: 10 });
+
+      expect(qb.addSelect).toHaveBeenCalledWith('(subquery)', 'sold');
+      expect(qb.orderBy).toHaveBeenCalledWith('sold', 'DESC');
+    });
+
+    it('should only match products in stock, counting variant stock', async () => {
+      await service.searchProducts({ inStock: true, page: 1, limit: 10 });
+
+      expect(qb.andWhere).toHaveBeenCalledWith(
+        '(product.stock - product.reservedStock > 0 OR EXISTS (subquery))',
+        { variantActive: true },
+      );
+    });
+
+    it('should fall back to page 1 when the page is out of range', async () => {
+      qb.getManyAndCount.mockResolvedValueOnce([[], 3]).mockResolvedValueOnce([[{ id: 1 }], 3]);
+
+      const result = await service.searchProducts({ page: 5, limit: 10 });
+
+      expect(result.items).toEqual([{ id: 1 }]);
+      expect(result.meta.page).toBe(1);
+    });
+
+    it('should reject a price range that is upside down', async () => {
+      await expect(
+        service.searchProducts({ minPrice: 5000, maxPrice: 1000, page: 1, limit: 10 }),
+      ).rejects.toThrow(
+        new HttpException('minPrice cannot be greater than maxPrice', HttpStatus.BAD_REQUEST),
+      );
+    });
+  });
+
+  describe('cursor pagination', () => {
+    let qb: any;
+
+    beforeEach(() => {
+      qb = { alias: 'product' };
+      [
+        'leftJoinAndSelect',
+        'andWhere',
+        'addSelect',
+        'orderBy',
+        'addOrderBy',
+        'take',
+        'select',
+        'groupBy',
+        'addGroupBy',
+      ].forEach((method) => (qb[method] = jest.fn().mockReturnValue(qb)));
+      qb.getMany = jest.fn().mockResolvedValue([]);
+      qb.getRawMany = jest.fn().mockResolvedValue([]);
+      qb.getRawOne = jest.fn().mockResolvedValue({});
+      (mockProductRepository as any).createQueryBuilder = jest.fn().mockReturnValue(qb);
+    });
+
+    it('should page products in id order with a next cursor', async () => {
+      qb.getMany.mockResolvedValue([{ id: 1 }, { id: 2 }, { id: 3 }]);
+
+      const result = await service.getProductsByCursor('', 2);
+
+      expect(result.items).toEqual([{ id: 1 }, { id: 2 }]);
+      expect(result.meta.nextCursor).toEqual(expect.any(String));
+      expect(result.meta.prevCursor).toBeNull();
+      expect(qb.orderBy).toHaveBeenCalledWith('product.id', 'ASC');
+      expect(qb.take).toHaveBeenCalledWith(3);
+    });
+
+    it('should search by cursor with a fixed sort and keep the facets', async () => {
+      qb.getMany.mockResolvedValue([{ id: 4, price: 1000 }]);
+
+      const result = await service.searchProductsByCursor({
+        q: 'laptop',
+        sort: 'price_asc',
+        cursor: '',
+        page: 1,
+        limit: 10,
+      });
+
+      expect(result.items).toEqual([{ id: 4, price: 1000 }]);
+      expect(result.meta).toEqual({ limit: 10, nextCursor: null, prevCursor: null });
+      expect(result.facets.prices).toHaveLength(5);
+      expect(qb.orderBy).toHaveBeenCalledWith('product.price', 'ASC');
+    });
+
+    it('should refuse to page relevance or popularity rankings by cursor', async () => {
+      await expect(
+        service.searchProductsByCursor({ q: 'laptop', cursor: '', page: 1, limit: 10 }),
+      ).rejects.toThrow(
+        new HttpException(
+          "Results ranked by relevance can't be paged by cursor; sort by price_asc, price_desc, newest or name, or use page",
+          HttpStatus.BAD_REQUEST,
+        ),
+      );
+      await expect(
+        service.searchProductsByCursor({ sort: 'popularity', cursor: '', page: 1, limit: 10 }),
+      ).rejects.toMatchObject({ status: HttpStatus.BAD_REQUEST });
+      expect(qb.getMany).not.toHaveBeenCalled();
+    });
+  });
+
   describe('createProduct', () => {
     it('should create and return the new product', async () => {
       const createProductParams = {
@@ -562,6 +896,22 @@ describe('ProductsService', () => {
       expect(mockProductRepository.delete).toHaveBeenCalledWith({ id: mockProduct.id });
     });
 
+    it("should delete the files of the product's gallery", async () => {
+      mockProductRepository.findOne.mockResolvedValue({ id: 1, name: 'Laptop' });
+      mockImagesService.storedKeys.mockResolvedValueOnce([
+        'products/1/a.jpg',
+        'products/1/a-thumb.webp',
+      ]);
+
+      await service.deleteProduct(1);
+
+      expect(mockImagesService.storedKeys).toHaveBeenCalledWith(1);
+      expect(mockImagesService.deleteFiles).toHaveBeenCalledWith([
+        'products/1/a.jpg',
+        'products/1/a-thumb.webp',
+      ]);
+    });
+
     it('should throw error when id is invalid (0)', async () => {
       await expect(service.deleteProduct(0)).rejects.toThrow(
         new HttpException('Invalid product ID', HttpStatus.BAD_REQUEST),
@@ -666,4 +1016,60 @@ describe('ProductsService', () => {
       expect(mockProductRepository.save).not.toHaveBeenCalled();
     });
   });
-});
\ No newline at end of file
+
+  describe('prices in other currencies', () => {
+    const laptop = () => ({ id: 1, name: 'Laptop', price: 99900, currency: 'USD' });
+
+    it('should show prices in the requested currency', async () => {
+      mockProductRepository.find.mockResolvedValue([laptop()]);
+      mockCurrencyService.priceProducts.mockResolvedValue(new Map([[1, 91900]]));
+
+      const result = await service.getProducts('eur');
+
+      expect(mockCurrencyService.priceProducts).toHaveBeenCalledWith(
+        [expect.objectContaining({ id: 1 })],
+        'EUR',
+      );
+      expect(result).toEqual([expect.objectContaining({ price: 91900, currency: 'EUR' })]);
+    });
+
+    it('should reject a malformed currency', async () => {
+      mockProductRepository.findOne.mockResolvedValue(laptop());
+
+      await expect(service.getProductById(1, 'euro')).rejects.toThrow(
+        new HttpException('Currency must be a three-letter ISO code', HttpStatus.BAD_REQUEST),
+      );
+      expect(mockCurrencyService.priceProducts).not.toHaveBeenCalled();
+    });
+
+    it('should create or replace the price override for a currency', async () => {
+      mockProductRepository.findOne.mockResolvedValue(laptop());
+      mockProductPriceRepository.findOne.mockResolvedValue(null);
+
+      const result = await service.setProductPrice(1, 'eur', 89900);
+
+      expect(mockProductPriceRepository.findOne).toHaveBeenCalledWith({
+        where: { product: { id: 1 }, currency: 'EUR' },
+      });
+      expect(result.price).toEqual({ id: 5, currency: 'EUR', price: 89900 });
+    });
+
+    it("should refuse an override in the product's own currency", async () => {
+      mockProductRepository.findOne.mockResolvedValue(laptop());
+
+      await expect(service.setProductPrice(1, 'USD', 100)).rejects.toMatchObject({
+        status: HttpStatus.BAD_REQUEST,
+      });
+      expect(mockProductPriceRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should throw NOT_FOUND when deleting a missing override', async () => {
+      mockProductRepository.findOne.mockResolvedValue(laptop());
+      mockProductPriceRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.deleteProductPrice(1, 'EUR')).rejects.toThrow(
+        new HttpException('This product has no price in this currency', HttpStatus.NOT_FOUND),
+      );
+    });
+  });
+});
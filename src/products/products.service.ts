@@ -2,8 +2,26 @@ import { HttpException, HttpStatus, Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { CategoryService } from '../category/category.service';
 import { Product } from '../typeorm/entities/Product';           
-import { Repository, In, Like } from 'typeorm';
-import { ICreateProduct, IUpdateProduct } from '../../utils/Interfaces';  
+import { Category } from '../typeorm/entities/Category';
+import { Repository, In, Like, SelectQueryBuilder } from 'typeorm';
+import { ICreateProduct, IProductSearch, IUpdateProduct } from '../../utils/Interfaces';  
+import { normalizeCurrency } from '../money/money';
+import { ProductPrice } from '../typeorm/entities/ProductPrice';
+import { CurrencyService } from '../currency/currency.service';
+import { VariantsService } from '../variants/variants.service';
+import { ImagesService } from '../images/images.service';
+import { ProductVariant } from '../typeorm/entities/ProductVariant';
+import { OrderItem } from '../typeorm/entities/OrderItem';
+import { SOLD_ORDER_STATUSES } from '../orders/order-status';
+import {
+  NAME_MATCH_WEIGHT,
+  PRICE_BUCKETS,
+  PRODUCT_CURSOR_SORTS,
+  ProductFacets,
+  fullTextTerms,
+} from './product-search';
+import { CursorPage, paginateByCursor } from '../pagination/cursor';
+import { SearchService } from '../search/search.service';
 
 type PaginationMeta = {
   page: number;
@@ -19,17 +37,95 @@ export type PaginatedResponse<T> = {
   meta: PaginationMeta;
 };
 
+export type ProductSearchResponse = PaginatedResponse<Product> & {
+  facets: ProductFacets;
+};
+
+export type ProductSearchCursorResponse = CursorPage<Product> & {
+  facets: ProductFacets;
+};
+
 @Injectable()
 export class ProductsService {
   constructor(
     @InjectRepository(Product) private productRepository: Repository<Product>,
+    @InjectRepository(ProductPrice)
+    private productPriceRepository: Repository<ProductPrice>,
     private categoryService: CategoryService,
+    private currencyService: CurrencyService,
+    private variantsService: VariantsService,
+    private imagesService: ImagesService,
+    private searchService: SearchService,
   ) {}
 
+  // Limits a listing to products with an active variant matching `options` (e.g. "Color:Red,Size:M")
+  private async optionsWhere(options?: string) {
+    if (!options) return undefined;
+    return { id: In(await this.variantsService.productIdsWithOptions(options)) };
+  }
+
+  private parseCurrency(currency: string): string {
+    const code = normalizeCurrency(currency);
+    if (!/^[A-Z]{3}$/.test(code)) {
+      throw new HttpException('Currency must be a three-letter ISO code', HttpStatus.BAD_REQUEST);
+    }
+    return code;
+  }
+
+  // Shows `price` in the requested currency (override or converted); without one products are left as stored
+  private async inCurrency<T extends Product | Product[]>(result: T, currency?: string): Promise<T> {
+    if (!currency) return result;
+    const code = this.parseCurrency(currency);
+    const products: Product[] = Array.isArray(result) ? result : [result as Product];
+    const prices = await this.currencyService.priceProducts(products, code);
+    products.forEach((product) => {
+      product.price = prices.get(product.id);
+      product.currency = code;
+    });
+    return result;
+  }
+
+  // What every product response goes through: breadcrumbs for its category, then the requested currency
+  private async present<T extends Product | Product[]>(result: T, currency?: string): Promise<T> {
+    const products: Product[] = Array.isArray(result) ? result : [result as Product];
+    const crumbs = await this.categoryService.breadcrumbs(
+      products.map((product) => product.category?.id),
+    );
+    products.forEach((product) => {
+      const path = crumbs.get(product.category?.id);
+      if (path) product.breadcrumbs = path;
+    });
+    return this.inCurrency(result, currency);
+  }
+
   private escapeLike(input: string): string{
     return input.replace(/[%_\\]/g, '\\$&');
   }
 
+  /**
+   * Limits `query` to products whose name or description matches `text` through
+   * the FULLTEXT indexes and selects a `relevance` score for them, name matches
+   * weighted higher. Returns false without touching the query when no word of
+   * `text` is long enough to be indexed, so the caller can use LIKE instead.
+   */
+  private matchFullText(query: SelectQueryBuilder<Product>, text: string): boolean {
+    const terms = fullTextTerms(text);
+    if (!terms) return false;
+    query
+      .addSelect(
+        `MATCH(product.name) AGAINST (:terms IN BOOLEAN MODE) * ${NAME_MATCH_WEIGHT}` +
+          ' + MATCH(product.name, product.description) AGAINST (:terms IN BOOLEAN MODE)',
+        'relevance',
+      )
+      .andWhere('MATCH(product.name, product.description) AGAINST (:terms IN BOOLEAN MODE)', { terms });
+    return true;
+  }
+
+  // Best matches first when the query was scored by matchFullText
+  private byRelevance(query: SelectQueryBuilder<Product>, scored: boolean) {
+    return scored ? query.orderBy('relevance', 'DESC').addOrderBy('product.id', 'ASC') : query;
+  }
+
   private normalizePagination(page: number, limit: number): { page: number; limit: number; skip: number } {
     if (!Number.isInteger(page) || page <= 0) {
       throw new HttpException('Invalid page', HttpStatus.BAD_REQUEST);
@@ -59,19 +155,27 @@ export class ProductsService {
     };
   }
 
-  async getProducts() {
+  async getProducts(currency?: string, options?: string) {
     const products = await this.productRepository.find({
+      where: await this.optionsWhere(options),
       relations: ['orderItems', 'category'],
     });
     if (!products || products.length === 0)
       throw new HttpException('No products found', HttpStatus.NOT_FOUND);
-    return products;
+    return this.present(products, currency);
   }
 
-  async getProductsPaginated(page: number, limit: number): Promise<PaginatedResponse<Product>> {
+  async getProductsPaginated(
+    page: number,
+    limit: number,
+    currency?: string,
+    options?: string,
+  ): Promise<PaginatedResponse<Product>> {
     const { skip } = this.normalizePagination(page, limit);
+    const where = await this.optionsWhere(options);
 
     const [items, totalItems] = await this.productRepository.findAndCount({
+      where,
       relations: ['orderItems', 'category'],
       skip,
       take: limit,
@@ -86,6 +190,7 @@ export class ProductsService {
       const fallbackItems = safeTotalItems === 0
         ? []
         : await this.productRepository.find({
+            where,
             relations: ['orderItems', 'category'],
             skip: 0,
             take: limit,
@@ -93,32 +198,50 @@ export class ProductsService {
           });
 
       return {
-        items: fallbackItems ?? [],
+        items: await this.present(fallbackItems ?? [], currency),
         meta: this.buildPaginationMeta(1, limit, safeTotalItems),
       };
     }
 
     return {
-      items: items ?? [],
+      items: await this.present(items ?? [], currency),
       meta: this.buildPaginationMeta(page, limit, safeTotalItems),
     };
   }
-  async getProductById(id: number) {
+  /** Pages through all products in id order; see paginateByCursor. */
+  async getProductsByCursor(
+    cursor: string,
+    limit: number,
+    currency?: string,
+    options?: string,
+  ): Promise<CursorPage<Product>> {
+    const query = this.productRepository
+      .createQueryBuilder('product')
+      .leftJoinAndSelect('product.orderItems', 'orderItems')
+      .leftJoinAndSelect('product.category', 'category');
+    const where = await this.optionsWhere(options);
+    if (where) query.andWhere(where);
+
+    const page = await paginateByCursor(query, PRODUCT_CURSOR_SORTS.id, cursor, limit);
+    return { ...page, items: await this.present(page.items, currency) };
+  }
+
+  async getProductById(id: number, currency?: string) {
     if (!id || id <= 0) {
       throw new HttpException('Invalid product ID', HttpStatus.BAD_REQUEST);
     }
     const product = await this.productRepository.findOne({
       where: { id },
-      relations: ['orderItems'],
+      relations: ['orderItems', 'category'],
     });
     if (!product)
       throw new HttpException(
         'There is no product with this id',
         HttpStatus.NOT_FOUND,
       );
-    return product;
+    return this.present(product, currency);
   }
-  async getProductsByIds(ids: number[]) {
+  async getProductsByIds(ids: number[], currency?: string) {
     if (!Array.isArray(ids) || ids.length === 0) {
       throw new HttpException('Invalid product IDs', HttpStatus.BAD_REQUEST);
     }
@@ -132,9 +255,9 @@ export class ProductsService {
         HttpStatus.NOT_FOUND,
       );
     }
-    return products;
+    return this.present(products, currency);
   }
-  async getProductsByNameSearch(name: string) {
+  async getProductsByNameSearch(name: string, currency?: string, options?: string) {
     const query = name?.trim();
     if (!query) {
       throw new HttpException('Invalid product name', HttpStatus.BAD_REQUEST);
@@ -144,13 +267,17 @@ export class ProductsService {
       throw new HttpException('Query too long', HttpStatus.BAD_REQUEST);
     }
 
-    const escaped = this.escapeLike(query);
-
-    const products = await this.productRepository.createQueryBuilder('product')
+    const where = await this.optionsWhere(options);
+    const search = this.productRepository.createQueryBuilder('product')
     .leftJoinAndSelect('product.orderItems', 'orderItems')
-    .leftJoinAndSelect('product.category', 'category')
-    .where("product.name LIKE :name ESCAPE '\\\\'", {name: `%${escaped}%`})
-    .getMany();
+    .leftJoinAndSelect('product.category', 'category');
+    // Queries too short for the FULLTEXT index still match anywhere in the name
+    const scored = this.matchFullText(search, query);
+    if (!scored) {
+      search.where("product.name LIKE :name ESCAPE '\\\\'", {name: `%${this.escapeLike(query)}%`});
+    }
+    if (where) search.andWhere(where);
+    const products = await this.byRelevance(search, scored).getMany();
 
     if (products.length === 0) {
       throw new HttpException(
@@ -159,13 +286,16 @@ export class ProductsService {
       );
     }
 
-    return products;
+    void this.searchService.recordSearch(query);
+    return this.present(products, currency);
   }
 
   async getProductsByNameSearchPaginated(
     name: string,
     page: number,
     limit: number,
+    currency?: string,
+    options?: string,
   ): Promise<PaginatedResponse<Product>> {
     const query = name?.trim();
     if (!query) {
@@ -177,19 +307,28 @@ export class ProductsService {
     }
 
     const { skip } = this.normalizePagination(page, limit);
-    const escaped = this.escapeLike(query);
+    const where = await this.optionsWhere(options);
+    const search = () => {
+      const builder = this.productRepository
+        .createQueryBuilder('product')
+        .leftJoinAndSelect('product.orderItems', 'orderItems')
+        .leftJoinAndSelect('product.category', 'category');
+      const scored = this.matchFullText(builder, query);
+      if (!scored) {
+        builder.where("product.name LIKE :name ESCAPE '\\\\'", { name: `%${this.escapeLike(query)}%` });
+      }
+      if (where) builder.andWhere(where);
+      return this.byRelevance(builder, scored);
+    };
 
-    const [items, totalItems] = await this.productRepository
-      .createQueryBuilder('product')
-      .leftJoinAndSelect('product.orderItems', 'orderItems')
-      .leftJoinAndSelect('product.category', 'category')
-      .where("product.name LIKE :name ESCAPE '\\\\'", { name: `%${escaped}%` })
+    const [items, totalItems] = await search()
       .skip(skip)
       .take(limit)
       .getManyAndCount();
 
     const safeTotalItems = totalItems ?? 0;
     const totalPages = safeTotalItems === 0 ? 0 : Math.ceil(safeTotalItems / limit);
+    if (safeTotalItems > 0) void this.searchService.recordSearch(query);
 
     if ((totalPages === 0 && page !== 1) || (totalPages !== 0 && page > totalPages)) {
       if (safeTotalItems === 0) {
@@ -199,26 +338,239 @@ export class ProductsService {
         };
       }
 
-      const [fallbackItems] = await this.productRepository
-        .createQueryBuilder('product')
-        .leftJoinAndSelect('product.orderItems', 'orderItems')
-        .leftJoinAndSelect('product.category', 'category')
-        .where("product.name LIKE :name ESCAPE '\\\\'", { name: `%${escaped}%` })
+      const [fallbackItems] = await search()
         .skip(0)
         .take(limit)
         .getManyAndCount();
 
       return {
-        items: fallbackItems ?? [],
+        items: await this.present(fallbackItems ?? [], currency),
         meta: this.buildPaginationMeta(1, limit, safeTotalItems),
       };
     }
 
     return {
-      items: items ?? [],
+      items: await this.present(items ?? [], currency),
       meta: this.buildPaginationMeta(page, limit, safeTotalItems),
     };
   }
+  /**
+   * Applies every filter of `params` to a product query, except the one
+   * named in `except`: a facet doesn't narrow itself, so the category counts
+   * still show the other categories.
+   */
+  private searchFilters(
+    params: IProductSearch,
+    optionIds: number[] | undefined,
+    except?: 'category' | 'price',
+  ): SelectQueryBuilder<Product> {
+    const query = this.productRepository
+      .createQueryBuilder('product')
+      .leftJoinAndSelect('product.category', 'category');
+
+    const text = params.q?.trim();
+    if (text && !this.matchFullText(query, text)) {
+      query.andWhere(
+        "(product.name LIKE :text ESCAPE '\\\\' OR product.description LIKE :text ESCAPE '\\\\')",
+        { text: `%${this.escapeLike(text)}%` },
+      );
+    }
+    if (except !== 'category' && params.categoryIds?.length && params.includeSubcategories) {
+      // A category's path starts with the path of each category above it
+      const underCategory = query
+        .subQuery()
+        .select('1')
+        .from(Category, 'ancestor')
+        .where('ancestor.id IN (:...categoryIds)')
+        .andWhere("category.mpath LIKE CONCAT(ancestor.mpath, '%')")
+        .getQuery();
+      query.andWhere(`EXISTS ${underCategory}`, { categoryIds: params.categoryIds });
+    } else if (except !== 'category' && params.categoryIds?.length) {
+      query.andWhere('category.id IN (:...categoryIds)', { categoryIds: params.categoryIds });
+    }
+    if (except !== 'price' && params.minPrice !== undefined) {
+      query.andWhere('product.price >= :minPrice', { minPrice: params.minPrice });
+    }
+    if (except !== 'price' && params.maxPrice !== undefined) {
+      query.andWhere('product.price <= :maxPrice', { maxPrice: params.maxPrice });
+    }
+    if (params.inStock !== undefined) {
+      // Products sold in variants are in stock when one of their active variants is
+      const variantInStock = query
+        .subQuery()
+        .select('1')
+        .from(ProductVariant, 'variant')
+        .where('variant.productId = product.id')
+        .andWhere('variant.isActive = :variantActive')
+        .andWhere('variant.stock - variant.reservedStock > 0')
+        .getQuery();
+      const inStock = `(product.stock - product.reservedStock > 0 OR EXISTS ${variantInStock})`;
+      query.andWhere(params.inStock ? inStock : `NOT ${inStock}`, { variantActive: true });
+    }
+    if (optionIds) {
+      query.andWhere({ id: In(optionIds) });
+    }
+    return query;
+  }
+
+  // Without a `sort`, FULLTEXT matches come best first
+  private sortSearch(query: SelectQueryBuilder<Product>, sort: IProductSearch['sort'], scored: boolean) {
+    switch (sort) {
+      case 'price_asc':
+        return query.orderBy('product.price', 'ASC').addOrderBy('product.id', 'ASC');
+      case 'price_desc':
+        return query.orderBy('product.price', 'DESC').addOrderBy('product.id', 'ASC');
+      case 'newest':
+        return query.orderBy('product.createdAt', 'DESC').addOrderBy('product.id', 'DESC');
+      case 'name':
+        return query.orderBy('product.name', 'ASC').addOrderBy('product.id', 'ASC');
+      case 'popularity': {
+        // Units sold in orders that were paid for
+        const sold = query
+          .subQuery()
+          .select('COALESCE(SUM(soldItem.quantity), 0)')
+          .from(OrderItem, 'soldItem')
+          .innerJoin('soldItem.order', 'soldOrder')
+          .where('soldItem.productId = product.id')
+          .andWhere('soldOrder.status IN (:...soldStatuses)')
+          .getQuery();
+        return query
+          .addSelect(sold, 'sold')
+          .setParameter('soldStatuses', SOLD_ORDER_STATUSES)
+          .orderBy('sold', 'DESC')
+          .addOrderBy('product.id', 'ASC');
+      }
+      default:
+        return scored
+          ? this.byRelevance(query, true)
+          : query.orderBy('product.id', 'ASC');
+    }
+  }
+
+  // Checks the search params, returning the ids the option filter allows
+  private async searchOptionIds(params: IProductSearch): Promise<number[] | undefined> {
+    if (params.q && params.q.trim().length > 100) {
+      throw new HttpException('Query too long', HttpStatus.BAD_REQUEST);
+    }
+    if (
+      params.minPrice !== undefined &&
+      params.maxPrice !== undefined &&
+      params.minPrice > params.maxPrice
+    ) {
+      throw new HttpException('minPrice cannot be greater than maxPrice', HttpStatus.BAD_REQUEST);
+    }
+    return params.options
+      ? this.variantsService.productIdsWithOptions(params.options)
+      : undefined;
+  }
+
+  private async searchFacets(params: IProductSearch, optionIds: number[] | undefined): Promise<ProductFacets> {
+    const categories = await this.searchFilters(params, optionIds, 'category')
+      .select('category.id', 'id')
+      .addSelect('category.name', 'name')
+      .addSelect('COUNT(product.id)', 'count')
+      .groupBy('category.id')
+      .addGroupBy('category.name')
+      .orderBy('category.name', 'ASC')
+      .getRawMany();
+
+    const prices = this.searchFilters(params, optionIds, 'price').select([]);
+    PRICE_BUCKETS.forEach((bucket, i) => {
+      const upper = bucket.max === null ? '' : ` AND product.price < ${bucket.max}`;
+      prices.addSelect(
+        `SUM(CASE WHEN product.price >= ${bucket.min}${upper} THEN 1 ELSE 0 END)`,
+        `bucket${i}`,
+      );
+    });
+    const counts = (await prices.getRawOne()) ?? {};
+
+    return {
+      categories: categories.map((row) => ({
+        id: Number(row.id),
+        name: row.name,
+        count: Number(row.count),
+      })),
+      prices: PRICE_BUCKETS.map((bucket, i) => ({
+        ...bucket,
+        count: Number(counts[`bucket${i}`] ?? 0),
+      })),
+    };
+  }
+
+  /**
+   * Searches name and description with filters and sorting, returning one
+   * page plus facet counts per category and price bucket. Price filters and
+   * buckets use the stored price; items are shown in `currency` when given.
+   */
+  async searchProducts(params: IProductSearch, currency?: string): Promise<ProductSearchResponse> {
+    const { page, limit, skip } = this.normalizePagination(params.page, params.limit);
+    const optionIds = await this.searchOptionIds(params);
+    const scored = !!params.q && fullTextTerms(params.q) !== null;
+    const fetchPage = (offset: number) =>
+      this.sortSearch(this.searchFilters(params, optionIds), params.sort, scored)
+        .offset(offset)
+        .limit(limit)
+        .getManyAndCount();
+
+    let [items, totalItems] = await fetchPage(skip);
+    if (params.q && totalItems > 0) void this.searchService.recordSearch(params.q);
+    let currentPage = page;
+    // Same as the other listings: a page past the end gives page 1
+    if (totalItems > 0 && items.length === 0 && page > 1) {
+      [items] = await fetchPage(0);
+      currentPage = 1;
+    }
+
+    return {
+      items: await this.present(items, currency),
+      meta: this.buildPaginationMeta(currentPage, limit, totalItems),
+      facets: await this.searchFacets(params, optionIds),
+    };
+  }
+
+  /**
+   * Same search and facets as searchProducts, paged by `params.cursor`. Only
+   * sorts with a fixed key work (see PRODUCT_CURSOR_SORTS), so text searches
+   * need a `sort` here instead of being ranked by relevance.
+   */
+  async searchProductsByCursor(params: IProductSearch, currency?: string): Promise<ProductSearchCursorResponse> {
+    const ranked = params.sort === 'popularity'
+      ? 'popularity'
+      : !params.sort && params.q && fullTextTerms(params.q) !== null
+        ? 'relevance'
+        : null;
+    if (ranked) {
+      throw new HttpException(
+        `Results ranked by ${ranked} can't be paged by cursor; sort by price_asc, price_desc, newest or name, or use page`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    const optionIds = await this.searchOptionIds(params);
+
+    const page = await paginateByCursor(
+      this.searchFilters(params, optionIds),
+      PRODUCT_CURSOR_SORTS[params.sort ?? 'id'],
+      params.cursor,
+      params.limit,
+    );
+    if (params.q && page.items.length > 0) void this.searchService.recordSearch(params.q);
+
+    return {
+      items: await this.present(page.items, currency),
+      meta: page.meta,
+      facets: await this.searchFacets(params, optionIds),
+    };
+  }
+
+  private async assertSkuIsFree(sku: string) {
+    if (await this.productRepository.findOne({ where: { sku } })) {
+      throw new HttpException(
+        'A product with this SKU already exists',
+        HttpStatus.CONFLICT,
+      );
+    }
+  }
+
   async createProduct(params: ICreateProduct) {
     const ifExists = await this.productRepository.findOne({
       where: { name: params.name },
@@ -228,6 +580,7 @@ export class ProductsService {
         'This product with the same name already exists',
         HttpStatus.CONFLICT,
       );
+    if (params.sku) await this.assertSkuIsFree(params.sku);
     const categoryEntity = await this.categoryService.getCategoryById(
       params.category,
     );
@@ -236,6 +589,7 @@ export class ProductsService {
     }
     const newProduct = this.productRepository.create({
       ...params,
+      ...(params.currency && { currency: normalizeCurrency(params.currency) }),
       category: categoryEntity,
     });
     await this.productRepository.save(newProduct);
@@ -252,7 +606,10 @@ export class ProductsService {
         'Product with this id doesnt exist!',
         HttpStatus.NOT_FOUND,
       );
+    // The gallery rows go with the product, so collect their files first
+    const imageKeys = await this.imagesService.storedKeys(id);
     await this.productRepository.delete({ id });
+    await this.imagesService.deleteFiles(imageKeys);
     return { message: 'Product deleted successfully!' };
   }
 
@@ -267,6 +624,9 @@ export class ProductsService {
         'Product with this id doesnt exist!',
         HttpStatus.NOT_FOUND,
       );
+    if (params.sku && params.sku !== product.sku) {
+      await this.assertSkuIsFree(params.sku);
+    }
     if (params.category) {
       categoryEntity = await this.categoryService.getCategoryById(
         params.category,
@@ -278,10 +638,72 @@ export class ProductsService {
     await this.productRepository.save({
       ...product,
       ...params,
+      ...(params.currency && { currency: normalizeCurrency(params.currency) }),
       // Only overwrite category when it was explicitly requested;
       // spreading `category: undefined` would clear the relation in TypeORM.
       ...(categoryEntity !== undefined && { category: categoryEntity }),
     });
     return { message: 'Product updated successfully!' };
   }
+
+  private async findProductForPrices(id: number) {
+    if (!id || id <= 0) {
+      throw new HttpException('Invalid product ID', HttpStatus.BAD_REQUEST);
+    }
+    const product = await this.productRepository.findOne({ where: { id } });
+    if (!product)
+      throw new HttpException(
+        'Product with this id doesnt exist!',
+        HttpStatus.NOT_FOUND,
+      );
+    return product;
+  }
+
+  async getProductPrices(id: number) {
+    const product = await this.findProductForPrices(id);
+    const prices = await this.productPriceRepository.find({
+      where: { product: { id: product.id } },
+      order: { currency: 'ASC' },
+    });
+    return { message: 'Product prices retrieved successfully!', prices };
+  }
+
+  // Fixes the price in a currency instead of converting Product.price at the exchange rate
+  async setProductPrice(id: number, currency: string, price: number) {
+    const product = await this.findProductForPrices(id);
+    const code = this.parseCurrency(currency);
+    if (code === normalizeCurrency(product.currency)) {
+      throw new HttpException(
+        'The product is already priced in this currency; update its price instead',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    const existing = await this.productPriceRepository.findOne({
+      where: { product: { id: product.id }, currency: code },
+    });
+    const saved = await this.productPriceRepository.save(
+      Object.assign(existing ?? this.productPriceRepository.create({ product }), {
+        currency: code,
+        price,
+      }),
+    );
+    return {
+      message: 'Product price saved successfully!',
+      price: { id: saved.id, currency: saved.currency, price: saved.price },
+    };
+  }
+
+  async deleteProductPrice(id: number, currency: string) {
+    const product = await this.findProductForPrices(id);
+    const existing = await this.productPriceRepository.findOne({
+      where: { product: { id: product.id }, currency: this.parseCurrency(currency) },
+    });
+    if (!existing)
+      throw new HttpException(
+        'This product has no price in this currency',
+        HttpStatus.NOT_FOUND,
+      );
+    await this.productPriceRepository.remove(existing);
+    return { message: 'Product price deleted successfully!' };
+  }
 }
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Category } from 'src/typeorm/entities/Category';
+import { Product } from 'src/typeorm/entities/Product';
+import { SearchQuery } from 'src/typeorm/entities/SearchQuery';
+import { SearchService } from './search.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Product, Category, SearchQuery])],
+  providers: [SearchService],
+  exports: [SearchService],
+})
+export class SearchModule {}
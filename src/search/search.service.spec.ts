@@ -0,0 +1,202 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { SearchService, SUGGEST_BUDGET_MS } from './search.service';
+import { Category } from 'src/typeorm/entities/Category';
+import { Product } from 'src/typeorm/entities/Product';
+import { SearchQuery } from 'src/typeorm/entities/SearchQuery';
+
+describe('SearchService', () => {
+  let service: SearchService;
+
+  const queryBuilder = () => {
+    const qb: any = {};
+    ['select', 'where', 'andWhere', 'orderBy', 'addOrderBy', 'limit'].forEach(
+      (method) => (qb[method] = jest.fn().mockReturnValue(qb)),
+    );
+    qb.getMany = jest.fn().mockResolvedValue([]);
+    return qb;
+  };
+
+  let productQuery: any;
+  let categoryQuery: any;
+  let searchQuery: any;
+
+  const mockProductRepository = {
+    createQueryBuilder: jest.fn(() => productQuery),
+  };
+
+  const mockCategoryRepository = {
+    createQueryBuilder: jest.fn(() => categoryQuery),
+  };
+
+  const mockSearchQueryRepository = {
+    createQueryBuilder: jest.fn(() => searchQuery),
+    increment: jest.fn(),
+    insert: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    productQuery = queryBuilder();
+    categoryQuery = queryBuilder();
+    searchQuery = queryBuilder();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SearchService,
+        {
+          provide: getRepositoryToken(Product),
+          useValue: mockProductRepository,
+        },
+        {
+          provide: getRepositoryToken(Category),
+          useValue: mockCategoryRepository,
+        },
+        {
+          provide: getRepositoryToken(SearchQuery),
+          useValue: mockSearchQueryRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<SearchService>(SearchService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    jest.useRealTimers();
+  });
+
+  describe('suggest', () => {
+    it('should suggest products, categories and popular searches', async () => {
+      productQuery.getMany.mockResolvedValue([
+        { id: 1, name: 'Gaming laptop', price: 99900 },
+      ]);
+      categoryQuery.getMany.mockResolvedValue([{ id: 2, name: 'Games' }]);
+      searchQuery.getMany.mockResolvedValue([{ id: 3, query: 'gaming mouse' }]);
+
+      const result = await service.suggest('  GAM ');
+
+      expect(result).toEqual({
+        message: 'Suggestions retrieved successfully',
+        suggestions: {
+          query: 'gam',
+          products: [{ id: 1, name: 'Gaming laptop' }],
+          categories: [{ id: 2, name: 'Games' }],
+          queries: ['gaming mouse'],
+        },
+      });
+      expect(productQuery.where).toHaveBeenCalledWith(
+        'MATCH(product.name) AGAINST (:terms IN BOOLEAN MODE)',
+        { terms: '+gam*' },
+      );
+      expect(categoryQuery.where).toHaveBeenCalledWith(
+        "category.name LIKE :prefix ESCAPE '\\\\'",
+        { prefix: 'gam%' },
+      );
+      expect(searchQuery.andWhere).toHaveBeenCalledWith(
+        'search.count >= :minCount',
+        { minCount: 3 },
+      );
+    });
+
+    it('should match product names by prefix when FULLTEXT cannot', async () => {
+      await service.suggest('tv');
+
+      expect(productQuery.where).toHaveBeenCalledWith(
+        "product.name LIKE :prefix ESCAPE '\\\\'",
+        { prefix: 'tv%' },
+      );
+    });
+
+    it('should not look anything up for a single character', async () => {
+      const result = await service.suggest('a');
+
+      expect(result.suggestions).toEqual({
+        query: 'a',
+        products: [],
+        categories: [],
+        queries: [],
+      });
+      expect(mockProductRepository.createQueryBuilder).not.toHaveBeenCalled();
+    });
+
+    it('should answer a repeated query from the cache', async () => {
+      await service.suggest('lap');
+      await service.suggest('Lap');
+
+      expect(mockProductRepository.createQueryBuilder).toHaveBeenCalledTimes(1);
+    });
+
+    it('should leave out a lookup slower than the budget and not cache the answer', async () => {
+      jest.useFakeTimers();
+      productQuery.getMany.mockReturnValue(new Promise(() => undefined));
+      categoryQuery.getMany.mockResolvedValue([{ id: 2, name: 'Laptops' }]);
+
+      const pending = service.suggest('lap');
+      await jest.advanceTimersByTimeAsync(SUGGEST_BUDGET_MS);
+      const result = await pending;
+
+      expect(result.suggestions.products).toEqual([]);
+      expect(result.suggestions.categories).toEqual([
+        { id: 2, name: 'Laptops' },
+      ]);
+
+      productQuery.getMany.mockResolvedValue([]);
+      await service.suggest('lap');
+      expect(mockProductRepository.createQueryBuilder).toHaveBeenCalledTimes(2);
+    });
+
+    it('should leave out a lookup that fails', async () => {
+      searchQuery.getMany.mockRejectedValue(new Error('DB down'));
+
+      const result = await service.suggest('lap');
+
+      expect(result.suggestions.queries).toEqual([]);
+    });
+
+    it('should reject a query that is too long', async () => {
+      await expect(service.suggest('a'.repeat(51))).rejects.toThrow(
+        new HttpException('Query too long', HttpStatus.BAD_REQUEST),
+      );
+    });
+  });
+
+  describe('recordSearch', () => {
+    it('should count a search seen before', async () => {
+      mockSearchQueryRepository.increment.mockResolvedValueOnce({
+        affected: 1,
+      });
+
+      await service.recordSearch('Red  Shoes');
+
+      expect(mockSearchQueryRepository.increment).toHaveBeenCalledWith(
+        { query: 'red shoes' },
+        'count',
+        1,
+      );
+      expect(mockSearchQueryRepository.insert).not.toHaveBeenCalled();
+    });
+
+    it('should store a new search', async () => {
+      mockSearchQueryRepository.increment.mockResolvedValueOnce({
+        affected: 0,
+      });
+
+      await service.recordSearch('red shoes');
+
+      expect(mockSearchQueryRepository.insert).toHaveBeenCalledWith({
+        query: 'red shoes',
+        count: 1,
+      });
+    });
+
+    it('should not throw when the count cannot be stored', async () => {
+      mockSearchQueryRepository.increment.mockRejectedValueOnce(
+        new Error('DB down'),
+      );
+
+      await expect(service.recordSearch('red shoes')).resolves.toBeUndefined();
+    });
+  });
+});
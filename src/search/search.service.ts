@@ -0,0 +1,203 @@
+import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Category } from 'src/typeorm/entities/Category';
+import { Product } from 'src/typeorm/entities/Product';
+import { SearchQuery } from 'src/typeorm/entities/SearchQuery';
+import { fullTextTerms } from 'src/products/product-search';
+
+// Suggestions of each kind in one answer
+const SUGGESTION_LIMIT = 5;
+const MAX_SUGGEST_LENGTH = 50;
+// Shorter texts match too much to be worth suggesting for
+const MIN_SUGGEST_LENGTH = 2;
+
+// Each lookup gets this long; whatever is slower is left out of the answer
+export const SUGGEST_BUDGET_MS = 150;
+
+const CACHE_TTL_MS = 60 * 1000;
+const CACHE_MAX_ENTRIES = 1000;
+
+// Length of SearchQuery.query
+const MAX_RECORDED_LENGTH = 100;
+
+// Searches seen fewer times could be one person's typing, so aren't suggested
+const MIN_POPULAR_COUNT = 3;
+
+export type SearchSuggestions = {
+  query: string;
+  products: { id: number; name: string }[];
+  categories: { id: number; name: string }[];
+  queries: string[];
+};
+
+// Lowercased with single spaces, so "Red  Shoes" and "red shoes" are one search
+export function normalizeSearch(text: string): string {
+  return (text ?? '').trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+@Injectable()
+export class SearchService {
+  private readonly logger = new Logger(SearchService.name);
+  private readonly cache = new Map<
+    string,
+    { expiresAt: number; suggestions: SearchSuggestions }
+  >();
+
+  constructor(
+    @InjectRepository(Product) private productRepository: Repository<Product>,
+    @InjectRepository(Category)
+    private categoryRepository: Repository<Category>,
+    @InjectRepository(SearchQuery)
+    private searchQueryRepository: Repository<SearchQuery>,
+  ) {}
+
+  private escapeLike(input: string) {
+    return input.replace(/[%_\\]/g, '\\$&');
+  }
+
+  /**
+   * Resolves to the lookup's rows, or to null once the budget is spent or the
+   * lookup failed, so one slow table doesn't hold up the answer.
+   */
+  private withinBudget<T>(lookup: Promise<T[]>, source: string) {
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<null>((resolve) => {
+      timer = setTimeout(() => resolve(null), SUGGEST_BUDGET_MS);
+    });
+    const rows = lookup.catch((error) => {
+      this.logger.warn(`Failed to suggest ${source}: ${error}`);
+      return null;
+    });
+    return Promise.race([rows, timeout]).finally(() => clearTimeout(timer));
+  }
+
+  // Names with a word starting with the text, through the FULLTEXT index on name
+  private suggestProducts(text: string) {
+    const query = this.productRepository
+      .createQueryBuilder('product')
+      .select(['product.id', 'product.name'])
+      .limit(SUGGESTION_LIMIT);
+    const terms = fullTextTerms(text);
+    if (terms) {
+      return query
+        .where('MATCH(product.name) AGAINST (:terms IN BOOLEAN MODE)', {
+          terms,
+        })
+        .orderBy('MATCH(product.name) AGAINST (:terms IN BOOLEAN MODE)', 'DESC')
+        .addOrderBy('product.name', 'ASC')
+        .getMany();
+    }
+    return query
+      .where("product.name LIKE :prefix ESCAPE '\\\\'", {
+        prefix: `${this.escapeLike(text)}%`,
+      })
+      .orderBy('product.name', 'ASC')
+      .getMany();
+  }
+
+  private suggestCategories(text: string) {
+    return this.categoryRepository
+      .createQueryBuilder('category')
+      .select(['category.id', 'category.name'])
+      .where("category.name LIKE :prefix ESCAPE '\\\\'", {
+        prefix: `${this.escapeLike(text)}%`,
+      })
+      .orderBy('category.name', 'ASC')
+      .limit(SUGGESTION_LIMIT)
+      .getMany();
+  }
+
+  private suggestQueries(text: string) {
+    return this.searchQueryRepository
+      .createQueryBuilder('search')
+      .select(['search.id', 'search.query'])
+      .where("search.query LIKE :prefix ESCAPE '\\\\'", {
+        prefix: `${this.escapeLike(text)}%`,
+      })
+      .andWhere('search.count >= :minCount', { minCount: MIN_POPULAR_COUNT })
+      .orderBy('search.count', 'DESC')
+      .addOrderBy('search.query', 'ASC')
+      .limit(SUGGESTION_LIMIT)
+      .getMany();
+  }
+
+  /**
+   * Product names, category names and popular searches starting with `q`,
+   * for a search box to show while typing. Answers are cached for a minute.
+   */
+  async suggest(q: string) {
+    const text = normalizeSearch(q);
+    if (text.length > MAX_SUGGEST_LENGTH) {
+      throw new HttpException('Query too long', HttpStatus.BAD_REQUEST);
+    }
+    if (text.length < MIN_SUGGEST_LENGTH) {
+      return {
+        message: 'Suggestions retrieved successfully',
+        suggestions: { query: text, products: [], categories: [], queries: [] },
+      };
+    }
+
+    const cached = this.cache.get(text);
+    if (cached && cached.expiresAt > Date.now()) {
+      return {
+        message: 'Suggestions retrieved successfully',
+        suggestions: cached.suggestions,
+      };
+    }
+
+    const [products, categories, queries] = await Promise.all([
+      this.withinBudget(this.suggestProducts(text), 'products'),
+      this.withinBudget(this.suggestCategories(text), 'categories'),
+      this.withinBudget(this.suggestQueries(text), 'searches'),
+    ]);
+    const suggestions: SearchSuggestions = {
+      query: text,
+      products: (products ?? []).map(({ id, name }) => ({ id, name })),
+      categories: (categories ?? []).map(({ id, name }) => ({ id, name })),
+      queries: (queries ?? []).map((search) => search.query),
+    };
+
+    // An answer missing a part would stick around for the whole TTL
+    if (products && categories && queries) {
+      this.cache.delete(text);
+      if (this.cache.size >= CACHE_MAX_ENTRIES) {
+        this.cache.delete(this.cache.keys().next().value);
+      }
+      this.cache.set(text, {
+        expiresAt: Date.now() + CACHE_TTL_MS,
+        suggestions,
+      });
+    }
+
+    return { message: 'Suggestions retrieved successfully', suggestions };
+  }
+
+  /**
+   * Counts a search that found products towards the popular searches. Never
+   * throws: a lost count isn't worth failing the search over.
+   */
+  async recordSearch(q: string) {
+    const query = normalizeSearch(q);
+    if (query.length < MIN_SUGGEST_LENGTH || query.length > MAX_RECORDED_LENGTH)
+      return;
+    try {
+      const result = await this.searchQueryRepository.increment(
+        { query },
+        'count',
+        1,
+      );
+      if (result.affected) return;
+      await this.searchQueryRepository.insert({ query, count: 1 });
+    } catch (error) {
+      if (error?.code === 'ER_DUP_ENTRY') {
+        // Someone else recorded it first
+        await this.searchQueryRepository
+          .increment({ query }, 'count', 1)
+          .catch(() => undefined);
+        return;
+      }
+      this.logger.warn(`Failed to record search "${query}": ${error}`);
+    }
+  }
+}
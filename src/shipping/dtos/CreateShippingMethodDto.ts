@@ -0,0 +1,43 @@
+import {
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import {
+  SHIPPING_METHOD_TYPES,
+  ShippingMethodType,
+} from 'src/typeorm/entities/ShippingMethod';
+
+export class CreateShippingMethodDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @IsIn(SHIPPING_METHOD_TYPES)
+  type: ShippingMethodType;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  rate?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  ratePerKg?: number | null;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  freeOverAmount?: number | null;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
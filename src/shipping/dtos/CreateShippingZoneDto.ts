@@ -0,0 +1,23 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsISO31661Alpha2,
+  IsNotEmpty,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+export class CreateShippingZoneDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsISO31661Alpha2({
+    each: true,
+    message: 'Countries must be two-letter ISO codes',
+  })
+  countries: string[];
+}
@@ -0,0 +1,45 @@
+import {
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import {
+  SHIPPING_METHOD_TYPES,
+  ShippingMethodType,
+} from 'src/typeorm/entities/ShippingMethod';
+
+export class UpdateShippingMethodDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name?: string;
+
+  @IsOptional()
+  @IsIn(SHIPPING_METHOD_TYPES)
+  type?: ShippingMethodType;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  rate?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  ratePerKg?: number | null;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  freeOverAmount?: number | null;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -0,0 +1,26 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsISO31661Alpha2,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+export class UpdateShippingZoneDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsISO31661Alpha2({
+    each: true,
+    message: 'Countries must be two-letter ISO codes',
+  })
+  countries?: string[];
+}
@@ -0,0 +1,71 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ShippingController } from './shipping.controller';
+import { ShippingService } from './shipping.service';
+
+describe('ShippingController', () => {
+  let controller: ShippingController;
+
+  const mockShippingService = {
+    getQuotes: jest.fn(),
+    getZones: jest.fn(),
+    createZone: jest.fn(),
+    updateZone: jest.fn(),
+    deleteZone: jest.fn(),
+    createMethod: jest.fn(),
+    updateMethod: jest.fn(),
+    deleteMethod: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ShippingController],
+      providers: [{ provide: ShippingService, useValue: mockShippingService }],
+    }).compile();
+
+    controller = module.get<ShippingController>(ShippingController);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should pass the quote query and request to the service', async () => {
+    const req: any = { user: { userId: 1 } };
+
+    await controller.getQuotes(req, 5, 'de');
+
+    expect(mockShippingService.getQuotes).toHaveBeenCalledWith(
+      { orderId: 5, country: 'de' },
+      req,
+    );
+  });
+
+  it('should pass zone and method CRUD calls to the service', async () => {
+    const zone = { name: 'EU', countries: ['DE', 'FR'] };
+    const method = { name: 'Standard', type: 'FLAT_RATE' as const, rate: 5 };
+
+    await controller.getZones();
+    await controller.createZone(zone);
+    await controller.updateZone(1, { countries: ['DE'] });
+    await controller.deleteZone(1);
+    await controller.createMethod(1, method);
+    await controller.updateMethod(2, { rate: 6 });
+    await controller.deleteMethod(2);
+
+    expect(mockShippingService.getZones).toHaveBeenCalled();
+    expect(mockShippingService.createZone).toHaveBeenCalledWith(zone);
+    expect(mockShippingService.updateZone).toHaveBeenCalledWith(1, {
+      countries: ['DE'],
+    });
+    expect(mockShippingService.deleteZone).toHaveBeenCalledWith(1);
+    expect(mockShippingService.createMethod).toHaveBeenCalledWith(1, method);
+    expect(mockShippingService.updateMethod).toHaveBeenCalledWith(2, {
+      rate: 6,
+    });
+    expect(mockShippingService.deleteMethod).toHaveBeenCalledWith(2);
+  });
+});
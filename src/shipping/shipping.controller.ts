@@ -0,0 +1,92 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  ParseIntPipe,
+  Post,
+  Put,
+  Query,
+  Req,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { Request } from 'express';
+import { Roles } from 'utils/rolesDecorator';
+import { OptionalAuth } from 'utils/optionalAuthDecorator';
+import { ShippingService } from './shipping.service';
+import { CreateShippingZoneDto } from './dtos/CreateShippingZoneDto';
+import { UpdateShippingZoneDto } from './dtos/UpdateShippingZoneDto';
+import { CreateShippingMethodDto } from './dtos/CreateShippingMethodDto';
+import { UpdateShippingMethodDto } from './dtos/UpdateShippingMethodDto';
+
+@ApiTags('shipping')
+@Controller('shipping')
+export class ShippingController {
+  constructor(private shippingService: ShippingService) {}
+
+  // Quotes the caller's cart for `country`, or a pending order with `orderId`
+  @OptionalAuth()
+  @Get('quotes')
+  getQuotes(
+    @Req() req: Request,
+    @Query('orderId', new ParseIntPipe({ optional: true })) orderId?: number,
+    @Query('country') country?: string,
+  ) {
+    return this.shippingService.getQuotes({ orderId, country }, req);
+  }
+
+  @Roles('admin')
+  @Get('zones')
+  getZones() {
+    return this.shippingService.getZones();
+  }
+
+  @Roles('admin')
+  @Post('zones')
+  @HttpCode(201)
+  createZone(@Body() createShippingZoneDto: CreateShippingZoneDto) {
+    return this.shippingService.createZone(createShippingZoneDto);
+  }
+
+  @Roles('admin')
+  @Put('zones/:id')
+  updateZone(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateShippingZoneDto: UpdateShippingZoneDto,
+  ) {
+    return this.shippingService.updateZone(id, updateShippingZoneDto);
+  }
+
+  @Roles('admin')
+  @Delete('zones/:id')
+  deleteZone(@Param('id', ParseIntPipe) id: number) {
+    return this.shippingService.deleteZone(id);
+  }
+
+  @Roles('admin')
+  @Post('zones/:zoneId/methods')
+  @HttpCode(201)
+  createMethod(
+    @Param('zoneId', ParseIntPipe) zoneId: number,
+    @Body() createShippingMethodDto: CreateShippingMethodDto,
+  ) {
+    return this.shippingService.createMethod(zoneId, createShippingMethodDto);
+  }
+
+  @Roles('admin')
+  @Put('methods/:id')
+  updateMethod(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateShippingMethodDto: UpdateShippingMethodDto,
+  ) {
+    return this.shippingService.updateMethod(id, updateShippingMethodDto);
+  }
+
+  @Roles('admin')
+  @Delete('methods/:id')
+  deleteMethod(@Param('id', ParseIntPipe) id: number) {
+    return this.shippingService.deleteMethod(id);
+  }
+}
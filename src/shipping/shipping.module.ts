@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ShippingZone } from 'src/typeorm/entities/ShippingZone';
+import { ShippingMethod } from 'src/typeorm/entities/ShippingMethod';
+import { Order } from 'src/typeorm/entities/Order';
+import { Cart } from 'src/typeorm/entities/Cart';
+import { CurrencyModule } from 'src/currency/currency.module';
+import { ShippingController } from './shipping.controller';
+import { ShippingService } from './shipping.service';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([ShippingZone, ShippingMethod, Order, Cart]),
+    CurrencyModule,
+  ],
+  controllers: [ShippingController],
+  providers: [ShippingService],
+  exports: [ShippingService],
+})
+export class ShippingModule {}
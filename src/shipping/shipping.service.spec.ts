@@ -0,0 +1,405 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { ShippingService } from './shipping.service';
+import { ShippingZone } from 'src/typeorm/entities/ShippingZone';
+import { ShippingMethod } from 'src/typeorm/entities/ShippingMethod';
+import { Order } from 'src/typeorm/entities/Order';
+import { Cart } from 'src/typeorm/entities/Cart';
+import { CurrencyService } from 'src/currency/currency.service';
+
+describe('ShippingService', () => {
+  let service: ShippingService;
+
+  const mockZoneRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn(() => ({})),
+    save: jest.fn((zone) => ({ id: 1, ...zone })),
+    remove: jest.fn(),
+  };
+
+  const mockMethodRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn((fields) => ({ ...fields })),
+    save: jest.fn((method) => ({ id: 2, ...method })),
+    remove: jest.fn(),
+  };
+
+  const mockEntityManager = {
+    getRepository: jest.fn(() => mockMethodRepository),
+  };
+
+  const mockOrderRepository = {
+    findOne: jest.fn(),
+    manager: mockEntityManager,
+  };
+
+  const mockCartRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockCurrencyService = {
+    rateFor: jest.fn(async () => 1),
+  };
+
+  const eu = { id: 1, name: 'EU', countries: ['DE', 'FR'] } as ShippingZone;
+
+  const method = (overrides: Partial<ShippingMethod> = {}) =>
+    ({
+      id: 2,
+      zone: eu,
+      name: 'Standard',
+      type: 'FLAT_RATE',
+      rate: 500,
+      ratePerKg: null,
+      freeOverAmount: null,
+      isActive: true,
+      ...overrides,
+    }) as ShippingMethod;
+
+  // 2 x 0.6kg at 30.00 and 1 x 0.3kg at 20.00 -> 1.5kg, 80.00 (amounts in cents)
+  const order = (overrides: any = {}): Order =>
+    ({
+      id: 7,
+      status: 'PENDING',
+      currency: 'USD',
+      user: { id: 1, country: 'US' },
+      shippingAddress: { country: 'DE' },
+      freeShipping: false,
+      items: [
+        {
+          product: { id: 1, weightGrams: 600 },
+          quantity: 2,
+          unitPrice: 3000,
+          discountAmount: 0,
+        },
+        {
+          product: { id: 2, weightGrams: 300 },
+          quantity: 1,
+          unitPrice: 2000,
+          discountAmount: 0,
+        },
+      ],
+      ...overrides,
+    }) as any;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ShippingService,
+        {
+          provide: getRepositoryToken(ShippingZone),
+          useValue: mockZoneRepository,
+        },
+        {
+          provide: getRepositoryToken(ShippingMethod),
+          useValue: mockMethodRepository,
+        },
+        { provide: getRepositoryToken(Order), useValue: mockOrderRepository },
+        { provide: getRepositoryToken(Cart), useValue: mockCartRepository },
+        { provide: CurrencyService, useValue: mockCurrencyService },
+      ],
+    }).compile();
+
+    service = module.get<ShippingService>(ShippingService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('createZone', () => {
+    it('should uppercase and dedupe the countries', async () => {
+      mockZoneRepository.findOne.mockResolvedValueOnce(null);
+
+      const result = await service.createZone({
+        name: ' EU ',
+        countries: ['de', 'FR', 'DE'],
+      });
+
+      expect(result.zone).toMatchObject({
+        name: 'EU',
+        countries: ['DE', 'FR'],
+      });
+    });
+
+    it('should reject a duplicate name', async () => {
+      mockZoneRepository.findOne.mockResolvedValueOnce({ id: 3, name: 'EU' });
+
+      await expect(
+        service.createZone({ name: 'EU', countries: ['DE'] }),
+      ).rejects.toMatchObject({ status: HttpStatus.CONFLICT });
+      expect(mockZoneRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createMethod', () => {
+    it('should add the method to the zone', async () => {
+      mockZoneRepository.findOne.mockResolvedValueOnce(eu);
+
+      const result = await service.createMethod(1, {
+        name: 'Standard',
+        type: 'FLAT_RATE',
+        rate: 5,
+      });
+
+      expect(result.method).toMatchObject({ id: 2, zone: eu, rate: 5 });
+    });
+
+    it('should require ratePerKg for weight-based methods', async () => {
+      mockZoneRepository.findOne.mockResolvedValueOnce(eu);
+
+      await expect(
+        service.createMethod(1, { name: 'By weight', type: 'WEIGHT_BASED' }),
+      ).rejects.toThrow(
+        new HttpException(
+          'Weight-based methods need a ratePerKg',
+          HttpStatus.BAD_REQUEST,
+        ),
+      );
+    });
+
+    it('should throw NOT_FOUND for a missing zone', async () => {
+      mockZoneRepository.findOne.mockResolvedValueOnce(null);
+
+      await expect(
+        service.createMethod(9, { name: 'Standard', type: 'FLAT_RATE' }),
+      ).rejects.toMatchObject({ status: HttpStatus.NOT_FOUND });
+    });
+  });
+
+  describe('deleteMethod', () => {
+    it('should remove the method', async () => {
+      const existing = method();
+      mockMethodRepository.findOne.mockResolvedValueOnce(existing);
+
+      const result = await service.deleteMethod(2);
+
+      expect(result).toEqual({
+        message: 'Shipping method deleted successfully',
+      });
+      expect(mockMethodRepository.remove).toHaveBeenCalledWith(existing);
+    });
+  });
+
+  describe('applyToOrder', () => {
+    it('should store a flat rate method on the order', async () => {
+      mockMethodRepository.find.mockResolvedValueOnce([method()]);
+      const target = order();
+
+      await service.applyToOrder(mockEntityManager as any, target, 2);
+
+      expect(mockMethodRepository.find).toHaveBeenCalledWith({
+        where: { isActive: true },
+        relations: ['zone'],
+        order: { id: 'ASC' },
+      });
+      expect(target).toMatchObject({
+        shippingMethodName: 'Standard',
+        shippingAmount: 500,
+      });
+      expect(target.shippingMethod.id).toBe(2);
+    });
+
+    it('should charge weight-based methods per started kilogram', async () => {
+      mockMethodRepository.find.mockResolvedValueOnce([
+        method({ type: 'WEIGHT_BASED', rate: 300, ratePerKg: 250 }),
+      ]);
+      const target = order();
+
+      await service.applyToOrder(mockEntityManager as any, target, 2);
+
+      // 1.5kg -> 2 started kilograms
+      expect(target.shippingAmount).toBe(800);
+    });
+
+    it("should convert the store-currency rates at the order's locked rate", async () => {
+      mockMethodRepository.find.mockResolvedValueOnce([
+        method({ type: 'WEIGHT_BASED', rate: 300, ratePerKg: 250 }),
+      ]);
+      const target = order({ currency: 'JPY', exchangeRate: '150.00000000' });
+
+      await service.applyToOrder(mockEntityManager as any, target, 2);
+
+      // 3.00 + 2 x 2.50 USD = 8.00 USD at 150 JPY per USD
+      expect(target.shippingAmount).toBe(1200);
+    });
+
+    it('should ship free once the discounted subtotal reaches the threshold', async () => {
+      mockMethodRepository.find.mockResolvedValue([
+        method({
+          type: 'FREE_OVER_THRESHOLD',
+          rate: 600,
+          freeOverAmount: 8000,
+        }),
+      ]);
+      const reached = order();
+      const missed = order();
+      missed.items[0].discountAmount = 1;
+
+      await service.applyToOrder(mockEntityManager as any, reached, 2);
+      await service.applyToOrder(mockEntityManager as any, missed, 2);
+
+      expect(reached.shippingAmount).toBe(0);
+      expect(missed.shippingAmount).toBe(600);
+      mockMethodRepository.find.mockReset();
+    });
+
+    it('should not charge orders with a free shipping coupon', async () => {
+      mockMethodRepository.find.mockResolvedValueOnce([method()]);
+      const target = order({ freeShipping: true });
+
+      await service.applyToOrder(mockEntityManager as any, target, 2);
+
+      expect(target.shippingAmount).toBe(0);
+      expect(target.shippingMethodName).toBe('Standard');
+    });
+
+    it("should reject a method whose zone doesn't cover the address", async () => {
+      mockMethodRepository.find.mockResolvedValueOnce([method()]);
+      const target = order({ shippingAddress: { country: 'JP' } });
+
+      await expect(
+        service.applyToOrder(mockEntityManager as any, target, 2),
+      ).rejects.toThrow(
+        new HttpException(
+          'Shipping method is not available for this address',
+          HttpStatus.BAD_REQUEST,
+        ),
+      );
+    });
+
+    it('should require a method when one ships to the address', async () => {
+      mockMethodRepository.find.mockResolvedValueOnce([method()]);
+
+      await expect(
+        service.applyToOrder(mockEntityManager as any, order()),
+      ).rejects.toThrow(
+        new HttpException(
+          'Shipping method is required',
+          HttpStatus.BAD_REQUEST,
+        ),
+      );
+    });
+
+    it('should leave shipping empty when nothing ships to the address', async () => {
+      mockMethodRepository.find.mockResolvedValueOnce([method()]);
+      const target = order({ shippingAddress: { country: null } });
+
+      await service.applyToOrder(mockEntityManager as any, target);
+
+      expect(target).toMatchObject({
+        shippingMethod: null,
+        shippingMethodName: null,
+        shippingAmount: 0,
+      });
+    });
+  });
+
+  describe('getQuotes', () => {
+    it('should quote a pending order, cheapest first', async () => {
+      mockOrderRepository.findOne.mockResolvedValueOnce(order());
+      mockMethodRepository.find.mockResolvedValueOnce([
+        method({ id: 3, name: 'Express', rate: 1200 }),
+        method(),
+        method({ id: 4, zone: { ...eu, countries: ['US'] }, name: 'US' }),
+      ]);
+
+      const result = await service.getQuotes({ orderId: 7 }, {
+        user: { userId: 1, role: 'user' },
+      } as any);
+
+      expect(result).toEqual({
+        message: 'Shipping quotes retrieved successfully',
+        country: 'DE',
+        quotes: [
+          {
+            methodId: 2,
+            name: 'Standard',
+            type: 'FLAT_RATE',
+            zone: 'EU',
+            amount: 500,
+            currency: 'USD',
+          },
+          {
+            methodId: 3,
+            name: 'Express',
+            type: 'FLAT_RATE',
+            zone: 'EU',
+            amount: 1200,
+            currency: 'USD',
+          },
+        ],
+      });
+    });
+
+    it("should not quote someone else's order", async () => {
+      mockOrderRepository.findOne.mockResolvedValueOnce(order());
+
+      await expect(
+        service.getQuotes({ orderId: 7 }, {
+          user: { userId: 2, role: 'user' },
+        } as any),
+      ).rejects.toMatchObject({ status: HttpStatus.FORBIDDEN });
+    });
+
+    it('should refuse orders that are no longer pending', async () => {
+      mockOrderRepository.findOne.mockResolvedValueOnce(
+        order({ status: 'PAID' }),
+      );
+
+      await expect(
+        service.getQuotes({ orderId: 7 }, {
+          user: { userId: 1, role: 'user' },
+        } as any),
+      ).rejects.toMatchObject({ status: HttpStatus.CONFLICT });
+    });
+
+    it("should quote a guest's cart from the cart cookie in the cart currency", async () => {
+      const token = 'a'.repeat(48);
+      mockCartRepository.findOne.mockResolvedValueOnce({
+        items: order().items,
+        currency: 'EUR',
+      });
+      mockMethodRepository.find.mockResolvedValueOnce([method()]);
+
+      const result = await service.getQuotes({ country: 'fr' }, {
+        cookies: { cart_token: token },
+      } as any);
+
+      expect(mockCartRepository.findOne).toHaveBeenCalledWith({
+        where: { token, user: expect.anything() },
+      });
+      expect(result.country).toBe('FR');
+      expect(result.quotes).toHaveLength(1);
+      expect(mockCurrencyService.rateFor).toHaveBeenCalledWith('EUR');
+    });
+
+    it('should require a country for cart quotes', async () => {
+      await expect(
+        service.getQuotes({}, { user: { userId: 1 } } as any),
+      ).rejects.toThrow(
+        new HttpException(
+          'Country is required to quote a cart',
+          HttpStatus.BAD_REQUEST,
+        ),
+      );
+    });
+
+    it('should reject an empty cart', async () => {
+      mockCartRepository.findOne.mockResolvedValueOnce({ items: [] });
+
+      await expect(
+        service.getQuotes({ country: 'DE' }, { user: { userId: 1 } } as any),
+      ).rejects.toThrow(
+        new HttpException('Cart is empty', HttpStatus.BAD_REQUEST),
+      );
+    });
+  });
+});
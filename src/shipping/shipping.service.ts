@@ -0,0 +1,405 @@
+import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Request } from 'express';
+import { EntityManager, IsNull, Repository } from 'typeorm';
+import { ShippingZone } from 'src/typeorm/entities/ShippingZone';
+import { ShippingMethod } from 'src/typeorm/entities/ShippingMethod';
+import { Order } from 'src/typeorm/entities/Order';
+import { Cart } from 'src/typeorm/entities/Cart';
+import { Product } from 'src/typeorm/entities/Product';
+import { cartOwnerFromRequest } from 'src/cart/cart-owner';
+import { DEFAULT_CURRENCY, Money, normalizeCurrency } from 'src/money/money';
+import { CurrencyService } from 'src/currency/currency.service';
+import { canAccessUser } from 'utils/canAccess';
+import {
+  ICreateShippingMethod,
+  ICreateShippingZone,
+  IShippingQuoteQuery,
+  IUpdateShippingMethod,
+  IUpdateShippingZone,
+} from 'utils/Interfaces';
+
+// What a method is priced on: the products, quantities and amounts (minor units) after discounts
+type ShippingLine = {
+  product: Product;
+  quantity: number;
+  unitPrice: number;
+  discountAmount?: number;
+};
+
+@Injectable()
+export class ShippingService {
+  private readonly logger = new Logger(ShippingService.name);
+
+  constructor(
+    @InjectRepository(ShippingZone)
+    private zoneRepository: Repository<ShippingZone>,
+    @InjectRepository(ShippingMethod)
+    private methodRepository: Repository<ShippingMethod>,
+    @InjectRepository(Order) private orderRepository: Repository<Order>,
+    @InjectRepository(Cart) private cartRepository: Repository<Cart>,
+    private currencyService: CurrencyService,
+  ) {}
+
+  private rethrow(error: unknown, action: string): never {
+    if (error instanceof HttpException) throw error;
+    this.logger.error(
+      `Failed to ${action}`,
+      (error as any)?.stack ?? String(error),
+    );
+    throw new HttpException(
+      `An error occurred while trying to ${action}`,
+      HttpStatus.INTERNAL_SERVER_ERROR,
+    );
+  }
+
+  private invalid(message: string): never {
+    throw new HttpException(message, HttpStatus.BAD_REQUEST);
+  }
+
+  private async findZone(id: number) {
+    if (!id || id <= 0) {
+      throw new HttpException(
+        'Invalid shipping zone ID',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    const zone = await this.zoneRepository.findOne({
+      where: { id },
+      relations: ['methods'],
+    });
+    if (!zone) {
+      throw new HttpException('Shipping zone not found', HttpStatus.NOT_FOUND);
+    }
+    return zone;
+  }
+
+  private async findMethod(id: number) {
+    if (!id || id <= 0) {
+      throw new HttpException(
+        'Invalid shipping method ID',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    const method = await this.methodRepository.findOne({ where: { id } });
+    if (!method) {
+      throw new HttpException(
+        'Shipping method not found',
+        HttpStatus.NOT_FOUND,
+      );
+    }
+    return method;
+  }
+
+  private async assertNameIsFree(name: string, exceptId?: number) {
+    const existing = await this.zoneRepository.findOne({ where: { name } });
+    if (existing && existing.id !== exceptId) {
+      throw new HttpException(
+        'A shipping zone with this name already exists',
+        HttpStatus.CONFLICT,
+      );
+    }
+  }
+
+  private assignZone(zone: ShippingZone, params: IUpdateShippingZone) {
+    if (params.name !== undefined) zone.name = params.name.trim();
+    if (params.countries !== undefined) {
+      zone.countries = [
+        ...new Set(params.countries.map((c) => c.toUpperCase())),
+      ];
+    }
+  }
+
+  // Copies the fields and checks the type has the amounts it needs
+  private assignMethod(method: ShippingMethod, params: IUpdateShippingMethod) {
+    Object.assign(method, params);
+    if (method.type === 'WEIGHT_BASED' && method.ratePerKg == null) {
+      this.invalid('Weight-based methods need a ratePerKg');
+    }
+    if (
+      method.type === 'FREE_OVER_THRESHOLD' &&
+      method.freeOverAmount == null
+    ) {
+      this.invalid('Free-over-threshold methods need a freeOverAmount');
+    }
+  }
+
+  async getZones() {
+    try {
+      const zones = await this.zoneRepository.find({
+        relations: ['methods'],
+        order: { name: 'ASC' },
+      });
+      return { message: 'Shipping zones retrieved successfully', zones };
+    } catch (error) {
+      this.rethrow(error, 'retrieve the shipping zones');
+    }
+  }
+
+  async createZone(params: ICreateShippingZone) {
+    try {
+      const zone = this.zoneRepository.create();
+      this.assignZone(zone, params);
+      await this.assertNameIsFree(zone.name);
+
+      const saved = await this.zoneRepository.save(zone);
+      return { message: 'Shipping zone created successfully', zone: saved };
+    } catch (error) {
+      this.rethrow(error, 'create the shipping zone');
+    }
+  }
+
+  async updateZone(id: number, params: IUpdateShippingZone) {
+    try {
+      const zone = await this.findZone(id);
+      this.assignZone(zone, params);
+      if (params.name !== undefined) {
+        await this.assertNameIsFree(zone.name, id);
+      }
+
+      const saved = await this.zoneRepository.save(zone);
+      return { message: 'Shipping zone updated successfully', zone: saved };
+    } catch (error) {
+      this.rethrow(error, 'update the shipping zone');
+    }
+  }
+
+  async deleteZone(id: number) {
+    try {
+      const zone = await this.findZone(id);
+      await this.zoneRepository.remove(zone);
+      return { message: 'Shipping zone deleted successfully' };
+    } catch (error) {
+      this.rethrow(error, 'delete the shipping zone');
+    }
+  }
+
+  async createMethod(zoneId: number, params: ICreateShippingMethod) {
+    try {
+      const zone = await this.findZone(zoneId);
+      const method = this.methodRepository.create({ zone });
+      this.assignMethod(method, params);
+
+      const saved = await this.methodRepository.save(method);
+      return { message: 'Shipping method created successfully', method: saved };
+    } catch (error) {
+      this.rethrow(error, 'create the shipping method');
+    }
+  }
+
+  async updateMethod(id: number, params: IUpdateShippingMethod) {
+    try {
+      const method = await this.findMethod(id);
+      this.assignMethod(method, params);
+
+      const saved = await this.methodRepository.save(method);
+      return { message: 'Shipping method updated successfully', method: saved };
+    } catch (error) {
+      this.rethrow(error, 'update the shipping method');
+    }
+  }
+
+  async deleteMethod(id: number) {
+    try {
+      const method = await this.findMethod(id);
+      await this.methodRepository.remove(method);
+      return { message: 'Shipping method deleted successfully' };
+    } catch (error) {
+      this.rethrow(error, 'delete the shipping method');
+    }
+  }
+
+  // Zones are few, so matching the country is done here rather than in SQL
+  private async methodsFor(manager: EntityManager, country: string) {
+    if (!country) return [];
+    const methods = await manager.getRepository(ShippingMethod).find({
+      where: { isActive: true },
+      relations: ['zone'],
+      order: { id: 'ASC' },
+    });
+    return methods.filter((m) => m.zone?.countries?.includes(country));
+  }
+
+  // Method amounts are in the store currency; `exchangeRate` converts them to `currency`
+  private price(
+    method: ShippingMethod,
+    lines: ShippingLine[],
+    currency: string,
+    exchangeRate: number,
+    freeShipping: boolean,
+  ) {
+    if (freeShipping) return Money.zero(currency);
+
+    const inCurrency = (amount: number) =>
+      Money.of(amount, DEFAULT_CURRENCY).convert(exchangeRate, currency);
+    const rate = inCurrency(method.rate);
+    if (method.type === 'WEIGHT_BASED') {
+      const grams = lines.reduce(
+        (sum, line) =>
+          sum + Number(line.product?.weightGrams ?? 0) * Number(line.quantity),
+        0,
+      );
+      return rate.add(
+        inCurrency(method.ratePerKg).multiply(Math.ceil(grams / 1000)),
+      );
+    }
+    if (method.type === 'FREE_OVER_THRESHOLD') {
+      const subtotal = Money.sum(
+        lines.map((line) =>
+          Money.of(line.unitPrice, currency)
+            .multiply(Number(line.quantity))
+            .subtract(Money.of(line.discountAmount ?? 0, currency)),
+        ),
+        currency,
+      );
+      return subtotal.greaterThanOrEqual(inCurrency(method.freeOverAmount))
+        ? Money.zero(currency)
+        : rate;
+    }
+    return rate;
+  }
+
+  private orderCountry(order: Order) {
+    return (
+      order.shippingAddress?.country ??
+      order.user?.country ??
+      ''
+    ).toUpperCase();
+  }
+
+  private quotesFor(
+    methods: ShippingMethod[],
+    lines: ShippingLine[],
+    currency: string,
+    exchangeRate: number,
+    freeShipping: boolean,
+  ) {
+    return methods
+      .map((method) => ({
+        methodId: method.id,
+        name: method.name,
+        type: method.type,
+        zone: method.zone.name,
+        amount: this.price(method, lines, currency, exchangeRate, freeShipping)
+          .amount,
+        currency,
+      }))
+      .sort((a, b) => a.amount - b.amount);
+  }
+
+  /**
+   * Prices every method that ships to the destination. With `orderId` the
+   * pending order is quoted (its address, discounts and free-shipping coupon
+   * count); otherwise the caller's cart is, for the given `country`.
+   */
+  async getQuotes(query: IShippingQuoteQuery, req: Request) {
+    try {
+      if (query.country && !/^[A-Za-z]{2}$/.test(query.country)) {
+        this.invalid('Country must be a two-letter ISO code');
+      }
+      const manager = this.orderRepository.manager;
+
+      if (query.orderId) {
+        const order = await this.orderRepository.findOne({
+          where: { id: query.orderId },
+          relations: ['user', 'items', 'items.product'],
+        });
+        if (!order) {
+          throw new HttpException('Order not found', HttpStatus.NOT_FOUND);
+        }
+        canAccessUser(req, order.user?.id);
+        if (order.status !== 'PENDING') {
+          throw new HttpException(
+            'Shipping can only be quoted for pending orders',
+            HttpStatus.CONFLICT,
+          );
+        }
+
+        const country =
+          query.country?.toUpperCase() || this.orderCountry(order);
+        const methods = await this.methodsFor(manager, country);
+        return {
+          message: 'Shipping quotes retrieved successfully',
+          country,
+          quotes: this.quotesFor(
+            methods,
+            order.items,
+            order.currency,
+            Number(order.exchangeRate ?? 1),
+            order.freeShipping,
+          ),
+        };
+      }
+
+      if (!query.country) {
+        this.invalid('Country is required to quote a cart');
+      }
+      const owner = cartOwnerFromRequest(req);
+      const cart =
+        owner.userId || owner.token
+          ? await this.cartRepository.findOne({
+              where: owner.userId
+                ? { user: { id: owner.userId } }
+                : { token: owner.token, user: IsNull() },
+            })
+          : null;
+      if (!cart?.items?.length) {
+        this.invalid('Cart is empty');
+      }
+
+      const country = query.country.toUpperCase();
+      const methods = await this.methodsFor(manager, country);
+      const currency = normalizeCurrency(cart.currency);
+      return {
+        message: 'Shipping quotes retrieved successfully',
+        country,
+        quotes: this.quotesFor(
+          methods,
+          cart.items,
+          currency,
+          await this.currencyService.rateFor(currency),
+          false,
+        ),
+      };
+    } catch (error) {
+      this.rethrow(error, 'retrieve the shipping quotes');
+    }
+  }
+
+  /**
+   * Prices the chosen method for the order and stores it (`shippingMethod`,
+   * `shippingMethodName`, `shippingAmount`). Runs after the coupon, whose
+   * discount and free shipping count, and before tax, which adds the shipping
+   * to the total. Without a method the order ships free only when nothing
+   * ships to its destination.
+   */
+  async applyToOrder(manager: EntityManager, order: Order, methodId?: number) {
+    const country = this.orderCountry(order);
+    const available = await this.methodsFor(manager, country);
+
+    if (!methodId) {
+      if (available.length > 0) {
+        this.invalid('Shipping method is required');
+      }
+      order.shippingMethod = null;
+      order.shippingMethodName = null;
+      order.shippingAmount = 0;
+      return;
+    }
+
+    const method = available.find((m) => m.id === methodId);
+    if (!method) {
+      this.invalid('Shipping method is not available for this address');
+    }
+
+    order.shippingMethod = method;
+    order.shippingMethodName = method.name;
+    order.shippingAmount = this.price(
+      method,
+      order.items ?? [],
+      order.currency,
+      Number(order.exchangeRate ?? 1),
+      !!order.freeShipping,
+    ).amount;
+  }
+}
@@ -0,0 +1,12 @@
+// Injection token for the active FileStorage (see StorageModule)
+export const FILE_STORAGE = 'FILE_STORAGE';
+
+export interface FileStorage {
+  readonly name: string;
+  /** Stores `body` under `key` (e.g. "products/1/abc.jpg") and returns its public URL. */
+  put(key: string, body: Buffer, contentType: string): Promise<string>;
+  /** Deleting a file that is already gone is not an error. */
+  delete(key: string): Promise<void>;
+  /** The key behind a URL this storage handed out, or null for any other URL. */
+  keyFromUrl(url: string): string | null;
+}
@@ -0,0 +1,57 @@
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileStorage } from './file-storage';
+import { LocalFileStorage } from './local-file-storage';
+
+describe('LocalFileStorage', () => {
+  let directory: string;
+  let storage: FileStorage;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'uploads-'));
+    storage = new LocalFileStorage({
+      directory,
+      publicUrl: 'http://localhost:5000/uploads',
+    });
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should write the file and return its public URL', async () => {
+    const url = await storage.put(
+      'products/1/a.png',
+      Buffer.from('png'),
+      'image/png',
+    );
+
+    expect(url).toBe('http://localhost:5000/uploads/products/1/a.png');
+    await expect(
+      readFile(join(directory, 'products/1/a.png'), 'utf8'),
+    ).resolves.toBe('png');
+  });
+
+  it('should delete files, including ones already gone', async () => {
+    await storage.put('a.png', Buffer.from('png'), 'image/png');
+
+    await storage.delete('a.png');
+    await expect(storage.delete('a.png')).resolves.toBeUndefined();
+    await expect(readFile(join(directory, 'a.png'))).rejects.toThrow();
+  });
+
+  it('should refuse keys outside its directory', async () => {
+    await expect(
+      storage.put('../escape.png', Buffer.from('png'), 'image/png'),
+    ).rejects.toThrow('Invalid storage key');
+  });
+
+  it('should only resolve keys of its own URLs', () => {
+    expect(
+      storage.keyFromUrl('http://localhost:5000/uploads/products/1/a.png'),
+    ).toBe('products/1/a.png');
+    expect(storage.keyFromUrl('https://cdn.example.com/a.png')).toBeNull();
+    expect(storage.keyFromUrl(null)).toBeNull();
+  });
+});
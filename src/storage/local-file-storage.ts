@@ -0,0 +1,47 @@
+import { mkdir, rm, writeFile } from 'fs/promises';
+import { dirname, resolve, sep } from 'path';
+import { FileStorage } from './file-storage';
+
+export const DEFAULT_UPLOADS_DIR = 'uploads';
+
+export interface LocalFileStorageOptions {
+  // Where files are written; main.ts serves it under /uploads
+  directory: string;
+  // URL the directory is reachable at, without a trailing slash
+  publicUrl: string;
+}
+
+/** Keeps files on the server's disk. The default backend. */
+export class LocalFileStorage implements FileStorage {
+  readonly name = 'local';
+  private readonly root: string;
+
+  constructor(private readonly options: LocalFileStorageOptions) {
+    this.root = resolve(options.directory);
+  }
+
+  // Keys are generated server-side, but never let one point outside the root
+  private pathOf(key: string) {
+    const path = resolve(this.root, key);
+    if (!path.startsWith(this.root + sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path;
+  }
+
+  async put(key: string, body: Buffer): Promise<string> {
+    const path = this.pathOf(key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, body);
+    return `${this.options.publicUrl}/${key}`;
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathOf(key), { force: true });
+  }
+
+  keyFromUrl(url: string): string | null {
+    const prefix = `${this.options.publicUrl}/`;
+    return url?.startsWith(prefix) ? url.slice(prefix.length) : null;
+  }
+}
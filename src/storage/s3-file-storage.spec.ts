@@ -0,0 +1,52 @@
+import { DeleteObjectCommand, PutObjectCommand } from '@aws-sdk/client-s3';
+import { S3FileStorage } from './s3-file-storage';
+
+describe('S3FileStorage', () => {
+  const mockClient = {
+    send: jest.fn(),
+  };
+
+  let storage: S3FileStorage;
+
+  beforeEach(() => {
+    storage = new S3FileStorage(mockClient as any, {
+      bucket: 'shop',
+      publicUrl: 'http://localhost:9000/shop',
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should put the object with its content type', async () => {
+    const body = Buffer.from('png');
+
+    const url = await storage.put('products/1/a.png', body, 'image/png');
+
+    const command = mockClient.send.mock.calls[0][0];
+    expect(command).toBeInstanceOf(PutObjectCommand);
+    expect(command.input).toEqual({
+      Bucket: 'shop',
+      Key: 'products/1/a.png',
+      Body: body,
+      ContentType: 'image/png',
+    });
+    expect(url).toBe('http://localhost:9000/shop/products/1/a.png');
+  });
+
+  it('should delete the object', async () => {
+    await storage.delete('products/1/a.png');
+
+    const command = mockClient.send.mock.calls[0][0];
+    expect(command).toBeInstanceOf(DeleteObjectCommand);
+    expect(command.input).toEqual({ Bucket: 'shop', Key: 'products/1/a.png' });
+  });
+
+  it('should only resolve keys of its own URLs', () => {
+    expect(storage.keyFromUrl('http://localhost:9000/shop/x/y.png')).toBe(
+      'x/y.png',
+    );
+    expect(storage.keyFromUrl('http://localhost:9000/other/x.png')).toBeNull();
+  });
+});
@@ -0,0 +1,46 @@
+import {
+  DeleteObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { FileStorage } from './file-storage';
+
+export interface S3FileStorageOptions {
+  bucket: string;
+  // URL the bucket's objects are reachable at, without a trailing slash
+  publicUrl: string;
+}
+
+/** Keeps files in an S3 bucket, or anything speaking its API (MinIO locally). */
+export class S3FileStorage implements FileStorage {
+  readonly name = 's3';
+
+  constructor(
+    private readonly client: S3Client,
+    private readonly options: S3FileStorageOptions,
+  ) {}
+
+  async put(key: string, body: Buffer, contentType: string): Promise<string> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.options.bucket,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+      }),
+    );
+    return `${this.options.publicUrl}/${key}`;
+  }
+
+  // S3 answers a delete of a missing object with success too
+  async delete(key: string): Promise<void> {
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.options.bucket, Key: key }),
+    );
+  }
+
+  keyFromUrl(url: string): string | null {
+    const prefix = `${this.options.publicUrl}/`;
+    return url?.startsWith(prefix) ? url.slice(prefix.length) : null;
+  }
+}
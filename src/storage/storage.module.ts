@@ -0,0 +1,56 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { S3Client } from '@aws-sdk/client-s3';
+import { FILE_STORAGE, FileStorage } from './file-storage';
+import { DEFAULT_UPLOADS_DIR, LocalFileStorage } from './local-file-storage';
+import { S3FileStorage } from './s3-file-storage';
+
+@Module({
+  providers: [
+    {
+      provide: FILE_STORAGE,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): FileStorage => {
+        if (configService.get<string>('STORAGE_DRIVER') === 's3') {
+          const bucket = configService.get<string>('S3_BUCKET');
+          const region = configService.get<string>('S3_REGION') ?? 'us-east-1';
+          // Set for MinIO and other S3-compatible servers
+          const endpoint = configService.get<string>('S3_ENDPOINT');
+          const accessKeyId = configService.get<string>('S3_ACCESS_KEY_ID');
+          const client = new S3Client({
+            region,
+            endpoint,
+            forcePathStyle: Boolean(endpoint),
+            credentials: accessKeyId
+              ? {
+                  accessKeyId,
+                  secretAccessKey: configService.get<string>(
+                    'S3_SECRET_ACCESS_KEY',
+                  ),
+                }
+              : undefined,
+          });
+          return new S3FileStorage(client, {
+            bucket,
+            publicUrl:
+              configService.get<string>('S3_PUBLIC_URL') ??
+              (endpoint
+                ? `${endpoint.replace(/\/$/, '')}/${bucket}`
+                : `https://${bucket}.s3.${region}.amazonaws.com`),
+          });
+        }
+
+        const port = configService.get<string>('PORT') ?? '5000';
+        return new LocalFileStorage({
+          directory:
+            configService.get<string>('UPLOADS_DIR') ?? DEFAULT_UPLOADS_DIR,
+          publicUrl:
+            configService.get<string>('UPLOADS_PUBLIC_URL') ??
+            `http://localhost:${port}/uploads`,
+        });
+      },
+    },
+  ],
+  exports: [FILE_STORAGE],
+})
+export class StorageModule {}
@@ -0,0 +1,43 @@
+import {
+  IsBoolean,
+  IsISO31661Alpha2,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class CreateTaxRateDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @IsISO31661Alpha2({ message: 'Country must be a two-letter ISO code' })
+  country: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  region?: string | null;
+
+  @IsOptional()
+  @Matches(/^[a-z0-9_-]{1,50}$/, {
+    message:
+      'Tax class must be lowercase letters, digits, dashes or underscores',
+  })
+  taxClass?: string;
+
+  @IsNumber({ maxDecimalPlaces: 3 })
+  @Min(0)
+  @Max(100)
+  rate: number;
+
+  @IsOptional()
+  @IsBoolean()
+  inclusive?: boolean;
+}
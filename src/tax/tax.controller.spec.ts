@@ -0,0 +1,47 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { TaxController } from './tax.controller';
+import { TaxService } from './tax.service';
+
+describe('TaxController', () => {
+  let controller: TaxController;
+
+  const mockTaxService = {
+    getRates: jest.fn(),
+    createRate: jest.fn(),
+    updateRate: jest.fn(),
+    deleteRate: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [TaxController],
+      providers: [{ provide: TaxService, useValue: mockTaxService }],
+    }).compile();
+
+    controller = module.get<TaxController>(TaxController);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should pass CRUD calls to the service', async () => {
+    const dto = { name: 'VAT', country: 'DE', rate: 19 };
+
+    await controller.getRates();
+    await controller.createRate(dto);
+    await controller.updateRate(1, { inclusive: true });
+    await controller.deleteRate(1);
+
+    expect(mockTaxService.getRates).toHaveBeenCalled();
+    expect(mockTaxService.createRate).toHaveBeenCalledWith(dto);
+    expect(mockTaxService.updateRate).toHaveBeenCalledWith(1, {
+      inclusive: true,
+    });
+    expect(mockTaxService.deleteRate).toHaveBeenCalledWith(1);
+  });
+});
@@ -0,0 +1,50 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  ParseIntPipe,
+  Post,
+  Put,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { Roles } from 'utils/rolesDecorator';
+import { TaxService } from './tax.service';
+import { CreateTaxRateDto } from './dtos/CreateTaxRateDto';
+import { UpdateTaxRateDto } from './dtos/UpdateTaxRateDto';
+
+@ApiTags('tax')
+@Controller('tax/rates')
+export class TaxController {
+  constructor(private taxService: TaxService) {}
+
+  @Roles('admin')
+  @Get()
+  getRates() {
+    return this.taxService.getRates();
+  }
+
+  @Roles('admin')
+  @Post()
+  @HttpCode(201)
+  createRate(@Body() createTaxRateDto: CreateTaxRateDto) {
+    return this.taxService.createRate(createTaxRateDto);
+  }
+
+  @Roles('admin')
+  @Put(':id')
+  updateRate(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateTaxRateDto: UpdateTaxRateDto,
+  ) {
+    return this.taxService.updateRate(id, updateTaxRateDto);
+  }
+
+  @Roles('admin')
+  @Delete(':id')
+  deleteRate(@Param('id', ParseIntPipe) id: number) {
+    return this.taxService.deleteRate(id);
+  }
+}
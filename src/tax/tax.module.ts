@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { TaxRate } from 'src/typeorm/entities/TaxRate';
+import { TaxController } from './tax.controller';
+import { TaxService } from './tax.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([TaxRate])],
+  controllers: [TaxController],
+  providers: [TaxService],
+  exports: [TaxService],
+})
+export class TaxModule {}
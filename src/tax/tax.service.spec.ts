@@ -0,0 +1,241 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { IsNull } from 'typeorm';
+import { TaxService } from './tax.service';
+import { TaxRate } from 'src/typeorm/entities/TaxRate';
+import { Order } from 'src/typeorm/entities/Order';
+
+describe('TaxService', () => {
+  let service: TaxService;
+
+  const mockTaxRateRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn(() => ({})),
+    save: jest.fn((rate) => ({ id: 1, ...rate })),
+    remove: jest.fn(),
+  };
+
+  const mockEntityManager = {
+    getRepository: jest.fn(() => mockTaxRateRepository),
+  };
+
+  const rate = (overrides: Partial<TaxRate> = {}) =>
+    ({
+      id: 1,
+      name: 'VAT',
+      country: 'DE',
+      region: null,
+      taxClass: 'standard',
+      rate: 19,
+      inclusive: false,
+      ...overrides,
+    }) as TaxRate;
+
+  const order = (
+    shippingAddress: any = { country: 'DE', region: null },
+  ): Order =>
+    ({
+      user: { id: 1, country: 'US' },
+      shippingAddress,
+      currency: 'USD',
+      items: [
+        {
+          product: { id: 1, taxClass: 'standard' },
+          quantity: 2,
+          unitPrice: 5000,
+          discountAmount: 0,
+        },
+        {
+          product: { id: 2, taxClass: 'reduced' },
+          quantity: 1,
+          unitPrice: 2000,
+          discountAmount: 0,
+        },
+      ],
+      totalAmount: 12000,
+    }) as any;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TaxService,
+        {
+          provide: getRepositoryToken(TaxRate),
+          useValue: mockTaxRateRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<TaxService>(TaxService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('createRate', () => {
+    it('should normalize the country and region and default the tax class', async () => {
+      mockTaxRateRepository.findOne.mockResolvedValueOnce(null);
+
+      const result = await service.createRate({
+        name: 'Sales tax',
+        country: 'us',
+        region: '  CA ',
+        rate: 7.25,
+      });
+
+      expect(result.rate).toMatchObject({
+        country: 'US',
+        region: 'CA',
+        taxClass: 'standard',
+        rate: 7.25,
+      });
+      expect(mockTaxRateRepository.findOne).toHaveBeenCalledWith({
+        where: { country: 'US', region: 'CA', taxClass: 'standard' },
+      });
+    });
+
+    it('should throw CONFLICT for a second country-wide rate of the same class', async () => {
+      mockTaxRateRepository.findOne.mockResolvedValueOnce(rate({ id: 4 }));
+
+      await expect(
+        service.createRate({ name: 'VAT', country: 'DE', rate: 19 }),
+      ).rejects.toThrow(
+        new HttpException(
+          'A tax rate for this country, region and tax class already exists',
+          HttpStatus.CONFLICT,
+        ),
+      );
+      expect(mockTaxRateRepository.findOne).toHaveBeenCalledWith({
+        where: { country: 'DE', region: IsNull(), taxClass: 'standard' },
+      });
+    });
+  });
+
+  describe('updateRate', () => {
+    it('should update an existing rate', async () => {
+      mockTaxRateRepository.findOne
+        .mockResolvedValueOnce(rate())
+        .mockResolvedValueOnce(rate());
+
+      const result = await service.updateRate(1, { rate: 16, inclusive: true });
+
+      expect(result.rate).toMatchObject({ id: 1, rate: 16, inclusive: true });
+    });
+
+    it('should throw NOT_FOUND for a missing rate', async () => {
+      mockTaxRateRepository.findOne.mockResolvedValueOnce(null);
+
+      await expect(service.updateRate(2, { rate: 5 })).rejects.toMatchObject({
+        status: HttpStatus.NOT_FOUND,
+      });
+    });
+  });
+
+  describe('deleteRate', () => {
+    it('should remove the rate', async () => {
+      const existing = rate();
+      mockTaxRateRepository.findOne.mockResolvedValueOnce(existing);
+
+      const result = await service.deleteRate(1);
+
+      expect(result).toEqual({ message: 'Tax rate deleted successfully' });
+      expect(mockTaxRateRepository.remove).toHaveBeenCalledWith(existing);
+    });
+  });
+
+  describe('applyToOrder', () => {
+    it('should add exclusive tax per tax class on top of the prices', async () => {
+      mockTaxRateRepository.find.mockResolvedValueOnce([
+        rate(),
+        rate({ id: 2, taxClass: 'reduced', rate: 7 }),
+      ]);
+      const target = order();
+
+      await service.applyToOrder(mockEntityManager as any, target);
+
+      expect(mockTaxRateRepository.find).toHaveBeenCalledWith({
+        where: { country: 'DE' },
+      });
+      expect(target.items[0]).toMatchObject({
+        taxRate: 19,
+        taxAmount: 1900,
+        taxInclusive: false,
+      });
+      expect(target.items[1]).toMatchObject({ taxRate: 7, taxAmount: 140 });
+      expect(target.taxAmount).toBe(2040);
+      expect(target.totalAmount).toBe(14040);
+    });
+
+    it('should only report inclusive tax without changing the total', async () => {
+      mockTaxRateRepository.find.mockResolvedValueOnce([
+        rate({ rate: 20, inclusive: true }),
+      ]);
+      const target = order();
+
+      await service.applyToOrder(mockEntityManager as any, target);
+
+      // 100.00 including 20% -> 16.67 of it is tax
+      expect(target.items[0]).toMatchObject({
+        taxAmount: 1667,
+        taxInclusive: true,
+      });
+      expect(target.items[1]).toMatchObject({ taxRate: 0, taxAmount: 0 });
+      expect(target.totalAmount).toBe(12000);
+    });
+
+    it('should tax the discounted amount', async () => {
+      mockTaxRateRepository.find.mockResolvedValueOnce([rate({ rate: 10 })]);
+      const target = order();
+      target.items[0].discountAmount = 1000;
+
+      await service.applyToOrder(mockEntityManager as any, target);
+
+      expect(target.items[0].taxAmount).toBe(900);
+      expect(target.totalAmount).toBe(11900);
+    });
+
+    it('should add untaxed shipping to the total', async () => {
+      mockTaxRateRepository.find.mockResolvedValueOnce([rate({ rate: 10 })]);
+      const target = order();
+      target.shippingAmount = 499;
+
+      await service.applyToOrder(mockEntityManager as any, target);
+
+      expect(target.taxAmount).toBe(1000);
+      expect(target.totalAmount).toBe(13499);
+    });
+
+    it('should prefer a rate for the shipping region over the country-wide one', async () => {
+      mockTaxRateRepository.find.mockResolvedValueOnce([
+        rate({ country: 'US', rate: 5 }),
+        rate({ id: 2, country: 'US', region: 'CA', rate: 7.25 }),
+      ]);
+      const target = order({ country: 'US', region: 'ca' });
+
+      await service.applyToOrder(mockEntityManager as any, target);
+
+      expect(target.items[0].taxRate).toBe(7.25);
+      expect(target.items[0].taxAmount).toBe(725);
+    });
+
+    it("should fall back to the user's country without a shipping address", async () => {
+      mockTaxRateRepository.find.mockResolvedValueOnce([]);
+      const target = order({ country: null, region: null });
+
+      await service.applyToOrder(mockEntityManager as any, target);
+
+      expect(mockTaxRateRepository.find).toHaveBeenCalledWith({
+        where: { country: 'US' },
+      });
+      expect(target.taxAmount).toBe(0);
+      expect(target.totalAmount).toBe(12000);
+    });
+  });
+});
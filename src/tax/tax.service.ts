@@ -0,0 +1,168 @@
+import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, IsNull, Repository } from 'typeorm';
+import { TaxRate } from 'src/typeorm/entities/TaxRate';
+import { Order } from 'src/typeorm/entities/Order';
+import { Money } from 'src/money/money';
+import { ICreateTaxRate, IUpdateTaxRate } from 'utils/Interfaces';
+
+@Injectable()
+export class TaxService {
+  private readonly logger = new Logger(TaxService.name);
+
+  constructor(
+    @InjectRepository(TaxRate) private taxRateRepository: Repository<TaxRate>,
+  ) {}
+
+  private rethrow(error: unknown, action: string): never {
+    if (error instanceof HttpException) throw error;
+    this.logger.error(
+      `Failed to ${action}`,
+      (error as any)?.stack ?? String(error),
+    );
+    throw new HttpException(
+      `An error occurred while trying to ${action}`,
+      HttpStatus.INTERNAL_SERVER_ERROR,
+    );
+  }
+
+  private async findRate(id: number) {
+    if (!id || id <= 0) {
+      throw new HttpException('Invalid tax rate ID', HttpStatus.BAD_REQUEST);
+    }
+    const rate = await this.taxRateRepository.findOne({ where: { id } });
+    if (!rate) {
+      throw new HttpException('Tax rate not found', HttpStatus.NOT_FOUND);
+    }
+    return rate;
+  }
+
+  // The unique index doesn't catch duplicates with a null region in MySQL
+  private async assertNoDuplicate(rate: TaxRate) {
+    const existing = await this.taxRateRepository.findOne({
+      where: {
+        country: rate.country,
+        region: rate.region ?? IsNull(),
+        taxClass: rate.taxClass,
+      },
+    });
+    if (existing && existing.id !== rate.id) {
+      throw new HttpException(
+        'A tax rate for this country, region and tax class already exists',
+        HttpStatus.CONFLICT,
+      );
+    }
+  }
+
+  private assign(rate: TaxRate, params: IUpdateTaxRate) {
+    Object.assign(rate, params);
+    if (params.country !== undefined) {
+      rate.country = params.country.toUpperCase();
+    }
+    if (params.region !== undefined) {
+      rate.region = params.region?.trim() || null;
+    }
+    rate.taxClass = rate.taxClass || 'standard';
+  }
+
+  async getRates() {
+    try {
+      const rates = await this.taxRateRepository.find({
+        order: { country: 'ASC', region: 'ASC', taxClass: 'ASC' },
+      });
+      return { message: 'Tax rates retrieved successfully', rates };
+    } catch (error) {
+      this.rethrow(error, 'retrieve the tax rates');
+    }
+  }
+
+  async createRate(params: ICreateTaxRate) {
+    try {
+      const rate = this.taxRateRepository.create();
+      this.assign(rate, params);
+      await this.assertNoDuplicate(rate);
+
+      const saved = await this.taxRateRepository.save(rate);
+      return { message: 'Tax rate created successfully', rate: saved };
+    } catch (error) {
+      this.rethrow(error, 'create the tax rate');
+    }
+  }
+
+  async updateRate(id: number, params: IUpdateTaxRate) {
+    try {
+      const rate = await this.findRate(id);
+      this.assign(rate, params);
+      await this.assertNoDuplicate(rate);
+
+      const saved = await this.taxRateRepository.save(rate);
+      return { message: 'Tax rate updated successfully', rate: saved };
+    } catch (error) {
+      this.rethrow(error, 'update the tax rate');
+    }
+  }
+
+  async deleteRate(id: number) {
+    try {
+      const rate = await this.findRate(id);
+      await this.taxRateRepository.remove(rate);
+      return { message: 'Tax rate deleted successfully' };
+    } catch (error) {
+      this.rethrow(error, 'delete the tax rate');
+    }
+  }
+
+  /**
+   * Works out the tax of every line (after its coupon discount) from the
+   * shipping address, or the user's country when the order has none, and
+   * recomputes the order total including `shippingAmount`. Lines without a
+   * matching rate are untaxed; shipping itself isn't taxed.
+   */
+  async applyToOrder(manager: EntityManager, order: Order) {
+    const shipping = order.shippingAddress?.country
+      ? order.shippingAddress
+      : null;
+    const country = (
+      shipping?.country ??
+      order.user?.country ??
+      ''
+    ).toUpperCase();
+    const region = shipping?.region?.trim().toLowerCase() || null;
+
+    const rates = country
+      ? await manager.getRepository(TaxRate).find({ where: { country } })
+      : [];
+    const rateFor = (taxClass: string) =>
+      rates.find(
+        (r) =>
+          r.taxClass === taxClass &&
+          region &&
+          r.region?.toLowerCase() === region,
+      ) ?? rates.find((r) => r.taxClass === taxClass && !r.region);
+
+    const currency = order.currency;
+    let tax = Money.zero(currency);
+    let total = Money.of(order.shippingAmount ?? 0, currency);
+    for (const item of order.items ?? []) {
+      const net = Money.of(item.unitPrice, currency)
+        .multiply(Number(item.quantity))
+        .subtract(Money.of(item.discountAmount ?? 0, currency));
+      const rate = rateFor(item.product?.taxClass ?? 'standard');
+      const percent = rate ? Number(rate.rate) : 0;
+
+      const lineTax = rate?.inclusive
+        ? net.subtract(net.multiply(1 / (1 + percent / 100)))
+        : net.percent(percent);
+
+      item.taxRate = percent;
+      item.taxAmount = lineTax.amount;
+      item.taxInclusive = !!rate?.inclusive;
+
+      tax = tax.add(lineTax);
+      total = total.add(rate?.inclusive ? net : net.add(lineTax));
+    }
+
+    order.taxAmount = tax.amount;
+    order.totalAmount = total.amount;
+  }
+}
@@ -0,0 +1,60 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { User } from './User';
+
+// Saved address in a user's address book. Orders copy it (see AddressSnapshot)
+@Entity()
+export class Address {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => User, (user) => user.addresses, { onDelete: 'CASCADE' })
+  user: User;
+
+  // e.g. "Home", "Work"
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  label: string | null;
+
+  @Column({ type: 'varchar', length: 100 })
+  fullName: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  line1: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  line2: string | null;
+
+  @Column({ type: 'varchar', length: 100 })
+  city: string;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  region: string | null;
+
+  @Column({ type: 'varchar', length: 20 })
+  postalCode: string;
+
+  // ISO 3166-1 alpha-2
+  @Column({ type: 'varchar', length: 2 })
+  country: string;
+
+  @Column({ type: 'varchar', length: 30, nullable: true })
+  phone: string | null;
+
+  @Column({ default: false })
+  isDefaultShipping: boolean;
+
+  @Column({ default: false })
+  isDefaultBilling: boolean;
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamp' })
+  updatedAt: Date;
+}
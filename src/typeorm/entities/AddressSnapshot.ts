@@ -0,0 +1,29 @@
+import { Column } from 'typeorm';
+
+// Copy of an address embedded in an order, so later address edits don't change order history
+export class AddressSnapshot {
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  fullName: string | null;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  line1: string | null;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  line2: string | null;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  city: string | null;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  region: string | null;
+
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  postalCode: string | null;
+
+  // ISO 3166-1 alpha-2
+  @Column({ type: 'varchar', length: 2, nullable: true })
+  country: string | null;
+
+  @Column({ type: 'varchar', length: 30, nullable: true })
+  phone: string | null;
+}
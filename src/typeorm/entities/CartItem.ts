@@ -0,0 +1,55 @@
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { Cart } from './Cart';
+import { Product } from './Product';
+import { ProductVariant } from './ProductVariant';
+
+@Entity()
+@Index(['cart', 'product', 'variantKey'], { unique: true })
+export class CartItem {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => Cart, (cart) => cart.items, {
+    onDelete: 'CASCADE',
+    orphanedRowAction: 'delete',
+  })
+  @JoinColumn({ name: 'cartId' })
+  cart: Cart;
+
+  @ManyToOne(() => Product, { eager: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'productId' })
+  product: Product;
+
+  // Set for products sold in variants; the line's price and stock are the variant's
+  @ManyToOne(() => ProductVariant, {
+    eager: true,
+    nullable: true,
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'variantId' })
+  variant: ProductVariant | null;
+
+  // MySQL lets NULLs repeat in a unique index, so lines without a variant are keyed as 0
+  @Column({
+    type: 'int',
+    asExpression: 'COALESCE(`variantId`, 0)',
+    generatedType: 'STORED',
+    insert: false,
+    update: false,
+  })
+  variantKey: number;
+
+  @Column({ type: 'int' })
+  quantity: number;
+
+  // Price the customer last saw (minor units, like Product.price); compared with it to flag price changes
+  @Column({ type: 'int' })
+  unitPrice: number;
+}
@@ -4,21 +4,35 @@ import {
   Entity,
   OneToMany,
   PrimaryGeneratedColumn,
+  Tree,
+  TreeChildren,
+  TreeParent,
   UpdateDateColumn,
 } from 'typeorm';
 import { Product } from './Product';
 
+// Nested through a materialized path: TypeORM keeps an `mpath` column of the
+// ids from the top-level category down, e.g. "1.4.9."
 @Entity()
+@Tree('materialized-path')
 export class Category {
   @PrimaryGeneratedColumn()
   id: number;
 
+  // Unique in the whole tree, not just among siblings
   @Column({ unique: true })
   name: string;
 
   @Column()
   imageUrl: string;
 
+  // Null for top-level categories
+  @TreeParent({ onDelete: 'RESTRICT' })
+  parent: Category | null;
+
+  @TreeChildren()
+  children: Category[];
+
   @OneToMany(() => Product, (product) => product.category)
   products: Product[];
 
@@ -0,0 +1,72 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  JoinTable,
+  ManyToMany,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { Product } from './Product';
+import { Category } from './Category';
+
+export const COUPON_TYPES = [
+  'PERCENTAGE',
+  'FIXED_AMOUNT',
+  'FREE_SHIPPING',
+] as const;
+export type CouponType = (typeof COUPON_TYPES)[number];
+
+@Entity()
+export class Coupon {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  // Stored uppercase; customers can type it in any case
+  @Column({ type: 'varchar', length: 50, unique: true })
+  code: string;
+
+  @Column({ type: 'enum', enum: COUPON_TYPES })
+  type: CouponType;
+
+  // Percent off (0-100) for PERCENTAGE, amount off in minor units of the store
+  // currency (USD) for FIXED_AMOUNT, unused for FREE_SHIPPING
+  @Column('decimal', { precision: 12, scale: 2, default: 0 })
+  value: number;
+
+  // Minor units of the store currency, checked against the order subtotal
+  // (converted at the order's rate) before any discount
+  @Column({ type: 'int', nullable: true })
+  minOrderValue: number | null;
+
+  // Limits count orders that weren't canceled; null means unlimited
+  @Column({ type: 'int', nullable: true })
+  maxUses: number | null;
+
+  @Column({ type: 'int', nullable: true })
+  maxUsesPerUser: number | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  startsAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  expiresAt: Date | null;
+
+  @Column({ default: true })
+  isActive: boolean;
+
+  // When both lists are empty the coupon applies to every product
+  @ManyToMany(() => Product)
+  @JoinTable({ name: 'coupon_products' })
+  products: Product[];
+
+  @ManyToMany(() => Category)
+  @JoinTable({ name: 'coupon_categories' })
+  categories: Category[];
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamp' })
+  updatedAt: Date;
+}
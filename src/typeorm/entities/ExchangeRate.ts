@@ -0,0 +1,29 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+
+// How many units of `currency` one unit of the store currency (USD) buys from
+// `effectiveFrom` on. The latest row that has taken effect is the current rate.
+@Entity()
+@Index(['currency', 'effectiveFrom'], { unique: true })
+export class ExchangeRate {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  // ISO 4217
+  @Column({ type: 'char', length: 3 })
+  currency: string;
+
+  @Column('decimal', { precision: 18, scale: 8 })
+  rate: number;
+
+  @Column({ type: 'datetime' })
+  effectiveFrom: Date;
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+}
@@ -2,6 +2,7 @@ import {
   Column,
   CreateDateColumn,
   Entity,
+  Index,
   ManyToOne,
   OneToMany,
   PrimaryGeneratedColumn,
@@ -10,6 +11,11 @@ import {
 import { User } from './User';
 import { Product } from './Product';
 import { OrderItem } from './OrderItem';
+import { OrderStatusHistory } from './OrderStatusHistory';
+import { AddressSnapshot } from './AddressSnapshot';
+import { Coupon } from './Coupon';
+import { ShippingMethod } from './ShippingMethod';
+import { ORDER_STATUSES, OrderStatus } from 'src/orders/order-status';
 
 @Entity()
 export class Order {
@@ -19,24 +25,100 @@ export class Order {
   @Column({ nullable: true })
   name: string;
 
-  @ManyToOne(() => User, (user) => user.orders, { eager: true })
-  user: User;
+  // Null for guest orders until the guest verifies an account with the same email
+  @ManyToOne(() => User, (user) => user.orders, { eager: true, nullable: true })
+  user: User | null;
+
+  @Index()
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  guestEmail: string | null;
+
+  @Column(() => AddressSnapshot, { prefix: 'shipping' })
+  shippingAddress: AddressSnapshot;
+
+  @Column(() => AddressSnapshot, { prefix: 'billing' })
+  billingAddress: AddressSnapshot;
 
   @OneToMany(() => OrderItem, (item) => item.order, {
     cascade: true,
     eager: true,
   })
   items: OrderItem[];
-  @Column()
+
+  // Every amount on the order and its items is in minor units of this currency
+  @Column({ type: 'char', length: 3, default: 'USD' })
+  currency: string;
+
+  // Units of `currency` per unit of the store currency (USD), locked when the
+  // order is created. Store-currency amounts such as shipping rates and fixed
+  // coupons are converted with it.
+  @Column('decimal', { precision: 18, scale: 8, default: 1 })
+  exchangeRate: number;
+
+  // Amount to pay: sum of the lines minus discountAmount, plus exclusive tax and shipping
+  @Column({ type: 'int' })
   totalAmount: number;
 
+  // All tax on the order, inclusive and exclusive
+  @Column({ type: 'int', default: 0 })
+  taxAmount: number;
+
+  @ManyToOne(() => Coupon, { nullable: true, onDelete: 'SET NULL' })
+  coupon: Coupon | null;
+
+  // Kept even if the coupon is deleted later
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  couponCode: string | null;
+
+  @Column({ type: 'int', default: 0 })
+  discountAmount: number;
+
+  @Column({ default: false })
+  freeShipping: boolean;
+
+  @ManyToOne(() => ShippingMethod, { nullable: true, onDelete: 'SET NULL' })
+  shippingMethod: ShippingMethod | null;
+
+  // Kept even if the method is renamed or deleted later
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  shippingMethodName: string | null;
+
+  @Column({ type: 'int', default: 0 })
+  shippingAmount: number;
+
+  // Set when a Stripe checkout session is created; line items are frozen after that.
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  checkoutSessionId: string | null;
+
+  @Index()
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  paymentIntentId: string | null;
+
+  // Cumulative amount refunded through Stripe, in cents
+  @Column({ type: 'int', default: 0 })
+  amountRefundedCents: number;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  lastPaymentError: string | null;
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  disputeStatus: string | null;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  disputeReason: string | null;
+
+  @Index()
   @Column({
     type: 'enum',
-    enum: ['PENDING', 'COMPLETED', 'CANCELED'],
+    enum: ORDER_STATUSES,
     default: 'PENDING',
   })
-  status: string;
+  status: OrderStatus;
+
+  @OneToMany(() => OrderStatusHistory, (entry) => entry.order)
+  statusHistory: OrderStatusHistory[];
 
+  @Index()
   @CreateDateColumn({ type: 'timestamp' })
   createdAt: Date;
 
@@ -7,13 +7,18 @@ import {
 } from 'typeorm';
 import { Order } from './Order';
 import { Product } from './Product';
+import { ProductVariant } from './ProductVariant';
 
 @Entity()
 export class OrderItem {
   @PrimaryGeneratedColumn()
   id: number;
 
-  @ManyToOne(() => Order, (order) => order.items, { onDelete: 'CASCADE' })
+  // Lines dropped from `order.items` when editing a pending order are deleted on save
+  @ManyToOne(() => Order, (order) => order.items, {
+    onDelete: 'CASCADE',
+    orphanedRowAction: 'delete',
+  })
   @JoinColumn({ name: 'orderId' })
   order: Order;
 
@@ -21,9 +26,41 @@ export class OrderItem {
   @JoinColumn({ name: 'productId' })
   product: Product;
 
+  // The variant ordered, for products that have them
+  @ManyToOne(() => ProductVariant, {
+    eager: true,
+    nullable: true,
+    onDelete: 'SET NULL',
+  })
+  @JoinColumn({ name: 'variantId' })
+  variant: ProductVariant | null;
+
+  // Kept in case the variant is deleted later
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  sku: string | null;
+
   @Column({ type: 'int' })
   quantity: number;
 
-  @Column('decimal', { precision: 12, scale: 2 })
+  // Amounts are in minor units of `currency`, which is always the order's currency
+  @Column({ type: 'int' })
   unitPrice: number;
+
+  @Column({ type: 'char', length: 3, default: 'USD' })
+  currency: string;
+
+  // This line's share of the order's coupon discount (for the whole line, not per unit)
+  @Column({ type: 'int', default: 0 })
+  discountAmount: number;
+
+  // Tax for the whole line after the discount, at the rate (percent) that applied when ordering
+  @Column('decimal', { precision: 6, scale: 3, default: 0 })
+  taxRate: number;
+
+  @Column({ type: 'int', default: 0 })
+  taxAmount: number;
+
+  // True when taxAmount is already part of the price rather than added on top
+  @Column({ default: false })
+  taxInclusive: boolean;
 }
@@ -0,0 +1,50 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { Order } from './Order';
+import { ORDER_STATUSES, OrderStatus } from 'src/orders/order-status';
+
+export const ORDER_STATUS_ACTORS = [
+  'user',
+  'guest',
+  'admin',
+  'stripe-webhook',
+] as const;
+export type OrderStatusActor = (typeof ORDER_STATUS_ACTORS)[number];
+
+@Entity()
+export class OrderStatusHistory {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => Order, (order) => order.statusHistory, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'orderId' })
+  order: Order;
+
+  // null for the entry written when the order is created
+  @Column({ type: 'enum', enum: ORDER_STATUSES, nullable: true })
+  fromStatus: OrderStatus | null;
+
+  @Column({ type: 'enum', enum: ORDER_STATUSES })
+  toStatus: OrderStatus;
+
+  @Column({ type: 'enum', enum: ORDER_STATUS_ACTORS })
+  actor: OrderStatusActor;
+
+  // User or admin id; null for webhook-driven changes
+  @Column({ type: 'int', nullable: true })
+  actorId: number | null;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  reason: string | null;
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+}
@@ -0,0 +1,57 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+
+export const WEBHOOK_EVENT_STATUSES = [
+  'PROCESSING',
+  'PROCESSED',
+  'FAILED',
+] as const;
+export type WebhookEventStatus = (typeof WEBHOOK_EVENT_STATUSES)[number];
+
+@Entity()
+@Index(['provider', 'eventId'], { unique: true })
+export class ProcessedWebhookEvent {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'varchar', length: 30, default: 'stripe' })
+  provider: string;
+
+  // Provider's own event id (e.g. Stripe `evt_...`)
+  @Column({ type: 'varchar', length: 255 })
+  eventId: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  type: string;
+
+  @Column({ type: 'enum', enum: WEBHOOK_EVENT_STATUSES, default: 'PROCESSING' })
+  status: WebhookEventStatus;
+
+  @Column({ type: 'int', default: 1 })
+  attempts: number;
+
+  // Verified event body, kept so failed events can be replayed without the provider
+  @Column({ type: 'longtext' })
+  payload: string;
+
+  @Column({ type: 'json', nullable: true })
+  result: Record<string, any> | null;
+
+  @Column({ type: 'text', nullable: true })
+  error: string | null;
+
+  @CreateDateColumn({ type: 'timestamp' })
+  receivedAt: Date;
+
+  // When the current attempt started; a PROCESSING event left here too long is reclaimable
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  claimedAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  processedAt: Date | null;
+}
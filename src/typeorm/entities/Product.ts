@@ -1,6 +1,8 @@
 import {
   Column,
+  CreateDateColumn,
   Entity,
+  Index,
   ManyToOne,
   OneToMany,
   PrimaryGeneratedColumn,
@@ -8,8 +10,15 @@ import {
 import { Order } from './Order';
 import { Category } from './Category';
 import { OrderItem } from './OrderItem';
+import { ProductPrice } from './ProductPrice';
+import { ProductOption } from './ProductOption';
+import { ProductVariant } from './ProductVariant';
+import { ProductImage } from './ProductImage';
 
+// MATCH needs an index on exactly its columns: name alone is used to weigh name matches higher
 @Entity()
+@Index(['name'], { fulltext: true })
+@Index(['name', 'description'], { fulltext: true })
 export class Product {
   @PrimaryGeneratedColumn()
   id: number;
@@ -17,20 +26,63 @@ export class Product {
   @Column({ nullable: false })
   name: string;
 
+  // Optional; products sold in variants also have one per variant
+  @Column({ type: 'varchar', length: 64, nullable: true, unique: true })
+  sku: string | null;
+
   @Column({ nullable: false })
   description: string;
 
-  @Column({ nullable: false })
+  // In minor units of `currency` (cents, or yen for JPY)
+  @Column({ type: 'int', nullable: false })
   price: number;
 
+  @Column({ type: 'char', length: 3, default: 'USD' })
+  currency: string;
+
+  // The first gallery image once there is one
   @Column({ nullable: true })
   imageUrl: string;
 
+  // Products with variants keep their stock on the variants instead
+  @Column({ type: 'int', default: 0 })
+  stock: number;
+
+  // Units held by PENDING orders. Available stock is `stock - reservedStock`.
+  @Column({ type: 'int', default: 0 })
+  reservedStock: number;
+
+  // Picks the TaxRate to use, e.g. "standard", "reduced", "zero"
+  @Column({ type: 'varchar', length: 50, default: 'standard' })
+  taxClass: string;
+
+  // Used by weight-based shipping methods
+  @Column({ type: 'int', default: 0 })
+  weightGrams: number;
+
   @OneToMany(() => OrderItem, (item) => item.product)
   orderItems: OrderItem[];
 
+  @OneToMany(() => ProductPrice, (price) => price.product)
+  prices: ProductPrice[];
+
+  @OneToMany(() => ProductOption, (option) => option.product)
+  options: ProductOption[];
+
+  @OneToMany(() => ProductVariant, (variant) => variant.product)
+  variants: ProductVariant[];
+
+  @OneToMany(() => ProductImage, (image) => image.product)
+  images: ProductImage[];
+
   @ManyToOne(() => Category, (Category) => Category.products, {
     nullable: false,
   })
   category: Category;
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+
+  // Not stored: set on responses to the category and its parents, top-level first
+  breadcrumbs?: { id: number; name: string }[];
 }
@@ -0,0 +1,57 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { Product } from './Product';
+
+// One picture of a product's gallery, stored through the FileStorage
+@Entity()
+export class ProductImage {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => Product, (product) => product.images, {
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  product: Product;
+
+  // Storage keys, needed to delete the files again
+  @Column({ type: 'varchar', length: 255 })
+  key: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  thumbnailKey: string;
+
+  @Column({ type: 'varchar', length: 500 })
+  url: string;
+
+  @Column({ type: 'varchar', length: 500 })
+  thumbnailUrl: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  altText: string | null;
+
+  // Gallery order, starting at 0; the first image is the product's imageUrl
+  @Column({ type: 'int', default: 0 })
+  position: number;
+
+  @Column({ type: 'varchar', length: 50 })
+  contentType: string;
+
+  // In bytes
+  @Column({ type: 'int' })
+  size: number;
+
+  @Column({ type: 'int' })
+  width: number;
+
+  @Column({ type: 'int' })
+  height: number;
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+}
@@ -0,0 +1,28 @@
+import {
+  Column,
+  Entity,
+  Index,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { Product } from './Product';
+
+// An axis a product varies on, e.g. "Size" with the values S, M and L
+@Entity()
+@Index(['product', 'name'], { unique: true })
+export class ProductOption {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => Product, (product) => product.options, {
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  product: Product;
+
+  @Column({ type: 'varchar', length: 50 })
+  name: string;
+
+  @Column('simple-array')
+  values: string[];
+}
@@ -0,0 +1,30 @@
+import {
+  Column,
+  Entity,
+  Index,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { Product } from './Product';
+
+// A fixed price for a product in one currency, used instead of converting
+// Product.price at the exchange rate
+@Entity()
+@Index(['product', 'currency'], { unique: true })
+export class ProductPrice {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => Product, (product) => product.prices, {
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  product: Product;
+
+  @Column({ type: 'char', length: 3 })
+  currency: string;
+
+  // In minor units of `currency`
+  @Column({ type: 'int' })
+  price: number;
+}
@@ -0,0 +1,53 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { Product } from './Product';
+
+// One buyable combination of a product's options, with its own SKU and stock
+@Entity()
+export class ProductVariant {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => Product, (product) => product.variants, {
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  product: Product;
+
+  @Column({ type: 'varchar', length: 64, unique: true })
+  sku: string;
+
+  // A value for every option of the product, e.g. { "Size": "M", "Color": "Red" }
+  @Column({ type: 'json' })
+  options: Record<string, string>;
+
+  // Minor units of the product's currency; null means the product price
+  @Column({ type: 'int', nullable: true })
+  price: number | null;
+
+  @Column({ type: 'int', default: 0 })
+  stock: number;
+
+  // Units held by PENDING orders, like Product.reservedStock
+  @Column({ type: 'int', default: 0 })
+  reservedStock: number;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  imageUrl: string | null;
+
+  // Inactive variants stay on past orders but can't be ordered
+  @Column({ default: true })
+  isActive: boolean;
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamp' })
+  updatedAt: Date;
+}
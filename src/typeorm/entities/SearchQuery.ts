@@ -0,0 +1,28 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+// A search text that found products, counted to suggest popular searches
+@Entity()
+export class SearchQuery {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  // Trimmed, lowercased and with single spaces
+  @Column({ type: 'varchar', length: 100, unique: true })
+  query: string;
+
+  @Column({ type: 'int', default: 1 })
+  count: number;
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+
+  // Last time it was searched
+  @UpdateDateColumn({ type: 'timestamp' })
+  updatedAt: Date;
+}
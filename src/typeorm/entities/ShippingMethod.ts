@@ -0,0 +1,57 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { ShippingZone } from './ShippingZone';
+
+export const SHIPPING_METHOD_TYPES = [
+  'FLAT_RATE',
+  'WEIGHT_BASED',
+  'FREE_OVER_THRESHOLD',
+] as const;
+export type ShippingMethodType = (typeof SHIPPING_METHOD_TYPES)[number];
+
+@Entity()
+export class ShippingMethod {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => ShippingZone, (zone) => zone.methods, {
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  zone: ShippingZone;
+
+  // Shown to the customer, e.g. "Standard (3-5 days)"
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  @Column({ type: 'enum', enum: SHIPPING_METHOD_TYPES })
+  type: ShippingMethodType;
+
+  // Amounts are in minor units of the store currency (USD), converted at the order's rate.
+  // FLAT_RATE: the price. WEIGHT_BASED: the base price. FREE_OVER_THRESHOLD: the price below the threshold
+  @Column({ type: 'int', default: 0 })
+  rate: number;
+
+  // WEIGHT_BASED only, charged for every started kilogram
+  @Column({ type: 'int', nullable: true })
+  ratePerKg: number | null;
+
+  // FREE_OVER_THRESHOLD only, compared with the order subtotal after discounts
+  @Column({ type: 'int', nullable: true })
+  freeOverAmount: number | null;
+
+  @Column({ default: true })
+  isActive: boolean;
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamp' })
+  updatedAt: Date;
+}
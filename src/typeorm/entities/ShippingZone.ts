@@ -0,0 +1,32 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  OneToMany,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { ShippingMethod } from './ShippingMethod';
+
+// A group of countries that share the same shipping methods
+@Entity()
+export class ShippingZone {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'varchar', length: 100, unique: true })
+  name: string;
+
+  // ISO 3166-1 alpha-2 codes, uppercase
+  @Column('simple-array')
+  countries: string[];
+
+  @OneToMany(() => ShippingMethod, (method) => method.zone)
+  methods: ShippingMethod[];
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamp' })
+  updatedAt: Date;
+}
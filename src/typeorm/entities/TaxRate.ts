@@ -0,0 +1,47 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+// A rate for one product tax class in a country, or in one region of it.
+// A region-specific rate wins over the country-wide one (region null).
+@Entity()
+@Index(['country', 'region', 'taxClass'], { unique: true })
+export class TaxRate {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  // Shown to the customer, e.g. "VAT" or "CA sales tax"
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  // ISO 3166-1 alpha-2
+  @Column({ type: 'varchar', length: 2 })
+  country: string;
+
+  // Matched against the shipping address region, case-insensitive
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  region: string | null;
+
+  @Column({ type: 'varchar', length: 50, default: 'standard' })
+  taxClass: string;
+
+  // Percent, e.g. 20 for 20%
+  @Column('decimal', { precision: 6, scale: 3 })
+  rate: number;
+
+  // Inclusive: product prices already contain the tax (it is only reported).
+  // Exclusive: the tax is added on top of the price.
+  @Column({ default: false })
+  inclusive: boolean;
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamp' })
+  updatedAt: Date;
+}
@@ -7,6 +7,7 @@ import {
   UpdateDateColumn,
 } from 'typeorm';
 import { Order } from './Order';
+import { Address } from './Address';
 
 @Entity()
 export class User {
@@ -40,6 +41,9 @@ export class User {
   @OneToMany(() => Order, (order) => order.user)
   orders: Order[];
 
+  @OneToMany(() => Address, (address) => address.user)
+  addresses: Address[];
+
   @CreateDateColumn({ type: 'timestamp' })
   createdAt: Date;
 
@@ -1,5 +1,6 @@
 import {
   IsEmail,
+  IsISO4217CurrencyCode,
   IsOptional,
   IsString,
   IsStrongPassword,
@@ -21,7 +22,9 @@ export class UpdateUserDto {
   phone?: string;
 
   @IsOptional()
-  @IsString()
+  @IsISO4217CurrencyCode({
+    message: 'Currency must be a three-letter ISO code',
+  })
   preferredCurrency?: string;
 
   @IsOptional()
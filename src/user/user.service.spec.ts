@@ -7,6 +7,8 @@ import { HttpException, HttpStatus } from '@nestjs/common';
 import * as creatingPassword from 'utils/creatingPassword';
 import * as nodemailer from 'nodemailer';
 import * as nodeCrypto from 'crypto';
+import { OrdersService } from 'src/orders/orders.service';
+import { MailService } from 'src/mail/mail.service';
 
 jest.mock('utils/creatingPassword', () => ({
   comparePassword: jest.fn(),
@@ -31,6 +33,9 @@ describe('UserService', () => {
     update: jest.Mock;
     delete: jest.Mock;
   };
+  const mockOrdersService = {
+    claimGuestOrders: jest.fn(),
+  };
 
   beforeEach(async () => {
     mockRepository = {
@@ -54,6 +59,11 @@ describe('UserService', () => {
           provide: getRepositoryToken(User),
           useValue: mockRepository,
         },
+        {
+          provide: OrdersService,
+          useValue: mockOrdersService,
+        },
+        MailService,
       ],
     }).compile();
 
@@ -613,15 +623,18 @@ describe('UserService', () => {
 
       mockRepository.findOne.mockResolvedValue({
         id: 5,
+        email: 'guest@test.com',
         verifyToken: tokenHash,
         verifyTokenExpiry: new Date(Date.now() + 60_000),
       });
 
       mockRepository.update.mockResolvedValue({ affected: 1 });
+      mockOrdersService.claimGuestOrders.mockResolvedValue(2);
 
       const result = await service.verifyEmail(token);
 
-      expect(result).toEqual({ message: 'Email verified' });
+      expect(result).toEqual({ message: 'Email verified', claimedOrders: 2 });
+      expect(mockOrdersService.claimGuestOrders).toHaveBeenCalledWith(5, 'guest@test.com');
       expect(mockRepository.findOne).toHaveBeenCalledWith({
         where: { verifyToken: tokenHash },
       });
@@ -631,6 +644,24 @@ describe('UserService', () => {
         verifyTokenExpiry: null,
       });
     });
+
+    it('should still verify the email when claiming guest orders fails', async () => {
+      const token = 'ok-token';
+      const tokenHash = nodeCrypto.createHash('sha256').update(token).digest('hex');
+
+      mockRepository.findOne.mockResolvedValue({
+        id: 5,
+        email: 'guest@test.com',
+        verifyToken: tokenHash,
+        verifyTokenExpiry: new Date(Date.now() + 60_000),
+      });
+      mockOrdersService.claimGuestOrders.mockRejectedValue(new Error('db down'));
+      jest.spyOn((service as any).logger, 'error').mockImplementation();
+
+      const result = await service.verifyEmail(token);
+
+      expect(result).toEqual({ message: 'Email verified', claimedOrders: 0 });
+    });
   });
 
   describe('confirmResetPassword', () => {
@@ -4,10 +4,10 @@ import { User } from 'src/typeorm/entities/User';
 import { Repository } from 'typeorm';
 import { comparePassword, hashPassword } from 'utils/creatingPassword';
 import { ICreateUser, IUpdateUser } from 'utils/Interfaces';
-import * as nodemailer from 'nodemailer';
-import { MailtrapTransport } from 'mailtrap';
 import * as crypto from 'crypto';
 import { sha256Hex } from 'utils/hashingTokens';
+import { OrdersService } from 'src/orders/orders.service';
+import { MailService } from 'src/mail/mail.service';
 
 @Injectable()
 export class UserService {
@@ -15,6 +15,8 @@ export class UserService {
 
   constructor(
     @InjectRepository(User) private usersRepository: Repository<User>,
+    private ordersService: OrdersService,
+    private mailService: MailService,
   ) {}
 
   async getAllUsers() {
@@ -288,25 +290,6 @@ export class UserService {
         });
       }
 
-      const token = process.env.MAILTRAP_TOKEN;
-      const testInboxIdRaw = process.env.MAILTRAP_TEST_INBOX_ID;
-
-      if (!token) throw new Error('MAILTRAP_TOKEN is not set');
-      if (!testInboxIdRaw) throw new Error('MAILTRAP_TEST_INBOX_ID is not set');
-
-      const testInboxId = Number(testInboxIdRaw);
-      if (!Number.isFinite(testInboxId)) {
-        throw new Error('MAILTRAP_TEST_INBOX_ID must be a number');
-      }
-      
-      const transport = nodemailer.createTransport(
-        MailtrapTransport({
-          token,
-          sandbox: true,
-          testInboxId,
-        }),
-      );
-
       const webBase =
         process.env.NEXT_PUBLIC_BASE_URL?.trim() || 'http://localhost:3000';
 
@@ -319,19 +302,14 @@ export class UserService {
       this.touchCooldown(cooldownKey);
 
       // Send email
-      await transport.sendMail({
-        from: {
-          address: process.env.MAIL_FROM_ADDRESS ?? 'hello@example.com',
-          name: process.env.MAIL_FROM_NAME ?? 'Mailtrap Test',
-        },
-        to: [normalizedEmail],
+      await this.mailService.send({
+        to: normalizedEmail,
         subject:
           normalizedType === 'VERIFY' ? 'Verify your email' : 'Reset your password',
         text:
           normalizedType === 'VERIFY'
             ? `Verify your email: ${confirmUrl}`
             : `Reset your password: ${confirmUrl}`,
-        category: 'Integration Test',
       });
 
       return generic;
@@ -365,7 +343,15 @@ export class UserService {
       verifyTokenExpiry: null,
     });
 
-    return { message: 'Email verified' };
+    // The address is now proven, so guest orders placed with it move into the account
+    let claimedOrders = 0;
+    try {
+      claimedOrders = await this.ordersService.claimGuestOrders(user.id, user.email);
+    } catch (error) {
+      this.logger.error('Failed to claim guest orders', (error as any)?.stack ?? String(error));
+    }
+
+    return { message: 'Email verified', claimedOrders };
   }
 
   async confirmResetPassword(token: string, newPassword: string){
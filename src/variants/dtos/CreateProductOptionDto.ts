@@ -0,0 +1,17 @@
+import { ArrayNotEmpty, IsArray, Matches } from 'class-validator';
+
+export class CreateProductOptionDto {
+  @Matches(/^[A-Za-z0-9 _-]{1,50}$/, {
+    message:
+      'Option name must be 1-50 letters, digits, spaces, dashes or underscores',
+  })
+  name: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @Matches(/^[^,]{1,50}$/, {
+    each: true,
+    message: 'Option values must be 1-50 characters without commas',
+  })
+  values: string[];
+}
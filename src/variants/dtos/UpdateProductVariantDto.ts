@@ -0,0 +1,41 @@
+import {
+  IsBoolean,
+  IsInt,
+  IsObject,
+  IsOptional,
+  IsUrl,
+  Matches,
+  Min,
+} from 'class-validator';
+
+export class UpdateProductVariantDto {
+  @IsOptional()
+  @Matches(/^[A-Za-z0-9._-]{1,64}$/, {
+    message: 'SKU must be 1-64 letters, digits, dots, dashes or underscores',
+  })
+  sku?: string;
+
+  @IsOptional()
+  @IsObject()
+  options?: Record<string, string>;
+
+  @IsOptional()
+  @IsInt({
+    message: 'Price must be a whole number of minor units (e.g. cents)',
+  })
+  @Min(0)
+  price?: number | null;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  stock?: number;
+
+  @IsOptional()
+  @IsUrl()
+  imageUrl?: string | null;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -0,0 +1,76 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { VariantsController } from './variants.controller';
+import { VariantsService } from './variants.service';
+
+describe('VariantsController', () => {
+  let controller: VariantsController;
+
+  const mockVariantsService = {
+    getOptions: jest.fn(),
+    createOption: jest.fn(),
+    updateOption: jest.fn(),
+    deleteOption: jest.fn(),
+    getVariants: jest.fn(),
+    createVariant: jest.fn(),
+    updateVariant: jest.fn(),
+    deleteVariant: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [VariantsController],
+      providers: [{ provide: VariantsService, useValue: mockVariantsService }],
+    }).compile();
+
+    controller = module.get<VariantsController>(VariantsController);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should show inactive variants to admins only', async () => {
+    await controller.getVariants({ user: { role: 'admin' } } as any, 1, 'EUR');
+    await controller.getVariants({} as any, 1);
+
+    expect(mockVariantsService.getVariants).toHaveBeenNthCalledWith(
+      1,
+      1,
+      'EUR',
+      true,
+    );
+    expect(mockVariantsService.getVariants).toHaveBeenNthCalledWith(
+      2,
+      1,
+      undefined,
+      false,
+    );
+  });
+
+  it('should pass option and variant changes to the service', async () => {
+    const option = { name: 'Size', values: ['S', 'M'] };
+    const variant = { sku: 'SHIRT-S', options: { Size: 'S' }, stock: 3 };
+
+    await controller.createOption(1, option);
+    await controller.updateOption(1, 2, { values: ['S'] });
+    await controller.deleteOption(1, 2);
+    await controller.createVariant(1, variant);
+    await controller.updateVariant(1, 10, { stock: 5 });
+    await controller.deleteVariant(1, 10);
+
+    expect(mockVariantsService.createOption).toHaveBeenCalledWith(1, option);
+    expect(mockVariantsService.updateOption).toHaveBeenCalledWith(1, 2, {
+      values: ['S'],
+    });
+    expect(mockVariantsService.deleteOption).toHaveBeenCalledWith(1, 2);
+    expect(mockVariantsService.createVariant).toHaveBeenCalledWith(1, variant);
+    expect(mockVariantsService.updateVariant).toHaveBeenCalledWith(1, 10, {
+      stock: 5,
+    });
+    expect(mockVariantsService.deleteVariant).toHaveBeenCalledWith(1, 10);
+  });
+});
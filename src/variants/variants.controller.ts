@@ -0,0 +1,119 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  ParseIntPipe,
+  Post,
+  Put,
+  Query,
+  Req,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { Request } from 'express';
+import { Public } from 'utils/publicDecorator';
+import { Roles } from 'utils/rolesDecorator';
+import { OptionalAuth } from 'utils/optionalAuthDecorator';
+import { VariantsService } from './variants.service';
+import { CreateProductOptionDto } from './dtos/CreateProductOptionDto';
+import { UpdateProductOptionDto } from './dtos/UpdateProductOptionDto';
+import { CreateProductVariantDto } from './dtos/CreateProductVariantDto';
+import { UpdateProductVariantDto } from './dtos/UpdateProductVariantDto';
+
+@ApiTags('variants')
+@Controller('products/:productId')
+export class VariantsController {
+  constructor(private variantsService: VariantsService) {}
+
+  @Public()
+  @Get('options')
+  getOptions(@Param('productId', ParseIntPipe) productId: number) {
+    return this.variantsService.getOptions(productId);
+  }
+
+  @Roles('admin')
+  @Post('options')
+  @HttpCode(201)
+  createOption(
+    @Param('productId', ParseIntPipe) productId: number,
+    @Body() createProductOptionDto: CreateProductOptionDto,
+  ) {
+    return this.variantsService.createOption(productId, createProductOptionDto);
+  }
+
+  @Roles('admin')
+  @Put('options/:optionId')
+  updateOption(
+    @Param('productId', ParseIntPipe) productId: number,
+    @Param('optionId', ParseIntPipe) optionId: number,
+    @Body() updateProductOptionDto: UpdateProductOptionDto,
+  ) {
+    return this.variantsService.updateOption(
+      productId,
+      optionId,
+      updateProductOptionDto,
+    );
+  }
+
+  @Roles('admin')
+  @Delete('options/:optionId')
+  deleteOption(
+    @Param('productId', ParseIntPipe) productId: number,
+    @Param('optionId', ParseIntPipe) optionId: number,
+  ) {
+    return this.variantsService.deleteOption(productId, optionId);
+  }
+
+  // Admins also see inactive variants
+  @OptionalAuth()
+  @Get('variants')
+  getVariants(
+    @Req() req: Request & { user?: any },
+    @Param('productId', ParseIntPipe) productId: number,
+    @Query('currency') currency?: string,
+  ) {
+    return this.variantsService.getVariants(
+      productId,
+      currency,
+      req.user?.role === 'admin',
+    );
+  }
+
+  @Roles('admin')
+  @Post('variants')
+  @HttpCode(201)
+  createVariant(
+    @Param('productId', ParseIntPipe) productId: number,
+    @Body() createProductVariantDto: CreateProductVariantDto,
+  ) {
+    return this.variantsService.createVariant(
+      productId,
+      createProductVariantDto,
+    );
+  }
+
+  @Roles('admin')
+  @Put('variants/:variantId')
+  updateVariant(
+    @Param('productId', ParseIntPipe) productId: number,
+    @Param('variantId', ParseIntPipe) variantId: number,
+    @Body() updateProductVariantDto: UpdateProductVariantDto,
+  ) {
+    return this.variantsService.updateVariant(
+      productId,
+      variantId,
+      updateProductVariantDto,
+    );
+  }
+
+  @Roles('admin')
+  @Delete('variants/:variantId')
+  deleteVariant(
+    @Param('productId', ParseIntPipe) productId: number,
+    @Param('variantId', ParseIntPipe) variantId: number,
+  ) {
+    return this.variantsService.deleteVariant(productId, variantId);
+  }
+}
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Product } from 'src/typeorm/entities/Product';
+import { ProductOption } from 'src/typeorm/entities/ProductOption';
+import { ProductVariant } from 'src/typeorm/entities/ProductVariant';
+import { CurrencyModule } from 'src/currency/currency.module';
+import { VariantsController } from './variants.controller';
+import { VariantsService } from './variants.service';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Product, ProductOption, ProductVariant]),
+    CurrencyModule,
+  ],
+  controllers: [VariantsController],
+  providers: [VariantsService],
+  exports: [VariantsService],
+})
+export class VariantsModule {}
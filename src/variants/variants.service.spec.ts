@@ -0,0 +1,332 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { VariantsService } from './variants.service';
+import { Product } from 'src/typeorm/entities/Product';
+import { ProductOption } from 'src/typeorm/entities/ProductOption';
+import { ProductVariant } from 'src/typeorm/entities/ProductVariant';
+import { CurrencyService } from 'src/currency/currency.service';
+
+describe('VariantsService', () => {
+  let service: VariantsService;
+
+  const mockTransactionRepository = {
+    save: jest.fn(),
+  };
+
+  const mockEntityManager = {
+    getRepository: jest.fn(() => mockTransactionRepository),
+  };
+
+  const mockProductRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockOptionRepository = {
+    create: jest.fn((option) => ({ ...option })),
+    save: jest.fn((option) => ({ id: 3, ...option })),
+    remove: jest.fn(),
+    manager: {
+      transaction: jest.fn((cb) => cb(mockEntityManager)),
+    },
+  };
+
+  const mockQueryBuilder = {
+    select: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    getRawMany: jest.fn(),
+  };
+
+  const mockVariantRepository = {
+    findOne: jest.fn(),
+    create: jest.fn((variant) => ({ ...variant })),
+    save: jest.fn((variant) => ({ id: 20, ...variant })),
+    remove: jest.fn(),
+    createQueryBuilder: jest.fn(() => mockQueryBuilder),
+  };
+
+  const mockCurrencyService = {
+    priceVariants: jest.fn(),
+  };
+
+  const shirt = () =>
+    ({
+      id: 1,
+      name: 'Shirt',
+      price: 1999,
+      currency: 'USD',
+      imageUrl: 'https://example.com/shirt.png',
+      options: [
+        { id: 1, name: 'Size', values: ['S', 'M'] },
+        { id: 2, name: 'Color', values: ['Red', 'Blue'] },
+      ],
+      variants: [
+        {
+          id: 10,
+          sku: 'SHIRT-S-RED',
+          options: { Size: 'S', Color: 'Red' },
+          price: null,
+          stock: 5,
+          reservedStock: 2,
+          imageUrl: null,
+          isActive: true,
+        },
+        {
+          id: 11,
+          sku: 'SHIRT-M-BLUE',
+          options: { Size: 'M', Color: 'Blue' },
+          price: 2499,
+          stock: 0,
+          reservedStock: 0,
+          imageUrl: null,
+          isActive: false,
+        },
+      ],
+    }) as unknown as Product;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        VariantsService,
+        {
+          provide: getRepositoryToken(Product),
+          useValue: mockProductRepository,
+        },
+        {
+          provide: getRepositoryToken(ProductOption),
+          useValue: mockOptionRepository,
+        },
+        {
+          provide: getRepositoryToken(ProductVariant),
+          useValue: mockVariantRepository,
+        },
+        { provide: CurrencyService, useValue: mockCurrencyService },
+      ],
+    }).compile();
+
+    service = module.get<VariantsService>(VariantsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('options', () => {
+    it('should throw NOT_FOUND for an unknown product', async () => {
+      mockProductRepository.findOne.mockResolvedValueOnce(null);
+
+      await expect(service.getOptions(99)).rejects.toThrow(
+        new HttpException('Product not found', HttpStatus.NOT_FOUND),
+      );
+    });
+
+    it('should not add an option once the product has variants', async () => {
+      mockProductRepository.findOne.mockResolvedValueOnce(shirt());
+
+      await expect(
+        service.createOption(1, { name: 'Fit', values: ['Slim'] }),
+      ).rejects.toMatchObject({ status: HttpStatus.CONFLICT });
+      expect(mockOptionRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should rename the option on every variant', async () => {
+      mockProductRepository.findOne.mockResolvedValueOnce(shirt());
+
+      const result = await service.updateOption(1, 2, { name: 'Colour' });
+
+      expect(result.option).toEqual({
+        id: 2,
+        name: 'Colour',
+        values: ['Red', 'Blue'],
+      });
+      expect(mockTransactionRepository.save).toHaveBeenCalledWith([
+        expect.objectContaining({ options: { Size: 'S', Colour: 'Red' } }),
+        expect.objectContaining({ options: { Size: 'M', Colour: 'Blue' } }),
+      ]);
+    });
+
+    it('should keep values that variants still use', async () => {
+      mockProductRepository.findOne.mockResolvedValueOnce(shirt());
+
+      await expect(
+        service.updateOption(1, 1, { values: ['M', 'L'] }),
+      ).rejects.toThrow(
+        new HttpException(
+          'Value "S" is used by variant SHIRT-S-RED',
+          HttpStatus.CONFLICT,
+        ),
+      );
+    });
+  });
+
+  describe('getVariants', () => {
+    it('should list active variants with their price and available stock', async () => {
+      mockProductRepository.findOne.mockResolvedValueOnce(shirt());
+      mockCurrencyService.priceVariants.mockResolvedValueOnce(
+        new Map([[10, 1999]]),
+      );
+
+      const result = await service.getVariants(1);
+
+      expect(result.variants).toEqual([
+        {
+          id: 10,
+          sku: 'SHIRT-S-RED',
+          options: { Size: 'S', Color: 'Red' },
+          price: 1999,
+          currency: 'USD',
+          available: 3,
+          imageUrl: 'https://example.com/shirt.png',
+          isActive: true,
+        },
+      ]);
+    });
+
+    it('should include inactive variants for admins', async () => {
+      mockProductRepository.findOne.mockResolvedValueOnce(shirt());
+      mockCurrencyService.priceVariants.mockResolvedValueOnce(new Map());
+
+      const result = await service.getVariants(1, 'eur', true);
+
+      expect(result.variants.map((variant) => variant.id)).toEqual([10, 11]);
+      expect(mockCurrencyService.priceVariants).toHaveBeenCalledWith(
+        expect.any(Array),
+        'EUR',
+      );
+    });
+  });
+
+  describe('createVariant', () => {
+    it('should save a variant with a value for every option', async () => {
+      mockProductRepository.findOne.mockResolvedValueOnce(shirt());
+      mockVariantRepository.findOne.mockResolvedValueOnce(null);
+
+      const result = await service.createVariant(1, {
+        sku: 'SHIRT-M-RED',
+        options: { Color: 'Red', Size: 'M' },
+        stock: 4,
+      });
+
+      expect(result.variant).toMatchObject({ id: 20, sku: 'SHIRT-M-RED' });
+    });
+
+    it('should reject a missing option value', async () => {
+      mockProductRepository.findOne.mockResolvedValueOnce(shirt());
+
+      await expect(
+        service.createVariant(1, {
+          sku: 'SHIRT-M',
+          options: { Size: 'M' },
+          stock: 1,
+        }),
+      ).rejects.toThrow(
+        new HttpException(
+          'Missing value for option "Color"',
+          HttpStatus.BAD_REQUEST,
+        ),
+      );
+    });
+
+    it('should reject a value the option does not have', async () => {
+      mockProductRepository.findOne.mockResolvedValueOnce(shirt());
+
+      await expect(
+        service.createVariant(1, {
+          sku: 'SHIRT-XL-RED',
+          options: { Size: 'XL', Color: 'Red' },
+          stock: 1,
+        }),
+      ).rejects.toThrow(
+        new HttpException(
+          '"XL" is not a value of option "Size"',
+          HttpStatus.BAD_REQUEST,
+        ),
+      );
+    });
+
+    it('should throw CONFLICT for a combination that already exists', async () => {
+      mockProductRepository.findOne.mockResolvedValueOnce(shirt());
+
+      await expect(
+        service.createVariant(1, {
+          sku: 'SHIRT-S-RED-2',
+          options: { Color: 'Red', Size: 'S' },
+          stock: 1,
+        }),
+      ).rejects.toThrow(
+        new HttpException(
+          'A variant with these options already exists',
+          HttpStatus.CONFLICT,
+        ),
+      );
+    });
+
+    it('should throw CONFLICT for a SKU in use', async () => {
+      mockProductRepository.findOne.mockResolvedValueOnce(shirt());
+      mockVariantRepository.findOne.mockResolvedValueOnce({ id: 30 });
+
+      await expect(
+        service.createVariant(1, {
+          sku: 'TAKEN',
+          options: { Color: 'Blue', Size: 'S' },
+          stock: 1,
+        }),
+      ).rejects.toThrow(
+        new HttpException(
+          'A variant with this SKU already exists',
+          HttpStatus.CONFLICT,
+        ),
+      );
+    });
+  });
+
+  describe('deleteVariant', () => {
+    it('should not delete a variant held by pending orders', async () => {
+      mockProductRepository.findOne.mockResolvedValueOnce(shirt());
+
+      await expect(service.deleteVariant(1, 10)).rejects.toMatchObject({
+        status: HttpStatus.CONFLICT,
+      });
+      expect(mockVariantRepository.remove).not.toHaveBeenCalled();
+    });
+
+    it('should delete an unreserved variant', async () => {
+      mockProductRepository.findOne.mockResolvedValueOnce(shirt());
+
+      const result = await service.deleteVariant(1, 11);
+
+      expect(mockVariantRepository.remove).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 11 }),
+      );
+      expect(result.message).toBe('Product variant deleted successfully');
+    });
+  });
+
+  describe('productIdsWithOptions', () => {
+    it('should match every option against active variants', async () => {
+      mockQueryBuilder.getRawMany.mockResolvedValueOnce([
+        { productId: '1' },
+        { productId: '4' },
+      ]);
+
+      const ids = await service.productIdsWithOptions('Color:Red, Size:M');
+
+      expect(ids).toEqual([1, 4]);
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+        'JSON_UNQUOTE(JSON_EXTRACT(variant.options, :path1)) = :value1',
+        { path1: '$."Size"', value1: 'M' },
+      );
+    });
+
+    it('should reject a malformed filter', async () => {
+      await expect(service.productIdsWithOptions('Red')).rejects.toMatchObject({
+        status: HttpStatus.BAD_REQUEST,
+      });
+    });
+  });
+});
@@ -0,0 +1,387 @@
+import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Product } from 'src/typeorm/entities/Product';
+import { ProductOption } from 'src/typeorm/entities/ProductOption';
+import { ProductVariant } from 'src/typeorm/entities/ProductVariant';
+import { CurrencyService } from 'src/currency/currency.service';
+import { normalizeCurrency } from 'src/money/money';
+import {
+  ICreateProductOption,
+  ICreateProductVariant,
+  IUpdateProductOption,
+  IUpdateProductVariant,
+} from 'utils/Interfaces';
+
+const OPTION_NAME_PATTERN = /^[A-Za-z0-9 _-]{1,50}$/;
+
+@Injectable()
+export class VariantsService {
+  private readonly logger = new Logger(VariantsService.name);
+
+  constructor(
+    @InjectRepository(Product) private productRepository: Repository<Product>,
+    @InjectRepository(ProductOption)
+    private optionRepository: Repository<ProductOption>,
+    @InjectRepository(ProductVariant)
+    private variantRepository: Repository<ProductVariant>,
+    private currencyService: CurrencyService,
+  ) {}
+
+  private rethrow(error: unknown, action: string): never {
+    if (error instanceof HttpException) throw error;
+    this.logger.error(
+      `Failed to ${action}`,
+      (error as any)?.stack ?? String(error),
+    );
+    throw new HttpException(
+      `An error occurred while trying to ${action}`,
+      HttpStatus.INTERNAL_SERVER_ERROR,
+    );
+  }
+
+  private invalid(message: string): never {
+    throw new HttpException(message, HttpStatus.BAD_REQUEST);
+  }
+
+  private conflict(message: string): never {
+    throw new HttpException(message, HttpStatus.CONFLICT);
+  }
+
+  private async findProduct(productId: number) {
+    if (!productId || productId <= 0) {
+      this.invalid('Invalid product ID');
+    }
+    const product = await this.productRepository.findOne({
+      where: { id: productId },
+      relations: ['options', 'variants'],
+    });
+    if (!product) {
+      throw new HttpException('Product not found', HttpStatus.NOT_FOUND);
+    }
+    return product;
+  }
+
+  private findOption(product: Product, optionId: number) {
+    const option = product.options.find((o) => o.id === optionId);
+    if (!option) {
+      throw new HttpException('Product option not found', HttpStatus.NOT_FOUND);
+    }
+    return option;
+  }
+
+  private findVariant(product: Product, variantId: number) {
+    const variant = product.variants.find((v) => v.id === variantId);
+    if (!variant) {
+      throw new HttpException(
+        'Product variant not found',
+        HttpStatus.NOT_FOUND,
+      );
+    }
+    return variant;
+  }
+
+  private uniqueValues(values: string[]) {
+    return [...new Set(values.map((value) => value.trim()))];
+  }
+
+  // Order-independent key of a variant's option values
+  private comboKey(options: Record<string, string>) {
+    return JSON.stringify(
+      Object.entries(options).sort(([a], [b]) => a.localeCompare(b)),
+    );
+  }
+
+  // Every option of the product needs exactly one of its values
+  private assertOptions(product: Product, options: Record<string, string>) {
+    const names = product.options.map((option) => option.name);
+    if (names.length === 0) {
+      this.invalid('Add options to the product before adding variants');
+    }
+    const unknown = Object.keys(options).find((name) => !names.includes(name));
+    if (unknown) {
+      this.invalid(`Unknown option "${unknown}"`);
+    }
+    for (const option of product.options) {
+      const value = options[option.name];
+      if (value === undefined) {
+        this.invalid(`Missing value for option "${option.name}"`);
+      }
+      if (!option.values.includes(value)) {
+        this.invalid(`"${value}" is not a value of option "${option.name}"`);
+      }
+    }
+  }
+
+  private async assertSkuIsFree(sku: string, exceptId?: number) {
+    const existing = await this.variantRepository.findOne({ where: { sku } });
+    if (existing && existing.id !== exceptId) {
+      this.conflict('A variant with this SKU already exists');
+    }
+  }
+
+  private assertComboIsFree(product: Product, variant: ProductVariant) {
+    const key = this.comboKey(variant.options);
+    const taken = product.variants.some(
+      (other) =>
+        other.id !== variant.id && this.comboKey(other.options) === key,
+    );
+    if (taken) {
+      this.conflict('A variant with these options already exists');
+    }
+  }
+
+  async getOptions(productId: number) {
+    try {
+      const product = await this.findProduct(productId);
+      return {
+        message: 'Product options retrieved successfully',
+        options: product.options,
+      };
+    } catch (error) {
+      this.rethrow(error, 'retrieve the product options');
+    }
+  }
+
+  async createOption(productId: number, params: ICreateProductOption) {
+    try {
+      const product = await this.findProduct(productId);
+      // Existing variants would have no value for the new option
+      if (product.variants.length > 0) {
+        this.conflict('Options cannot be added once the product has variants');
+      }
+      const name = params.name.trim();
+      if (product.options.some((option) => option.name === name)) {
+        this.conflict('The product already has an option with this name');
+      }
+
+      const saved = await this.optionRepository.save(
+        this.optionRepository.create({
+          product,
+          name,
+          values: this.uniqueValues(params.values),
+        }),
+      );
+      return {
+        message: 'Product option created successfully',
+        option: { id: saved.id, name: saved.name, values: saved.values },
+      };
+    } catch (error) {
+      this.rethrow(error, 'create the product option');
+    }
+  }
+
+  /**
+   * Renames an option (the variants follow) or changes its values. Values
+   * still used by a variant can't be removed.
+   */
+  async updateOption(
+    productId: number,
+    optionId: number,
+    params: IUpdateProductOption,
+  ) {
+    try {
+      const product = await this.findProduct(productId);
+      const option = this.findOption(product, optionId);
+      const previousName = option.name;
+
+      if (params.values !== undefined) {
+        const values = this.uniqueValues(params.values);
+        const used = product.variants.find(
+          (variant) => !values.includes(variant.options[previousName]),
+        );
+        if (used) {
+          this.conflict(
+            `Value "${used.options[previousName]}" is used by variant ${used.sku}`,
+          );
+        }
+        option.values = values;
+      }
+
+      const renamed: ProductVariant[] = [];
+      if (params.name !== undefined && params.name.trim() !== previousName) {
+        const name = params.name.trim();
+        if (product.options.some((other) => other.name === name)) {
+          this.conflict('The product already has an option with this name');
+        }
+        option.name = name;
+        for (const variant of product.variants) {
+          const { [previousName]: value, ...rest } = variant.options;
+          variant.options = { ...rest, [name]: value };
+          renamed.push(variant);
+        }
+      }
+
+      await this.optionRepository.manager.transaction(async (manager) => {
+        await manager.getRepository(ProductOption).save(option);
+        if (renamed.length > 0) {
+          await manager.getRepository(ProductVariant).save(renamed);
+        }
+      });
+      return {
+        message: 'Product option updated successfully',
+        option: { id: option.id, name: option.name, values: option.values },
+      };
+    } catch (error) {
+      this.rethrow(error, 'update the product option');
+    }
+  }
+
+  async deleteOption(productId: number, optionId: number) {
+    try {
+      const product = await this.findProduct(productId);
+      const option = this.findOption(product, optionId);
+      if (product.variants.length > 0) {
+        this.conflict(
+          'Options cannot be removed while the product has variants',
+        );
+      }
+      await this.optionRepository.remove(option);
+      return { message: 'Product option deleted successfully' };
+    } catch (error) {
+      this.rethrow(error, 'delete the product option');
+    }
+  }
+
+  /**
+   * Lists the variants with the price they sell at, in `currency` when given.
+   * Inactive variants are only listed for admins.
+   */
+  async getVariants(productId: number, currency?: string, isAdmin = false) {
+    try {
+      const product = await this.findProduct(productId);
+      const code = normalizeCurrency(currency ?? product.currency);
+      if (!/^[A-Z]{3}$/.test(code)) {
+        this.invalid('Currency must be a three-letter ISO code');
+      }
+
+      const variants = product.variants
+        .filter((variant) => isAdmin || variant.isActive)
+        .sort((a, b) => a.id - b.id);
+      variants.forEach((variant) => (variant.product = product));
+      const prices = await this.currencyService.priceVariants(variants, code);
+
+      return {
+        message: 'Product variants retrieved successfully',
+        variants: variants.map((variant) => ({
+          id: variant.id,
+          sku: variant.sku,
+          options: variant.options,
+          price: prices.get(variant.id),
+          currency: code,
+          available: Math.max(
+            0,
+            Number(variant.stock) - Number(variant.reservedStock),
+          ),
+          imageUrl: variant.imageUrl ?? product.imageUrl,
+          isActive: variant.isActive,
+        })),
+      };
+    } catch (error) {
+      this.rethrow(error, 'retrieve the product variants');
+    }
+  }
+
+  async createVariant(productId: number, params: ICreateProductVariant) {
+    try {
+      const product = await this.findProduct(productId);
+      const variant = this.variantRepository.create({ ...params, product });
+      this.assertOptions(product, variant.options);
+      this.assertComboIsFree(product, variant);
+      await this.assertSkuIsFree(variant.sku);
+
+      const saved = await this.variantRepository.save(variant);
+      delete saved.product;
+      return {
+        message: 'Product variant created successfully',
+        variant: saved,
+      };
+    } catch (error) {
+      this.rethrow(error, 'create the product variant');
+    }
+  }
+
+  async updateVariant(
+    productId: number,
+    variantId: number,
+    params: IUpdateProductVariant,
+  ) {
+    try {
+      const product = await this.findProduct(productId);
+      const variant = this.findVariant(product, variantId);
+      Object.assign(variant, params);
+      if (params.options !== undefined) {
+        this.assertOptions(product, variant.options);
+        this.assertComboIsFree(product, variant);
+      }
+      if (params.sku !== undefined) {
+        await this.assertSkuIsFree(variant.sku, variant.id);
+      }
+
+      const saved = await this.variantRepository.save(variant);
+      return {
+        message: 'Product variant updated successfully',
+        variant: saved,
+      };
+    } catch (error) {
+      this.rethrow(error, 'update the product variant');
+    }
+  }
+
+  async deleteVariant(productId: number, variantId: number) {
+    try {
+      const product = await this.findProduct(productId);
+      const variant = this.findVariant(product, variantId);
+      // Its reservation could no longer be released
+      if (Number(variant.reservedStock) > 0) {
+        this.conflict(
+          'This variant is held by pending orders; deactivate it instead',
+        );
+      }
+      await this.variantRepository.remove(variant);
+      return { message: 'Product variant deleted successfully' };
+    } catch (error) {
+      this.rethrow(error, 'delete the product variant');
+    }
+  }
+
+  /**
+   * Ids of the products with an active variant matching every `Name:Value`
+   * pair of `filter` (comma-separated, e.g. "Color:Red,Size:M").
+   */
+  async productIdsWithOptions(filter: string): Promise<number[]> {
+    const pairs = filter
+      .split(',')
+      .map((pair) => pair.trim())
+      .filter(Boolean)
+      .map((pair) => {
+        const separator = pair.indexOf(':');
+        const name = pair.slice(0, separator).trim();
+        const value = pair.slice(separator + 1).trim();
+        if (separator <= 0 || !OPTION_NAME_PATTERN.test(name) || !value) {
+          this.invalid(
+            'Query parameter "options" must look like options=Color:Red,Size:M',
+          );
+        }
+        return [name, value];
+      });
+    if (pairs.length === 0) {
+      this.invalid(
+        'Query parameter "options" must look like options=Color:Red,Size:M',
+      );
+    }
+
+    const query = this.variantRepository
+      .createQueryBuilder('variant')
+      .select('DISTINCT variant.productId', 'productId')
+      .where('variant.isActive = :active', { active: true });
+    pairs.forEach(([name, value], i) => {
+      query.andWhere(
+        `JSON_UNQUOTE(JSON_EXTRACT(variant.options, :path${i})) = :value${i}`,
+        { [`path${i}`]: `$."${name}"`, [`value${i}`]: value },
+      );
+    });
+    const rows = await query.getRawMany();
+    return rows.map((row) => Number(row.productId));
+  }
+}
@@ -1,8 +1,16 @@
 import { OrderItemDto } from 'src/orders/dtos/CreateOrderDto';
+import { OrderStatus } from 'src/orders/order-status';
+import { CouponType } from 'src/typeorm/entities/Coupon';
+import { ShippingMethodType } from 'src/typeorm/entities/ShippingMethod';
+import { ProductSort } from 'src/products/product-search';
+import { OrderSort, OrderView } from 'src/orders/order-listing';
+import { OrderExportColumn, OrderExportFormat } from 'src/orders/order-export';
 
 export interface ICreateCategory {
   name: string;
   imageUrl: string;
+  // Top-level without one
+  parentId?: number;
 }
 
 export interface IUpdateCategory {
@@ -12,18 +20,28 @@ export interface IUpdateCategory {
 
 export interface ICreateProduct {
   name: string;
+  sku?: string;
   description: string;
   price: number;
+  currency?: string;
   category: number;
   imageUrl?: string;
+  stock?: number;
+  taxClass?: string;
+  weightGrams?: number;
 }
 
 export interface IUpdateProduct {
   name?: string;
+  sku?: string;
   description?: string;
   price?: number;
+  currency?: string;
   category?: number;
   imageUrl?: string;
+  stock?: number;
+  taxClass?: string;
+  weightGrams?: number;
 }
 
 export interface ICreateUser {
@@ -42,8 +60,55 @@ export interface ICreateOrder {
   name?: string;
   userId: number;
   items?: OrderItemDto[];
+  shippingAddressId?: number;
+  billingAddressId?: number;
+  couponCode?: string;
+  shippingMethodId?: number;
+  currency?: string;
   totalAmount?: number;
-  status?: 'PENDING' | 'COMPLETED' | 'CANCELED';
+  status?: OrderStatus;
+}
+
+export interface IShippingAddress {
+  fullName: string;
+  line1: string;
+  line2?: string;
+  city: string;
+  region?: string;
+  postalCode: string;
+  country: string;
+  phone?: string;
+}
+
+export interface ICreateGuestOrder {
+  email: string;
+  name?: string;
+  items: OrderItemDto[];
+  shippingAddress: IShippingAddress;
+  billingAddress?: IShippingAddress;
+  couponCode?: string;
+  shippingMethodId?: number;
+  currency?: string;
+}
+
+export interface ICreateAddress extends IShippingAddress {
+  label?: string;
+  isDefaultShipping?: boolean;
+  isDefaultBilling?: boolean;
+}
+
+export interface IUpdateAddress {
+  label?: string;
+  fullName?: string;
+  line1?: string;
+  line2?: string;
+  city?: string;
+  region?: string;
+  postalCode?: string;
+  country?: string;
+  phone?: string;
+  isDefaultShipping?: boolean;
+  isDefaultBilling?: boolean;
 }
 
 export interface IUpdateOrder {
@@ -51,5 +116,210 @@ export interface IUpdateOrder {
   userId?: number;
   items?: OrderItemDto[];
   totalAmount?: number;
-  status?: 'PENDING' | 'COMPLETED' | 'CANCELED';
+  status?: OrderStatus;
+  statusReason?: string;
+}
+
+export interface IAddCartItem {
+  productId: number;
+  // Required for products that have variants
+  variantId?: number;
+  quantity: number;
+}
+
+export interface IUpdateCartItem {
+  // Picks the line when the product is in the cart in several variants
+  variantId?: number;
+  quantity: number;
+}
+
+export interface ICheckoutCart {
+  name?: string;
+  shippingAddressId?: number;
+  billingAddressId?: number;
+  couponCode?: string;
+  shippingMethodId?: number;
+  currency?: string;
+}
+
+export interface ICreateCoupon {
+  code: string;
+  type: CouponType;
+  value?: number;
+  minOrderValue?: number | null;
+  maxUses?: number | null;
+  maxUsesPerUser?: number | null;
+  startsAt?: string | null;
+  expiresAt?: string | null;
+  isActive?: boolean;
+  productIds?: number[];
+  categoryIds?: number[];
+}
+
+export interface IUpdateCoupon {
+  code?: string;
+  type?: CouponType;
+  value?: number;
+  minOrderValue?: number | null;
+  maxUses?: number | null;
+  maxUsesPerUser?: number | null;
+  startsAt?: string | null;
+  expiresAt?: string | null;
+  isActive?: boolean;
+  productIds?: number[];
+  categoryIds?: number[];
+}
+
+export interface ICreateTaxRate {
+  name: string;
+  country: string;
+  region?: string | null;
+  taxClass?: string;
+  rate: number;
+  inclusive?: boolean;
+}
+
+export interface IUpdateTaxRate {
+  name?: string;
+  country?: string;
+  region?: string | null;
+  taxClass?: string;
+  rate?: number;
+  inclusive?: boolean;
+}
+
+export interface ICreateShippingZone {
+  name: string;
+  countries: string[];
+}
+
+export interface IUpdateShippingZone {
+  name?: string;
+  countries?: string[];
+}
+
+export interface ICreateShippingMethod {
+  name: string;
+  type: ShippingMethodType;
+  rate?: number;
+  ratePerKg?: number | null;
+  freeOverAmount?: number | null;
+  isActive?: boolean;
+}
+
+export interface IUpdateShippingMethod {
+  name?: string;
+  type?: ShippingMethodType;
+  rate?: number;
+  ratePerKg?: number | null;
+  freeOverAmount?: number | null;
+  isActive?: boolean;
+}
+
+export interface IShippingQuoteQuery {
+  orderId?: number;
+  country?: string;
+}
+
+export interface ICreateExchangeRate {
+  currency: string;
+  rate: number;
+  effectiveFrom?: string;
+}
+
+export interface IImportExchangeRates {
+  base?: string;
+  effectiveFrom?: string;
+  rates: Record<string, number>;
+}
+
+export interface ICreateProductOption {
+  name: string;
+  values: string[];
+}
+
+export interface IUpdateProductOption {
+  name?: string;
+  values?: string[];
+}
+
+export interface ICreateProductVariant {
+  sku: string;
+  options: Record<string, string>;
+  price?: number | null;
+  stock?: number;
+  imageUrl?: string | null;
+  isActive?: boolean;
+}
+
+export interface IUpdateProductVariant {
+  sku?: string;
+  options?: Record<string, string>;
+  price?: number | null;
+  stock?: number;
+  imageUrl?: string | null;
+  isActive?: boolean;
+}
+
+export interface IUploadProductImage {
+  altText?: string;
+}
+
+export interface IUpdateProductImage {
+  altText?: string | null;
+  position?: number;
+}
+
+export interface IProductSearch {
+  q?: string;
+  categoryIds?: number[];
+  // Also match products in the subcategories of `categoryIds`
+  includeSubcategories?: boolean;
+  // Minor units, compared with the stored price
+  minPrice?: number;
+  maxPrice?: number;
+  inStock?: boolean;
+  sort?: ProductSort;
+  // Variant option filter, e.g. "Color:Red,Size:M"
+  options?: string;
+  page: number;
+  limit: number;
+  // Set (empty for the first page) to page by cursor instead of `page`
+  cursor?: string;
+}
+
+export interface ICursorPage {
+  // From a previous page's meta; empty or missing for the first page
+  cursor?: string;
+  limit: number;
+}
+
+export interface IOrderFilters {
+  statuses?: OrderStatus[];
+  // Created at or after `from` and at or before `to`
+  from?: Date;
+  to?: Date;
+  userId?: number;
+  // Part of the customer's or guest's email
+  email?: string;
+  // Minor units of each order's own currency
+  minTotal?: number;
+  maxTotal?: number;
+  // Orders with a line for this product
+  productId?: number;
+}
+
+export interface IOrderListQuery extends IOrderFilters {
+  sort?: OrderSort;
+  view?: OrderView;
+  page: number;
+  limit: number;
+  // Set (empty for the first page) to page by cursor instead of `page`
+  cursor?: string;
+}
+
+export interface IOrderExport extends IOrderFilters {
+  format: OrderExportFormat;
+  // Defaults to every column
+  columns?: OrderExportColumn[];
 }
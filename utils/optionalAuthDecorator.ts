@@ -0,0 +1,5 @@
+import { SetMetadata } from '@nestjs/common';
+
+// Route works without a login, but `req.user` is filled in when a valid access token is sent
+export const IS_OPTIONAL_AUTH_KEY = 'isOptionalAuth';
+export const OptionalAuth = () => SetMetadata(IS_OPTIONAL_AUTH_KEY, true);